@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getSession } from '@/appwrite/getSession';
+import { getAnalysisJob, processAnalysisJob } from '@/lib/analysis/analysisJobs';
+
+// The worker may run here (via after) when a deferred job becomes due
+export const maxDuration = 300;
+
+/**
+ * Analysis job status (polled by the submission UI)
+ * Requires the session of the user who submitted the job
+ *
+ * GET /api/analysis-jobs/:id
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+  const result = await getAnalysisJob(id, session.id);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Not Found', message: result.message },
+      { status: 404 }
+    );
+  }
+
+  // Resume jobs that were deferred (rate limits) or abandoned by a previous worker
+  if (result.claimable) {
+    after(() => processAnalysisJob(id));
+  }
+
+  return NextResponse.json(
+    { data: result.job },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
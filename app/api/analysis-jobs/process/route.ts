@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueAnalysisJobs } from '@/lib/analysis/analysisJobs';
+
+export const maxDuration = 300;
+
+/**
+ * Process due analysis jobs (for a scheduler / cron)
+ * Picks up jobs deferred by rate limits whose owners are no longer polling
+ * Requires Authorization: Bearer <ANALYSIS_JOBS_CRON_SECRET>
+ *
+ * POST /api/analysis-jobs/process
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.ANALYSIS_JOBS_CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+
+  if (!secret || authHeader !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or missing secret' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const processed = await processDueAnalysisJobs();
+    return NextResponse.json({ processed });
+  } catch (error: unknown) {
+    console.error('Failed to process analysis jobs:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Failed to process analysis jobs',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { encryptData } from '@/utils/encrypt';
 import { loginWithEmail } from '@/appwrite/emailAuth';
 import { getUserDocument } from '@/appwrite/getUserDocument';
+import { recordAuditLog } from '@/lib/audit/auditLogs';
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,6 +22,13 @@ export async function POST(request: NextRequest) {
     const result = await loginWithEmail(email, password);
 
     if (!result.success) {
+      await recordAuditLog({
+        action: 'user_login',
+        resourceType: 'user',
+        result: 'error',
+        errorMessage: result.message,
+        metadata: { method: 'email', email },
+      });
       return NextResponse.json(
         { success: false, message: result.message },
         { status: result.code || 401 }
@@ -57,6 +65,15 @@ export async function POST(request: NextRequest) {
       expires: timeToExpire,
     });
 
+    await recordAuditLog({
+      userId: result.userId,
+      action: 'user_login',
+      resourceType: 'user',
+      resourceId: result.userId,
+      result: 'success',
+      metadata: { method: 'email' },
+    });
+
     const redirect = userDoc ? `/auth/dashboard/${result.userId}` : '/';
 
     return NextResponse.json({
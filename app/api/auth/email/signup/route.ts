@@ -2,6 +2,7 @@ import { cookies } from 'next/headers';
 import { NextRequest, NextResponse } from 'next/server';
 import { encryptData } from '@/utils/encrypt';
 import { createEmailAccount } from '@/appwrite/emailAuth';
+import { recordAuditLog } from '@/lib/audit/auditLogs';
 
 export async function POST(request: NextRequest) {
   try {
@@ -58,6 +59,15 @@ export async function POST(request: NextRequest) {
       expires: timeToExpire,
     });
 
+    await recordAuditLog({
+      userId: result.userId,
+      action: 'user_login',
+      resourceType: 'user',
+      resourceId: result.userId,
+      result: 'success',
+      metadata: { method: 'email_signup' },
+    });
+
     // New users always go to home for onboarding
     return NextResponse.json({
       success: true,
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { encryptData } from '@/utils/encrypt';
 import { Client, Account, Users } from 'node-appwrite';
 import { getUserDocument } from '@/appwrite/getUserDocument';
+import { recordAuditLog } from '@/lib/audit/auditLogs';
 
 export async function GET(request: NextRequest) {
   // Get the actual origin from the request (works with any registered origin)
@@ -92,6 +93,15 @@ export async function GET(request: NextRequest) {
       expires: timeToExpire,
     });
 
+    await recordAuditLog({
+      userId,
+      action: 'user_login',
+      resourceType: 'user',
+      resourceId: userId,
+      result: 'success',
+      metadata: { method: 'google' },
+    });
+
     // Check if this is a popup-mode OAuth flow
     if (mode === 'popup') {
       const error = searchParams.get('error');
@@ -150,6 +160,14 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error('OAuth callback error:', error);
+    await recordAuditLog({
+      userId: request.nextUrl.searchParams.get('userId') || undefined,
+      action: 'user_login',
+      resourceType: 'user',
+      result: 'error',
+      errorMessage: error instanceof Error ? error.message : 'OAuth callback failed',
+      metadata: { method: 'google' },
+    });
 
     // Check if popup mode from the URL search params
     const popupMode = request.nextUrl.searchParams.get('mode') === 'popup';
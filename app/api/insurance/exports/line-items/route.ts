@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { exportLineItemsCsv } from '@/lib/export/claimExport';
+import { formatValidationError, lineItemExportQuerySchema } from '@/lib/api/schemas';
+
+/**
+ * Line item CSV of the adjuster's company (claims page)
+ *
+ * GET /api/insurance/exports/line-items?from=2025-01-01&to=2025-01-31
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  const userDoc = await getUserDocument(session.id);
+  if (!userDoc || userDoc.role !== 'insurance_adjuster' || !userDoc.insurance_company_id) {
+    return NextResponse.json(
+      { error: 'Forbidden', message: 'Only insurance adjusters can export claims' },
+      { status: 403 }
+    );
+  }
+
+  const query = lineItemExportQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!query.success) {
+    return NextResponse.json(
+      { error: 'Bad Request', message: formatValidationError(query.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await exportLineItemsCsv(userDoc.insurance_company_id, query.data);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Bad Request', message: result.message },
+        { status: 400 }
+      );
+    }
+
+    return new NextResponse(result.data, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="line-items-${query.data.from}-to-${query.data.to}.csv"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('❌ Failed to export line items:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', message: 'Failed to export line items' },
+      { status: 500 }
+    );
+  }
+}
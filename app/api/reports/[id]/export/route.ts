@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppwriteException } from 'node-appwrite';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { canReviewReport } from '@/lib/permissions';
+import { buildEstimateXml, buildReportBundle } from '@/lib/export/claimExport';
+import { fetchFullReportData } from '@/lib/types/appwrite';
+
+/**
+ * Report export for adjuster systems (report page)
+ * Reviewers of the report's company only: the JSON bundle includes the fraud assessment.
+ *
+ * GET /api/reports/:id/export?format=json|xml
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  const format = request.nextUrl.searchParams.get('format') ?? 'json';
+  if (format !== 'json' && format !== 'xml') {
+    return NextResponse.json(
+      { error: 'Bad Request', message: 'format must be json or xml' },
+      { status: 400 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const { databases } = await adminAction();
+    const data = await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, id);
+
+    const userDoc = await getUserDocument(session.id);
+    if (!canReviewReport(userDoc, data.report)) {
+      return NextResponse.json(
+        { error: 'Not Found', message: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    const filename = `report-${data.report.claim_number}.${format}`;
+    const body =
+      format === 'xml' ? buildEstimateXml(data) : JSON.stringify(await buildReportBundle(data), null, 2);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'xml' ? 'application/xml; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: unknown) {
+    if (error instanceof AppwriteException && error.code === 404) {
+      return NextResponse.json(
+        { error: 'Not Found', message: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    console.error('❌ Failed to export report:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', message: 'Failed to export report' },
+      { status: 500 }
+    );
+  }
+}
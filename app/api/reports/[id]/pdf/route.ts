@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppwriteException } from 'node-appwrite';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { canReviewReport } from '@/lib/permissions';
+import { generateReportPdf } from '@/lib/pdf/reportPdf';
+import { fetchFullReportData } from '@/lib/types/appwrite';
+
+/**
+ * Report PDF download (report page)
+ * Same access as the report page: the owner, reviewers of the report's company,
+ * or anyone for public reports. The fraud section is only included for reviewers.
+ *
+ * GET /api/reports/:id/pdf?currencySymbol=€
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const { databases } = await adminAction();
+    const data = await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, id);
+
+    const userDoc = await getUserDocument(session.id);
+    const canReview = canReviewReport(userDoc, data.report);
+    if (data.report.user_id !== session.id && !data.report.is_public && !canReview) {
+      return NextResponse.json(
+        { error: 'Not Found', message: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    const { pdf, filename } = await generateReportPdf(data, {
+      currencySymbol: request.nextUrl.searchParams.get('currencySymbol')?.slice(0, 3) || undefined,
+      includeFraudAssessment: canReview,
+    });
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: unknown) {
+    if (error instanceof AppwriteException && error.code === 404) {
+      return NextResponse.json(
+        { error: 'Not Found', message: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    console.error('❌ Failed to generate report PDF:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', message: 'Failed to generate report PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateApiRequest } from "@/lib/api/apiKeys";
+import { exportLineItemsCsv } from "@/lib/export/claimExport";
+import { formatValidationError, lineItemExportQuerySchema } from "@/lib/api/schemas";
+
+/**
+ * Public API: Line items of the API key's company reports as CSV
+ * Requires an API key with the reports:read scope. One row per priced damage
+ * line of each report submitted in the date range, oldest report first.
+ *
+ * GET /api/v1/exports/line-items.csv?from=2025-01-01&to=2025-01-31
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, "reports:read");
+  if (!auth.success) {
+    return NextResponse.json(
+      { error: auth.error, message: auth.message },
+      { status: auth.status, headers: auth.headers }
+    );
+  }
+
+  const query = lineItemExportQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!query.success) {
+    return NextResponse.json(
+      { error: "Bad Request", message: formatValidationError(query.error) },
+      { status: 400, headers: auth.headers }
+    );
+  }
+
+  try {
+    const result = await exportLineItemsCsv(auth.apiKey.insurance_company_id, query.data);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Bad Request", message: result.message },
+        { status: 400, headers: auth.headers }
+      );
+    }
+
+    return new NextResponse(result.data, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="line-items-${query.data.from}-to-${query.data.to}.csv"`,
+        "Cache-Control": "private, no-store",
+        ...auth.headers,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("❌ Failed to export line items:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error", message: "Failed to export line items" },
+      { status: 500, headers: auth.headers }
+    );
+  }
+}
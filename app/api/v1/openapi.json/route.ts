@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+/**
+ * Public API: OpenAPI 3.1 document for the v1 API
+ * No API key required. Generated from the shared zod schemas in lib/api/schemas.ts.
+ *
+ * GET /api/v1/openapi.json
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(`${request.nextUrl.origin}/api/v1`), {
+    headers: {
+      "Cache-Control": "public, max-age=300",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
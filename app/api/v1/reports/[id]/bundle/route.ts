@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminAction } from "@/appwrite/adminOrClient";
+import { DATABASE_ID, COLLECTION_IDS } from "@/lib/env";
+import { authenticateApiRequest } from "@/lib/api/apiKeys";
+import { buildReportBundle } from "@/lib/export/claimExport";
+import { fetchFullReportData } from "@/lib/types/appwrite";
+
+/**
+ * Public API: Report as a JSON bundle for adjuster systems
+ * Requires an API key with the reports:read scope. Report, priced line items,
+ * verification, policy and fraud assessments and the media manifest in one document.
+ *
+ * GET /api/v1/reports/[id]/bundle
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const auth = await authenticateApiRequest(request, "reports:read");
+  if (!auth.success) {
+    return NextResponse.json(
+      { error: auth.error, message: auth.message },
+      { status: auth.status, headers: auth.headers }
+    );
+  }
+
+  let data;
+  try {
+    const { databases } = await adminAction();
+    data = await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, id);
+  } catch {
+    data = null;
+  }
+
+  // Reports of other companies are reported as missing
+  if (!data || data.report.insurance_company_id !== auth.apiKey.insurance_company_id) {
+    return NextResponse.json(
+      { error: "Not Found", message: "Report not found" },
+      { status: 404, headers: auth.headers }
+    );
+  }
+
+  try {
+    const bundle = await buildReportBundle(data);
+    return NextResponse.json({ data: bundle }, { headers: auth.headers });
+  } catch (error: unknown) {
+    console.error("❌ Failed to export report bundle:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error", message: "Failed to export report" },
+      { status: 500, headers: auth.headers }
+    );
+  }
+}
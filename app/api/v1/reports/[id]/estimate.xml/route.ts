@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminAction } from "@/appwrite/adminOrClient";
+import { DATABASE_ID, COLLECTION_IDS } from "@/lib/env";
+import { authenticateApiRequest } from "@/lib/api/apiKeys";
+import { buildEstimateXml } from "@/lib/export/claimExport";
+import { fetchFullReportData } from "@/lib/types/appwrite";
+
+/**
+ * Public API: Report as an XML estimate
+ * Requires an API key with the reports:read scope. One line item per priced
+ * damage line, with adjuster overrides applied.
+ *
+ * GET /api/v1/reports/[id]/estimate.xml
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const auth = await authenticateApiRequest(request, "reports:read");
+  if (!auth.success) {
+    return NextResponse.json(
+      { error: auth.error, message: auth.message },
+      { status: auth.status, headers: auth.headers }
+    );
+  }
+
+  let data;
+  try {
+    const { databases } = await adminAction();
+    data = await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, id);
+  } catch {
+    data = null;
+  }
+
+  // Reports of other companies are reported as missing
+  if (!data || data.report.insurance_company_id !== auth.apiKey.insurance_company_id) {
+    return NextResponse.json(
+      { error: "Not Found", message: "Report not found" },
+      { status: 404, headers: auth.headers }
+    );
+  }
+
+  return new NextResponse(buildEstimateXml(data), {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Content-Disposition": `attachment; filename="estimate-${data.report.claim_number}.xml"`,
+      "Cache-Control": "private, no-store",
+      ...auth.headers,
+    },
+  });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminAction } from "@/appwrite/adminOrClient";
+import { DATABASE_ID, COLLECTION_IDS } from "@/lib/env";
+import { authenticateApiRequest } from "@/lib/api/apiKeys";
+import { generateReportPdf } from "@/lib/pdf/reportPdf";
+import { fetchFullReportData } from "@/lib/types/appwrite";
+
+/**
+ * Public API: Report as a branded PDF
+ * Requires an API key with the reports:read scope. Rendered with the company's
+ * report template (logo, colors, footer disclaimer).
+ *
+ * GET /api/v1/reports/[id]/pdf
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const auth = await authenticateApiRequest(request, "reports:read");
+  if (!auth.success) {
+    return NextResponse.json(
+      { error: auth.error, message: auth.message },
+      { status: auth.status, headers: auth.headers }
+    );
+  }
+
+  let data;
+  try {
+    const { databases } = await adminAction();
+    data = await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, id);
+  } catch {
+    data = null;
+  }
+
+  // Reports of other companies are reported as missing
+  if (!data || data.report.insurance_company_id !== auth.apiKey.insurance_company_id) {
+    return NextResponse.json(
+      { error: "Not Found", message: "Report not found" },
+      { status: 404, headers: auth.headers }
+    );
+  }
+
+  try {
+    const { pdf, filename } = await generateReportPdf(data);
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+        ...auth.headers,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("❌ Failed to generate report PDF:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error", message: "Failed to generate report PDF" },
+      { status: 500, headers: auth.headers }
+    );
+  }
+}
@@ -1,17 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminAction } from "@/appwrite/adminOrClient";
 import { DATABASE_ID, COLLECTION_IDS } from "@/lib/env";
+import { authenticateApiRequest } from "@/lib/api/apiKeys";
+import { formatReportResponse } from "@/lib/api/reportResponse";
 import { fetchFullReportData } from "@/lib/types/appwrite";
-import type {
-  ReportDocument,
-  ReportDamageDetailDocument,
-  ReportVehicleVerificationDocument,
-  ReportAssessmentDocument,
-} from "@/lib/types/appwrite";
 
 /**
  * Public API: Get report by ID
- * Requires API key via Authorization header or ?api_key query param
+ * Requires an API key with the reports:read scope via Authorization: Bearer header.
+ * Only reports filed with the key's insurance company are returned.
  *
  * GET /api/v1/reports/[id]
  */
@@ -22,11 +19,11 @@ export async function GET(
   const { id } = await params;
 
   // Validate API key
-  const apiKey = extractApiKey(request);
-  if (!apiKey || apiKey !== process.env.VEHICLECLAIM_API_KEY) {
+  const auth = await authenticateApiRequest(request, "reports:read");
+  if (!auth.success) {
     return NextResponse.json(
-      { error: "Unauthorized", message: "Invalid or missing API key" },
-      { status: 401 }
+      { error: auth.error, message: auth.message },
+      { status: auth.status, headers: auth.headers }
     );
   }
 
@@ -39,17 +36,18 @@ export async function GET(
       id
     );
 
-    // Only allow access to public reports via API
-    if (!data.report.is_public) {
+    // Reports of other companies are reported as missing
+    if (data.report.insurance_company_id !== auth.apiKey.insurance_company_id) {
       return NextResponse.json(
-        { error: "Forbidden", message: "Report is not publicly accessible" },
-        { status: 403 }
+        { error: "Not Found", message: "Report not found" },
+        { status: 404 }
       );
     }
 
-    return NextResponse.json({
-      data: formatReportResponse(data),
-    });
+    return NextResponse.json(
+      { data: formatReportResponse(data) },
+      { headers: auth.headers }
+    );
   } catch (error: unknown) {
     const message =
       error instanceof Error ? error.message : "Report not found";
@@ -59,88 +57,3 @@ export async function GET(
     );
   }
 }
-
-function extractApiKey(request: NextRequest): string | null {
-  // Check Authorization: Bearer <key>
-  const authHeader = request.headers.get("authorization");
-  if (authHeader?.startsWith("Bearer ")) {
-    return authHeader.slice(7);
-  }
-  // Check query param
-  return request.nextUrl.searchParams.get("api_key");
-}
-
-function formatReportResponse(data: {
-  report: ReportDocument;
-  damageDetails: ReportDamageDetailDocument[];
-  vehicleVerification: ReportVehicleVerificationDocument | null;
-  assessment: ReportAssessmentDocument | null;
-}) {
-  const { report, damageDetails, vehicleVerification, assessment } = data;
-
-  const visibleDamages = damageDetails.filter((d) => !d.is_inferred);
-  const inferredDamages = damageDetails.filter((d) => d.is_inferred);
-
-  return {
-    id: report.$id,
-    claimNumber: report.claim_number,
-    status: report.claim_status,
-    createdAt: report.analysis_timestamp,
-    damage: {
-      type: report.damage_type,
-      cause: report.damage_cause,
-      overallSeverity: report.overall_severity,
-      repairComplexity: report.estimated_repair_complexity,
-      estimatedTotalCost: report.estimated_total_repair_cost,
-      confidenceScore: report.confidence_score,
-      parts: visibleDamages.map((d) => ({
-        name: d.part_name,
-        severity: d.severity,
-        description: d.description,
-        estimatedCost: d.estimated_repair_cost,
-        repairOrReplace: d.repair_or_replace || null,
-        repairOrReplaceReason: d.repair_or_replace_reason || null,
-      })),
-      inferredInternalDamages: inferredDamages.map((d) => ({
-        component: d.part_name,
-        likelihood: d.inferred_likelihood,
-        description: d.description,
-        basedOn: d.inferred_based_on,
-      })),
-    },
-    vehicleVerification: vehicleVerification
-      ? {
-          status: vehicleVerification.verification_status,
-          confidenceScore: vehicleVerification.confidence_score,
-          videoVehicle: {
-            make: vehicleVerification.video_make,
-            model: vehicleVerification.video_model,
-            year: vehicleVerification.video_year,
-            color: vehicleVerification.video_color,
-          },
-          policyVehicle: {
-            make: vehicleVerification.policy_make,
-            model: vehicleVerification.policy_model,
-            year: vehicleVerification.policy_year,
-            color: vehicleVerification.policy_color,
-          },
-        }
-      : null,
-    financials: assessment
-      ? {
-          totalRepairEstimate: assessment.total_repair_estimate,
-          coveredAmount: assessment.covered_amount,
-          deductible: assessment.deductible,
-          nonCoveredItems: assessment.non_covered_items,
-          estimatedPayout: assessment.estimated_payout,
-          assessmentStatus: assessment.assessment_status,
-        }
-      : null,
-    investigation: {
-      needed: report.investigation_needed,
-      reason: report.investigation_reason || null,
-    },
-    safetyConcerns: report.safety_concerns || [],
-    recommendedActions: report.recommended_actions || [],
-  };
-}
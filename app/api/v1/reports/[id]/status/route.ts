@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { processAnalysisJob } from "@/lib/analysis/analysisJobs";
+import { authenticateApiRequest } from "@/lib/api/apiKeys";
+import type { ApiSubmissionStatusResponse } from "@/lib/api/schemas";
+import { getApiSubmissionStatus } from "@/lib/api/submissions";
+
+// The worker may run here (via after) when a deferred submission becomes due
+export const maxDuration = 300;
+
+/**
+ * Public API: Analysis status of a submitted report
+ * Requires an API key with the reports:read or reports:write scope.
+ * Only submissions made with the key's insurance company are found.
+ *
+ * GET /api/v1/reports/[id]/status
+ *
+ * status is one of queued, scanning, analyzing, uploading, persisted (report
+ * available at /api/v1/reports/[id]) or failed (see message).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const auth = await authenticateApiRequest(request, ["reports:read", "reports:write"]);
+  if (!auth.success) {
+    return NextResponse.json(
+      { error: auth.error, message: auth.message },
+      { status: auth.status, headers: auth.headers }
+    );
+  }
+
+  try {
+    const submission = await getApiSubmissionStatus(id, auth.apiKey.insurance_company_id);
+    if (!submission) {
+      return NextResponse.json(
+        { error: "Not Found", message: "Submission not found" },
+        { status: 404 }
+      );
+    }
+
+    // Resume submissions deferred by rate limits or abandoned by a previous worker
+    // (processAnalysisJob skips jobs that are not due)
+    if (submission.status !== "persisted" && submission.status !== "failed") {
+      after(() => processAnalysisJob(submission.jobId));
+    }
+
+    return NextResponse.json<ApiSubmissionStatusResponse>(
+      {
+        data: {
+          id: submission.reportId,
+          status: submission.status,
+          nextAttemptAt: submission.nextAttemptAt ?? null,
+          claimNumber: submission.claimNumber ?? null,
+          reportUrl:
+            submission.status === "persisted"
+              ? `${request.nextUrl.origin}/api/v1/reports/${submission.reportId}`
+              : null,
+          message: submission.status === "failed" ? submission.message ?? null : null,
+        },
+      },
+      { headers: { ...auth.headers, "Cache-Control": "no-store" } }
+    );
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        error: "Internal Server Error",
+        message: error instanceof Error ? error.message : "Failed to fetch submission status",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,58 +1,59 @@
-import { NextRequest, NextResponse } from "next/server";
-import { adminAction } from "@/appwrite/adminOrClient";
-import { DATABASE_ID, COLLECTION_IDS } from "@/lib/env";
-import { Query } from "node-appwrite";
-import type { ReportDocument } from "@/lib/types/appwrite";
+import { NextRequest, NextResponse, after } from "next/server";
+import { enqueueAnalysisJob, processAnalysisJob } from "@/lib/analysis/analysisJobs";
+import { ID } from "node-appwrite";
+import { authenticateApiRequest } from "@/lib/api/apiKeys";
+import {
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  completeIdempotencyKey,
+  hashSubmissionFile,
+  hashSubmissionRequest,
+  isCompanyPolicyFile,
+  releaseIdempotencyKey,
+  reserveIdempotencyKey,
+} from "@/lib/api/submissions";
+import { conditionalJson } from "@/lib/api/etag";
+import { listCompanyReports } from "@/lib/api/reportList";
+import { formatValidationError, reportListQuerySchema } from "@/lib/api/schemas";
+import { normalizeIncidentDetails, type IncidentDetails } from "@/lib/incident";
+
+// The analysis worker starts here (via after) once the submission is accepted
+export const maxDuration = 300;
 
 /**
- * Public API: List public reports
- * Requires API key via Authorization header or ?api_key query param
+ * Public API: List the API key's company reports
+ * Requires an API key with the reports:read scope via Authorization: Bearer header
+ *
+ * GET /api/v1/reports?status=pending,analyzed&sort=-estimatedTotalCost&fields=id,status,financials&limit=20
  *
- * GET /api/v1/reports?limit=20&offset=0
+ * Query params are defined by reportListQuerySchema (lib/api/schemas.ts): filters
+ * (status, damageType, severity, investigationNeeded, createdAfter/Before, minCost/maxCost),
+ * sort, fields, and cursor (nextCursor of the previous page) or offset.
+ * Responses carry an ETag; send it back as If-None-Match to get 304 while the page is unchanged.
  */
 export async function GET(request: NextRequest) {
   // Validate API key
-  const apiKey = extractApiKey(request);
-  if (!apiKey || apiKey !== process.env.VEHICLECLAIM_API_KEY) {
+  const auth = await authenticateApiRequest(request, "reports:read");
+  if (!auth.success) {
     return NextResponse.json(
-      { error: "Unauthorized", message: "Invalid or missing API key" },
-      { status: 401 }
+      { error: auth.error, message: auth.message },
+      { status: auth.status, headers: auth.headers }
     );
   }
 
-  const { searchParams } = request.nextUrl;
-  const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100);
-  const offset = parseInt(searchParams.get("offset") || "0");
+  const query = reportListQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!query.success) {
+    return badRequest(formatValidationError(query.error));
+  }
 
   try {
-    const { databases } = await adminAction();
-
-    const result = await databases.listDocuments<ReportDocument>(
-      DATABASE_ID,
-      COLLECTION_IDS.REPORTS,
-      [
-        Query.equal("is_public", true),
-        Query.orderDesc("$createdAt"),
-        Query.limit(limit),
-        Query.offset(offset),
-      ]
-    );
+    const result = await listCompanyReports(auth.apiKey.insurance_company_id, query.data);
+    if (!result.success) {
+      return badRequest(result.message);
+    }
 
-    return NextResponse.json({
-      data: result.documents.map((report) => ({
-        id: report.$id,
-        claimNumber: report.claim_number,
-        status: report.claim_status,
-        damageType: report.damage_type,
-        overallSeverity: report.overall_severity,
-        estimatedTotalCost: report.estimated_total_repair_cost,
-        confidenceScore: report.confidence_score,
-        createdAt: report.analysis_timestamp,
-      })),
-      total: result.total,
-      limit,
-      offset,
-    });
+    return conditionalJson(request, result.data, auth.headers);
   } catch (error: unknown) {
     return NextResponse.json(
       {
@@ -64,10 +65,199 @@ export async function GET(request: NextRequest) {
   }
 }
 
-function extractApiKey(request: NextRequest): string | null {
-  const authHeader = request.headers.get("authorization");
-  if (authHeader?.startsWith("Bearer ")) {
-    return authHeader.slice(7);
+/**
+ * Public API: Submit a claim for analysis
+ * Requires an API key with the reports:write scope. Runs the same analysis job
+ * pipeline as the in-app submission and responds as soon as the files are stored.
+ *
+ * The report is filed with the key's insurance company and owned by the user who
+ * created the key; it counts against that user's daily evaluation limit.
+ *
+ * POST /api/v1/reports (multipart/form-data)
+ * - media: image files or a single video (required, repeatable)
+ * - supplementaryPhotos: extra photos sent alongside a video (optional, repeatable)
+ * - policy: policy PDF (optional)
+ * - policyId: file ID of a policy used on an earlier company report (optional, instead of policy)
+ * - country, currency, currencySymbol: localization for repair estimates (optional)
+ * - incident: JSON incident details - date, location, narrative, police report, parties, witnesses (optional, see lib/incident.ts)
+ *
+ * Send an Idempotency-Key header to make retries safe: a repeated request with the
+ * same key returns the original report ID instead of submitting the claim again.
+ *
+ * Responds 202 with { data: { id, status, statusUrl } }.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, "reports:write");
+  if (!auth.success) {
+    return NextResponse.json(
+      { error: auth.error, message: auth.message },
+      { status: auth.status, headers: auth.headers }
+    );
   }
-  return request.nextUrl.searchParams.get("api_key");
+  const { apiKey } = auth;
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return badRequest("Request body must be multipart/form-data");
+  }
+
+  const files = (field: string) =>
+    formData.getAll(field).filter((value): value is File => value instanceof File);
+  const text = (field: string) => {
+    const value = formData.get(field);
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  };
+
+  const mediaFiles = files("media");
+  const supplementaryPhotos = files("supplementaryPhotos");
+  const policyFile = files("policy")[0];
+  const policyId = text("policyId");
+  const userCountry = text("country");
+  const userCurrency = text("currency");
+  const userCurrencySymbol = text("currencySymbol");
+
+  if (mediaFiles.length === 0) {
+    return badRequest("At least one media file is required in the \"media\" field");
+  }
+  if (policyFile && policyId) {
+    return badRequest("Send either a policy file or a policyId, not both");
+  }
+
+  let incident: IncidentDetails | undefined;
+  const incidentJson = text("incident");
+  if (incidentJson) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(incidentJson);
+    } catch {
+      return badRequest("incident must be a JSON object");
+    }
+    const result = normalizeIncidentDetails(parsed);
+    if (result && "error" in result) {
+      return badRequest(result.error);
+    }
+    incident = result ?? undefined;
+  }
+
+  const idempotencyKey = request.headers.get("idempotency-key")?.trim() || undefined;
+  if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return badRequest(`Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+  }
+
+  let idempotencyRecordId: string | undefined;
+
+  try {
+    if (policyId && !(await isCompanyPolicyFile(apiKey.insurance_company_id, policyId))) {
+      return badRequest("Unknown policyId");
+    }
+
+    if (idempotencyKey) {
+      const describeFile = async (file: File) => [file.name, file.type, await hashSubmissionFile(file)];
+      const reservation = await reserveIdempotencyKey(
+        apiKey.insurance_company_id,
+        apiKey.$id,
+        idempotencyKey,
+        hashSubmissionRequest({
+          media: await Promise.all(mediaFiles.map(describeFile)),
+          supplementaryPhotos: await Promise.all(supplementaryPhotos.map(describeFile)),
+          policy: policyFile ? await describeFile(policyFile) : null,
+          policyId: policyId ?? null,
+          userCountry: userCountry ?? null,
+          userCurrency: userCurrency ?? null,
+          userCurrencySymbol: userCurrencySymbol ?? null,
+          ...(incident && { incident }),
+        })
+      );
+
+      if (reservation.status === "replay") {
+        return acceptedResponse(request, reservation.reportId, {
+          ...auth.headers,
+          "Idempotent-Replayed": "true",
+        });
+      }
+      if (reservation.status === "in_progress") {
+        return NextResponse.json(
+          { error: "Conflict", message: "A request with this Idempotency-Key is still being processed" },
+          { status: 409 }
+        );
+      }
+      if (reservation.status === "mismatch") {
+        return NextResponse.json(
+          {
+            error: "Unprocessable Entity",
+            message: "Idempotency-Key was already used for a different request",
+          },
+          { status: 422 }
+        );
+      }
+      idempotencyRecordId = reservation.recordId;
+    }
+
+    // Queuing reserves one of the key owner's daily evaluations
+    const reportId = ID.unique();
+    const result = await enqueueAnalysisJob(
+      {
+        userId: apiKey.created_by_user_id,
+        insuranceCompanyId: apiKey.insurance_company_id,
+        mediaFiles,
+        supplementaryPhotos: supplementaryPhotos.length > 0 ? supplementaryPhotos : undefined,
+        policyFile,
+        existingPolicyFileId: policyId,
+        useEnhancedAnalysis: !!policyFile || !!policyId,
+        userCountry,
+        userCurrency,
+        userCurrencySymbol,
+        incident,
+      },
+      { reservedReportId: reportId, apiKeyId: apiKey.$id }
+    );
+
+    if (!result.success) {
+      if (idempotencyRecordId) await releaseIdempotencyKey(idempotencyRecordId);
+      if (result.limitReached) {
+        return NextResponse.json(
+          { error: "Too Many Requests", message: result.message },
+          { status: 429 }
+        );
+      }
+      return badRequest(result.message || "Failed to submit report");
+    }
+
+    const jobId = result.jobId!;
+    if (idempotencyRecordId) {
+      await completeIdempotencyKey(idempotencyRecordId, { reportId, jobId });
+    }
+
+    // Start the worker once the response has been sent
+    after(() => processAnalysisJob(jobId));
+
+    return acceptedResponse(request, reportId, auth.headers);
+  } catch (error: unknown) {
+    if (idempotencyRecordId) await releaseIdempotencyKey(idempotencyRecordId);
+    return NextResponse.json(
+      {
+        error: "Internal Server Error",
+        message: error instanceof Error ? error.message : "Failed to submit report",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: "Bad Request", message }, { status: 400 });
+}
+
+function acceptedResponse(
+  request: NextRequest,
+  reportId: string,
+  headers: Record<string, string> = {}
+) {
+  const statusUrl = `${request.nextUrl.origin}/api/v1/reports/${reportId}/status`;
+  return NextResponse.json(
+    { data: { id: reportId, status: "accepted", statusUrl } },
+    { status: 202, headers: { Location: statusUrl, ...headers } }
+  );
 }
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { WIDGET_RESIZE_MESSAGE } from "@/lib/widget/reportWidget";
+
+/**
+ * Embeddable Widget: Loader script for the embedding page
+ * Resizes widget iframes to their content using the height each widget posts.
+ * No API key required.
+ *
+ * GET /api/v1/widget/embed.js
+ *
+ * Usage:
+ * <iframe src="EMBED_URL" data-vehicleclaim-widget width="100%"></iframe>
+ * <script src="https://yourapp.com/api/v1/widget/embed.js" async></script>
+ */
+export async function GET(request: NextRequest) {
+  const script = `(function () {
+  var widgetOrigin = ${JSON.stringify(request.nextUrl.origin)};
+  window.addEventListener("message", function (event) {
+    if (event.origin !== widgetOrigin) return;
+    var data = event.data;
+    if (!data || data.type !== ${JSON.stringify(WIDGET_RESIZE_MESSAGE)} || typeof data.height !== "number") return;
+    var frames = document.querySelectorAll("iframe[data-vehicleclaim-widget]");
+    for (var i = 0; i < frames.length; i++) {
+      if (frames[i].contentWindow === event.source) {
+        frames[i].style.height = data.height + "px";
+        frames[i].dispatchEvent(new CustomEvent("vehicleclaim:resize", { detail: data }));
+      }
+    }
+  });
+})();
+`;
+
+  return new Response(script, {
+    headers: {
+      "Content-Type": "application/javascript; charset=utf-8",
+      "Cache-Control": "public, max-age=3600",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminAction } from "@/appwrite/adminOrClient";
+import { DATABASE_ID, COLLECTION_IDS } from "@/lib/env";
+import { authenticateApiRequest } from "@/lib/api/apiKeys";
+import { createWidgetToken } from "@/lib/api/widgetTokens";
+import {
+  formatValidationError,
+  widgetTokenRequestSchema,
+  type ApiWidgetTokenResponse,
+} from "@/lib/api/schemas";
+import type { ReportDocument } from "@/lib/types/appwrite";
+
+/**
+ * Public API: Issue a widget token
+ * Requires an API key with the widget scope. Call this from your backend and pass
+ * the returned embedUrl to the browser, so the API key never reaches the page.
+ *
+ * POST /api/v1/widget/tokens
+ * Body: { reportId, origin, expiresIn?, locale?, currency?, theme? }
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, "widget");
+  if (!auth.success) {
+    return NextResponse.json(
+      { error: auth.error, message: auth.message },
+      { status: auth.status, headers: auth.headers }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest("Request body must be JSON");
+  }
+
+  const parsed = widgetTokenRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(formatValidationError(parsed.error));
+  }
+
+  try {
+    const { databases } = await adminAction();
+    const report = await databases
+      .getDocument<ReportDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.REPORTS,
+        parsed.data.reportId
+      )
+      .catch(() => null);
+
+    // Reports of other companies are reported as missing
+    if (!report || report.insurance_company_id !== auth.apiKey.insurance_company_id) {
+      return NextResponse.json(
+        { error: "Not Found", message: "Report not found" },
+        { status: 404, headers: auth.headers }
+      );
+    }
+
+    const { token, expiresAt } = await createWidgetToken(auth.apiKey, parsed.data);
+    const embedUrl = `${request.nextUrl.origin}/api/v1/widget/${report.$id}?token=${encodeURIComponent(token)}`;
+
+    return NextResponse.json<ApiWidgetTokenResponse>(
+      { data: { token, expiresAt: expiresAt.toISOString(), embedUrl } },
+      { status: 201, headers: { ...auth.headers, "Cache-Control": "no-store" } }
+    );
+  } catch (error: unknown) {
+    console.error("❌ Failed to issue widget token:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error", message: "Failed to issue widget token" },
+      { status: 500 }
+    );
+  }
+}
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: "Bad Request", message }, { status: 400 });
+}
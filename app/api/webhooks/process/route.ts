@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueWebhookDeliveries } from '@/lib/webhooks/deliveries';
+
+export const maxDuration = 300;
+
+/**
+ * Retry due webhook deliveries (for a scheduler / cron)
+ * Requires Authorization: Bearer <WEBHOOK_DELIVERIES_CRON_SECRET>
+ *
+ * POST /api/webhooks/process
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.WEBHOOK_DELIVERIES_CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+
+  if (!secret || authHeader !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or missing secret' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const processed = await processDueWebhookDeliveries();
+    return NextResponse.json({ processed });
+  } catch (error: unknown) {
+    console.error('Failed to process webhook deliveries:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Failed to process webhook deliveries',
+      },
+      { status: 500 }
+    );
+  }
+}
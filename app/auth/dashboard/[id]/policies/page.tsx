@@ -0,0 +1,54 @@
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Separator } from "@/components/ui/separator";
+import { SidebarInset, SidebarTrigger } from "@/components/ui/sidebar";
+import { NotificationBell } from "@/components/notifications/notification-bell";
+import { UserAvatarMenu } from "@/components/dashboardComponents/user-avatar-menu";
+import { PolicyLibrary } from "@/components/policies/policy-library";
+import Link from "next/link";
+
+export default async function PoliciesPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: userId } = await params;
+
+  return (
+    <SidebarInset>
+      <header className="flex h-16 shrink-0 items-center gap-2">
+        <div className="flex items-center gap-2 px-4 flex-1">
+          <SidebarTrigger className="-ml-1" />
+          <Separator
+            orientation="vertical"
+            className="mr-2 data-[orientation=vertical]:h-4"
+          />
+          <Breadcrumb>
+            <BreadcrumbList>
+              <BreadcrumbItem className="hidden md:block">
+                <BreadcrumbLink asChild>
+                  <Link href={`/auth/dashboard/${userId}`}>Dashboard</Link>
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator className="hidden md:block" />
+              <BreadcrumbItem>
+                <BreadcrumbPage>Policies</BreadcrumbPage>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+        </div>
+        <div className="flex items-center gap-1 pr-4">
+          <NotificationBell />
+          <UserAvatarMenu />
+        </div>
+      </header>
+
+      <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+        {/* Policies come from the dashboard layout's PolicyProvider */}
+        <PolicyLibrary />
+      </div>
+    </SidebarInset>
+  );
+}
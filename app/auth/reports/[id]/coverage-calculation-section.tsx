@@ -0,0 +1,93 @@
+import { Badge } from "@/components/ui/badge";
+import { CurrencyAmount } from "@/components/ui/currency-amount";
+import {
+  compareFinancialBreakdowns,
+  type CoverageCalculation,
+  type CoverageRule,
+} from "@/lib/policy/coverageCalculator";
+import type { FinancialBreakdown } from "@/lib/gemini/types";
+
+interface CoverageCalculationSectionProps {
+  calculation: CoverageCalculation;
+  modelBreakdown: FinancialBreakdown;
+}
+
+const RULE_LABELS: Record<CoverageRule, { text: string; color: string }> = {
+  covered: { text: "Covered", color: "bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300" },
+  pre_existing: { text: "Pre-existing", color: "bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300" },
+  excluded: { text: "Excluded", color: "bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300" },
+  not_covered: { text: "Not covered", color: "bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300" },
+  unpriced: { text: "No estimate", color: "bg-muted text-muted-foreground" },
+};
+
+const FIELD_LABELS: Record<keyof FinancialBreakdown, string> = {
+  totalRepairEstimate: "Total Estimate",
+  coveredAmount: "Covered Amount",
+  deductible: "Deductible",
+  nonCoveredItems: "Not Covered",
+  estimatedPayout: "Estimated Payout",
+};
+
+/**
+ * Breakdown computed from the policy next to the model's, with the rule applied to each
+ * damage line (reviewers only)
+ */
+export function CoverageCalculationSection({ calculation, modelBreakdown }: CoverageCalculationSectionProps) {
+  const differences = new Set(compareFinancialBreakdowns(modelBreakdown, calculation.breakdown).map((d) => d.field));
+
+  return (
+    <>
+      <div className="bg-muted px-4 py-2 border-y border-border">
+        <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+          Coverage Calculation
+        </h2>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          Computed from the {calculation.source === "policy_terms" ? "stored policy terms" : "policy as read by the AI"}, independent of the AI breakdown.
+        </p>
+      </div>
+      <div className="divide-y divide-border">
+        <div className="px-4 py-3">
+          <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground mb-1">
+            <span />
+            <span className="text-right">Calculated</span>
+            <span className="text-right">AI</span>
+          </div>
+          {(Object.keys(FIELD_LABELS) as Array<keyof FinancialBreakdown>).map((field) => (
+            <div key={field} className="grid grid-cols-3 gap-2 py-0.5 text-sm">
+              <span className="text-muted-foreground">{FIELD_LABELS[field]}</span>
+              <CurrencyAmount amount={calculation.breakdown[field]} className="text-right font-medium text-foreground" />
+              <CurrencyAmount
+                amount={modelBreakdown[field]}
+                className={differences.has(field) ? "text-right font-medium text-red-600 dark:text-red-400" : "text-right text-muted-foreground"}
+              />
+            </div>
+          ))}
+          {differences.size > 0 && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-2">
+              The AI breakdown does not match the policy calculation. Review before approving.
+            </p>
+          )}
+        </div>
+        {calculation.lines.map((line, index) => (
+          <div key={index} className="flex justify-between items-start gap-4 px-4 py-3">
+            <div className="min-w-0">
+              <span className="text-sm font-medium text-foreground">{line.part}</span>
+              {line.detail && <p className="text-xs text-muted-foreground mt-1">{line.detail}</p>}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <CurrencyAmount amount={line.amount} className="text-sm text-foreground" />
+              <Badge className={RULE_LABELS[line.rule].color}>{RULE_LABELS[line.rule].text}</Badge>
+            </div>
+          </div>
+        ))}
+        {calculation.trace.length > 0 && (
+          <ul className="px-4 py-3 space-y-1">
+            {calculation.trace.map((step, index) => (
+              <li key={index} className="text-xs text-muted-foreground">{step}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
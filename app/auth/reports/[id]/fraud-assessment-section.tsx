@@ -0,0 +1,253 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import type { ReportFraudAssessment } from "@/lib/types/appwrite";
+import type { FraudScoreFactor } from "@/lib/fraud/fraudScore";
+import type { RecycledMediaMatch } from "@/lib/media/recycledMedia";
+import type { MetadataForensicsResult } from "@/lib/gemini/types";
+
+interface FraudAssessmentSectionProps {
+  fraudAssessment: ReportFraudAssessment | null;
+  fraudScore?: number;
+  fraudFactors: FraudScoreFactor[];
+  recycledMedia: RecycledMediaMatch[];
+  metadataForensics: MetadataForensicsResult | null;
+}
+
+const RISK_COLORS: Record<string, string> = {
+  high: "bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300",
+  medium: "bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300",
+  low: "bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300",
+};
+
+const formatValue = (value: string) => value.replace(/_/g, " ");
+
+const formatMediaKind = (match: RecycledMediaMatch) =>
+  match.kind === "video_frame" ? `Video frame ${(match.frameIndex ?? 0) + 1}` : match.kind === "video" ? "Video" : "Photo";
+
+/**
+ * Fraud score and fraud checks of the analysis (reviewers only; never shown to claimants)
+ */
+export function FraudAssessmentSection({
+  fraudAssessment,
+  fraudScore,
+  fraudFactors,
+  recycledMedia,
+  metadataForensics,
+}: FraudAssessmentSectionProps) {
+  const { damageAge, contamination, rustCorrosion, preExistingDamage } = fraudAssessment ?? {};
+
+  const renderFinding = (label: string, badge: { text: string; color: string }, notes?: string) => (
+    <div className="flex justify-between items-start gap-4">
+      <div>
+        <span className="text-sm font-medium text-foreground">{label}</span>
+        {notes && <p className="text-sm text-muted-foreground mt-1">{notes}</p>}
+      </div>
+      <Badge className={badge.color}>{badge.text}</Badge>
+    </div>
+  );
+
+  const notDetected = { text: "Not detected", color: "bg-muted text-muted-foreground" };
+
+  return (
+    <>
+      <div className="bg-muted px-4 py-2 border-y border-border">
+        <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+          Fraud Assessment
+        </h2>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          Internal to your team. Not shown to the claimant.
+        </p>
+      </div>
+      <div className="divide-y divide-border">
+        {fraudScore != null && (
+          <div className="px-4 py-3">
+            {renderFinding("Fraud Score", {
+              text: `${fraudScore} / 100`,
+              color: fraudScore >= 60 ? RISK_COLORS.high : fraudScore >= 30 ? RISK_COLORS.medium : RISK_COLORS.low,
+            })}
+            {fraudFactors.length > 0 ? (
+              <ul className="mt-2 space-y-1">
+                {fraudFactors.map((factor) => (
+                  <li key={factor.rule} className="text-xs text-muted-foreground">
+                    <span className="font-medium">+{factor.points} {factor.label}</span>: {factor.detail}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground mt-2">No scoring rules applied.</p>
+            )}
+          </div>
+        )}
+
+        {recycledMedia.length > 0 && (
+          <div className="px-4 py-3">
+            {renderFinding(
+              "Recycled Media",
+              {
+                text: recycledMedia.some((match) => match.matchType === "exact") ? "Exact copy" : "Near-duplicate",
+                color: RISK_COLORS.high,
+              },
+              "Evidence of this report also appears in earlier claims."
+            )}
+            <ul className="mt-2 space-y-1">
+              {recycledMedia.map((match, index) => (
+                <li key={index} className="text-xs text-muted-foreground">
+                  <span className="font-medium">{formatMediaKind(match)}</span>
+                  {match.matchType === "exact" ? " is an exact copy of evidence in " : ` is a near-duplicate (${match.distance} bits apart) of evidence in `}
+                  {match.sameCompany ? (
+                    <Link href={`/auth/reports/${match.matchedReportId}`} className="underline">
+                      {match.matchedClaimNumber}
+                    </Link>
+                  ) : (
+                    "a claim filed with another insurer"
+                  )}
+                  {match.sameClaimant && " (same claimant)"}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {metadataForensics && (
+          <div className="px-4 py-3">
+            {renderFinding(
+              "Media Metadata",
+              metadataForensics.riskLevel
+                ? { text: `${metadataForensics.riskLevel} risk`, color: RISK_COLORS[metadataForensics.riskLevel] }
+                : { text: "No issues", color: "bg-muted text-muted-foreground" }
+            )}
+            {metadataForensics.flags.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {metadataForensics.flags.map((flag, index) => (
+                  <li key={index} className="text-xs text-muted-foreground">
+                    <span className="font-medium capitalize">{formatValue(flag.type)}</span>: {flag.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {metadataForensics.files.some((file) => file.hasMetadata) && (
+              <ul className="mt-2 space-y-1">
+                {metadataForensics.files.map((file, index) =>
+                  file.hasMetadata ? (
+                    <li key={index} className="text-xs text-muted-foreground">
+                      <span className="font-medium">File {index + 1}</span> ({file.format}):{" "}
+                      {[
+                        [file.make, file.model].filter(Boolean).join(" "),
+                        file.captureTime && `captured ${new Date(file.captureTime).toLocaleString()}`,
+                        file.software && `software ${file.software}`,
+                        file.gps && `GPS ${file.gps.latitude.toFixed(4)}, ${file.gps.longitude.toFixed(4)}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ") || "no camera details"}
+                    </li>
+                  ) : null
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {damageAge && (
+          <div className="px-4 py-3">
+            {renderFinding(
+              "Damage Age",
+              {
+                text: `${formatValue(damageAge.estimatedAge)} · ${Math.round(damageAge.confidenceScore * 100)}%`,
+                color:
+                  damageAge.estimatedAge === "weeks_old" || damageAge.estimatedAge === "months_old"
+                    ? RISK_COLORS.medium
+                    : "bg-muted text-muted-foreground",
+              },
+              damageAge.reasoning
+            )}
+            {damageAge.indicators.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {damageAge.indicators.map((indicator, index) => (
+                  <li key={index} className="text-xs text-muted-foreground">
+                    <span className="capitalize">{formatValue(indicator.type)}</span>: {indicator.observation}
+                    {indicator.ageImplication && ` (${indicator.ageImplication})`}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {preExistingDamage && (
+          <div className="px-4 py-3">
+            {renderFinding(
+              "Pre-existing Damage",
+              preExistingDamage.preExistingDamageDetected
+                ? {
+                    text: `${preExistingDamage.fraudRiskLevel} risk`,
+                    color: RISK_COLORS[preExistingDamage.fraudRiskLevel],
+                  }
+                : notDetected,
+              preExistingDamage.notes
+            )}
+            {preExistingDamage.preExistingItems.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {preExistingDamage.preExistingItems.map((item, index) => (
+                  <li key={index} className="text-xs text-muted-foreground">
+                    <span className="font-medium">{item.location}</span>: {item.damageType}, {item.ageEstimate}
+                    {item.relatedToClaimedIncident ? " (related to the claimed incident)" : " (unrelated to the claimed incident)"}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-muted-foreground mt-2">
+              Damage consistency: <span className="capitalize">{preExistingDamage.damageConsistency}</span>
+            </p>
+          </div>
+        )}
+
+        {rustCorrosion && (
+          <div className="px-4 py-3">
+            {renderFinding(
+              "Rust / Corrosion",
+              rustCorrosion.rustDetected
+                ? {
+                    text: rustCorrosion.fraudIndicator ? "Fraud indicator" : formatValue(rustCorrosion.overallCorrosionLevel),
+                    color: rustCorrosion.fraudIndicator ? RISK_COLORS.high : RISK_COLORS.low,
+                  }
+                : notDetected,
+              rustCorrosion.notes
+            )}
+            {rustCorrosion.corrosionAreas.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {rustCorrosion.corrosionAreas.map((area, index) => (
+                  <li key={index} className="text-xs text-muted-foreground">
+                    <span className="font-medium">{area.location}</span>: {formatValue(area.severity)}, {area.color}
+                    {area.estimatedAge && `, ${area.estimatedAge}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {contamination && (
+          <div className="px-4 py-3">
+            {renderFinding(
+              "Surface Contamination",
+              contamination.contaminationDetected
+                ? { text: `${contamination.fraudRiskLevel} risk`, color: RISK_COLORS[contamination.fraudRiskLevel] }
+                : notDetected,
+              contamination.notes
+            )}
+            {contamination.contaminants.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {contamination.contaminants.map((contaminant, index) => (
+                  <li key={index} className="text-xs text-muted-foreground">
+                    <span className="font-medium capitalize">{formatValue(contaminant.type)}</span> at {contaminant.location}
+                    {contaminant.obscuresDamage && " (obscures damage)"}: {contaminant.description}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
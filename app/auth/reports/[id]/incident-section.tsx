@@ -0,0 +1,121 @@
+import { Badge } from "@/components/ui/badge";
+import type { IncidentDetails } from "@/lib/incident";
+import type { IncidentAssessment } from "@/lib/gemini/types";
+
+interface IncidentSectionProps {
+  incident: IncidentDetails | null;
+  assessment: IncidentAssessment | null; // Only passed for reviewers
+}
+
+const CHECK_COLORS = {
+  pass: "bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300",
+  fail: "bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300",
+  unknown: "bg-muted text-muted-foreground",
+};
+
+const renderCheck = (value: boolean | null | undefined, passText: string, failText: string) =>
+  value === true ? (
+    <Badge className={CHECK_COLORS.pass}>{passText}</Badge>
+  ) : value === false ? (
+    <Badge className={CHECK_COLORS.fail}>{failText}</Badge>
+  ) : (
+    <Badge className={CHECK_COLORS.unknown}>Not checked</Badge>
+  );
+
+/**
+ * The claimant's account of the incident and, for reviewers, how it compares with the damage and policy period
+ */
+export function IncidentSection({ incident, assessment }: IncidentSectionProps) {
+  const renderRow = (label: string, value: string | null) =>
+    value && (
+      <div className="flex justify-between items-start gap-4 px-4 py-3">
+        <span className="text-sm text-muted-foreground shrink-0">{label}</span>
+        <span className="text-sm font-medium text-foreground text-right">{value}</span>
+      </div>
+    );
+
+  const policyPeriod = assessment?.policyPeriod
+    ? `${assessment.policyPeriod.start ?? "?"} to ${assessment.policyPeriod.end ?? "?"}`
+    : null;
+
+  return (
+    <>
+      <div className="bg-muted px-4 py-2 border-y border-border">
+        <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+          Incident Details
+        </h2>
+      </div>
+      <div className="divide-y divide-border">
+        {incident && (
+          <>
+            {renderRow(
+              "Date and time",
+              incident.occurredAt &&
+                new Date(incident.occurredAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+            )}
+            {renderRow("Location", incident.location)}
+            {renderRow("Police report", incident.policeReportNumber)}
+            {incident.narrative && (
+              <div className="px-4 py-3">
+                <span className="text-sm text-muted-foreground">What happened</span>
+                <p className="text-sm text-foreground mt-1 whitespace-pre-line">{incident.narrative}</p>
+              </div>
+            )}
+            {incident.otherParties.length > 0 && (
+              <div className="px-4 py-3">
+                <span className="text-sm text-muted-foreground">Other parties</span>
+                <ul className="mt-1 space-y-1">
+                  {incident.otherParties.map((party, index) => (
+                    <li key={index} className="text-sm text-foreground">
+                      {[party.name, party.vehicle, party.insurer && `insured by ${party.insurer}`, party.contact]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {incident.witnesses.length > 0 && (
+              <div className="px-4 py-3">
+                <span className="text-sm text-muted-foreground">Witnesses</span>
+                <ul className="mt-1 space-y-1">
+                  {incident.witnesses.map((witness, index) => (
+                    <li key={index} className="text-sm text-foreground">
+                      {[witness.name, witness.contact].filter(Boolean).join(" · ")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+
+        {assessment && (
+          <>
+            <div className="px-4 py-3">
+              <div className="flex justify-between items-start gap-4">
+                <span className="text-sm font-medium text-foreground">Narrative vs. damage</span>
+                {renderCheck(assessment.narrativeConsistent, "Consistent", "Mismatch")}
+              </div>
+              {assessment.narrativeNotes && (
+                <p className="text-sm text-muted-foreground mt-1">{assessment.narrativeNotes}</p>
+              )}
+            </div>
+            <div className="px-4 py-3">
+              <div className="flex justify-between items-start gap-4">
+                <span className="text-sm font-medium text-foreground">Within policy period</span>
+                {renderCheck(assessment.incidentWithinPolicyPeriod, "Yes", "Outside period")}
+              </div>
+              {policyPeriod && <p className="text-sm text-muted-foreground mt-1">Policy period: {policyPeriod}</p>}
+            </div>
+            {assessment.notes && (
+              <div className="px-4 py-3">
+                <p className="text-sm text-muted-foreground">{assessment.notes}</p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  );
+}
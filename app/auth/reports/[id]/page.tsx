@@ -11,6 +11,23 @@ import { Image01Icon, File01Icon, AlertCircleIcon, ArrowLeft02Icon } from '@huge
 import { ReportActions } from './report-actions';
 import { ReportFeedbackButton } from './report-feedback-button';
 import { InferredDamagesSection } from './inferred-damages-section';
+import { FraudAssessmentSection } from './fraud-assessment-section';
+import { IncidentSection } from './incident-section';
+import { CoverageCalculationSection } from './coverage-calculation-section';
+import { PolicyCorrectionsSection } from './policy-corrections-section';
+import { ReportStatusDialog } from './report-status-dialog';
+import { ReportAdjustmentsDialog } from './report-adjustments-dialog';
+import { ReportComments } from './report-comments';
+import { getReportComments } from '@/appwrite/reportComments';
+import { getQueueMembers } from '@/appwrite/claimQueue';
+import { canReviewReport } from '@/lib/permissions';
+import { DECIDED_CLAIM_STATUSES, formatClaimStatus } from '@/lib/claimStatus';
+import { computeAdjustedFinancials } from '@/lib/claimAdjustments';
+import { parseFraudScoreFactors } from '@/lib/fraud/fraudScore';
+import { parseRecycledMedia } from '@/lib/media/recycledMedia';
+import { parseMetadataForensics } from '@/lib/gemini/security/mediaMetadata';
+import { parseIncidentAssessment, parseIncidentDetails } from '@/lib/incident';
+import { parseCoverageCalculation } from '@/lib/policy/coverageCalculator';
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -51,21 +68,61 @@ export default async function ReportPage({ params }: ReportPageProps) {
     notFound();
   }
 
-  const { report, damageDetails: allDamageDetails, vehicleVerification, assessment, mediaFiles, policyFile } = reportResult.data;
+  const { report, damageDetails: allDamageDetails, vehicleVerification, assessment, fraudAssessment, fraudEvidence, mediaFiles, policyFile, statusHistory } = reportResult.data;
 
   const visibleDamages = allDamageDetails.filter(d => !d.is_inferred);
   const inferredDamages = allDamageDetails.filter(d => d.is_inferred);
+  const metadataForensics = parseMetadataForensics(fraudEvidence?.metadata_forensics_json);
+  const incident = parseIncidentDetails(assessment?.incident_json);
+  const incidentAssessment = parseIncidentAssessment(fraudEvidence?.incident_assessment_json);
+  const coverageCalculation = parseCoverageCalculation(assessment?.coverage_calculation_json);
 
   const isOwner = report.user_id === session.id;
   const isPublic = report.is_public;
 
-  if (!isOwner && !isPublic) {
+  // Fetch user document to check role for review and download permissions
+  const userDoc = await getUserDocumentCached(session.id);
+  const canReview = canReviewReport(userDoc, report);
+  const canDownloadFiles = userDoc?.role === 'insurance_adjuster' || userDoc?.role === 'admin';
+
+  if (!isOwner && !isPublic && !canReview) {
     redirect(`/auth/dashboard/${session.id}?error=unauthorized`);
   }
 
-  // Fetch user document to check role for download permissions
-  const userDoc = await getUserDocumentCached(session.id);
-  const canDownloadFiles = userDoc?.role === 'insurance_adjuster' || userDoc?.role === 'admin';
+  // Comments are shared with the owner and the reviewing team only
+  const canComment = isOwner || canReview;
+  const [commentsResult, membersResult] = await Promise.all([
+    canComment ? getReportComments(id) : null,
+    canReview ? getQueueMembers() : null,
+  ]);
+
+  // Adjuster overrides (AI values are kept alongside)
+  const canAdjust = canReview && !DECIDED_CLAIM_STATUSES.includes(report.claim_status ?? 'pending');
+  const aiTotal = assessment?.total_repair_estimate ?? report.estimated_total_repair_cost;
+  const isAdjusted = report.adjusted_total_repair_cost != null;
+  const adjusted = isAdjusted
+    ? computeAdjustedFinancials(aiTotal, assessment, visibleDamages, {
+        coveredAmount: assessment?.adjusted_covered_amount,
+        deductible: assessment?.adjusted_deductible,
+      })
+    : null;
+
+  // Adjusted amount with the AI original struck through when they differ
+  const renderAmount = (aiAmount: number, adjustedAmount: number | undefined, className: string) => (
+    <span className="flex items-baseline gap-2">
+      {adjustedAmount !== undefined && adjustedAmount !== aiAmount && (
+        <CurrencyAmount amount={aiAmount} className="text-xs text-muted-foreground line-through" />
+      )}
+      <CurrencyAmount amount={adjustedAmount ?? aiAmount} className={className} />
+    </span>
+  );
+
+  const actorRoleLabels: Record<string, string> = {
+    user: 'Claimant',
+    insurance_adjuster: 'Adjuster',
+    admin: 'Admin',
+    system: 'System',
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -158,6 +215,13 @@ export default async function ReportPage({ params }: ReportPageProps) {
           {/* Center — action buttons, mobile only */}
           <div className="flex items-center gap-3 sm:hidden">
             <ReportFeedbackButton reportId={report.$id} />
+            {canReview && (
+              <ReportStatusDialog
+                reportId={report.$id}
+                currentStatus={report.claim_status ?? 'pending'}
+                isPublic={report.is_public}
+              />
+            )}
             {canDownloadFiles && (
               <>
                 {mediaFiles.map((file, index) => (
@@ -178,15 +242,7 @@ export default async function ReportPage({ params }: ReportPageProps) {
                 )}
               </>
             )}
-            <ReportActions
-              reportData={{
-                report: report as unknown as Record<string, unknown>,
-                damageDetails: allDamageDetails as unknown as Record<string, unknown>[],
-                vehicleVerification: vehicleVerification as unknown as Record<string, unknown> | null,
-                assessment: assessment as unknown as Record<string, unknown> | null,
-                reportNumber: report.claim_number,
-              }}
-            />
+            <ReportActions reportId={report.$id} reportNumber={report.claim_number} />
           </div>
           {/* Right — notifications + avatar */}
           <div className="flex items-center gap-1 px-4 flex-1 justify-end">
@@ -218,6 +274,14 @@ export default async function ReportPage({ params }: ReportPageProps) {
               <div className="flex items-center gap-2 flex-wrap">
                 <ReportFeedbackButton reportId={report.$id} />
 
+                {canReview && (
+                  <ReportStatusDialog
+                    reportId={report.$id}
+                    currentStatus={report.claim_status ?? 'pending'}
+                    isPublic={report.is_public}
+                  />
+                )}
+
                 {/* Download Buttons - Only shown to insurance adjusters and admins */}
                 {canDownloadFiles && (
                   <>
@@ -250,15 +314,7 @@ export default async function ReportPage({ params }: ReportPageProps) {
                   </>
                 )}
 
-                <ReportActions
-                  reportData={{
-                    report: report as unknown as Record<string, unknown>,
-                    damageDetails: allDamageDetails as unknown as Record<string, unknown>[],
-                    vehicleVerification: vehicleVerification as unknown as Record<string, unknown> | null,
-                    assessment: assessment as unknown as Record<string, unknown> | null,
-                    reportNumber: report.claim_number,
-                  }}
-                />
+                <ReportActions reportId={report.$id} reportNumber={report.claim_number} />
 
                 {report.claim_status && report.claim_status !== 'pending' && (
                   <Badge className={getStatusColor(report.claim_status)}>
@@ -280,10 +336,11 @@ export default async function ReportPage({ params }: ReportPageProps) {
               </div>
               <div className="px-4 py-4 flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Total Estimated Cost</span>
-                <CurrencyAmount
-                  amount={report.estimated_total_repair_cost}
-                  className="text-lg font-bold text-foreground"
-                />
+                {renderAmount(
+                  report.estimated_total_repair_cost,
+                  adjusted?.totalRepairEstimate,
+                  'text-lg font-bold text-foreground'
+                )}
               </div>
               <div className="px-4 pb-3">
                 <p className="text-xs text-muted-foreground">
@@ -345,20 +402,29 @@ export default async function ReportPage({ params }: ReportPageProps) {
                 <div className="divide-y divide-border">
                   <div className="flex justify-between items-center px-4 py-3">
                     <span className="text-sm text-muted-foreground">Total Estimate</span>
-                    <CurrencyAmount amount={assessment.total_repair_estimate} className="text-sm font-medium text-foreground" />
+                    {renderAmount(assessment.total_repair_estimate, adjusted?.totalRepairEstimate, 'text-sm font-medium text-foreground')}
                   </div>
                   <div className="flex justify-between items-center px-4 py-3">
                     <span className="text-sm text-muted-foreground">Covered Amount</span>
-                    <CurrencyAmount amount={assessment.covered_amount} className="text-sm font-medium text-foreground" />
+                    {renderAmount(assessment.covered_amount, adjusted?.coveredAmount, 'text-sm font-medium text-foreground')}
                   </div>
                   <div className="flex justify-between items-center px-4 py-3">
                     <span className="text-sm text-muted-foreground">Deductible</span>
-                    <CurrencyAmount amount={assessment.deductible} className="text-sm font-medium text-foreground" />
+                    {renderAmount(assessment.deductible, adjusted?.deductible, 'text-sm font-medium text-foreground')}
                   </div>
                   <div className="flex justify-between items-center px-4 py-3 bg-green-50 dark:bg-green-950/30">
                     <span className="text-sm font-semibold text-foreground">Estimated Payout</span>
-                    <CurrencyAmount amount={assessment.estimated_payout} className="text-sm font-bold text-green-600 dark:text-green-400" />
+                    {renderAmount(assessment.estimated_payout, adjusted?.estimatedPayout, 'text-sm font-bold text-green-600 dark:text-green-400')}
                   </div>
+                  {isAdjusted && (
+                    <div className="px-4 py-3">
+                      <p className="text-xs text-muted-foreground">
+                        Adjusted by an insurance adjuster
+                        {assessment.adjusted_at && ` on ${new Date(assessment.adjusted_at).toLocaleDateString()}`}.
+                        {assessment.adjustment_note && ` ${assessment.adjustment_note}`}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </>
             )}
@@ -522,67 +588,101 @@ export default async function ReportPage({ params }: ReportPageProps) {
             )}
 
             {/* Damaged Parts Section */}
-            {visibleDamages.length > 0 && (
+            {(visibleDamages.length > 0 || canAdjust) && (
               <>
                 <div className="bg-muted px-4 py-2 border-y border-border">
-                  <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
-                    Damaged Parts
-                  </h2>
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                      Damaged Parts
+                    </h2>
+                    {canAdjust && (
+                      <ReportAdjustmentsDialog
+                        reportId={report.$id}
+                        lines={visibleDamages}
+                        aiTotal={aiTotal}
+                        assessment={assessment}
+                      />
+                    )}
+                  </div>
                 </div>
                 <div className="divide-y divide-border">
-                  {visibleDamages.map((detail) => (
-                    <div key={detail.$id} className="px-4 py-3">
-                      <div className="flex items-center justify-between mb-1">
-                        <div className="flex items-center gap-2 min-w-0">
-                          <span className="text-sm font-medium text-foreground capitalize truncate">
-                            {detail.part_name}
-                          </span>
-                          {/* Price — desktop only */}
-                          {detail.estimated_repair_cost && (
-                            <span className="hidden sm:inline text-sm font-semibold text-muted-foreground">
-                              {detail.estimated_repair_cost}
+                  {visibleDamages.map((detail) => {
+                    const repairOrReplace = detail.adjusted_repair_or_replace ?? detail.repair_or_replace;
+                    const hasPrice = detail.adjusted_repair_cost != null || !!detail.estimated_repair_cost;
+                    const price = (
+                      <>
+                        {detail.adjusted_repair_cost != null ? (
+                          <>
+                            <CurrencyAmount amount={detail.adjusted_repair_cost} className="text-sm font-semibold text-foreground" />
+                            {detail.estimated_repair_cost && (
+                              <span className="text-xs text-muted-foreground line-through">{detail.estimated_repair_cost}</span>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-sm font-semibold text-muted-foreground">{detail.estimated_repair_cost}</span>
+                        )}
+                      </>
+                    );
+
+                    return (
+                      <div key={detail.$id} className={cn('px-4 py-3', detail.is_removed && 'opacity-60')}>
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <span className={cn('text-sm font-medium text-foreground capitalize truncate', detail.is_removed && 'line-through')}>
+                              {detail.part_name}
                             </span>
-                          )}
-                          {/* Recommendation — desktop only */}
-                          {detail.repair_or_replace && detail.repair_or_replace !== 'undetermined' && (
-                            <span className="hidden sm:inline text-sm text-muted-foreground">
-                              {detail.repair_or_replace}
-                            </span>
-                          )}
+                            {/* Price — desktop only */}
+                            {hasPrice && (
+                              <span className="hidden sm:inline-flex items-baseline gap-1.5">{price}</span>
+                            )}
+                            {/* Recommendation — desktop only */}
+                            {repairOrReplace && repairOrReplace !== 'undetermined' && (
+                              <span className="hidden sm:inline text-sm text-muted-foreground">
+                                {repairOrReplace}
+                                {detail.adjusted_repair_or_replace && detail.repair_or_replace && detail.adjusted_repair_or_replace !== detail.repair_or_replace && (
+                                  <span className="text-xs"> (AI: {detail.repair_or_replace})</span>
+                                )}
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1.5 shrink-0">
+                            {detail.is_removed && (
+                              <Badge variant="outline">Removed</Badge>
+                            )}
+                            {detail.is_adjuster_added && (
+                              <Badge variant="outline">Added by adjuster</Badge>
+                            )}
+                            <Badge className={getSeverityColor(detail.severity)}>
+                              {detail.severity}
+                            </Badge>
+                          </div>
                         </div>
-                        <div className="flex items-center gap-1.5 shrink-0">
-                          <Badge className={getSeverityColor(detail.severity)}>
-                            {detail.severity}
-                          </Badge>
-                        </div>
-                      </div>
 
-                      {/* Price + Recommendation — mobile only, same line */}
-                      {(detail.estimated_repair_cost || (detail.repair_or_replace && detail.repair_or_replace !== 'undetermined')) && (
-                        <div className="flex items-center gap-3 sm:hidden mt-0.5">
-                          {detail.estimated_repair_cost && (
-                            <span className="text-sm font-semibold text-muted-foreground">
-                              {detail.estimated_repair_cost}
-                            </span>
-                          )}
-                          {detail.repair_or_replace && detail.repair_or_replace !== 'undetermined' && (
-                            <span className="text-sm text-muted-foreground capitalize">
-                              {detail.repair_or_replace}
-                            </span>
-                          )}
-                        </div>
-                      )}
-
-                      {detail.description && (
-                        <p className="text-sm text-muted-foreground mt-1">{detail.description}</p>
-                      )}
-                      {detail.repair_or_replace_reason && (
-                        <p className="text-xs text-muted-foreground mt-1 italic">
-                          {detail.repair_or_replace_reason}
-                        </p>
-                      )}
-                    </div>
-                  ))}
+                        {/* Price + Recommendation — mobile only, same line */}
+                        {(hasPrice || (repairOrReplace && repairOrReplace !== 'undetermined')) && (
+                          <div className="flex items-center gap-3 sm:hidden mt-0.5">
+                            {hasPrice && (
+                              <span className="inline-flex items-baseline gap-1.5">{price}</span>
+                            )}
+                            {repairOrReplace && repairOrReplace !== 'undetermined' && (
+                              <span className="text-sm text-muted-foreground capitalize">
+                                {repairOrReplace}
+                              </span>
+                            )}
+                          </div>
+                        )}
+
+                        {detail.description && (
+                          <p className="text-sm text-muted-foreground mt-1">{detail.description}</p>
+                        )}
+                        {detail.repair_or_replace_reason && (
+                          <p className="text-xs text-muted-foreground mt-1 italic">
+                            {detail.repair_or_replace_reason}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               </>
             )}
@@ -598,6 +698,93 @@ export default async function ReportPage({ params }: ReportPageProps) {
                 }}
               />
             )}
+
+            {/* Incident Details Section - claimant and reviewers; the cross-check is reviewers only */}
+            {(isOwner || canReview) && (incident || (canReview && incidentAssessment)) && (
+              <IncidentSection incident={incident} assessment={canReview ? incidentAssessment : null} />
+            )}
+
+            {/* Policy Corrections Section - reviewers only */}
+            {canReview && policyFile?.termsChanges && policyFile.termsChanges.length > 0 && (
+              <PolicyCorrectionsSection correctedAt={policyFile.correctedAt} changes={policyFile.termsChanges} />
+            )}
+
+            {/* Coverage Calculation Section - reviewers only */}
+            {canReview && assessment && coverageCalculation && (
+              <CoverageCalculationSection
+                calculation={coverageCalculation}
+                modelBreakdown={{
+                  totalRepairEstimate: assessment.total_repair_estimate,
+                  coveredAmount: assessment.covered_amount,
+                  deductible: assessment.deductible,
+                  nonCoveredItems: assessment.non_covered_items,
+                  estimatedPayout: assessment.estimated_payout,
+                }}
+              />
+            )}
+
+            {/* Fraud Assessment Section - reviewers only */}
+            {canReview && (fraudAssessment || fraudEvidence?.fraud_score != null || metadataForensics) && (
+              <FraudAssessmentSection
+                fraudAssessment={fraudAssessment}
+                fraudScore={fraudEvidence?.fraud_score}
+                fraudFactors={parseFraudScoreFactors(fraudEvidence?.fraud_score_factors_json)}
+                recycledMedia={parseRecycledMedia(fraudEvidence?.recycled_media_json)}
+                metadataForensics={metadataForensics}
+              />
+            )}
+
+            {/* Status History Section */}
+            {statusHistory.length > 0 && (
+              <>
+                <div className="bg-muted px-4 py-2 border-y border-border">
+                  <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                    Status History
+                  </h2>
+                </div>
+                <ol className="divide-y divide-border">
+                  {[...statusHistory].reverse().map((entry) => (
+                    <li key={entry.$id} className="px-4 py-3">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          {entry.from_status ? (
+                            <>
+                              <span className="text-muted-foreground capitalize">
+                                {formatClaimStatus(entry.from_status)}
+                              </span>
+                              <span className="text-muted-foreground">→</span>
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">Submitted as</span>
+                          )}
+                          <Badge className={getStatusColor(entry.to_status)}>
+                            {formatStatus(entry.to_status)}
+                          </Badge>
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {actorRoleLabels[entry.actor_role] ?? entry.actor_role}
+                          {' · '}
+                          {new Date(entry.changed_at).toLocaleString()}
+                        </span>
+                      </div>
+                      {entry.reason && (
+                        <p className="text-sm text-muted-foreground mt-1">{entry.reason}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+
+            {/* Comments Section */}
+            {canComment && (
+              <ReportComments
+                reportId={report.$id}
+                comments={commentsResult?.comments ?? []}
+                members={membersResult?.members ?? []}
+                canReview={canReview}
+              />
+            )}
           </div>
         </div>
     </SidebarInset>
@@ -0,0 +1,30 @@
+interface PolicyCorrectionsSectionProps {
+  correctedAt?: string;
+  changes: string[];
+}
+
+/**
+ * Changes the policyholder made to the terms extracted from their policy (reviewers only)
+ * Analyses use the extracted terms; the corrections are for the reviewer to check against the PDF.
+ */
+export function PolicyCorrectionsSection({ correctedAt, changes }: PolicyCorrectionsSectionProps) {
+  return (
+    <>
+      <div className="bg-muted px-4 py-2 border-y border-border">
+        <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+          Policy Terms Corrected
+        </h2>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          The policyholder edited the extracted terms
+          {correctedAt && ` on ${new Date(correctedAt).toLocaleDateString(undefined, { dateStyle: "medium" })}`}.
+          Analyses use the terms extracted from the policy; check these changes against the document.
+        </p>
+      </div>
+      <ul className="px-4 py-3 space-y-1">
+        {changes.map((change, index) => (
+          <li key={index} className="text-sm text-amber-700 dark:text-amber-400">{change}</li>
+        ))}
+      </ul>
+    </>
+  );
+}
@@ -0,0 +1,435 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Add01Icon, Delete02Icon, Edit02Icon, Loading03Icon, Undo02Icon } from "@hugeicons/core-free-icons"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { adjustReport, type DamageLineAdjustment } from "@/appwrite/adjustReport"
+import { computeAdjustedFinancials, getAiLineCost } from "@/lib/claimAdjustments"
+import type { ReportAssessmentDocument, ReportDamageDetailDocument } from "@/lib/types/appwrite"
+
+type RepairOrReplace = NonNullable<ReportDamageDetailDocument["repair_or_replace"]>
+
+// Select value meaning "no override" (Radix Select items cannot use an empty value)
+const AI_VALUE = "ai"
+
+const REPAIR_OPTIONS: RepairOrReplace[] = ["repair", "replace", "either", "undetermined"]
+const SEVERITY_OPTIONS: ReportDamageDetailDocument["severity"][] = ["minor", "moderate", "severe", "total_loss"]
+
+interface LineEdit {
+  repairCost: string
+  repairOrReplace: string
+  removed: boolean
+}
+
+interface NewLineEdit {
+  key: number
+  partName: string
+  severity: ReportDamageDetailDocument["severity"]
+  repairCost: string
+  repairOrReplace: string
+}
+
+interface ReportAdjustmentsDialogProps {
+  reportId: string
+  /** Non-inferred damage lines, including removed and adjuster-added ones */
+  lines: ReportDamageDetailDocument[]
+  aiTotal: number
+  assessment: Pick<
+    ReportAssessmentDocument,
+    "covered_amount" | "deductible" | "adjusted_covered_amount" | "adjusted_deductible" | "adjustment_note"
+  > | null
+}
+
+const toInputValue = (value: number | undefined | null) => (value == null ? "" : String(value))
+const toAmount = (value: string) => (value.trim() === "" ? null : Number(value))
+
+export function ReportAdjustmentsDialog({ reportId, lines, aiTotal, assessment }: ReportAdjustmentsDialogProps) {
+  const router = useRouter()
+  const [open, setOpen] = React.useState(false)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [errorMessage, setErrorMessage] = React.useState("")
+
+  const initialEdits = React.useMemo(
+    () =>
+      Object.fromEntries(
+        lines.map((line) => [
+          line.$id,
+          {
+            repairCost: toInputValue(line.adjusted_repair_cost),
+            repairOrReplace: line.adjusted_repair_or_replace ?? AI_VALUE,
+            removed: !!line.is_removed,
+          },
+        ])
+      ) as Record<string, LineEdit>,
+    [lines]
+  )
+
+  const [lineEdits, setLineEdits] = React.useState(initialEdits)
+
+  // Pick up saved values after router.refresh()
+  React.useEffect(() => {
+    setLineEdits(initialEdits)
+  }, [initialEdits])
+
+  const [newLines, setNewLines] = React.useState<NewLineEdit[]>([])
+  const [coveredAmount, setCoveredAmount] = React.useState(toInputValue(assessment?.adjusted_covered_amount))
+  const [deductible, setDeductible] = React.useState(toInputValue(assessment?.adjusted_deductible))
+  const [note, setNote] = React.useState(assessment?.adjustment_note ?? "")
+
+  const resetForm = () => {
+    setLineEdits(initialEdits)
+    setNewLines([])
+    setCoveredAmount(toInputValue(assessment?.adjusted_covered_amount))
+    setDeductible(toInputValue(assessment?.adjusted_deductible))
+    setNote(assessment?.adjustment_note ?? "")
+    setErrorMessage("")
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) {
+      setTimeout(() => {
+        resetForm()
+      }, 150)
+    }
+  }
+
+  const updateLine = (id: string, changes: Partial<LineEdit>) => {
+    setLineEdits((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }))
+  }
+
+  const updateNewLine = (key: number, changes: Partial<NewLineEdit>) => {
+    setNewLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...changes } : line)))
+  }
+
+  const addNewLine = () => {
+    setNewLines((prev) => [
+      ...prev,
+      { key: Date.now(), partName: "", severity: "moderate", repairCost: "", repairOrReplace: AI_VALUE },
+    ])
+  }
+
+  // Live payout preview with the pending edits
+  const preview = computeAdjustedFinancials(
+    aiTotal,
+    assessment,
+    [
+      ...lines.map((line) => ({
+        ...line,
+        adjusted_repair_cost: toAmount(lineEdits[line.$id].repairCost) ?? undefined,
+        is_removed: lineEdits[line.$id].removed,
+      })),
+      ...newLines.map((line) => ({
+        is_adjuster_added: true,
+        adjusted_repair_cost: toAmount(line.repairCost) ?? 0,
+      })),
+    ],
+    { coveredAmount: toAmount(coveredAmount), deductible: toAmount(deductible) }
+  )
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setErrorMessage("")
+
+    const changedLines: DamageLineAdjustment[] = lines
+      .map((line) => {
+        const edit = lineEdits[line.$id]
+        const initial = initialEdits[line.$id]
+        const change: DamageLineAdjustment = { detailId: line.$id }
+
+        if (edit.repairCost !== initial.repairCost) change.repairCost = toAmount(edit.repairCost)
+        if (edit.repairOrReplace !== initial.repairOrReplace) {
+          change.repairOrReplace = edit.repairOrReplace === AI_VALUE ? null : (edit.repairOrReplace as RepairOrReplace)
+        }
+        if (edit.removed !== initial.removed) change.removed = edit.removed
+
+        return change
+      })
+      .filter((change) => Object.keys(change).length > 1)
+
+    if (newLines.some((line) => !line.partName.trim() || toAmount(line.repairCost) == null)) {
+      setErrorMessage("New damage lines need a part name and a repair cost")
+      return
+    }
+
+    setIsSubmitting(true)
+
+    const result = await adjustReport(reportId, {
+      lines: changedLines,
+      addedLines: newLines.map((line) => ({
+        partName: line.partName,
+        severity: line.severity,
+        repairCost: toAmount(line.repairCost) ?? 0,
+        repairOrReplace: line.repairOrReplace === AI_VALUE ? undefined : (line.repairOrReplace as RepairOrReplace),
+      })),
+      coveredAmount: assessment ? toAmount(coveredAmount) : undefined,
+      deductible: assessment ? toAmount(deductible) : undefined,
+      note: note.trim() || undefined,
+    })
+
+    setIsSubmitting(false)
+
+    if (result.success) {
+      setOpen(false)
+      setNewLines([])
+      router.refresh()
+    } else {
+      setErrorMessage(result.message || "Failed to save adjustments")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs">
+          <HugeiconsIcon icon={Edit02Icon} size={14} />
+          Adjust
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Adjust Estimate</DialogTitle>
+          <DialogDescription>
+            Overrides are stored alongside the AI estimate. Leave a price empty to use the AI value.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <div className="grid gap-2">
+            {lines.map((line) => {
+              const edit = lineEdits[line.$id]
+              return (
+                <div
+                  key={line.$id}
+                  className={`grid grid-cols-[1fr_7rem_8rem_auto] items-center gap-2 ${edit.removed ? "opacity-50" : ""}`}
+                >
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium capitalize truncate ${edit.removed ? "line-through" : ""}`}>
+                      {line.part_name}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {line.is_adjuster_added
+                        ? "Added by adjuster"
+                        : `AI: ${line.estimated_repair_cost || "no price"}${line.repair_or_replace ? ` · ${line.repair_or_replace}` : ""}`}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    inputMode="decimal"
+                    aria-label={`Repair cost for ${line.part_name}`}
+                    placeholder={String(getAiLineCost(line))}
+                    value={edit.repairCost}
+                    disabled={edit.removed}
+                    onChange={(e) => updateLine(line.$id, { repairCost: e.target.value })}
+                  />
+                  <Select
+                    value={edit.repairOrReplace}
+                    onValueChange={(value) => updateLine(line.$id, { repairOrReplace: value })}
+                    disabled={edit.removed}
+                  >
+                    <SelectTrigger className="w-full" aria-label={`Repair or replace for ${line.part_name}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AI_VALUE}>AI value</SelectItem>
+                      {REPAIR_OPTIONS.map((option) => (
+                        <SelectItem key={option} value={option} className="capitalize">
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-9 w-9 p-0"
+                    onClick={() => updateLine(line.$id, { removed: !edit.removed })}
+                  >
+                    <HugeiconsIcon icon={edit.removed ? Undo02Icon : Delete02Icon} size={16} />
+                    <span className="sr-only">{edit.removed ? "Restore" : "Remove"} {line.part_name}</span>
+                  </Button>
+                </div>
+              )
+            })}
+
+            {newLines.map((line) => (
+              <div key={line.key} className="grid grid-cols-[1fr_7rem_8rem_auto] items-center gap-2">
+                <div className="grid grid-cols-[1fr_7rem] gap-2">
+                  <Input
+                    placeholder="Part name"
+                    aria-label="New part name"
+                    maxLength={100}
+                    value={line.partName}
+                    onChange={(e) => updateNewLine(line.key, { partName: e.target.value })}
+                  />
+                  <Select
+                    value={line.severity}
+                    onValueChange={(value) =>
+                      updateNewLine(line.key, { severity: value as NewLineEdit["severity"] })
+                    }
+                  >
+                    <SelectTrigger className="w-full" aria-label="New part severity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SEVERITY_OPTIONS.map((option) => (
+                        <SelectItem key={option} value={option} className="capitalize">
+                          {option.replace(/_/g, " ")}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  inputMode="decimal"
+                  placeholder="Cost"
+                  aria-label="New part repair cost"
+                  value={line.repairCost}
+                  onChange={(e) => updateNewLine(line.key, { repairCost: e.target.value })}
+                />
+                <Select
+                  value={line.repairOrReplace}
+                  onValueChange={(value) => updateNewLine(line.key, { repairOrReplace: value })}
+                >
+                  <SelectTrigger className="w-full" aria-label="New part repair or replace">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AI_VALUE}>Not set</SelectItem>
+                    {REPAIR_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={option} className="capitalize">
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-9 w-9 p-0"
+                  onClick={() => setNewLines((prev) => prev.filter((l) => l.key !== line.key))}
+                >
+                  <HugeiconsIcon icon={Delete02Icon} size={16} />
+                  <span className="sr-only">Discard new part</span>
+                </Button>
+              </div>
+            ))}
+
+            <Button type="button" variant="outline" size="sm" className="justify-self-start" onClick={addNewLine}>
+              <HugeiconsIcon icon={Add01Icon} size={14} />
+              Add part
+            </Button>
+          </div>
+
+          {assessment && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="adjusted-covered-amount">Covered Amount</Label>
+                <Input
+                  id="adjusted-covered-amount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  inputMode="decimal"
+                  placeholder="Derived from lines"
+                  value={coveredAmount}
+                  onChange={(e) => setCoveredAmount(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="adjusted-deductible">Deductible</Label>
+                <Input
+                  id="adjusted-deductible"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  inputMode="decimal"
+                  placeholder={String(assessment.deductible)}
+                  value={deductible}
+                  onChange={(e) => setDeductible(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="adjustment-note">Note (optional)</Label>
+            <Textarea
+              id="adjustment-note"
+              placeholder="Why was the estimate adjusted?"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              rows={2}
+            />
+          </div>
+
+          <div className="rounded-md bg-muted px-3 py-2 text-sm grid grid-cols-2 gap-1">
+            <span className="text-muted-foreground">Total estimate</span>
+            <span className="text-right font-medium">{preview.totalRepairEstimate.toLocaleString("en-US")}</span>
+            {assessment && (
+              <>
+                <span className="text-muted-foreground">Covered amount</span>
+                <span className="text-right font-medium">{preview.coveredAmount.toLocaleString("en-US")}</span>
+                <span className="text-muted-foreground">Deductible</span>
+                <span className="text-right font-medium">{preview.deductible.toLocaleString("en-US")}</span>
+                <span className="font-semibold">Estimated payout</span>
+                <span className="text-right font-bold">{preview.estimatedPayout.toLocaleString("en-US")}</span>
+              </>
+            )}
+          </div>
+
+          {errorMessage && (
+            <p className="text-sm text-destructive">{errorMessage}</p>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && (
+                <HugeiconsIcon
+                  icon={Loading03Icon}
+                  className="mr-2 size-4 animate-spin"
+                />
+              )}
+              {isSubmitting ? "Saving..." : "Save Adjustments"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
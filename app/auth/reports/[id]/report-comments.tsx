@@ -0,0 +1,231 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Cancel01Icon, Loading03Icon, SquareLock02Icon } from "@hugeicons/core-free-icons"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { addReportComment } from "@/appwrite/reportComments"
+import type { ClaimQueueMember } from "@/appwrite/claimQueue"
+import type { ReportCommentDocument } from "@/lib/types/appwrite"
+
+const authorRoleLabels: Record<string, string> = {
+  user: "Claimant",
+  insurance_adjuster: "Adjuster",
+  admin: "Admin",
+}
+
+interface ReportCommentsProps {
+  reportId: string
+  comments: ReportCommentDocument[]
+  /** Insurance company team members that can be @mentioned (reviewers only) */
+  members: ClaimQueueMember[]
+  canReview: boolean
+}
+
+export function ReportComments({ reportId, comments, members, canReview }: ReportCommentsProps) {
+  const router = useRouter()
+  const [body, setBody] = React.useState("")
+  const [isInternal, setIsInternal] = React.useState(canReview)
+  const [replyTo, setReplyTo] = React.useState<ReportCommentDocument | null>(null)
+  const [mentions, setMentions] = React.useState<ClaimQueueMember[]>([])
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [errorMessage, setErrorMessage] = React.useState("")
+
+  const threads = comments.filter((comment) => !comment.parent_comment_id)
+  const repliesByParent = comments.reduce<Record<string, ReportCommentDocument[]>>((acc, comment) => {
+    if (comment.parent_comment_id) {
+      (acc[comment.parent_comment_id] ??= []).push(comment)
+    }
+    return acc
+  }, {})
+
+  // Replies inherit the thread's visibility
+  const visibility = replyTo ? replyTo.visibility : isInternal ? "internal" : "customer"
+
+  const handleMention = (userId: string) => {
+    const member = members.find((m) => m.userId === userId)
+    if (!member) return
+    setBody((current) => `${current}${current && !current.endsWith(" ") ? " " : ""}@${member.name} `)
+    setMentions((current) =>
+      current.some((m) => m.userId === member.userId) ? current : [...current, member]
+    )
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!body.trim()) {
+      setErrorMessage("Please write a comment")
+      return
+    }
+
+    setIsSubmitting(true)
+    setErrorMessage("")
+
+    // Drop mentions whose name was edited out of the text
+    const mentionedUserIds = mentions
+      .filter((member) => body.includes(`@${member.name}`))
+      .map((member) => member.userId)
+
+    const result = await addReportComment({
+      reportId,
+      body,
+      visibility,
+      parentCommentId: replyTo?.$id,
+      mentionedUserIds,
+    })
+
+    setIsSubmitting(false)
+
+    if (result.success) {
+      setBody("")
+      setMentions([])
+      setReplyTo(null)
+      router.refresh()
+    } else {
+      setErrorMessage(result.message || "Failed to post comment")
+    }
+  }
+
+  const renderComment = (comment: ReportCommentDocument, isReply = false) => (
+    <div key={comment.$id} className={isReply ? "ml-6 mt-3 border-l border-border pl-3" : ""}>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span className="text-sm font-medium text-foreground">
+          {comment.author_name || authorRoleLabels[comment.author_role]}
+        </span>
+        <span>{authorRoleLabels[comment.author_role] ?? comment.author_role}</span>
+        <span>·</span>
+        <span>{new Date(comment.$createdAt).toLocaleString()}</span>
+        {comment.visibility === "internal" && !isReply && (
+          <Badge variant="outline" className="gap-1">
+            <HugeiconsIcon icon={SquareLock02Icon} size={12} />
+            Internal
+          </Badge>
+        )}
+      </div>
+      <p className="text-sm mt-1 whitespace-pre-wrap break-words">{comment.body}</p>
+      {!isReply && (
+        <>
+          {(repliesByParent[comment.$id] ?? []).map((reply) => renderComment(reply, true))}
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 mt-1 text-xs"
+            onClick={() => setReplyTo(comment)}
+          >
+            Reply
+          </Button>
+        </>
+      )}
+    </div>
+  )
+
+  return (
+    <>
+      <div className="bg-muted px-4 py-2 border-y border-border">
+        <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+          {canReview ? "Notes & Messages" : "Messages"}
+        </h2>
+      </div>
+      <div className="divide-y divide-border">
+        {threads.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-muted-foreground">No comments yet.</p>
+        ) : (
+          threads.map((comment) => (
+            <div key={comment.$id} className="px-4 py-3">
+              {renderComment(comment)}
+            </div>
+          ))
+        )}
+
+        <form onSubmit={handleSubmit} className="grid gap-3 px-4 py-3">
+          {replyTo && (
+            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span className="truncate">
+                Replying to {replyTo.author_name || authorRoleLabels[replyTo.author_role]}
+                {replyTo.visibility === "internal" ? " (internal)" : ""}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => setReplyTo(null)}
+              >
+                <HugeiconsIcon icon={Cancel01Icon} size={12} />
+                <span className="sr-only">Cancel reply</span>
+              </Button>
+            </div>
+          )}
+          <Label htmlFor="report-comment" className="sr-only">Comment</Label>
+          <Textarea
+            id="report-comment"
+            placeholder={
+              visibility === "internal"
+                ? "Add an internal note for your team..."
+                : "Write a message visible to the claimant..."
+            }
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={5000}
+            rows={3}
+          />
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap items-center gap-3">
+              {canReview && !replyTo && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="report-comment-internal"
+                    checked={isInternal}
+                    onCheckedChange={setIsInternal}
+                  />
+                  <Label htmlFor="report-comment-internal" className="text-sm">
+                    Internal note
+                  </Label>
+                </div>
+              )}
+              {canReview && members.length > 0 && (
+                <Select value="" onValueChange={handleMention}>
+                  <SelectTrigger className="w-40" aria-label="Mention a team member">
+                    <SelectValue placeholder="@ Mention" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members.map((member) => (
+                      <SelectItem key={member.userId} value={member.userId}>
+                        {member.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <Button type="submit" size="sm" disabled={isSubmitting}>
+              {isSubmitting && (
+                <HugeiconsIcon
+                  icon={Loading03Icon}
+                  className="mr-2 size-4 animate-spin"
+                />
+              )}
+              {isSubmitting ? "Posting..." : replyTo ? "Reply" : "Post"}
+            </Button>
+          </div>
+          {errorMessage && (
+            <p className="text-sm text-destructive">{errorMessage}</p>
+          )}
+        </form>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,177 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import { HugeiconsIcon } from "@hugeicons/react"
+import { Exchange01Icon, Loading03Icon } from "@hugeicons/core-free-icons"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { updateReportStatus } from "@/appwrite/createReport"
+import {
+  CLAIM_STATUS_TRANSITIONS,
+  formatClaimStatus,
+  isTransitionReasonRequired,
+} from "@/lib/claimStatus"
+import type { ClaimStatus } from "@/lib/types/appwrite"
+
+interface ReportStatusDialogProps {
+  reportId: string
+  currentStatus: ClaimStatus
+  isPublic: boolean
+}
+
+export function ReportStatusDialog({ reportId, currentStatus, isPublic }: ReportStatusDialogProps) {
+  const router = useRouter()
+  const [open, setOpen] = React.useState(false)
+  const [nextStatus, setNextStatus] = React.useState<ClaimStatus | "">("")
+  const [reason, setReason] = React.useState("")
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [errorMessage, setErrorMessage] = React.useState("")
+
+  const allowedStatuses = CLAIM_STATUS_TRANSITIONS[currentStatus] ?? []
+  const reasonRequired = nextStatus !== "" && isTransitionReasonRequired(currentStatus, nextStatus)
+
+  const resetForm = () => {
+    setNextStatus("")
+    setReason("")
+    setErrorMessage("")
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) {
+      setTimeout(() => {
+        resetForm()
+      }, 150)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!nextStatus) {
+      setErrorMessage("Please select a new status")
+      return
+    }
+    if (reasonRequired && !reason.trim()) {
+      setErrorMessage("Please provide a reason for this change")
+      return
+    }
+
+    setIsSubmitting(true)
+    setErrorMessage("")
+
+    // Public visibility only applies to approved reports
+    const result = await updateReportStatus(
+      reportId,
+      nextStatus,
+      isPublic && nextStatus === "approved",
+      reason.trim() || undefined
+    )
+
+    setIsSubmitting(false)
+
+    if (result.success) {
+      handleOpenChange(false)
+      router.refresh()
+    } else {
+      setErrorMessage(result.message || "Failed to update status")
+    }
+  }
+
+  if (allowedStatuses.length === 0) return null
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-9 w-9 p-0">
+          <HugeiconsIcon icon={Exchange01Icon} size={16} />
+          <span className="sr-only">Change status</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change Claim Status</DialogTitle>
+          <DialogDescription>
+            Currently <span className="font-medium capitalize">{formatClaimStatus(currentStatus)}</span>.
+            The change is recorded in the report&apos;s status history.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="claim-status">New Status</Label>
+            <Select
+              value={nextStatus}
+              onValueChange={(value) => setNextStatus(value as ClaimStatus)}
+            >
+              <SelectTrigger id="claim-status" className="w-full">
+                <SelectValue placeholder="Select a status" />
+              </SelectTrigger>
+              <SelectContent>
+                {allowedStatuses.map((status) => (
+                  <SelectItem key={status} value={status} className="capitalize">
+                    {formatClaimStatus(status)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="claim-status-reason">
+              Reason{reasonRequired ? "" : " (optional)"}
+            </Label>
+            <Textarea
+              id="claim-status-reason"
+              placeholder="Explain why the status is changing..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+
+          {errorMessage && (
+            <p className="text-sm text-destructive">{errorMessage}</p>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && (
+                <HugeiconsIcon
+                  icon={Loading03Icon}
+                  className="mr-2 size-4 animate-spin"
+                />
+              )}
+              {isSubmitting ? "Saving..." : "Update Status"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
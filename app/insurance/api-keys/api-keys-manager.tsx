@@ -0,0 +1,260 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { Copy01Icon, Delete02Icon, Key01Icon, RefreshIcon } from "@hugeicons/core-free-icons";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  createApiKey,
+  revokeApiKey,
+  rotateApiKey,
+  type ApiKeySummary,
+} from "@/appwrite/apiKeys";
+import type { ApiKeyScope } from "@/lib/types/appwrite";
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  "reports:read": "List and read your company's reports",
+  "reports:write": "Submit new reports",
+  widget: "Issue tokens for the embeddable report widget",
+};
+
+interface ApiKeysManagerProps {
+  apiKeys: ApiKeySummary[];
+}
+
+export function ApiKeysManager({ apiKeys }: ApiKeysManagerProps) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["reports:read"]);
+  const [revealedKey, setRevealedKey] = useState<{ name: string; key: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [pendingRevoke, setPendingRevoke] = useState<ApiKeySummary | null>(null);
+  const [busyKeyId, setBusyKeyId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState("");
+
+  const toggleScope = (scope: ApiKeyScope, enabled: boolean) => {
+    setScopes((current) =>
+      enabled ? [...current, scope] : current.filter((s) => s !== scope)
+    );
+  };
+
+  const showKey = (keyName: string, key: string) => {
+    setRevealedKey({ name: keyName, key });
+    setCopied(false);
+    router.refresh();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError("");
+
+    const result = await createApiKey(name, scopes);
+
+    setIsCreating(false);
+    if (result.success && result.data) {
+      setName("");
+      showKey(result.data.apiKey.name, result.data.key);
+    } else {
+      setError(result.message || "Failed to create API key");
+    }
+  };
+
+  const handleRotate = async (apiKey: ApiKeySummary) => {
+    setBusyKeyId(apiKey.id);
+    setError("");
+
+    const result = await rotateApiKey(apiKey.id);
+
+    setBusyKeyId(null);
+    if (result.success && result.data) {
+      showKey(result.data.apiKey.name, result.data.key);
+    } else {
+      setError(result.message || "Failed to rotate API key");
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!pendingRevoke) return;
+    setBusyKeyId(pendingRevoke.id);
+    setError("");
+
+    const result = await revokeApiKey(pendingRevoke.id);
+
+    setBusyKeyId(null);
+    setPendingRevoke(null);
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.message || "Failed to revoke API key");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!revealedKey) return;
+    await navigator.clipboard.writeText(revealedKey.key);
+    setCopied(true);
+  };
+
+  return (
+    <div className="grid gap-4">
+      {revealedKey && (
+        <Card className="p-4 border-green-300 bg-green-50">
+          <p className="text-sm font-semibold mb-1">Your new key for &quot;{revealedKey.name}&quot;</p>
+          <p className="text-sm text-gray-600 mb-3">
+            Copy it now - it will not be shown again.
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={revealedKey.key} className="font-mono bg-white" />
+            <Button type="button" variant="outline" onClick={handleCopy}>
+              <HugeiconsIcon icon={Copy01Icon} />
+              {copied ? "Copied" : "Copy"}
+            </Button>
+          </div>
+          <Button
+            type="button"
+            variant="link"
+            className="h-auto p-0 mt-2 text-xs"
+            onClick={() => setRevealedKey(null)}
+          >
+            I&apos;ve stored it safely
+          </Button>
+        </Card>
+      )}
+
+      <Card className="p-6">
+        <form onSubmit={handleCreate} className="grid gap-4">
+          <h2 className="text-lg font-semibold">Create a Key</h2>
+          <div className="grid gap-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              placeholder="e.g. Claims portal integration"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={128}
+            />
+          </div>
+          <div className="grid gap-3">
+            <Label>Scopes</Label>
+            {(Object.keys(SCOPE_DESCRIPTIONS) as ApiKeyScope[]).map((scope) => (
+              <div key={scope} className="flex items-center gap-3">
+                <Switch
+                  id={`api-key-scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked)}
+                />
+                <Label htmlFor={`api-key-scope-${scope}`} className="font-normal">
+                  <span className="font-mono text-xs">{scope}</span>
+                  <span className="text-gray-600">{SCOPE_DESCRIPTIONS[scope]}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div>
+            <Button type="submit" disabled={isCreating || !name.trim() || scopes.length === 0}>
+              <HugeiconsIcon icon={Key01Icon} />
+              {isCreating ? "Creating..." : "Create Key"}
+            </Button>
+          </div>
+        </form>
+      </Card>
+
+      {apiKeys.length === 0 ? (
+        <Card className="p-12 text-center">
+          <h2 className="text-xl font-semibold mb-2">No API keys yet</h2>
+          <p className="text-gray-600">Create a key to start integrating with the v1 API.</p>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {apiKeys.map((apiKey) => (
+            <Card key={apiKey.id} className={apiKey.revokedAt ? "p-6 opacity-60" : "p-6"}>
+              <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-2 flex-wrap">
+                    <h3 className="text-lg font-semibold">{apiKey.name}</h3>
+                    <span className="font-mono text-sm text-gray-600">{apiKey.prefix}…</span>
+                    {apiKey.revokedAt && <Badge className="bg-red-100 text-red-800">Revoked</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {apiKey.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline" className="font-mono">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    Created {new Date(apiKey.createdAt).toLocaleDateString()}
+                    {' · '}
+                    {apiKey.lastUsedAt
+                      ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}`
+                      : 'Never used'}
+                    {apiKey.revokedAt && ` · Revoked ${new Date(apiKey.revokedAt).toLocaleDateString()}`}
+                  </div>
+                </div>
+                {!apiKey.revokedAt && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      disabled={busyKeyId === apiKey.id}
+                      onClick={() => handleRotate(apiKey)}
+                    >
+                      <HugeiconsIcon icon={RefreshIcon} />
+                      Rotate
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      disabled={busyKeyId === apiKey.id}
+                      onClick={() => setPendingRevoke(apiKey)}
+                    >
+                      <HugeiconsIcon icon={Delete02Icon} />
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog
+        open={!!pendingRevoke}
+        onOpenChange={(open) => { if (!open && !busyKeyId) setPendingRevoke(null); }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke API Key</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests using &quot;{pendingRevoke?.name}&quot; will be rejected immediately.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={!!busyKeyId}>Cancel</AlertDialogCancel>
+            <Button variant="destructive" onClick={handleRevoke} disabled={!!busyKeyId}>
+              {busyKeyId ? "Revoking..." : "Revoke Key"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ApiKeySummary } from "@/appwrite/apiKeys";
+import type { ApiUsageRow } from "@/lib/api/usage";
+import { API_KEY_LIMITS } from "@/lib/api/rateLimit";
+
+interface ApiUsageTableProps {
+  usage: ApiUsageRow[];
+  apiKeys: ApiKeySummary[];
+  days: number;
+}
+
+export function ApiUsageTable({ usage, apiKeys, days }: ApiUsageTableProps) {
+  const keyNames = new Map(apiKeys.map((apiKey) => [apiKey.id, `${apiKey.name} (${apiKey.prefix}…)`]));
+  const totalRequests = usage.reduce((sum, row) => sum + row.requests, 0);
+  const totalThrottled = usage.reduce((sum, row) => sum + row.throttled, 0);
+
+  const rows = [...usage].sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) ||
+      a.endpoint.localeCompare(b.endpoint) ||
+      b.requests - a.requests
+  );
+
+  return (
+    <Card className="p-6 mt-6">
+      <div className="mb-4 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold">Usage</h2>
+          <p className="text-sm text-gray-600">
+            Requests per endpoint over the last {days} days (UTC). Each key is limited to{" "}
+            {API_KEY_LIMITS.rpm} requests per minute and {API_KEY_LIMITS.rpd.toLocaleString()} per day.
+          </p>
+        </div>
+        <div className="text-sm text-gray-600 sm:text-right">
+          <span className="font-semibold text-gray-900">{totalRequests.toLocaleString()}</span> requests
+          {totalThrottled > 0 && (
+            <span className="text-amber-700"> · {totalThrottled.toLocaleString()} rate limited</span>
+          )}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-600">No API requests in this period.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Endpoint</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead className="text-right">Requests</TableHead>
+              <TableHead className="text-right">Rate Limited</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={`${row.date}:${row.apiKeyId}:${row.endpoint}`}>
+                <TableCell>{row.date}</TableCell>
+                <TableCell className="font-mono text-xs">{row.endpoint}</TableCell>
+                <TableCell className="text-gray-600">
+                  {keyNames.get(row.apiKeyId) ?? "Deleted key"}
+                </TableCell>
+                <TableCell className="text-right">{row.requests.toLocaleString()}</TableCell>
+                <TableCell className={`text-right ${row.throttled > 0 ? "text-amber-700" : "text-gray-400"}`}>
+                  {row.throttled.toLocaleString()}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { assignClaim, type ClaimQueueMember } from "@/appwrite/claimQueue";
+
+// Radix Select items cannot use an empty value
+const UNASSIGNED = "unassigned";
+
+interface AssignClaimSelectProps {
+  reportId: string;
+  assigneeUserId?: string;
+  members: ClaimQueueMember[];
+}
+
+export function AssignClaimSelect({ reportId, assigneeUserId, members }: AssignClaimSelectProps) {
+  const router = useRouter();
+  const [value, setValue] = useState(assigneeUserId ?? UNASSIGNED);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleChange = async (next: string) => {
+    const previous = value;
+    setValue(next);
+    setIsSaving(true);
+    setError("");
+
+    const result = await assignClaim(reportId, next === UNASSIGNED ? null : next);
+
+    setIsSaving(false);
+    if (result.success) {
+      router.refresh();
+    } else {
+      setValue(previous);
+      setError(result.message || "Failed to assign claim");
+    }
+  };
+
+  return (
+    <div className="grid gap-1">
+      <Select value={value} onValueChange={handleChange} disabled={isSaving}>
+        <SelectTrigger className="w-44" aria-label="Assign claim">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+          {members.map((member) => (
+            <SelectItem key={member.userId} value={member.userId}>
+              {member.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
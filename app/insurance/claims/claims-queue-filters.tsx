@@ -0,0 +1,111 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ClaimQueueMember } from "@/appwrite/claimQueue";
+
+// Select value meaning "no filter" (Radix Select items cannot use an empty value)
+const ALL = "all";
+
+const STATUS_OPTIONS = ["pending", "analyzed", "needs_investigation", "approved", "partial", "denied"];
+const SEVERITY_OPTIONS = ["minor", "moderate", "severe", "total_loss"];
+const DAMAGE_TYPE_OPTIONS = ["collision", "comprehensive", "weather", "vandalism", "unknown"];
+const SORT_OPTIONS: Record<string, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  cost_desc: "Highest cost",
+  cost_asc: "Lowest cost",
+  confidence_asc: "Lowest confidence",
+  confidence_desc: "Highest confidence",
+  fraud_desc: "Highest fraud score",
+};
+
+const formatOption = (value: string) => value.replace(/_/g, " ");
+
+interface ClaimsQueueFiltersProps {
+  members: ClaimQueueMember[];
+}
+
+export function ClaimsQueueFilters({ members }: ClaimsQueueFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // Any filter change starts again from the first page
+  const setParam = (key: string, value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value && value !== ALL) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+    params.delete("cursor");
+    params.delete("dir");
+    router.push(`${pathname}?${params.toString()}`);
+  };
+
+  const renderSelect = (
+    key: string,
+    label: string,
+    options: Record<string, string>,
+    defaultValue = ALL
+  ) => (
+    <Select value={searchParams.get(key) ?? defaultValue} onValueChange={(value) => setParam(key, value)}>
+      <SelectTrigger className="w-full" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {defaultValue === ALL && <SelectItem value={ALL}>{label}: all</SelectItem>}
+        {Object.entries(options).map(([value, text]) => (
+          <SelectItem key={value} value={value} className="capitalize">
+            {text}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const toOptions = (values: string[]) =>
+    Object.fromEntries(values.map((value) => [value, formatOption(value)]));
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-2">
+      {renderSelect("status", "Status", toOptions(STATUS_OPTIONS))}
+      {renderSelect("severity", "Severity", toOptions(SEVERITY_OPTIONS))}
+      {renderSelect("damage", "Damage type", toOptions(DAMAGE_TYPE_OPTIONS))}
+      {renderSelect("investigation", "Investigation", { yes: "Investigation required", no: "No investigation" })}
+      {renderSelect("assignee", "Assignee", {
+        unassigned: "Unassigned",
+        ...Object.fromEntries(members.map((member) => [member.userId, member.name])),
+      })}
+      <Input
+        type="date"
+        aria-label="Submitted from"
+        value={searchParams.get("from") ?? ""}
+        onChange={(e) => setParam("from", e.target.value)}
+      />
+      <Input
+        type="date"
+        aria-label="Submitted to"
+        value={searchParams.get("to") ?? ""}
+        onChange={(e) => setParam("to", e.target.value)}
+      />
+      <div className="flex gap-2">
+        {renderSelect("sort", "Sort", SORT_OPTIONS, "newest")}
+        {searchParams.toString() && (
+          <Button variant="outline" onClick={() => router.push(pathname)}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { Download01Icon } from "@hugeicons/core-free-icons";
+import { Button } from "@/components/ui/button";
+
+// Range exported when the queue has no date filter
+const DEFAULT_RANGE_DAYS = 30;
+
+const toDateParam = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Downloads the line item CSV for the queue's date filter (last 30 days by default)
+ */
+export function ExportLineItemsButton() {
+  const searchParams = useSearchParams();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    const to = searchParams.get("to") || toDateParam(new Date());
+    const from =
+      searchParams.get("from") ||
+      toDateParam(new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000));
+
+    setIsExporting(true);
+    try {
+      const response = await fetch(`/api/insurance/exports/line-items?${new URLSearchParams({ from, to })}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to export line items");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `line-items-${from}-to-${to}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting line items:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export line items");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      onClick={handleExport}
+      disabled={isExporting}
+      title="Line items of reports submitted in the selected date range (last 30 days when no range is set)"
+    >
+      <HugeiconsIcon icon={Download01Icon} />
+      {isExporting ? "Exporting..." : "Export CSV"}
+    </Button>
+  );
+}
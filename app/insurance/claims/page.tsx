@@ -1,17 +1,39 @@
 import { getSession } from "@/appwrite/getSession";
 import { getUserDocument } from "@/appwrite/getUserDocument";
 import { redirect } from "next/navigation";
-import { adminAction } from "@/appwrite/adminOrClient";
-import { DATABASE_ID, COLLECTION_IDS } from "@/lib/env";
-import { Query } from "node-appwrite";
-import type { ReportDocument } from "@/lib/types/appwrite";
+import {
+  listQueueClaims,
+  getQueueStats,
+  getQueueMembers,
+  type ClaimQueueFilters,
+  type ClaimQueueSort,
+} from "@/appwrite/claimQueue";
+import { getFraudScoringSettings } from "@/appwrite/fraudScoring";
+import { DEFAULT_FRAUD_SCORING_CONFIG } from "@/lib/fraud/fraudScore";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { Header } from "@/components/navigation/header";
+import { ClaimsQueueFilters } from "./claims-queue-filters";
+import { AssignClaimSelect } from "./assign-claim-select";
+import { ExportLineItemsButton } from "./export-line-items-button";
 
-export default async function InsuranceReportsPage() {
+interface InsuranceReportsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const SORTS: ClaimQueueSort[] = [
+  "newest",
+  "oldest",
+  "cost_desc",
+  "cost_asc",
+  "confidence_asc",
+  "confidence_desc",
+  "fraud_desc",
+];
+
+export default async function InsuranceReportsPage({ searchParams }: InsuranceReportsPageProps) {
   const session = await getSession();
   if (!session) {
     redirect("/?auth=required");
@@ -38,17 +60,50 @@ export default async function InsuranceReportsPage() {
     );
   }
 
-  // Get all reports for this insurance company
-  const { databases } = await adminAction();
-  const reportsResult = await databases.listDocuments<ReportDocument>(
-    DATABASE_ID,
-    COLLECTION_IDS.REPORTS,
-    [
-      Query.equal('insurance_company_id', userDoc.insurance_company_id),
-      Query.orderDesc('$createdAt'),
-      Query.limit(50)
-    ]
-  );
+  // Queue filters, sort and cursor come from the URL
+  const params = await searchParams;
+  const param = (key: string) => (typeof params[key] === "string" ? params[key] : undefined);
+
+  const filters: ClaimQueueFilters = {
+    status: param("status") as ClaimQueueFilters["status"],
+    severity: param("severity") as ClaimQueueFilters["severity"],
+    damageType: param("damage") as ClaimQueueFilters["damageType"],
+    investigation: param("investigation") === "yes" ? true : param("investigation") === "no" ? false : undefined,
+    assignee: param("assignee"),
+    fromDate: param("from"),
+    toDate: param("to"),
+  };
+  const sort = SORTS.find((s) => s === param("sort")) ?? "newest";
+
+  const [queueResult, statsResult, membersResult, scoringResult] = await Promise.all([
+    listQueueClaims({
+      filters,
+      sort,
+      cursor: param("cursor"),
+      direction: param("dir") === "previous" ? "previous" : "next",
+    }),
+    getQueueStats(),
+    getQueueMembers(),
+    getFraudScoringSettings(),
+  ]);
+
+  const reports = queueResult.data?.reports ?? [];
+  const fraudScores = queueResult.data?.fraudScores ?? {};
+  const members = membersResult.members ?? [];
+  const memberNames = new Map(members.map((member) => [member.userId, member.name]));
+  const investigationThreshold =
+    scoringResult.settings?.investigationThreshold ?? DEFAULT_FRAUD_SCORING_CONFIG.investigationThreshold;
+
+  // Preserve filters and sort when paging
+  const pageHref = (cursor: string, dir: "next" | "previous") => {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (typeof value === "string" && key !== "cursor" && key !== "dir") query.set(key, value);
+    }
+    query.set("cursor", cursor);
+    query.set("dir", dir);
+    return `?${query.toString()}`;
+  };
 
   // Helper to format status badge
   const getStatusColor = (status: string) => {
@@ -82,29 +137,63 @@ export default async function InsuranceReportsPage() {
     }
   };
 
-  // Calculate statistics
-  const stats = {
-    total: reportsResult.documents.length,
-    needsInvestigation: reportsResult.documents.filter(r => r.investigation_needed).length,
-    approved: reportsResult.documents.filter(r => r.claim_status === 'approved').length,
-    denied: reportsResult.documents.filter(r => r.claim_status === 'denied').length,
+  // Helper to format fraud score badge (red at the company's investigation threshold)
+  const getFraudScoreColor = (score: number) => {
+    if (score >= investigationThreshold) return 'bg-red-100 text-red-800';
+    if (score >= investigationThreshold / 2) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-gray-100 text-gray-800';
+  };
+
+  // Company-wide statistics (server-side counts, independent of filters and paging)
+  const stats = statsResult.data ?? {
+    total: 0,
+    unassigned: 0,
+    awaitingReview: 0,
+    needsInvestigation: 0,
+    approved: 0,
+    denied: 0,
   };
 
   return (
     <div className="min-h-screen bg-gray-50">
       <Header session={session} userDoc={userDoc} />
       <div className="container mx-auto px-4 py-8">
-        <div className="mb-6">
-          <h1 className="text-3xl font-bold mb-2">Reports Review</h1>
-          <p className="text-gray-600">Review and manage submitted damage reports</p>
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Reports Review</h1>
+            <p className="text-gray-600">Review and manage submitted damage reports</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <ExportLineItemsButton />
+            <Button asChild variant="outline">
+              <Link href="/insurance/webhooks">Webhooks</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/insurance/api-keys">API Keys</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/insurance/report-template">Report Template</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/insurance/fraud-scoring">Fraud Scoring</Link>
+            </Button>
+          </div>
         </div>
 
         {/* Statistics Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
           <Card className="p-4">
             <div className="text-sm text-gray-600 mb-1">Total Reports</div>
             <div className="text-2xl font-bold">{stats.total}</div>
           </Card>
+          <Card className="p-4">
+            <div className="text-sm text-gray-600 mb-1">Unassigned</div>
+            <div className="text-2xl font-bold">{stats.unassigned}</div>
+          </Card>
+          <Card className="p-4">
+            <div className="text-sm text-gray-600 mb-1">Awaiting Review</div>
+            <div className="text-2xl font-bold text-blue-600">{stats.awaitingReview}</div>
+          </Card>
           <Card className="p-4">
             <div className="text-sm text-gray-600 mb-1">Needs Investigation</div>
             <div className="text-2xl font-bold text-orange-600">{stats.needsInvestigation}</div>
@@ -119,18 +208,30 @@ export default async function InsuranceReportsPage() {
           </Card>
         </div>
 
-        {reportsResult.documents.length === 0 ? (
+        <div className="mb-4">
+          <ClaimsQueueFilters members={members} />
+        </div>
+
+        {!queueResult.success && (
+          <Card className="p-4 mb-4 text-sm text-red-600">
+            {queueResult.message || 'Failed to load claims'}
+          </Card>
+        )}
+
+        {reports.length === 0 ? (
           <Card className="p-12 text-center">
             <div className="max-w-md mx-auto">
               <h2 className="text-xl font-semibold mb-2">No reports to review</h2>
               <p className="text-gray-600">
-                There are currently no reports submitted for your insurance company.
+                {stats.total > 0
+                  ? 'No reports match the selected filters.'
+                  : 'There are currently no reports submitted for your insurance company.'}
               </p>
             </div>
           </Card>
         ) : (
           <div className="grid gap-4">
-            {reportsResult.documents.map((report) => (
+            {reports.map((report) => (
               <Card key={report.$id} className="p-6 hover:shadow-md transition-shadow">
                 <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
                   <div className="flex-1">
@@ -147,6 +248,11 @@ export default async function InsuranceReportsPage() {
                           Investigation Required
                         </Badge>
                       )}
+                      {fraudScores[report.$id] != null && (
+                        <Badge className={getFraudScoreColor(fraudScores[report.$id])}>
+                          Fraud score {fraudScores[report.$id]}
+                        </Badge>
+                      )}
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm text-gray-600">
                       <p>
@@ -163,7 +269,14 @@ export default async function InsuranceReportsPage() {
                       </p>
                       <p>
                         <span className="font-medium">Est. Repair:</span>{' '}
-                        ${report.estimated_total_repair_cost.toLocaleString()}
+                        ${(report.adjusted_total_repair_cost ?? report.estimated_total_repair_cost).toLocaleString()}
+                        {report.adjusted_total_repair_cost != null && ' (adjusted)'}
+                      </p>
+                      <p>
+                        <span className="font-medium">Assignee:</span>{' '}
+                        {report.assigned_to_user_id
+                          ? memberNames.get(report.assigned_to_user_id) ?? 'Former team member'
+                          : 'Unassigned'}
                       </p>
                     </div>
                     {report.investigation_reason && (
@@ -172,7 +285,18 @@ export default async function InsuranceReportsPage() {
                       </div>
                     )}
                   </div>
-                  <div className="flex gap-2">
+                  <div className="flex gap-2 items-start">
+                    <AssignClaimSelect
+                      reportId={report.$id}
+                      assigneeUserId={report.assigned_to_user_id}
+                      members={members}
+                    />
+                    <Button asChild variant="outline" title="Download the JSON bundle">
+                      <a href={`/api/reports/${report.$id}/export?format=json`} download>JSON</a>
+                    </Button>
+                    <Button asChild variant="outline" title="Download the XML estimate">
+                      <a href={`/api/reports/${report.$id}/export?format=xml`} download>XML</a>
+                    </Button>
                     <Link href={`/auth/reports/${report.$id}`}>
                       <Button>Review Report</Button>
                     </Link>
@@ -183,11 +307,25 @@ export default async function InsuranceReportsPage() {
           </div>
         )}
 
-        {reportsResult.documents.length > 0 && (
-          <div className="mt-6 text-center">
+        {reports.length > 0 && (
+          <div className="mt-6 flex items-center justify-between">
+            {queueResult.data?.previousCursor ? (
+              <Link href={pageHref(queueResult.data.previousCursor, "previous")}>
+                <Button variant="outline">Previous</Button>
+              </Link>
+            ) : (
+              <span />
+            )}
             <p className="text-sm text-gray-600">
-              Showing {reportsResult.documents.length} of {reportsResult.total} reports
+              Showing {reports.length} of {queueResult.data?.total ?? reports.length} matching reports
             </p>
+            {queueResult.data?.nextCursor ? (
+              <Link href={pageHref(queueResult.data.nextCursor, "next")}>
+                <Button variant="outline">Next</Button>
+              </Link>
+            ) : (
+              <span />
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { FloppyDiskIcon } from "@hugeicons/core-free-icons";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { saveFraudScoringSettings, type FraudScoringSettings } from "@/appwrite/fraudScoring";
+import {
+  DEFAULT_FRAUD_SCORING_CONFIG,
+  FRAUD_SCORE_RULES,
+  FRAUD_SCORE_RULE_IDS,
+  MAX_FRAUD_RULE_WEIGHT,
+  type FraudScoreRuleId,
+} from "@/lib/fraud/fraudScore";
+
+interface FraudScoringFormProps {
+  settings: FraudScoringSettings;
+}
+
+export function FraudScoringForm({ settings }: FraudScoringFormProps) {
+  const router = useRouter();
+  const [weights, setWeights] = useState<Record<FraudScoreRuleId, number>>(settings.weights);
+  const [investigationThreshold, setInvestigationThreshold] = useState(settings.investigationThreshold);
+  const [autoRouteEnabled, setAutoRouteEnabled] = useState(settings.autoRouteEnabled);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError("");
+    setSaved(false);
+
+    const result = await saveFraudScoringSettings({ weights, investigationThreshold, autoRouteEnabled });
+
+    setIsSaving(false);
+    if (result.success) {
+      setSaved(true);
+      router.refresh();
+    } else {
+      setError(result.message || "Failed to save fraud scoring config");
+    }
+  };
+
+  const handleResetWeights = () => {
+    setWeights(DEFAULT_FRAUD_SCORING_CONFIG.weights);
+    setSaved(false);
+  };
+
+  return (
+    <form onSubmit={handleSave} className="grid gap-4">
+      <Card className="p-6">
+        <h2 className="text-lg font-semibold mb-1">Investigation Routing</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          New reports scoring at or above the threshold are moved to Needs Investigation automatically.
+        </p>
+        <div className="grid gap-4">
+          <div className="flex items-center gap-3">
+            <Switch id="fraud-auto-route" checked={autoRouteEnabled} onCheckedChange={setAutoRouteEnabled} />
+            <Label htmlFor="fraud-auto-route" className="font-normal">
+              Route high scoring reports to investigation
+            </Label>
+          </div>
+          <div className="grid gap-2 max-w-xs">
+            <Label htmlFor="fraud-threshold">Threshold (0-100)</Label>
+            <Input
+              id="fraud-threshold"
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={investigationThreshold}
+              onChange={(e) => setInvestigationThreshold(e.target.valueAsNumber)}
+              disabled={!autoRouteEnabled}
+            />
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-6">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-semibold mb-1">Rule Weights</h2>
+            <p className="text-sm text-gray-600">
+              Points each rule adds to the score when it applies fully. Scores are capped at 100; set a
+              weight to 0 to ignore a rule.
+            </p>
+          </div>
+          <Button type="button" variant="outline" onClick={handleResetWeights}>
+            Reset to Defaults
+          </Button>
+        </div>
+        <div className="divide-y">
+          {FRAUD_SCORE_RULE_IDS.map((id) => (
+            <div key={id} className="flex items-center justify-between gap-4 py-3">
+              <div>
+                <Label htmlFor={`fraud-weight-${id}`}>{FRAUD_SCORE_RULES[id].label}</Label>
+                <p className="text-sm text-gray-600 mt-1">
+                  {FRAUD_SCORE_RULES[id].description} (default {FRAUD_SCORE_RULES[id].defaultWeight})
+                </p>
+              </div>
+              <Input
+                id={`fraud-weight-${id}`}
+                type="number"
+                min={0}
+                max={MAX_FRAUD_RULE_WEIGHT}
+                step={1}
+                value={weights[id]}
+                onChange={(e) => setWeights({ ...weights, [id]: e.target.valueAsNumber })}
+                className="w-24"
+              />
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {saved && !error && (
+        <p className="text-sm text-green-600">Scoring saved. It applies to reports submitted from now on.</p>
+      )}
+      <div>
+        <Button type="submit" disabled={isSaving}>
+          <HugeiconsIcon icon={FloppyDiskIcon} />
+          {isSaving ? "Saving..." : "Save Scoring"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,66 @@
+import { getSession } from "@/appwrite/getSession";
+import { getUserDocument } from "@/appwrite/getUserDocument";
+import { redirect } from "next/navigation";
+import { getFraudScoringSettings } from "@/appwrite/fraudScoring";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import Link from "next/link";
+import { Header } from "@/components/navigation/header";
+import { FraudScoringForm } from "./fraud-scoring-form";
+
+export default async function InsuranceFraudScoringPage() {
+  const session = await getSession();
+  if (!session) {
+    redirect("/?auth=required");
+  }
+
+  const userDoc = await getUserDocument(session.id);
+  if (!userDoc || userDoc.role !== 'insurance_adjuster') {
+    redirect("/dashboard");
+  }
+
+  if (!userDoc.insurance_company_id) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header session={session} userDoc={userDoc} />
+        <div className="container mx-auto px-4 py-8">
+          <Card className="p-12 text-center">
+            <h1 className="text-2xl font-bold mb-2 text-red-600">Error</h1>
+            <p className="text-gray-600">
+              No insurance company associated with your account. Please contact your administrator.
+            </p>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const result = await getFraudScoringSettings();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header session={session} userDoc={userDoc} />
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Fraud Scoring</h1>
+            <p className="text-gray-600">
+              How new reports are scored for fraud and routed to investigation
+            </p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/insurance/claims">Back to Reports</Link>
+          </Button>
+        </div>
+
+        {!result.success || !result.settings ? (
+          <Card className="p-4 text-sm text-red-600">
+            {result.message || 'Failed to load fraud scoring config'}
+          </Card>
+        ) : (
+          <FraudScoringForm settings={result.settings} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { Delete02Icon, FloppyDiskIcon, Upload01Icon } from "@hugeicons/core-free-icons";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  removeReportTemplateLogo,
+  saveReportTemplate,
+  uploadReportTemplateLogo,
+  type ReportTemplateSettings,
+} from "@/appwrite/reportTemplates";
+
+interface ReportTemplateFormProps {
+  settings: ReportTemplateSettings;
+}
+
+export function ReportTemplateForm({ settings }: ReportTemplateFormProps) {
+  const router = useRouter();
+  const [primaryColor, setPrimaryColor] = useState(settings.primaryColor);
+  const [accentColor, setAccentColor] = useState(settings.accentColor);
+  const [headerText, setHeaderText] = useState(settings.headerText);
+  const [footerDisclaimer, setFooterDisclaimer] = useState(settings.footerDisclaimer);
+  const [showMediaThumbnails, setShowMediaThumbnails] = useState(settings.showMediaThumbnails);
+  const [showFraudAssessment, setShowFraudAssessment] = useState(settings.showFraudAssessment);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUpdatingLogo, setIsUpdatingLogo] = useState(false);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError("");
+    setSaved(false);
+
+    const result = await saveReportTemplate({
+      primaryColor,
+      accentColor,
+      headerText,
+      footerDisclaimer,
+      showMediaThumbnails,
+      showFraudAssessment,
+    });
+
+    setIsSaving(false);
+    if (result.success) {
+      setSaved(true);
+      router.refresh();
+    } else {
+      setError(result.message || "Failed to save report template");
+    }
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUpdatingLogo(true);
+    setError("");
+
+    const formData = new FormData();
+    formData.append("logo", file);
+    const result = await uploadReportTemplateLogo(formData);
+
+    setIsUpdatingLogo(false);
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.message || "Failed to upload logo");
+    }
+  };
+
+  const handleRemoveLogo = async () => {
+    setIsUpdatingLogo(true);
+    setError("");
+
+    const result = await removeReportTemplateLogo();
+
+    setIsUpdatingLogo(false);
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.message || "Failed to remove logo");
+    }
+  };
+
+  return (
+    <div className="grid gap-4">
+      <Card className="p-6">
+        <h2 className="text-lg font-semibold mb-1">Logo</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Shown at the top of every report. PNG, JPEG or WebP, up to 2MB.
+        </p>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+          <div className="h-16 w-48 rounded-md border bg-white flex items-center justify-center overflow-hidden">
+            {settings.logoUrl ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={settings.logoUrl} alt="Report logo" className="max-h-14 max-w-44 object-contain" />
+            ) : (
+              <span className="text-xs text-gray-500">No logo</span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button asChild variant="outline" disabled={isUpdatingLogo}>
+              <label className="cursor-pointer">
+                <HugeiconsIcon icon={Upload01Icon} />
+                {isUpdatingLogo ? "Updating..." : settings.logoUrl ? "Replace Logo" : "Upload Logo"}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  className="sr-only"
+                  disabled={isUpdatingLogo}
+                  onChange={handleLogoChange}
+                />
+              </label>
+            </Button>
+            {settings.logoUrl && (
+              <Button variant="outline" disabled={isUpdatingLogo} onClick={handleRemoveLogo}>
+                <HugeiconsIcon icon={Delete02Icon} />
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-6">
+        <form onSubmit={handleSave} className="grid gap-4">
+          <h2 className="text-lg font-semibold">Layout</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="template-primary-color">Heading color</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="color"
+                  aria-label="Pick heading color"
+                  value={primaryColor}
+                  onChange={(e) => setPrimaryColor(e.target.value)}
+                  className="w-12 p-1"
+                />
+                <Input
+                  id="template-primary-color"
+                  value={primaryColor}
+                  onChange={(e) => setPrimaryColor(e.target.value)}
+                  maxLength={7}
+                  className="font-mono"
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="template-accent-color">Accent color</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="color"
+                  aria-label="Pick accent color"
+                  value={accentColor}
+                  onChange={(e) => setAccentColor(e.target.value)}
+                  className="w-12 p-1"
+                />
+                <Input
+                  id="template-accent-color"
+                  value={accentColor}
+                  onChange={(e) => setAccentColor(e.target.value)}
+                  maxLength={7}
+                  className="font-mono"
+                />
+              </div>
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="template-header">Header text (optional)</Label>
+            <Input
+              id="template-header"
+              placeholder="Defaults to your company name"
+              value={headerText}
+              onChange={(e) => setHeaderText(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="template-disclaimer">Footer disclaimer (optional)</Label>
+            <Textarea
+              id="template-disclaimer"
+              placeholder="Printed at the bottom of every page, e.g. your regulatory statement"
+              value={footerDisclaimer}
+              onChange={(e) => setFooterDisclaimer(e.target.value)}
+              maxLength={2000}
+              rows={4}
+            />
+          </div>
+          <div className="grid gap-3">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="template-media"
+                checked={showMediaThumbnails}
+                onCheckedChange={setShowMediaThumbnails}
+              />
+              <Label htmlFor="template-media" className="font-normal">
+                Include thumbnails of the photo evidence
+              </Label>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="template-fraud"
+                checked={showFraudAssessment}
+                onCheckedChange={setShowFraudAssessment}
+              />
+              <Label htmlFor="template-fraud" className="font-normal">
+                Include the fraud assessment (never shown to claimants)
+              </Label>
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {saved && !error && <p className="text-sm text-green-600">Template saved</p>}
+          <div>
+            <Button type="submit" disabled={isSaving}>
+              <HugeiconsIcon icon={FloppyDiskIcon} />
+              {isSaving ? "Saving..." : "Save Template"}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
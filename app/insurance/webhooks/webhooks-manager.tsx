@@ -0,0 +1,347 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { Copy01Icon, Delete02Icon, Link01Icon, SentIcon } from "@hugeicons/core-free-icons";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  sendTestWebhookEvent,
+  updateWebhookEndpoint,
+  type WebhookDeliverySummary,
+  type WebhookEndpointSummary,
+} from "@/appwrite/webhooks";
+import type { WebhookEvent } from "@/lib/types/appwrite";
+
+const EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  "report.created": "A report was submitted",
+  "report.analyzed": "The AI analysis of a report finished",
+  "report.flagged": "A report needs investigation",
+  "report.status_changed": "A report's claim status changed",
+};
+
+const DELIVERY_STATUS_COLORS: Record<WebhookDeliverySummary["status"], string> = {
+  succeeded: "bg-green-100 text-green-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+interface WebhooksManagerProps {
+  endpoints: WebhookEndpointSummary[];
+  deliveries: WebhookDeliverySummary[];
+}
+
+export function WebhooksManager({ endpoints, deliveries }: WebhooksManagerProps) {
+  const router = useRouter();
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["report.created", "report.status_changed"]);
+  const [revealedSecret, setRevealedSecret] = useState<{ url: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<WebhookEndpointSummary | null>(null);
+  const [busyEndpointId, setBusyEndpointId] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, WebhookDeliverySummary>>({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState("");
+
+  const endpointUrls = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint.url]));
+
+  const toggleEvent = (event: WebhookEvent, enabled: boolean) => {
+    setEvents((current) =>
+      enabled ? [...current, event] : current.filter((e) => e !== event)
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError("");
+
+    const result = await createWebhookEndpoint({ url, events, description });
+
+    setIsCreating(false);
+    if (result.success && result.data) {
+      setUrl("");
+      setDescription("");
+      setRevealedSecret({ url: result.data.endpoint.url, secret: result.data.secret });
+      setCopied(false);
+      router.refresh();
+    } else {
+      setError(result.message || "Failed to add webhook endpoint");
+    }
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpointSummary, isActive: boolean) => {
+    setBusyEndpointId(endpoint.id);
+    setError("");
+
+    const result = await updateWebhookEndpoint(endpoint.id, { isActive });
+
+    setBusyEndpointId(null);
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.message || "Failed to update webhook endpoint");
+    }
+  };
+
+  const handleSendTest = async (endpoint: WebhookEndpointSummary) => {
+    setBusyEndpointId(endpoint.id);
+    setError("");
+
+    const result = await sendTestWebhookEvent(endpoint.id);
+
+    setBusyEndpointId(null);
+    if (result.success && result.delivery) {
+      setTestResults((current) => ({ ...current, [endpoint.id]: result.delivery! }));
+      router.refresh();
+    } else {
+      setError(result.message || "Failed to send test event");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    setBusyEndpointId(pendingDelete.id);
+    setError("");
+
+    const result = await deleteWebhookEndpoint(pendingDelete.id);
+
+    setBusyEndpointId(null);
+    setPendingDelete(null);
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.message || "Failed to delete webhook endpoint");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret.secret);
+    setCopied(true);
+  };
+
+  return (
+    <div className="grid gap-4">
+      {revealedSecret && (
+        <Card className="p-4 border-green-300 bg-green-50">
+          <p className="text-sm font-semibold mb-1">Signing secret for {revealedSecret.url}</p>
+          <p className="text-sm text-gray-600 mb-3">
+            Use it to verify the X-VehicleClaim-Signature header. Copy it now - it will not be shown again.
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={revealedSecret.secret} className="font-mono bg-white" />
+            <Button type="button" variant="outline" onClick={handleCopy}>
+              <HugeiconsIcon icon={Copy01Icon} />
+              {copied ? "Copied" : "Copy"}
+            </Button>
+          </div>
+          <Button
+            type="button"
+            variant="link"
+            className="h-auto p-0 mt-2 text-xs"
+            onClick={() => setRevealedSecret(null)}
+          >
+            I&apos;ve stored it safely
+          </Button>
+        </Card>
+      )}
+
+      <Card className="p-6">
+        <form onSubmit={handleCreate} className="grid gap-4">
+          <h2 className="text-lg font-semibold">Add an Endpoint</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                placeholder="https://claims.example.com/hooks/vehicleclaim"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                maxLength={2000}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="webhook-description">Description (optional)</Label>
+              <Input
+                id="webhook-description"
+                placeholder="e.g. Guidewire ClaimCenter"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={255}
+              />
+            </div>
+          </div>
+          <div className="grid gap-3">
+            <Label>Events</Label>
+            {(Object.keys(EVENT_DESCRIPTIONS) as WebhookEvent[]).map((event) => (
+              <div key={event} className="flex items-center gap-3">
+                <Switch
+                  id={`webhook-event-${event}`}
+                  checked={events.includes(event)}
+                  onCheckedChange={(checked) => toggleEvent(event, checked)}
+                />
+                <Label htmlFor={`webhook-event-${event}`} className="font-normal">
+                  <span className="font-mono text-xs">{event}</span>
+                  <span className="text-gray-600">{EVENT_DESCRIPTIONS[event]}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div>
+            <Button type="submit" disabled={isCreating || !url.trim() || events.length === 0}>
+              <HugeiconsIcon icon={Link01Icon} />
+              {isCreating ? "Adding..." : "Add Endpoint"}
+            </Button>
+          </div>
+        </form>
+      </Card>
+
+      {endpoints.length === 0 ? (
+        <Card className="p-12 text-center">
+          <h2 className="text-xl font-semibold mb-2">No webhook endpoints yet</h2>
+          <p className="text-gray-600">Add an endpoint to receive report events.</p>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {endpoints.map((endpoint) => {
+            const testResult = testResults[endpoint.id];
+            return (
+              <Card key={endpoint.id} className={endpoint.isActive ? "p-6" : "p-6 opacity-60"}>
+                <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3 mb-2 flex-wrap">
+                      <h3 className="text-lg font-semibold truncate">{endpoint.url}</h3>
+                      {!endpoint.isActive && <Badge className="bg-gray-100 text-gray-800">Paused</Badge>}
+                    </div>
+                    {endpoint.description && (
+                      <p className="text-sm text-gray-600 mb-2">{endpoint.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      {endpoint.events.map((event) => (
+                        <Badge key={event} variant="outline" className="font-mono">
+                          {event}
+                        </Badge>
+                      ))}
+                    </div>
+                    {testResult && (
+                      <p className={testResult.status === "succeeded" ? "text-sm text-green-600 mt-2" : "text-sm text-red-600 mt-2"}>
+                        Test event {testResult.status === "succeeded" ? "delivered" : "failed"}
+                        {testResult.responseStatus ? ` (HTTP ${testResult.responseStatus})` : ""}
+                        {testResult.status !== "succeeded" && testResult.errorMessage ? `: ${testResult.errorMessage}` : ""}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <div className="flex items-center gap-2 mr-2">
+                      <Switch
+                        id={`webhook-active-${endpoint.id}`}
+                        checked={endpoint.isActive}
+                        disabled={busyEndpointId === endpoint.id}
+                        onCheckedChange={(checked) => handleToggleActive(endpoint, checked)}
+                      />
+                      <Label htmlFor={`webhook-active-${endpoint.id}`} className="text-sm">
+                        Active
+                      </Label>
+                    </div>
+                    <Button
+                      variant="outline"
+                      disabled={busyEndpointId === endpoint.id}
+                      onClick={() => handleSendTest(endpoint)}
+                    >
+                      <HugeiconsIcon icon={SentIcon} />
+                      Send Test Event
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      disabled={busyEndpointId === endpoint.id}
+                      onClick={() => setPendingDelete(endpoint)}
+                    >
+                      <HugeiconsIcon icon={Delete02Icon} />
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {endpoints.length > 0 && (
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold mb-4">Recent Deliveries</h2>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-gray-600">No events have been sent yet.</p>
+          ) : (
+            <div className="divide-y">
+              {deliveries.map((delivery) => (
+                <div key={delivery.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-3 flex-wrap min-w-0">
+                    <Badge className={DELIVERY_STATUS_COLORS[delivery.status]}>
+                      {delivery.status}
+                    </Badge>
+                    <span className="font-mono text-xs">{delivery.event}</span>
+                    <span className="text-gray-600 truncate">
+                      {endpointUrls.get(delivery.endpointId) ?? "Deleted endpoint"}
+                    </span>
+                  </div>
+                  <div className="text-gray-600 md:text-right">
+                    {new Date(delivery.createdAt).toLocaleString()}
+                    {' · '}
+                    {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                    {delivery.responseStatus ? ` · HTTP ${delivery.responseStatus}` : ""}
+                    {delivery.status === "pending" && delivery.nextAttemptAt &&
+                      ` · retry ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                    {delivery.status !== "succeeded" && delivery.errorMessage && (
+                      <div className="text-xs text-red-600">{delivery.errorMessage}</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      )}
+
+      <AlertDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => { if (!open && !busyEndpointId) setPendingDelete(null); }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Webhook Endpoint</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.url} will stop receiving events and pending retries to it will be dropped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={!!busyEndpointId}>Cancel</AlertDialogCancel>
+            <Button variant="destructive" onClick={handleDelete} disabled={!!busyEndpointId}>
+              {busyEndpointId ? "Deleting..." : "Delete Endpoint"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+"use server";
+
+import { ID } from 'node-appwrite';
+import { revalidateTag } from 'next/cache';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { canReviewReport, getReportRelatedPermissions } from '@/lib/permissions';
+import { DECIDED_CLAIM_STATUSES } from '@/lib/claimStatus';
+import { computeAdjustedFinancials, type AdjustedFinancials } from '@/lib/claimAdjustments';
+import { recordAuditLog } from '@/lib/audit/auditLogs';
+import {
+  fetchFullReportData,
+  type InsuranceCompanyDocument,
+  type ReportDamageDetailDocument,
+  type ReportDocument,
+} from '@/lib/types/appwrite';
+
+/**
+ * Report Adjustment Server Action
+ * Saves adjuster overrides of AI damage line items and recomputes the payout
+ */
+
+type RepairOrReplace = NonNullable<ReportDamageDetailDocument['repair_or_replace']>;
+
+// Enum elements of report_damage_details in schema/database.schema.json
+const REPAIR_OR_REPLACE_VALUES: RepairOrReplace[] = ['repair', 'replace', 'either', 'undetermined'];
+const SEVERITY_VALUES: ReportDamageDetailDocument['severity'][] = ['minor', 'moderate', 'severe', 'total_loss'];
+
+export interface DamageLineAdjustment {
+  detailId: string;
+  /** Adjusted price; null clears the override */
+  repairCost?: number | null;
+  /** Adjusted recommendation; null clears the override */
+  repairOrReplace?: RepairOrReplace | null;
+  removed?: boolean;
+}
+
+export interface NewDamageLine {
+  partName: string;
+  severity: ReportDamageDetailDocument['severity'];
+  description?: string;
+  repairCost: number;
+  repairOrReplace?: RepairOrReplace;
+}
+
+export interface ReportAdjustmentInput {
+  lines: DamageLineAdjustment[];
+  addedLines: NewDamageLine[];
+  /** Covered amount override; null or omitted derives it from the adjusted lines */
+  coveredAmount?: number | null;
+  /** Deductible override; null or omitted keeps the AI deductible */
+  deductible?: number | null;
+  note?: string;
+}
+
+export interface AdjustReportResult {
+  success: boolean;
+  data?: AdjustedFinancials;
+  message?: string;
+}
+
+/**
+ * Save adjuster overrides for a report
+ * AI values are kept; overrides go to the adjusted_* attributes and the
+ * adjusted totals are recomputed with computeAdjustedFinancials.
+ *
+ * @param reportId - The report document ID
+ * @param input - Line changes, new lines and financial overrides
+ * @returns Recomputed financials or error
+ *
+ * @example
+ * await adjustReport(reportId, {
+ *   lines: [{ detailId: bumperId, repairCost: 850, repairOrReplace: 'replace' }],
+ *   addedLines: [],
+ *   deductible: 250,
+ * });
+ */
+export async function adjustReport(
+  reportId: string,
+  input: ReportAdjustmentInput
+): Promise<AdjustReportResult> {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return { success: false, message: 'Unauthorized' };
+    }
+
+    const { databases } = await adminAction();
+    const fullReport = await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, reportId);
+    const { report, assessment } = fullReport;
+
+    const reviewer = await getUserDocument(session.id);
+    if (!reviewer || !canReviewReport(reviewer, report)) {
+      return { success: false, message: 'You do not have permission to adjust this report' };
+    }
+    if (DECIDED_CLAIM_STATUSES.includes(report.claim_status)) {
+      return { success: false, message: 'Reopen the claim before adjusting its estimate' };
+    }
+
+    const validationError = validateAdjustmentInput(input, fullReport.damageDetails);
+    if (validationError) {
+      return { success: false, message: validationError };
+    }
+
+    const adjustedAt = new Date().toISOString();
+    const detailsById = new Map(fullReport.damageDetails.map((detail) => [detail.$id, detail]));
+
+    // 1. Apply line overrides (adjuster-added lines are deleted outright when removed)
+    await Promise.all(
+      input.lines.map((line) => {
+        const detail = detailsById.get(line.detailId)!;
+
+        if (line.removed && detail.is_adjuster_added) {
+          return databases.deleteDocument(DATABASE_ID, COLLECTION_IDS.REPORT_DAMAGE_DETAILS, detail.$id);
+        }
+
+        return databases.updateDocument(
+          DATABASE_ID,
+          COLLECTION_IDS.REPORT_DAMAGE_DETAILS,
+          detail.$id,
+          {
+            ...(line.repairCost !== undefined ? { adjusted_repair_cost: line.repairCost } : {}),
+            ...(line.repairOrReplace !== undefined ? { adjusted_repair_or_replace: line.repairOrReplace } : {}),
+            ...(line.removed !== undefined ? { is_removed: line.removed } : {}),
+            adjusted_by_user_id: session.id,
+            adjusted_at: adjustedAt,
+          }
+        );
+      })
+    );
+
+    // 2. Create adjuster-added lines
+    if (input.addedLines.length > 0) {
+      let teamId: string | undefined;
+      if (report.insurance_company_id) {
+        const company = await databases.getDocument<InsuranceCompanyDocument>(
+          DATABASE_ID,
+          COLLECTION_IDS.INSURANCE_COMPANIES,
+          report.insurance_company_id
+        );
+        teamId = company.team_id;
+      }
+
+      const nextSortOrder =
+        Math.max(-1, ...fullReport.damageDetails.map((detail) => detail.sort_order)) + 1;
+
+      await Promise.all(
+        input.addedLines.map((line, index) =>
+          databases.createDocument(
+            DATABASE_ID,
+            COLLECTION_IDS.REPORT_DAMAGE_DETAILS,
+            ID.unique(),
+            {
+              claim_id: reportId,
+              part_name: line.partName.trim().slice(0, 100),
+              severity: line.severity,
+              description: (line.description?.trim() || 'Added by adjuster').slice(0, 500),
+              sort_order: nextSortOrder + index,
+              is_inferred: false,
+              is_adjuster_added: true,
+              adjusted_repair_cost: line.repairCost,
+              adjusted_repair_or_replace: line.repairOrReplace ?? null,
+              adjusted_by_user_id: session.id,
+              adjusted_at: adjustedAt,
+            },
+            getReportRelatedPermissions(report.user_id, teamId)
+          )
+        )
+      );
+    }
+
+    // 3. Recompute totals from the saved lines
+    const { damageDetails } = await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, reportId);
+    const financials = computeAdjustedFinancials(
+      assessment?.total_repair_estimate ?? report.estimated_total_repair_cost,
+      assessment,
+      damageDetails.filter((detail) => !detail.is_inferred),
+      {
+        coveredAmount: input.coveredAmount,
+        deductible: input.deductible,
+      }
+    );
+
+    await databases.updateDocument<ReportDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORTS,
+      reportId,
+      {
+        adjusted_total_repair_cost: financials.totalRepairEstimate,
+        updated_by_user_id: session.id,
+      }
+    );
+
+    if (assessment) {
+      await databases.updateDocument(
+        DATABASE_ID,
+        COLLECTION_IDS.REPORT_ASSESSMENTS,
+        assessment.$id,
+        {
+          adjusted_total_repair_estimate: financials.totalRepairEstimate,
+          // Only explicit overrides are stored; derived values follow later line changes
+          adjusted_covered_amount: input.coveredAmount ?? null,
+          adjusted_deductible: input.deductible ?? null,
+          adjusted_estimated_payout: financials.estimatedPayout,
+          adjusted_by_user_id: session.id,
+          adjusted_at: adjustedAt,
+          adjustment_note: input.note?.trim().slice(0, 1000) || null,
+        }
+      );
+    }
+
+    revalidateTag(`reports-${report.user_id}`, { expire: 0 });
+    if (report.insurance_company_id) {
+      revalidateTag(`reports-company-${report.insurance_company_id}`, { expire: 0 });
+    }
+
+    await recordAuditLog({
+      action: 'update_claim',
+      resourceType: 'claim',
+      resourceId: reportId,
+      result: 'success',
+      metadata: {
+        adjustment: true,
+        changed_lines: input.lines.length,
+        added_lines: input.addedLines.length,
+        ai_total_repair_cost: report.estimated_total_repair_cost,
+        adjusted_total_repair_cost: financials.totalRepairEstimate,
+        ai_estimated_payout: assessment?.estimated_payout,
+        adjusted_estimated_payout: assessment ? financials.estimatedPayout : undefined,
+      },
+    });
+
+    return { success: true, data: financials };
+  } catch (error: any) {
+    console.error('Failed to adjust report:', error);
+    await recordAuditLog({
+      action: 'update_claim',
+      resourceType: 'claim',
+      resourceId: reportId,
+      result: 'error',
+      errorMessage: error.message,
+      metadata: { adjustment: true },
+    });
+    return {
+      success: false,
+      message: error.message || 'Failed to save adjustments',
+    };
+  }
+}
+
+/**
+ * Check an adjustment against the report's damage lines
+ *
+ * @returns Error message, or null if the input is valid
+ */
+function validateAdjustmentInput(
+  input: ReportAdjustmentInput,
+  details: ReportDamageDetailDocument[]
+): string | null {
+  const isValidAmount = (value: number | null | undefined) =>
+    value == null || (Number.isFinite(value) && value >= 0);
+
+  for (const line of input.lines) {
+    const detail = details.find((d) => d.$id === line.detailId);
+    if (!detail || detail.is_inferred) {
+      return 'Damage line not found on this report';
+    }
+    if (!isValidAmount(line.repairCost)) {
+      return `Invalid repair cost for "${detail.part_name}"`;
+    }
+    if (line.repairOrReplace != null && !REPAIR_OR_REPLACE_VALUES.includes(line.repairOrReplace)) {
+      return `Invalid repair or replace recommendation for "${detail.part_name}"`;
+    }
+  }
+
+  for (const line of input.addedLines) {
+    if (!line.partName?.trim()) {
+      return 'New damage lines need a part name';
+    }
+    if (line.repairCost == null || !isValidAmount(line.repairCost)) {
+      return `Invalid repair cost for "${line.partName}"`;
+    }
+    if (!SEVERITY_VALUES.includes(line.severity)) {
+      return `Invalid severity for "${line.partName}"`;
+    }
+    if (line.repairOrReplace != null && !REPAIR_OR_REPLACE_VALUES.includes(line.repairOrReplace)) {
+      return `Invalid repair or replace recommendation for "${line.partName}"`;
+    }
+  }
+
+  if (!isValidAmount(input.coveredAmount) || !isValidAmount(input.deductible)) {
+    return 'Covered amount and deductible must be positive numbers';
+  }
+
+  return null;
+}
@@ -0,0 +1,334 @@
+"use server";
+
+import { ID, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { API_KEY_SCOPES, generateApiKey } from '@/lib/api/apiKeys';
+import { getApiUsage, type ApiUsageRow } from '@/lib/api/usage';
+import { recordAuditLog } from '@/lib/audit/auditLogs';
+import type { ApiKeyDocument, ApiKeyScope, UserDocument } from '@/lib/types/appwrite';
+
+/**
+ * API Key Management
+ * Create, rotate and revoke the v1 API keys of the signed-in adjuster's
+ * insurance company, and report their usage. Plaintext keys are only ever
+ * returned by create/rotate.
+ */
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKeySummary;
+  /** Plaintext key - shown once, never stored */
+  key: string;
+}
+
+const MAX_KEY_NAME_LENGTH = 128;
+const MAX_USAGE_DAYS = 90;
+
+/**
+ * List the company's API keys, newest first
+ *
+ * @returns Key summaries (without hashes) or error
+ */
+export async function listApiKeys(): Promise<{
+  success: boolean;
+  apiKeys?: ApiKeySummary[];
+  message?: string;
+}> {
+  try {
+    const manager = await getKeyManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const { databases } = await adminAction();
+    const result = await databases.listDocuments<ApiKeyDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.API_KEYS,
+      [
+        Query.equal('insurance_company_id', manager.insurance_company_id),
+        Query.orderDesc('$createdAt'),
+        Query.limit(100),
+      ]
+    );
+
+    return { success: true, apiKeys: result.documents.map(toApiKeySummary) };
+  } catch (error: any) {
+    console.error('Failed to list API keys:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to load API keys',
+    };
+  }
+}
+
+/**
+ * Create an API key for the company
+ *
+ * @param name - Label identifying the integration
+ * @param scopes - Scopes granted to the key
+ * @returns The new key, including its plaintext value, or error
+ *
+ * @example
+ * const result = await createApiKey('Claims portal', ['reports:read', 'widget']);
+ * if (result.success) {
+ *   showOnce(result.data.key);
+ * }
+ */
+export async function createApiKey(
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<{ success: boolean; data?: CreatedApiKey; message?: string }> {
+  try {
+    const manager = await getKeyManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const trimmedName = name?.trim() ?? '';
+    if (!trimmedName) {
+      return { success: false, message: 'Please give the key a name' };
+    }
+    const uniqueScopes = [...new Set(scopes)];
+    if (uniqueScopes.length === 0 || uniqueScopes.some((scope) => !API_KEY_SCOPES.includes(scope))) {
+      return { success: false, message: 'Select at least one valid scope' };
+    }
+
+    const created = await insertApiKey(
+      manager,
+      trimmedName.slice(0, MAX_KEY_NAME_LENGTH),
+      uniqueScopes
+    );
+
+    await recordAuditLog({
+      action: 'create_api_key',
+      resourceType: 'api_key',
+      resourceId: created.apiKey.id,
+      result: 'success',
+      metadata: {
+        insurance_company_id: manager.insurance_company_id,
+        scopes: uniqueScopes,
+      },
+    });
+
+    return { success: true, data: created };
+  } catch (error: any) {
+    console.error('Failed to create API key:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to create API key',
+    };
+  }
+}
+
+/**
+ * Replace a key with a new one that has the same name and scopes
+ * The old key is revoked immediately.
+ *
+ * @param keyId - The API key document ID
+ * @returns The replacement key, including its plaintext value, or error
+ */
+export async function rotateApiKey(
+  keyId: string
+): Promise<{ success: boolean; data?: CreatedApiKey; message?: string }> {
+  try {
+    const manager = await getKeyManager();
+    const existing = manager ? await getCompanyApiKey(manager, keyId) : null;
+    if (!manager || !existing) {
+      return { success: false, message: 'API key not found' };
+    }
+    if (existing.revoked_at) {
+      return { success: false, message: 'Revoked keys cannot be rotated' };
+    }
+
+    const created = await insertApiKey(manager, existing.name, existing.scopes);
+
+    const { databases } = await adminAction();
+    await databases.updateDocument<ApiKeyDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.API_KEYS,
+      existing.$id,
+      {
+        revoked_at: new Date().toISOString(),
+        rotated_to_key_id: created.apiKey.id,
+      }
+    );
+
+    await recordAuditLog({
+      action: 'rotate_api_key',
+      resourceType: 'api_key',
+      resourceId: existing.$id,
+      result: 'success',
+      metadata: {
+        insurance_company_id: existing.insurance_company_id,
+        replacement_key_id: created.apiKey.id,
+      },
+    });
+
+    return { success: true, data: created };
+  } catch (error: any) {
+    console.error('Failed to rotate API key:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to rotate API key',
+    };
+  }
+}
+
+/**
+ * Revoke a key; requests made with it are rejected from then on
+ *
+ * @param keyId - The API key document ID
+ * @returns Success or error
+ */
+export async function revokeApiKey(
+  keyId: string
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    const manager = await getKeyManager();
+    const existing = manager ? await getCompanyApiKey(manager, keyId) : null;
+    if (!manager || !existing) {
+      return { success: false, message: 'API key not found' };
+    }
+    if (existing.revoked_at) {
+      return { success: true };
+    }
+
+    const { databases } = await adminAction();
+    await databases.updateDocument<ApiKeyDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.API_KEYS,
+      existing.$id,
+      { revoked_at: new Date().toISOString() }
+    );
+
+    await recordAuditLog({
+      action: 'revoke_api_key',
+      resourceType: 'api_key',
+      resourceId: existing.$id,
+      result: 'success',
+      metadata: { insurance_company_id: existing.insurance_company_id },
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to revoke API key:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to revoke API key',
+    };
+  }
+}
+
+/**
+ * Daily v1 API usage of the company's keys, per endpoint
+ *
+ * @param days - Number of UTC days to include, including today (1-90)
+ * @returns Usage rows, newest day first, or error
+ */
+export async function getApiKeyUsage(days: number = 14): Promise<{
+  success: boolean;
+  usage?: ApiUsageRow[];
+  message?: string;
+}> {
+  try {
+    const manager = await getKeyManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const usage = await getApiUsage({
+      companyId: manager.insurance_company_id,
+      days: Math.min(Math.max(Math.floor(days) || 1, 1), MAX_USAGE_DAYS),
+    });
+
+    return { success: true, usage };
+  } catch (error: any) {
+    console.error('Failed to load API usage:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to load API usage',
+    };
+  }
+}
+
+/**
+ * Signed-in insurance adjuster (or admin) of a company, null otherwise
+ */
+async function getKeyManager(): Promise<UserDocument | null> {
+  const session = await getSession();
+  if (!session) return null;
+
+  const userDoc = await getUserDocument(session.id);
+  if (!userDoc || (userDoc.role !== 'insurance_adjuster' && userDoc.role !== 'admin')) {
+    return null;
+  }
+  return userDoc;
+}
+
+/**
+ * Load a key, only if it belongs to the manager's company
+ */
+async function getCompanyApiKey(manager: UserDocument, keyId: string): Promise<ApiKeyDocument | null> {
+  if (!manager.insurance_company_id) return null;
+
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<ApiKeyDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.API_KEYS,
+    [
+      Query.equal('$id', keyId),
+      Query.equal('insurance_company_id', manager.insurance_company_id),
+      Query.limit(1),
+    ]
+  );
+  return result.documents[0] ?? null;
+}
+
+async function insertApiKey(
+  manager: UserDocument,
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<CreatedApiKey> {
+  const { key, prefix, hash } = generateApiKey();
+
+  const { databases } = await adminAction();
+  const document = await databases.createDocument<ApiKeyDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.API_KEYS,
+    ID.unique(),
+    {
+      insurance_company_id: manager.insurance_company_id!,
+      name,
+      key_prefix: prefix,
+      key_hash: hash,
+      scopes,
+      created_by_user_id: manager.$id,
+    }
+  );
+
+  return { apiKey: toApiKeySummary(document), key };
+}
+
+function toApiKeySummary(document: ApiKeyDocument): ApiKeySummary {
+  return {
+    id: document.$id,
+    name: document.name,
+    prefix: document.key_prefix,
+    scopes: document.scopes,
+    createdAt: document.$createdAt,
+    lastUsedAt: document.last_used_at,
+    revokedAt: document.revoked_at,
+  };
+}
@@ -0,0 +1,497 @@
+"use server";
+
+import { Query } from 'node-appwrite';
+import { revalidateTag } from 'next/cache';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { getTeamMembers } from '@/appwrite/teams';
+import { createNotification } from '@/appwrite/createNotification';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { canReviewReport } from '@/lib/permissions';
+import { recordAuditLog } from '@/lib/audit/auditLogs';
+import type {
+  ClaimStatus,
+  InsuranceCompanyDocument,
+  ReportDocument,
+  ReportFraudAssessmentDocument,
+  UserDocument,
+} from '@/lib/types/appwrite';
+
+/**
+ * Adjuster Work Queue
+ * Filtered, sorted, cursor-paginated company claims with assignment.
+ * Every function resolves the company from the signed-in adjuster - callers
+ * never pass a company ID.
+ */
+
+export type ClaimQueueSort =
+  | 'newest'
+  | 'oldest'
+  | 'cost_desc'
+  | 'cost_asc'
+  | 'confidence_asc'
+  | 'confidence_desc'
+  | 'fraud_desc';
+
+export interface ClaimQueueFilters {
+  status?: ClaimStatus;
+  severity?: ReportDocument['overall_severity'];
+  damageType?: ReportDocument['damage_type'];
+  investigation?: boolean;
+  /** Team member user ID, or "unassigned" */
+  assignee?: string;
+  fromDate?: string; // YYYY-MM-DD, inclusive
+  toDate?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface ClaimQueuePageRequest {
+  filters?: ClaimQueueFilters;
+  sort?: ClaimQueueSort;
+  /** Document ID to page from */
+  cursor?: string;
+  direction?: 'next' | 'previous';
+  limit?: number;
+}
+
+export interface ClaimQueuePage {
+  reports: ReportDocument[];
+  /** Report ID to fraud score, from the team-only fraud assessments */
+  fraudScores: Record<string, number>;
+  total: number;
+  /** Pass as cursor with direction "next"; unset on the last page */
+  nextCursor?: string;
+  /** Pass as cursor with direction "previous"; unset on the first page */
+  previousCursor?: string;
+}
+
+export interface ClaimQueueStats {
+  total: number;
+  unassigned: number;
+  awaitingReview: number;
+  needsInvestigation: number;
+  approved: number;
+  denied: number;
+}
+
+export interface ClaimQueueMember {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const FRAUD_SORT_BATCH_SIZE = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// fraud_desc is paged over the fraud assessments, see listClaimsByFraudScore
+const SORT_QUERIES: Record<Exclude<ClaimQueueSort, 'fraud_desc'>, () => string[]> = {
+  newest: () => [Query.orderDesc('analysis_timestamp')],
+  oldest: () => [Query.orderAsc('analysis_timestamp')],
+  cost_desc: () => [Query.orderDesc('estimated_total_repair_cost')],
+  cost_asc: () => [Query.orderAsc('estimated_total_repair_cost')],
+  confidence_asc: () => [Query.orderAsc('confidence_score')],
+  confidence_desc: () => [Query.orderDesc('confidence_score')],
+};
+
+interface QueueSlice {
+  reports: ReportDocument[]; // In the paging direction's order, at most limit + 1
+  total: number;
+  fraudScores?: Record<string, number>;
+}
+
+/**
+ * List a page of the adjuster's company claims
+ *
+ * @param request - Filters, sort and cursor
+ * @returns Page of reports with cursors, or error
+ *
+ * @example
+ * const result = await listQueueClaims({ filters: { assignee: 'unassigned' }, sort: 'cost_desc' });
+ * if (result.success) {
+ *   console.log(result.data.reports, result.data.nextCursor);
+ * }
+ */
+export async function listQueueClaims(request: ClaimQueuePageRequest = {}): Promise<{
+  success: boolean;
+  data?: ClaimQueuePage;
+  message?: string;
+}> {
+  try {
+    const adjuster = await getQueueAdjuster();
+    if (!adjuster?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const limit = Math.min(Math.max(request.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const direction = request.direction ?? 'next';
+    const sort = request.sort ?? 'newest';
+    const { databases } = await adminAction();
+
+    let result: QueueSlice;
+    if (sort === 'fraud_desc') {
+      result = await listClaimsByFraudScore(adjuster.insurance_company_id, request, limit);
+    } else {
+      // Fetch one extra document to know whether another page exists in the paging direction
+      const { documents, total } = await databases.listDocuments<ReportDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.REPORTS,
+        [
+          Query.equal('insurance_company_id', adjuster.insurance_company_id),
+          ...buildQueueFilterQueries(request.filters),
+          ...SORT_QUERIES[sort](),
+          ...(request.cursor
+            ? [direction === 'next' ? Query.cursorAfter(request.cursor) : Query.cursorBefore(request.cursor)]
+            : []),
+          Query.limit(limit + 1),
+        ]
+      );
+      result = { reports: documents, total };
+    }
+
+    const hasMore = result.reports.length > limit;
+    const reports =
+      direction === 'next'
+        ? result.reports.slice(0, limit)
+        : result.reports.slice(-limit);
+    const fraudScores = result.fraudScores ?? (await getFraudScores(reports.map((report) => report.$id)));
+
+    const first = reports[0]?.$id;
+    const last = reports[reports.length - 1]?.$id;
+    const hasNext = direction === 'next' ? hasMore : !!request.cursor;
+    const hasPrevious = direction === 'next' ? !!request.cursor : hasMore;
+
+    return {
+      success: true,
+      data: {
+        reports,
+        fraudScores,
+        total: result.total,
+        nextCursor: hasNext ? last : undefined,
+        previousCursor: hasPrevious ? first : undefined,
+      },
+    };
+  } catch (error: any) {
+    console.error('Failed to list queue claims:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to load claims',
+    };
+  }
+}
+
+/**
+ * Company-wide queue statistics from server-side counts
+ *
+ * @returns Counts over all company claims (not just the current page), or error
+ */
+export async function getQueueStats(): Promise<{
+  success: boolean;
+  data?: ClaimQueueStats;
+  message?: string;
+}> {
+  try {
+    const adjuster = await getQueueAdjuster();
+    if (!adjuster?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const { databases } = await adminAction();
+    const companyId = adjuster.insurance_company_id;
+
+    const count = async (queries: string[]) => {
+      const result = await databases.listDocuments<ReportDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.REPORTS,
+        [Query.equal('insurance_company_id', companyId), ...queries, Query.limit(1)]
+      );
+      return result.total;
+    };
+
+    const [total, unassigned, awaitingReview, needsInvestigation, approved, denied] = await Promise.all([
+      count([]),
+      count([Query.isNull('assigned_to_user_id')]),
+      count([Query.equal('claim_status', ['pending', 'analyzed'])]),
+      count([Query.equal('investigation_needed', true)]),
+      count([Query.equal('claim_status', 'approved')]),
+      count([Query.equal('claim_status', 'denied')]),
+    ]);
+
+    return {
+      success: true,
+      data: { total, unassigned, awaitingReview, needsInvestigation, approved, denied },
+    };
+  } catch (error: any) {
+    console.error('Failed to get queue stats:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to load queue statistics',
+    };
+  }
+}
+
+/**
+ * Members of the adjuster's insurance company team (assignment options)
+ *
+ * @returns Team members or error
+ */
+export async function getQueueMembers(): Promise<{
+  success: boolean;
+  members?: ClaimQueueMember[];
+  message?: string;
+}> {
+  try {
+    const adjuster = await getQueueAdjuster();
+    if (!adjuster?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const members = await getCompanyMembers(adjuster.insurance_company_id);
+    return { success: true, members };
+  } catch (error: any) {
+    console.error('Failed to get queue members:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to load team members',
+    };
+  }
+}
+
+/**
+ * Assign a claim to a member of the company team
+ *
+ * @param reportId - The report document ID
+ * @param assigneeUserId - Team member user ID, or null to unassign
+ * @returns Success or error
+ *
+ * @example
+ * await assignClaim(reportId, teamMemberId);
+ */
+export async function assignClaim(
+  reportId: string,
+  assigneeUserId: string | null
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    const adjuster = await getQueueAdjuster();
+    if (!adjuster) {
+      return { success: false, message: 'Unauthorized' };
+    }
+
+    const { databases } = await adminAction();
+    const report = await databases.getDocument<ReportDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORTS,
+      reportId
+    );
+
+    if (!canReviewReport(adjuster, report) || !report.insurance_company_id) {
+      return { success: false, message: 'You do not have permission to assign this claim' };
+    }
+
+    if (assigneeUserId) {
+      const members = await getCompanyMembers(report.insurance_company_id);
+      if (!members.some((member) => member.userId === assigneeUserId)) {
+        return { success: false, message: 'Assignee is not a member of your team' };
+      }
+    }
+
+    await databases.updateDocument(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORTS,
+      reportId,
+      {
+        assigned_to_user_id: assigneeUserId,
+        assigned_at: assigneeUserId ? new Date().toISOString() : null,
+      }
+    );
+
+    if (assigneeUserId && assigneeUserId !== adjuster.$id) {
+      createNotification({
+        user_id: assigneeUserId,
+        title: 'Claim Assigned',
+        message: `Claim ${report.claim_number} has been assigned to you.`,
+        type: 'report_updated',
+        link: `/auth/reports/${reportId}`,
+        report_id: reportId,
+      }).catch((err) => console.error('Failed to create notification:', err));
+    }
+
+    revalidateTag(`reports-company-${report.insurance_company_id}`, { expire: 0 });
+
+    await recordAuditLog({
+      action: 'update_claim',
+      resourceType: 'claim',
+      resourceId: reportId,
+      result: 'success',
+      metadata: {
+        previous_assignee: report.assigned_to_user_id ?? null,
+        assignee: assigneeUserId,
+      },
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to assign claim:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to assign claim',
+    };
+  }
+}
+
+/**
+ * Signed-in insurance adjuster (or admin), null otherwise
+ */
+async function getQueueAdjuster(): Promise<UserDocument | null> {
+  const session = await getSession();
+  if (!session) return null;
+
+  const userDoc = await getUserDocument(session.id);
+  if (!userDoc || (userDoc.role !== 'insurance_adjuster' && userDoc.role !== 'admin')) {
+    return null;
+  }
+  return userDoc;
+}
+
+/**
+ * Claims ordered by fraud score, highest first
+ * The score is only stored on the team-only fraud assessments, so those are paged in score
+ * order and the reports matching the filters looked up batch by batch. A fraud assessment
+ * has its report's ID, so report IDs work as cursors here too. Reports without a score
+ * (created before scoring) are not listed.
+ */
+async function listClaimsByFraudScore(
+  insuranceCompanyId: string,
+  request: ClaimQueuePageRequest,
+  limit: number
+): Promise<QueueSlice> {
+  const { databases } = await adminAction();
+  const direction = request.direction ?? 'next';
+  const filterQueries = [
+    Query.equal('insurance_company_id', insuranceCompanyId),
+    ...buildQueueFilterQueries(request.filters),
+  ];
+
+  const reports: ReportDocument[] = [];
+  const fraudScores: Record<string, number> = {};
+  let cursor = request.cursor;
+  while (reports.length <= limit) {
+    const batch = await databases.listDocuments<ReportFraudAssessmentDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORT_FRAUD_ASSESSMENTS,
+      [
+        Query.equal('insurance_company_id', insuranceCompanyId),
+        Query.isNotNull('fraud_score'),
+        Query.orderDesc('fraud_score'),
+        Query.select(['$id', 'claim_id', 'fraud_score']),
+        ...(cursor ? [direction === 'next' ? Query.cursorAfter(cursor) : Query.cursorBefore(cursor)] : []),
+        Query.limit(FRAUD_SORT_BATCH_SIZE),
+      ]
+    );
+    if (batch.documents.length === 0) break;
+
+    const matching = await databases.listDocuments<ReportDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORTS,
+      [
+        Query.equal('$id', batch.documents.map((assessment) => assessment.claim_id)),
+        ...filterQueries,
+        Query.limit(batch.documents.length),
+      ]
+    );
+    const reportsById = new Map(matching.documents.map((report) => [report.$id, report]));
+    const ordered = batch.documents.flatMap((assessment) => {
+      const report = reportsById.get(assessment.claim_id);
+      if (!report) return [];
+      fraudScores[report.$id] = assessment.fraud_score ?? 0;
+      return [report];
+    });
+
+    if (direction === 'next') {
+      reports.push(...ordered);
+      cursor = batch.documents[batch.documents.length - 1].$id;
+    } else {
+      reports.unshift(...ordered);
+      cursor = batch.documents[0].$id;
+    }
+    if (batch.documents.length < FRAUD_SORT_BATCH_SIZE) break;
+  }
+
+  const { total } = await databases.listDocuments<ReportDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.REPORTS,
+    [...filterQueries, Query.limit(1)]
+  );
+
+  return { reports, total, fraudScores };
+}
+
+/**
+ * Fraud scores of a page of reports
+ */
+async function getFraudScores(reportIds: string[]): Promise<Record<string, number>> {
+  if (reportIds.length === 0) return {};
+
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<ReportFraudAssessmentDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.REPORT_FRAUD_ASSESSMENTS,
+    [
+      Query.equal('claim_id', reportIds),
+      Query.select(['claim_id', 'fraud_score']),
+      Query.limit(reportIds.length),
+    ]
+  );
+
+  return Object.fromEntries(
+    result.documents.flatMap((assessment) =>
+      assessment.fraud_score != null ? [[assessment.claim_id, assessment.fraud_score]] : []
+    )
+  );
+}
+
+async function getCompanyMembers(insuranceCompanyId: string): Promise<ClaimQueueMember[]> {
+  const { databases } = await adminAction();
+  const company = await databases.getDocument<InsuranceCompanyDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.INSURANCE_COMPANIES,
+    insuranceCompanyId
+  );
+  if (!company.team_id) return [];
+
+  const result = await getTeamMembers(company.team_id);
+  if (!result.success || !result.members) {
+    throw new Error(result.message || 'Failed to get team members');
+  }
+
+  return result.members.map((membership) => ({
+    userId: membership.userId,
+    name: membership.userName || membership.userEmail,
+    email: membership.userEmail,
+  }));
+}
+
+function buildQueueFilterQueries(filters: ClaimQueueFilters = {}): string[] {
+  const queries: string[] = [];
+
+  if (filters.status) queries.push(Query.equal('claim_status', filters.status));
+  if (filters.severity) queries.push(Query.equal('overall_severity', filters.severity));
+  if (filters.damageType) queries.push(Query.equal('damage_type', filters.damageType));
+  if (filters.investigation !== undefined) {
+    queries.push(Query.equal('investigation_needed', filters.investigation));
+  }
+  if (filters.assignee === 'unassigned') {
+    queries.push(Query.isNull('assigned_to_user_id'));
+  } else if (filters.assignee) {
+    queries.push(Query.equal('assigned_to_user_id', filters.assignee));
+  }
+  if (filters.fromDate && DATE_PATTERN.test(filters.fromDate)) {
+    queries.push(Query.greaterThanEqual('analysis_timestamp', `${filters.fromDate}T00:00:00.000Z`));
+  }
+  if (filters.toDate && DATE_PATTERN.test(filters.toDate)) {
+    queries.push(Query.lessThanEqual('analysis_timestamp', `${filters.toDate}T23:59:59.999Z`));
+  }
+
+  return queries;
+}
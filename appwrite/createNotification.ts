@@ -9,7 +9,7 @@ export interface CreateNotificationInput {
   user_id: string;
   title: string;
   message: string;
-  type: 'report_completed' | 'report_updated' | 'system' | 'info';
+  type: 'report_completed' | 'report_updated' | 'system' | 'info' | 'mention';
   link?: string;
   report_id?: string;
 }
@@ -2,17 +2,56 @@
 
 import { adminAction } from '@/appwrite/adminOrClient';
 import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
-import { ID } from 'node-appwrite';
-import { getReportPermissions, getReportRelatedPermissions } from '@/lib/permissions';
+import { AppwriteException, ID, type Models } from 'node-appwrite';
+import { revalidateTag } from 'next/cache';
+import {
+  canReviewReport,
+  getReportHistoryPermissions,
+  getReportInternalPermissions,
+  getReportPermissions,
+  getReportRelatedPermissions,
+} from '@/lib/permissions';
+import { canTransitionClaimStatus, formatClaimStatus, isTransitionReasonRequired } from '@/lib/claimStatus';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
 import { createNotification } from '@/appwrite/createNotification';
-import type { EnhancedAutoDamageAnalysis } from '@/lib/gemini/types';
-import type { ReportDocument, InsuranceCompanyDocument } from '@/lib/types/appwrite';
+import { recordAuditLog } from '@/lib/audit/auditLogs';
+import { dispatchReportEvent } from '@/lib/webhooks/deliveries';
+import { validateAutoDamageAnalysis } from '@/lib/gemini/utils/validateResponse';
+import { collectFraudSignals, computeFraudScore } from '@/lib/fraud/fraudScore';
+import { resolveFraudScoringConfig } from '@/lib/fraud/scoringConfig';
+import { findRecycledMedia, saveMediaFingerprints } from '@/lib/media/recycledMedia';
+import type { MediaFingerprint } from '@/lib/media/fingerprint';
+import type { IncidentDetails } from '@/lib/incident';
+import { getPolicyPeriodStatus, type PolicyTerms } from '@/lib/policy/policyTerms';
+import { calculateCoverage, type CoverageCalculation } from '@/lib/policy/coverageCalculator';
+import type {
+  EnhancedAutoDamageAnalysis,
+  IncidentAssessment,
+  MetadataForensicsResult,
+  SecurityScanResult,
+} from '@/lib/gemini/types';
+import type {
+  ClaimStatus,
+  ReportDocument,
+  InsuranceCompanyDocument,
+  ReportStatusHistoryDocument,
+} from '@/lib/types/appwrite';
 
 /**
  * Report Creation Server Action
  * Creates a report with all related documents and proper permissions
  */
 
+// report_status_history.reason size in schema/database.schema.json
+const MAX_STATUS_REASON_LENGTH = 1000;
+
+// claim_fraud_assessments.metadata_forensics_json size in schema/database.schema.json
+const MAX_METADATA_FORENSICS_LENGTH = 8000;
+
+// claim_assessments.coverage_calculation_json size in schema/database.schema.json
+const MAX_COVERAGE_CALCULATION_LENGTH = 16000;
+
 /**
  * Normalize severity value to match database enum
  * Handles Gemini response variations and ensures valid database values
@@ -546,14 +585,28 @@ export interface CreateReportResult {
   message?: string;
 }
 
+/** What is known about the submission besides the analysis: the uploaded evidence and the claimant's account */
+export interface ReportEvidence {
+  securityRiskLevel?: SecurityScanResult['riskLevel']; // Highest risk of the upload security scan, if it found anything
+  mediaFingerprints?: MediaFingerprint[]; // From fingerprintMedia, checked against earlier claims
+  metadataForensics?: MetadataForensicsResult; // EXIF and container metadata checks (analyzeMediaMetadata)
+  incident?: IncidentDetails; // Incident details entered with the submission
+  policyTerms?: PolicyTerms; // Stored terms of the policy, when it has them (policy period check)
+}
+
 /**
  * Create a report from Gemini analysis data
+ * With a reserved report ID this is safe to retry: the related documents get IDs derived
+ * from the report ID, so a retry keeps whatever an earlier attempt wrote before stopping
+ * and creates only what is missing. Notifications and webhooks are sent again on a retry.
  *
  * @param userId - The user creating the report
  * @param insuranceCompanyId - The insurance company ID (optional)
  * @param analysisData - The Gemini analysis result
  * @param mediaFileIds - IDs of uploaded media files (images/videos)
  * @param policyFileId - ID of uploaded policy PDF (optional)
+ * @param reservedReportId - Report ID handed out before the analysis ran (optional)
+ * @param evidence - Security scan risk, media fingerprints, metadata forensics, incident details and policy terms (optional)
  * @returns Created report or error
  *
  * @example
@@ -574,7 +627,9 @@ export async function createReportFromAnalysis(
   insuranceCompanyId: string | undefined,
   analysisData: EnhancedAutoDamageAnalysis,
   mediaFileIds: string[],
-  policyFileId?: string
+  policyFileId?: string,
+  reservedReportId?: string,
+  evidence: ReportEvidence = {}
 ): Promise<CreateReportResult> {
   try {
     const { databases } = await adminAction();
@@ -590,9 +645,35 @@ export async function createReportFromAnalysis(
       teamId = company.team_id;
     }
 
-    const reportId = ID.unique();
+    const reportId = reservedReportId ?? ID.unique();
+
+    // 1b. Look the evidence up in earlier claims and score the fraud signals;
+    // claims at the company's threshold go straight to investigation
+    const mediaFingerprints = evidence.mediaFingerprints ?? [];
+    const [scoringConfig, validation, recycledMedia] = await Promise.all([
+      resolveFraudScoringConfig(insuranceCompanyId),
+      validateAutoDamageAnalysis(analysisData, {
+        metadataForensics: evidence.metadataForensics,
+        policyTerms: evidence.policyTerms,
+        incidentDate: evidence.incident?.occurredAt,
+      }),
+      findRecycledMedia(mediaFingerprints, { reportId, userId, insuranceCompanyId }),
+    ]);
+    const fraudScore = computeFraudScore(
+      collectFraudSignals(analysisData, {
+        flaggedReasons: validation.flaggedReasons,
+        securityRisk: evidence.securityRiskLevel,
+        recycledMedia,
+        mediaFingerprints,
+        metadataFlags: evidence.metadataForensics?.flags,
+        hasPolicy: !!policyFileId,
+      }),
+      scoringConfig.weights
+    );
+    const routeToInvestigation =
+      scoringConfig.autoRouteEnabled && fraudScore.score >= scoringConfig.investigationThreshold;
 
-    // 2. Create main report with permissions
+    // 2. Create main report with permissions (or keep the one an earlier attempt created)
     const report = await databases.createDocument<ReportDocument>(
       DATABASE_ID,
       COLLECTION_IDS.REPORTS,
@@ -601,7 +682,7 @@ export async function createReportFromAnalysis(
         user_id: userId,
         insurance_company_id: insuranceCompanyId,
         claim_number: generateReportNumber(),
-        claim_status: 'pending',
+        claim_status: routeToInvestigation ? 'needs_investigation' : 'pending',
         damage_type: normalizeDamageType(analysisData.damageType),
         damage_cause: toValidString(analysisData.damageCause, 500, 'damage_cause'),
         overall_severity: normalizeSeverity(analysisData.overallSeverity),
@@ -610,7 +691,7 @@ export async function createReportFromAnalysis(
         confidence_score: analysisData.confidence,
         confidence_reasoning: toValidString(analysisData.confidenceReasoning, 1000, 'confidence_reasoning'),
         vehicle_verification_status: analysisData.vehicleVerification.verificationStatus,
-        investigation_needed: analysisData.investigationNeeded,
+        investigation_needed: analysisData.investigationNeeded || routeToInvestigation,
         investigation_reason: analysisData.investigationReason
           ? toValidString(analysisData.investigationReason, 500, 'investigation_reason')
           : undefined,
@@ -623,7 +704,7 @@ export async function createReportFromAnalysis(
         is_public: false,
       },
       getReportPermissions(userId, teamId, false)
-    );
+    ).catch(keepExisting<ReportDocument>(COLLECTION_IDS.REPORTS, reportId));
 
     // Debug: Log damaged parts to identify invalid severity values
     console.log('🔧 Creating damage details for parts:',
@@ -642,10 +723,11 @@ export async function createReportFromAnalysis(
         console.warn(`📝 Normalized severity for "${part.part}": "${part.severity}" → "${normalizedSeverity}"`);
       }
 
+      const documentId = `${reportId}_part${index}`;
       return databases.createDocument(
         DATABASE_ID,
         COLLECTION_IDS.REPORT_DAMAGE_DETAILS,
-        ID.unique(),
+        documentId,
         {
           claim_id: reportId,
           part_name: part.part,
@@ -665,7 +747,7 @@ export async function createReportFromAnalysis(
           is_inferred: false,
         },
         getReportRelatedPermissions(userId, teamId)
-      );
+      ).catch(keepExisting(COLLECTION_IDS.REPORT_DAMAGE_DETAILS, documentId));
     });
 
     // 3b. Create inferred internal damage documents
@@ -678,10 +760,11 @@ export async function createReportFromAnalysis(
       };
       const severity = likelihoodToSeverity[item.likelihood] || 'moderate';
 
+      const documentId = `${reportId}_inferred${index}`;
       return databases.createDocument(
         DATABASE_ID,
         COLLECTION_IDS.REPORT_DAMAGE_DETAILS,
-        ID.unique(),
+        documentId,
         {
           claim_id: reportId,
           part_name: item.component,
@@ -694,14 +777,14 @@ export async function createReportFromAnalysis(
           inferred_based_on: toValidString(item.basedOn, 500, 'inferred_based_on'),
         },
         getReportRelatedPermissions(userId, teamId)
-      );
+      ).catch(keepExisting(COLLECTION_IDS.REPORT_DAMAGE_DETAILS, documentId));
     });
 
-    // 4. Create vehicle verification document
+    // 4. Create vehicle verification document (one per report, so it shares the report's ID)
     const verificationPromise = databases.createDocument(
       DATABASE_ID,
       COLLECTION_IDS.REPORT_VEHICLE_VERIFICATION,
-      ID.unique(),
+      reportId,
       {
         claim_id: reportId,
         video_license_plate: analysisData.vehicleVerification.videoVehicle.licensePlate,
@@ -730,7 +813,7 @@ export async function createReportFromAnalysis(
         notes: analysisData.vehicleVerification.notes,
       },
       getReportRelatedPermissions(userId, teamId)
-    );
+    ).catch(keepExisting(COLLECTION_IDS.REPORT_VEHICLE_VERIFICATION, reportId));
 
     // Debug: Log coverage limits to identify invalid values
     console.log('💰 Coverage limits:', {
@@ -747,11 +830,12 @@ export async function createReportFromAnalysis(
       excluded_damages: analysisData.claimAssessment.excludedDamages?.length ?? 0,
     });
 
-    // 5. Create assessment document
+    // 5. Create assessment document with the model's breakdown and the one computed from the policy
+    const coverageCalculation = calculateCoverage(analysisData, evidence.policyTerms);
     const assessmentPromise = databases.createDocument(
       DATABASE_ID,
       COLLECTION_IDS.REPORT_ASSESSMENTS,
-      ID.unique(),
+      reportId,
       {
         claim_id: reportId,
         coverage_types: toValidStringArray(analysisData.policyAnalysis.coverageTypes, 100, 'coverage_types'),
@@ -770,11 +854,18 @@ export async function createReportFromAnalysis(
         deductible: toValidFloat(analysisData.claimAssessment.financialBreakdown.deductible),
         non_covered_items: toValidFloat(analysisData.claimAssessment.financialBreakdown.nonCoveredItems),
         estimated_payout: toValidFloat(analysisData.claimAssessment.financialBreakdown.estimatedPayout),
+        computed_total_repair_estimate: coverageCalculation.breakdown.totalRepairEstimate,
+        computed_covered_amount: coverageCalculation.breakdown.coveredAmount,
+        computed_deductible: coverageCalculation.breakdown.deductible,
+        computed_non_covered_items: coverageCalculation.breakdown.nonCoveredItems,
+        computed_estimated_payout: coverageCalculation.breakdown.estimatedPayout,
+        coverage_calculation_json: toCoverageCalculationJson(coverageCalculation),
         reasoning: analysisData.claimAssessment.reasoning,
         policy_references: toValidStringArray(analysisData.claimAssessment.policyReferences, 1200, 'policy_references'),
+        incident_json: evidence.incident ? JSON.stringify(evidence.incident) : undefined,
       },
       getReportRelatedPermissions(userId, teamId)
-    );
+    ).catch(keepExisting(COLLECTION_IDS.REPORT_ASSESSMENTS, reportId));
 
     // Debug: Log assessment data before creation
     console.log('📊 Assessment financial data:', {
@@ -784,13 +875,15 @@ export async function createReportFromAnalysis(
       estimated_payout: analysisData.claimAssessment.financialBreakdown.estimatedPayout ?? 0,
     });
 
-    // 6. Create fraud assessment document
+    // 6. Create fraud assessment document, with the fraud score and evidence kept off the
+    // report (team only); it shares the report's ID so the work queue can page by score
     const fraudAssessmentPromise = databases.createDocument(
       DATABASE_ID,
       COLLECTION_IDS.REPORT_FRAUD_ASSESSMENTS,
-      ID.unique(),
+      reportId,
       {
         claim_id: reportId,
+        insurance_company_id: insuranceCompanyId,
         // Damage age assessment
         damage_age_estimated: analysisData.damageAgeAssessment?.estimatedAge
           ? normalizeDamageAge(analysisData.damageAgeAssessment.estimatedAge)
@@ -832,9 +925,18 @@ export async function createReportFromAnalysis(
               preExistingItems: analysisData.preExistingDamageAssessment.preExistingItems,
             }), 2000, 'pre_existing_data_json')
           : null,
+        fraud_score: fraudScore.score,
+        fraud_score_factors_json: JSON.stringify(fraudScore.factors),
+        recycled_media_json: recycledMedia.length > 0 ? JSON.stringify(recycledMedia) : null,
+        metadata_forensics_json: evidence.metadataForensics
+          ? toMetadataForensicsJson(evidence.metadataForensics)
+          : null,
+        incident_assessment_json: evidence.incident && analysisData.incidentAssessment
+          ? toIncidentAssessmentJson(analysisData.incidentAssessment, evidence.policyTerms, evidence.incident.occurredAt)
+          : null,
       },
-      getReportRelatedPermissions(userId, teamId)
-    );
+      getReportInternalPermissions(teamId)
+    ).catch(keepExisting(COLLECTION_IDS.REPORT_FRAUD_ASSESSMENTS, reportId));
 
     // Debug: Log fraud assessment data
     console.log('🔍 Fraud assessment data:', {
@@ -844,13 +946,45 @@ export async function createReportFromAnalysis(
       pre_existing: analysisData.preExistingDamageAssessment?.preExistingDamageDetected ?? false,
     });
 
-    // 7. Wait for all related documents to be created
+    // 7. Start the status timeline (auto-routing is recorded as a system transition)
+    const historyPermissions = getReportHistoryPermissions(userId, teamId);
+    const statusHistoryPromise = appendStatusHistory(
+      {
+        claim_id: reportId,
+        to_status: 'pending',
+        actor_id: userId,
+        actor_role: 'user',
+      },
+      historyPermissions,
+      `${reportId}_status0`
+    ).then((entry) =>
+      routeToInvestigation
+        ? appendStatusHistory(
+            {
+              claim_id: reportId,
+              from_status: 'pending',
+              to_status: 'needs_investigation',
+              actor_role: 'system',
+              reason: 'Routed for investigation by the fraud score',
+            },
+            historyPermissions,
+            `${reportId}_status1`
+          )
+        : entry
+    );
+
+    // 7b. Fingerprint the evidence for checks of later claims
+    const fingerprintsPromise = saveMediaFingerprints(mediaFingerprints, report);
+
+    // 8. Wait for all related documents to be created
     await Promise.all([
       ...damageDetailsPromises,
       ...inferredDamagesPromises,
       verificationPromise,
       assessmentPromise,
       fraudAssessmentPromise,
+      statusHistoryPromise,
+      fingerprintsPromise,
     ]);
 
     // Create notification for the user
@@ -863,9 +997,43 @@ export async function createReportFromAnalysis(
       report_id: reportId,
     }).catch((err) => console.error('Failed to create notification:', err));
 
+    // Notify the insurance company's systems
+    if (insuranceCompanyId) {
+      dispatchReportEvent('report.created', reportId)
+        .catch((err) => console.error('Failed to dispatch webhook:', err));
+      dispatchReportEvent('report.analyzed', reportId)
+        .catch((err) => console.error('Failed to dispatch webhook:', err));
+      if (report.investigation_needed) {
+        dispatchReportEvent('report.flagged', reportId)
+          .catch((err) => console.error('Failed to dispatch webhook:', err));
+      }
+    }
+
+    await recordAuditLog({
+      userId,
+      action: 'create_claim',
+      resourceType: 'claim',
+      resourceId: reportId,
+      result: 'success',
+      metadata: {
+        claim_number: report.claim_number,
+        insurance_company_id: insuranceCompanyId,
+        media_file_count: mediaFileIds.length,
+        recycled_media_matches: recycledMedia.length,
+        routed_to_investigation: routeToInvestigation,
+      },
+    });
+
     return { success: true, data: report };
   } catch (error: any) {
     console.error('Failed to create report:', error);
+    await recordAuditLog({
+      userId,
+      action: 'create_claim',
+      resourceType: 'claim',
+      result: 'error',
+      errorMessage: error.message,
+    });
     return {
       success: false,
       message: error.message || 'Failed to create report',
@@ -873,6 +1041,84 @@ export async function createReportFromAnalysis(
   }
 }
 
+/**
+ * Rejection handler for a create with a fixed document ID: on a conflict the document was
+ * written by an earlier attempt, which is returned instead
+ *
+ * @example
+ * await databases.createDocument(DATABASE_ID, collectionId, documentId, data)
+ *   .catch(keepExisting(collectionId, documentId));
+ */
+function keepExisting<T extends Models.Document = Models.DefaultDocument>(collectionId: string, documentId: string) {
+  return async (error: unknown): Promise<T> => {
+    if (!(error instanceof AppwriteException && error.code === 409)) {
+      throw error;
+    }
+    const { databases } = await adminAction();
+    return databases.getDocument<T>(DATABASE_ID, collectionId, documentId);
+  };
+}
+
+/**
+ * Serialize metadata forensics for the fraud assessment
+ * The per-file metadata is dropped when the result would not fit; the flags are kept.
+ */
+function toMetadataForensicsJson(forensics: MetadataForensicsResult): string {
+  const json = JSON.stringify(forensics);
+  return json.length <= MAX_METADATA_FORENSICS_LENGTH
+    ? json
+    : JSON.stringify({ ...forensics, files: [] });
+}
+
+/**
+ * Serialize the coverage calculation for the assessment
+ * Line details (which quote exclusions) are dropped when the result would not fit;
+ * the rule and amounts of each line are kept.
+ */
+function toCoverageCalculationJson(calculation: CoverageCalculation): string {
+  const json = JSON.stringify(calculation);
+  return json.length <= MAX_COVERAGE_CALCULATION_LENGTH
+    ? json
+    : JSON.stringify({
+        ...calculation,
+        lines: calculation.lines.map((line) => ({ ...line, part: toValidString(line.part, 100, 'part'), detail: '' })),
+      });
+}
+
+/**
+ * Serialize the model's incident cross-check for the fraud assessment
+ * Notes are cut so the JSON fits claim_fraud_assessments.incident_assessment_json (4000).
+ * When the policy's stored terms have dates, the policy period check is recomputed from them.
+ */
+function toIncidentAssessmentJson(
+  assessment: IncidentAssessment,
+  policyTerms?: PolicyTerms,
+  occurredAt?: string | null
+): string {
+  const periodStatus = policyTerms && occurredAt ? getPolicyPeriodStatus(policyTerms, occurredAt) : 'unknown';
+  if (policyTerms && periodStatus !== 'unknown') {
+    assessment = {
+      ...assessment,
+      policyPeriod: { start: policyTerms.effectiveDate, end: policyTerms.expirationDate },
+      incidentWithinPolicyPeriod: periodStatus === 'active',
+    };
+  }
+
+  return JSON.stringify({
+    narrativeConsistent: typeof assessment.narrativeConsistent === 'boolean' ? assessment.narrativeConsistent : null,
+    narrativeNotes: assessment.narrativeNotes ? toValidString(assessment.narrativeNotes, 1500, 'narrativeNotes') : null,
+    policyPeriod: assessment.policyPeriod
+      ? {
+          start: assessment.policyPeriod.start ? toValidString(assessment.policyPeriod.start, 30, 'policyPeriod.start') : null,
+          end: assessment.policyPeriod.end ? toValidString(assessment.policyPeriod.end, 30, 'policyPeriod.end') : null,
+        }
+      : null,
+    incidentWithinPolicyPeriod:
+      typeof assessment.incidentWithinPolicyPeriod === 'boolean' ? assessment.incidentWithinPolicyPeriod : null,
+    notes: assessment.notes ? toValidString(assessment.notes, 1000, 'notes') : null,
+  } satisfies IncidentAssessment);
+}
+
 /**
  * Generate a unique report number
  * Format: RPT-{timestamp}-{random}
@@ -893,17 +1139,30 @@ function generateReportNumber(): string {
  * Update report status and optionally make it public
  * Used by insurance adjusters to approve/deny reports
  *
+ * Only transitions in CLAIM_STATUS_TRANSITIONS are accepted; every change is
+ * appended to the report's status history with the acting reviewer and reason.
+ * Passing the current status only updates is_public.
+ *
  * @param reportId - The report document ID
  * @param status - New report status
  * @param isPublic - Whether to make the report publicly readable
+ * @param reason - Why the status changed (required for denials and reopening decided claims)
  * @returns Updated report or error
  */
 export async function updateReportStatus(
   reportId: string,
-  status: 'pending' | 'approved' | 'denied' | 'partial' | 'needs_investigation',
-  isPublic = false
+  status: ClaimStatus,
+  isPublic = false,
+  reason?: string
 ): Promise<CreateReportResult> {
+  const trimmedReason = reason?.trim() || undefined;
+
   try {
+    const session = await getSession();
+    if (!session) {
+      throw new Error('Unauthorized');
+    }
+
     const { databases } = await adminAction();
 
     // Get existing report to preserve permissions
@@ -913,23 +1172,41 @@ export async function updateReportStatus(
       reportId
     );
 
-    // If making public and approved, add public read permission
+    const reviewer = await getUserDocument(session.id);
+    if (!reviewer || !canReviewReport(reviewer, existingReport)) {
+      throw new Error('You do not have permission to update this report');
+    }
+
+    const previousStatus = existingReport.claim_status ?? 'pending';
+    const statusChanged = previousStatus !== status;
+
+    if (statusChanged && !canTransitionClaimStatus(previousStatus, status)) {
+      throw new Error(
+        `Cannot change claim status from "${formatClaimStatus(previousStatus)}" to "${formatClaimStatus(status)}"`
+      );
+    }
+    if (statusChanged && isTransitionReasonRequired(previousStatus, status) && !trimmedReason) {
+      throw new Error(`A reason is required to change the status to "${formatClaimStatus(status)}"`);
+    }
+
+    const userId = existingReport.user_id;
+    let teamId: string | undefined;
+    if (existingReport.insurance_company_id) {
+      const company = await databases.getDocument<InsuranceCompanyDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.INSURANCE_COMPANIES,
+        existingReport.insurance_company_id
+      );
+      teamId = company.team_id;
+    }
+
+    // If making public and approved, add public read permission;
+    // drop it again when a public report is made private (e.g. reopened)
     let permissions = existingReport.$permissions;
     if (isPublic && status === 'approved') {
-      const userId = existingReport.user_id;
-      const insuranceCompanyId = existingReport.insurance_company_id;
-
-      let teamId: string | undefined;
-      if (insuranceCompanyId) {
-        const company = await databases.getDocument<InsuranceCompanyDocument>(
-          DATABASE_ID,
-          COLLECTION_IDS.INSURANCE_COMPANIES,
-          insuranceCompanyId
-        );
-        teamId = company.team_id;
-      }
-
       permissions = getReportPermissions(userId, teamId, true);
+    } else if (!isPublic && existingReport.is_public) {
+      permissions = getReportPermissions(userId, teamId, false);
     }
 
     // Update report
@@ -944,12 +1221,92 @@ export async function updateReportStatus(
       permissions
     );
 
+    if (statusChanged) {
+      await appendStatusHistory(
+        {
+          claim_id: reportId,
+          from_status: previousStatus,
+          to_status: status,
+          actor_id: session.id,
+          actor_role: reviewer.role,
+          reason: trimmedReason,
+        },
+        getReportHistoryPermissions(userId, teamId)
+      );
+    }
+
+    if (statusChanged && existingReport.insurance_company_id) {
+      const eventDetails = { previousStatus, reason: trimmedReason };
+      dispatchReportEvent('report.status_changed', reportId, eventDetails)
+        .catch((err) => console.error('Failed to dispatch webhook:', err));
+      if (status === 'needs_investigation') {
+        dispatchReportEvent('report.flagged', reportId, eventDetails)
+          .catch((err) => console.error('Failed to dispatch webhook:', err));
+      }
+    }
+
+    // Status badges on dashboards come from the cached report lists
+    revalidateTag(`reports-${userId}`, { expire: 0 });
+    if (existingReport.insurance_company_id) {
+      revalidateTag(`reports-company-${existingReport.insurance_company_id}`, { expire: 0 });
+    }
+
+    await recordAuditLog({
+      action: 'update_claim',
+      resourceType: 'claim',
+      resourceId: reportId,
+      result: 'success',
+      metadata: {
+        previous_status: previousStatus,
+        status,
+        is_public: isPublic,
+        reason: trimmedReason,
+      },
+    });
+
     return { success: true, data: report };
   } catch (error: any) {
     console.error('Failed to update report status:', error);
+    await recordAuditLog({
+      action: 'update_claim',
+      resourceType: 'claim',
+      resourceId: reportId,
+      result: 'error',
+      errorMessage: error.message,
+      metadata: { status, is_public: isPublic, reason: trimmedReason },
+    });
     return {
       success: false,
       message: error.message || 'Failed to update report status',
     };
   }
 }
+
+/**
+ * Append an entry to a report's status timeline
+ *
+ * @param entry - Transition details (changed_at is set here)
+ * @param permissions - Read permissions from getReportHistoryPermissions
+ * @param documentId - Fixed ID for entries that must be written once, even when retried (optional)
+ */
+async function appendStatusHistory(
+  entry: Omit<ReportStatusHistoryDocument, keyof Models.Document | 'changed_at'>,
+  permissions: string[],
+  documentId?: string
+): Promise<ReportStatusHistoryDocument> {
+  const { databases } = await adminAction();
+  const request = databases.createDocument<ReportStatusHistoryDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.REPORT_STATUS_HISTORY,
+    documentId ?? ID.unique(),
+    {
+      ...entry,
+      reason: entry.reason?.slice(0, MAX_STATUS_REASON_LENGTH),
+      changed_at: new Date().toISOString(),
+    },
+    permissions
+  );
+  return documentId
+    ? request.catch(keepExisting<ReportStatusHistoryDocument>(COLLECTION_IDS.REPORT_STATUS_HISTORY, documentId))
+    : request;
+}
@@ -0,0 +1,141 @@
+"use server";
+
+import { ID } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { FRAUD_SCORE_RULE_IDS, MAX_FRAUD_RULE_WEIGHT, type FraudScoringConfig } from '@/lib/fraud/fraudScore';
+import { getFraudScoringConfigDocument, toFraudScoringConfig } from '@/lib/fraud/scoringConfig';
+import type { FraudScoringConfigDocument, UserDocument } from '@/lib/types/appwrite';
+
+/**
+ * Fraud Scoring Settings
+ * Rule weights and investigation routing of the signed-in adjuster's company.
+ * Changes apply to reports created afterwards; existing scores are kept.
+ */
+
+export interface FraudScoringSettings extends FraudScoringConfig {
+  updatedAt: string | null;
+}
+
+/**
+ * Get the company's fraud scoring config (defaults when none is saved)
+ *
+ * @returns Scoring settings or error
+ */
+export async function getFraudScoringSettings(): Promise<{
+  success: boolean;
+  settings?: FraudScoringSettings;
+  message?: string;
+}> {
+  try {
+    const manager = await getScoringManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const config = await getFraudScoringConfigDocument(manager.insurance_company_id);
+    return { success: true, settings: toScoringSettings(config) };
+  } catch (error: any) {
+    console.error('Failed to load fraud scoring config:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to load fraud scoring config',
+    };
+  }
+}
+
+/**
+ * Save the company's rule weights, investigation threshold and auto-routing
+ *
+ * @param input - Weight per rule (0-100 points), threshold (0-100) and auto-routing flag
+ * @returns Saved settings or error
+ *
+ * @example
+ * await saveFraudScoringSettings({
+ *   weights: { ...DEFAULT_FRAUD_SCORING_CONFIG.weights, vehicle_mismatch: 50 },
+ *   investigationThreshold: 70,
+ *   autoRouteEnabled: true,
+ * });
+ */
+export async function saveFraudScoringSettings(input: FraudScoringConfig): Promise<{
+  success: boolean;
+  settings?: FraudScoringSettings;
+  message?: string;
+}> {
+  try {
+    const manager = await getScoringManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const weights: Record<string, number> = {};
+    for (const id of FRAUD_SCORE_RULE_IDS) {
+      const weight = input.weights[id];
+      if (!Number.isInteger(weight) || weight < 0 || weight > MAX_FRAUD_RULE_WEIGHT) {
+        return { success: false, message: `Rule weights must be whole numbers from 0 to ${MAX_FRAUD_RULE_WEIGHT}` };
+      }
+      weights[id] = weight;
+    }
+    if (
+      !Number.isInteger(input.investigationThreshold) ||
+      input.investigationThreshold < 0 ||
+      input.investigationThreshold > 100
+    ) {
+      return { success: false, message: 'Investigation threshold must be a whole number from 0 to 100' };
+    }
+
+    const { databases } = await adminAction();
+    const existing = await getFraudScoringConfigDocument(manager.insurance_company_id);
+    const data = {
+      weights_json: JSON.stringify(weights),
+      investigation_threshold: input.investigationThreshold,
+      auto_route_enabled: input.autoRouteEnabled,
+      updated_by_user_id: manager.$id,
+    };
+
+    const config = existing
+      ? await databases.updateDocument<FraudScoringConfigDocument>(
+          DATABASE_ID,
+          COLLECTION_IDS.FRAUD_SCORING_CONFIGS,
+          existing.$id,
+          data
+        )
+      : await databases.createDocument<FraudScoringConfigDocument>(
+          DATABASE_ID,
+          COLLECTION_IDS.FRAUD_SCORING_CONFIGS,
+          ID.unique(),
+          { insurance_company_id: manager.insurance_company_id, ...data }
+        );
+
+    return { success: true, settings: toScoringSettings(config) };
+  } catch (error: any) {
+    console.error('Failed to save fraud scoring config:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to save fraud scoring config',
+    };
+  }
+}
+
+/**
+ * Verify the current user manages a company's fraud scoring
+ */
+async function getScoringManager(): Promise<UserDocument | null> {
+  const session = await getSession();
+  if (!session) return null;
+
+  const userDoc = await getUserDocument(session.id);
+  if (!userDoc || (userDoc.role !== 'insurance_adjuster' && userDoc.role !== 'admin')) {
+    return null;
+  }
+  return userDoc;
+}
+
+function toScoringSettings(config: FraudScoringConfigDocument | null): FraudScoringSettings {
+  return {
+    ...toFraudScoringConfig(config),
+    updatedAt: config?.$updatedAt ?? null,
+  };
+}
@@ -2,8 +2,18 @@
 
 import { adminAction } from '@/appwrite/adminOrClient';
 import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
-import { fetchFullReportData, type FullReportData } from '@/lib/types/appwrite';
+import { Query } from 'node-appwrite';
+import {
+  fetchFullReportData,
+  type FullReportData,
+  type ReportStatusHistoryDocument,
+} from '@/lib/types/appwrite';
 import { getFileUrl, getFileDownloadUrl } from '@/appwrite/storage';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { canReviewReport } from '@/lib/permissions';
+import { getPolicyByFileId, toCorrectedPolicyTerms, toPolicyTerms } from '@/lib/policy/policyLibrary';
+import { describePolicyTermsChanges } from '@/lib/policy/policyTerms';
 
 export interface MediaFile {
   fileId: string;
@@ -15,15 +25,21 @@ export interface PolicyFile {
   fileId: string;
   url: string;
   downloadUrl: string;
+  correctedAt?: string; // Reviewers only: when the policyholder corrected the extracted terms
+  termsChanges?: string[]; // Reviewers only: fields the policyholder changed
 }
 
 export interface ReportWithFiles extends FullReportData {
   mediaFiles: MediaFile[];
   policyFile: PolicyFile | null;
+  statusHistory: ReportStatusHistoryDocument[]; // Oldest first
 }
 
 /**
- * Fetch report data with generated file URLs
+ * Fetch report data with generated file URLs and status history
+ * The fraud assessment and evidence are only included for reviewers of the report's
+ * company, the incident details for them and the report's owner. Reviewers also see
+ * whether the policyholder corrected the policy's extracted terms.
  *
  * @param reportId - Report document ID
  * @returns Report data with file URLs or error
@@ -36,7 +52,7 @@ export async function getReportById(reportId: string): Promise<{
   try {
     const { databases } = await adminAction();
 
-    // Fetch full report data (report + damage details + verification + assessment)
+    // Fetch full report data (report + damage details + verification + assessment + fraud assessment)
     const fullReport = await fetchFullReportData(
       databases,
       DATABASE_ID,
@@ -44,6 +60,20 @@ export async function getReportById(reportId: string): Promise<{
       reportId
     );
 
+    // Fraud checks are internal to the reviewing team
+    const session = await getSession();
+    const userDoc = session ? await getUserDocument(session.id) : null;
+    const canReview = canReviewReport(userDoc, fullReport.report);
+    if (!canReview) {
+      fullReport.fraudAssessment = null;
+      fullReport.fraudEvidence = null;
+    }
+
+    // Third parties named in the incident stay private on public reports
+    if (!canReview && fullReport.report.user_id !== session?.id && fullReport.assessment) {
+      fullReport.assessment = { ...fullReport.assessment, incident_json: undefined };
+    }
+
     // Generate media file URLs from file IDs
     const mediaFiles: MediaFile[] = await Promise.all(
       (fullReport.report.media_file_ids || []).map(async (fileId) => ({
@@ -61,14 +91,29 @@ export async function getReportById(reportId: string): Promise<{
         url: await getFileUrl(fullReport.report.policy_file_id),
         downloadUrl: await getFileDownloadUrl(fullReport.report.policy_file_id),
       };
+
+      const policy = canReview ? await getPolicyByFileId(policyFile.fileId).catch(() => null) : null;
+      const correctedTerms = policy && toCorrectedPolicyTerms(policy);
+      if (policy && correctedTerms) {
+        policyFile.correctedAt = policy.corrected_at;
+        policyFile.termsChanges = describePolicyTermsChanges(toPolicyTerms(policy), correctedTerms);
+      }
     }
 
+    // Fetch status timeline
+    const historyResult = await databases.listDocuments<ReportStatusHistoryDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORT_STATUS_HISTORY,
+      [Query.equal('claim_id', reportId), Query.orderAsc('changed_at'), Query.limit(100)]
+    );
+
     return {
       success: true,
       data: {
         ...fullReport,
         mediaFiles,
         policyFile,
+        statusHistory: historyResult.documents,
       },
     };
   } catch (error: any) {
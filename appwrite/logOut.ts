@@ -1,6 +1,8 @@
 "use server"
 import { clientAction } from "./adminOrClient";
 import { isAppwriteClient } from "@/lib/types/appwrite";
+import { getSession } from "./getSession";
+import { recordAuditLog } from "@/lib/audit/auditLogs";
 import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
 
@@ -11,6 +13,19 @@ interface LogoutResponse {
 
 export async function LogoutUser(): Promise<LogoutResponse> {
     const cookieStore = await cookies();
+
+    // Resolve the user before the session cookies are cleared
+    const session = await getSession().catch(() => null);
+    if (session) {
+        await recordAuditLog({
+            userId: session.id,
+            action: 'user_logout',
+            resourceType: 'user',
+            resourceId: session.id,
+            result: 'success',
+        });
+    }
+
     try {
         const sessionClient = await clientAction();
 
@@ -0,0 +1,194 @@
+"use server";
+
+import { Query } from 'node-appwrite';
+import { revalidateTag } from 'next/cache';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { getSession } from '@/appwrite/getSession';
+import { uploadPolicyFile } from '@/appwrite/storage';
+import { DATABASE_ID, COLLECTION_IDS, STORAGE_BUCKET_ID } from '@/lib/env';
+import { FILE_LIMITS } from '@/lib/gemini/constants';
+import { getPolicyByFileId, resolvePolicyTerms, toCorrectedPolicyTerms, toPolicyTerms, updatePolicy } from '@/lib/policy/policyLibrary';
+import { normalizePolicyTerms, type PolicyTerms } from '@/lib/policy/policyTerms';
+import type { PolicyDocument, ReportDocument } from '@/lib/types/appwrite';
+
+/**
+ * Policy Library Actions
+ * Upload policies, retry failed term extractions and save the policyholder's corrections.
+ * Corrections are stored next to the extracted terms for the insurer to review; analyses
+ * keep using the terms extracted from the PDF.
+ */
+
+export interface PolicyTermsResult {
+  success: boolean;
+  policyId?: string;
+  fileId?: string;
+  terms?: PolicyTerms | null; // null when extraction failed
+  message?: string;
+}
+
+/**
+ * Save the signed-in user's review of a policy's terms
+ * Marks the terms as reviewed and records who corrected them and when. Terms that differ
+ * from the extraction are stored as corrections; the extracted terms stay unchanged.
+ *
+ * @param policyId - Policy document ID
+ * @param input - Corrected terms
+ * @returns Terms as the policyholder saved them, or error
+ *
+ * @example
+ * const result = await updatePolicyTerms(policy.policyId, { ...policy.terms, expirationDate: '2026-12-31' });
+ */
+export async function updatePolicyTerms(policyId: string, input: PolicyTerms): Promise<PolicyTermsResult> {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return { success: false, message: 'Not authenticated' };
+    }
+
+    const { databases } = await adminAction();
+    const policy = await databases
+      .getDocument<PolicyDocument>(DATABASE_ID, COLLECTION_IDS.POLICIES, policyId)
+      .catch(() => null);
+    if (!policy || policy.user_id !== session.id) {
+      return { success: false, message: 'Policy not found' };
+    }
+
+    if (policy.extraction_status !== 'extracted') {
+      return { success: false, message: 'Extract the policy terms before reviewing them' };
+    }
+
+    const terms = normalizePolicyTerms(input);
+    if ('error' in terms) {
+      return { success: false, message: terms.error };
+    }
+
+    const now = new Date().toISOString();
+    const isCorrected = JSON.stringify(terms) !== JSON.stringify(toPolicyTerms(policy));
+    const updated = await updatePolicy(policy.$id, {
+      reviewed_at: now,
+      corrected_terms_json: isCorrected ? JSON.stringify(terms) : null,
+      corrected_by: isCorrected ? session.id : null,
+      corrected_at: isCorrected ? now : null,
+    });
+    revalidateTag(`policies-${session.id}`, { expire: 0 });
+
+    return {
+      success: true,
+      policyId: updated.$id,
+      fileId: updated.file_id,
+      terms: toCorrectedPolicyTerms(updated) ?? toPolicyTerms(updated),
+    };
+  } catch (error: any) {
+    console.error('Failed to update policy terms:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to save policy terms',
+    };
+  }
+}
+
+/**
+ * Extract the terms of one of the signed-in user's policies
+ * For policies whose extraction failed, or that were used before the policy library existed.
+ *
+ * @param fileId - Policy PDF file ID
+ * @returns Extracted terms (null if extraction failed again) or error
+ */
+export async function extractPolicyTermsForFile(fileId: string): Promise<PolicyTermsResult> {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return { success: false, message: 'Not authenticated' };
+    }
+
+    const { databases, storage } = await adminAction();
+    const policy = await getPolicyByFileId(fileId);
+    const isOwner = policy
+      ? policy.user_id === session.id
+      : (await databases.listDocuments<ReportDocument>(
+          DATABASE_ID,
+          COLLECTION_IDS.REPORTS,
+          [Query.equal('user_id', session.id), Query.equal('policy_file_id', fileId), Query.limit(1)]
+        )).total > 0;
+    if (!isOwner) {
+      return { success: false, message: 'Policy not found' };
+    }
+
+    const resolved = await resolvePolicyTerms({ userId: session.id }, fileId, async () => {
+      const [file, buffer] = await Promise.all([
+        storage.getFile(STORAGE_BUCKET_ID, fileId),
+        storage.getFileDownload(STORAGE_BUCKET_ID, fileId),
+      ]);
+      return { base64: Buffer.from(buffer).toString('base64'), filename: file.name, size: file.sizeOriginal };
+    });
+    revalidateTag(`policies-${session.id}`, { expire: 0 });
+
+    return {
+      success: true,
+      policyId: resolved.policy?.$id,
+      fileId,
+      terms: resolved.terms,
+      ...(!resolved.terms && {
+        message: resolved.policy?.extraction_error || 'Could not read the policy terms',
+      }),
+    };
+  } catch (error: any) {
+    console.error('Failed to extract policy terms:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to extract policy terms',
+    };
+  }
+}
+
+/**
+ * Add a policy PDF to the signed-in user's policy library and extract its terms
+ *
+ * @param formData - Form data with a "policyFile" PDF
+ * @returns Uploaded policy with its terms (null if extraction failed) or error
+ */
+export async function uploadPolicy(formData: FormData): Promise<PolicyTermsResult> {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return { success: false, message: 'Not authenticated' };
+    }
+
+    const policyFile = formData.get('policyFile');
+    if (!(policyFile instanceof File) || policyFile.size === 0) {
+      return { success: false, message: 'Select a policy PDF' };
+    }
+    if (policyFile.size > FILE_LIMITS.MAX_SIZE_BYTES) {
+      return { success: false, message: `Policy must be at most ${FILE_LIMITS.MAX_SIZE_MB}MB` };
+    }
+
+    const upload = await uploadPolicyFile(policyFile);
+    if (!upload.success || !upload.fileId) {
+      return { success: false, message: upload.message || 'Failed to upload policy' };
+    }
+    const fileId = upload.fileId;
+
+    const resolved = await resolvePolicyTerms({ userId: session.id }, fileId, async () => ({
+      base64: Buffer.from(await policyFile.arrayBuffer()).toString('base64'),
+      filename: policyFile.name,
+      size: policyFile.size,
+    }));
+    revalidateTag(`policies-${session.id}`, { expire: 0 });
+
+    return {
+      success: true,
+      policyId: resolved.policy?.$id,
+      fileId,
+      terms: resolved.terms,
+      ...(!resolved.terms && {
+        message: resolved.policy?.extraction_error || 'Could not read the policy terms',
+      }),
+    };
+  } catch (error: any) {
+    console.error('Failed to upload policy:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to upload policy',
+    };
+  }
+}
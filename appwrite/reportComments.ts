@@ -0,0 +1,253 @@
+"use server";
+
+import { ID, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { getTeamMembers } from '@/appwrite/teams';
+import { createNotification } from '@/appwrite/createNotification';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { canReviewReport, getReportCommentPermissions } from '@/lib/permissions';
+import { recordAuditLog } from '@/lib/audit/auditLogs';
+import type {
+  InsuranceCompanyDocument,
+  ReportCommentDocument,
+  ReportDocument,
+} from '@/lib/types/appwrite';
+
+/**
+ * Report Comments
+ * Threaded discussion on a report: internal notes for the insurer's team and
+ * customer-visible messages shared with the claimant.
+ */
+
+export type ReportCommentVisibility = ReportCommentDocument['visibility'];
+
+export interface AddReportCommentInput {
+  reportId: string;
+  body: string;
+  visibility: ReportCommentVisibility;
+  /** Comment being replied to; replies inherit its visibility */
+  parentCommentId?: string;
+  /** Insurance company team members mentioned in the body */
+  mentionedUserIds?: string[];
+}
+
+const MAX_COMMENT_LENGTH = 5000;
+const MAX_COMMENTS = 500;
+
+/**
+ * Get the comments on a report visible to the signed-in user
+ * Reviewers see every comment; the report owner sees customer-visible ones only
+ *
+ * @param reportId - The report document ID
+ * @returns Comments in posting order, or error
+ *
+ * @example
+ * const result = await getReportComments(reportId);
+ * if (result.success) {
+ *   console.log(result.comments);
+ * }
+ */
+export async function getReportComments(reportId: string): Promise<{
+  success: boolean;
+  comments?: ReportCommentDocument[];
+  message?: string;
+}> {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return { success: false, message: 'Unauthorized' };
+    }
+
+    const { databases } = await adminAction();
+    const [report, userDoc] = await Promise.all([
+      databases.getDocument<ReportDocument>(DATABASE_ID, COLLECTION_IDS.REPORTS, reportId),
+      getUserDocument(session.id),
+    ]);
+
+    const canReview = !!userDoc && canReviewReport(userDoc, report);
+    if (!canReview && report.user_id !== session.id) {
+      return { success: false, message: 'You do not have permission to view these comments' };
+    }
+
+    const result = await databases.listDocuments<ReportCommentDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORT_COMMENTS,
+      [
+        Query.equal('claim_id', reportId),
+        ...(canReview ? [] : [Query.equal('visibility', 'customer')]),
+        Query.orderAsc('$createdAt'),
+        Query.limit(MAX_COMMENTS),
+      ]
+    );
+
+    return { success: true, comments: result.documents };
+  } catch (error: any) {
+    console.error('Failed to get report comments:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to load comments',
+    };
+  }
+}
+
+/**
+ * Post a comment or internal note on a report
+ * Mentioned team members and, for customer-visible adjuster messages, the
+ * claimant are notified.
+ *
+ * @param input - Report, body, visibility, optional parent and mentions
+ * @returns Created comment or error
+ *
+ * @example
+ * await addReportComment({
+ *   reportId,
+ *   body: '@Jane Doe can you double-check the bumper estimate?',
+ *   visibility: 'internal',
+ *   mentionedUserIds: [janeUserId],
+ * });
+ */
+export async function addReportComment(input: AddReportCommentInput): Promise<{
+  success: boolean;
+  comment?: ReportCommentDocument;
+  message?: string;
+}> {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return { success: false, message: 'Unauthorized' };
+    }
+
+    const body = input.body?.trim() ?? '';
+    if (!body) {
+      return { success: false, message: 'Comment cannot be empty' };
+    }
+    if (body.length > MAX_COMMENT_LENGTH) {
+      return { success: false, message: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` };
+    }
+
+    const { databases } = await adminAction();
+    const [report, author] = await Promise.all([
+      databases.getDocument<ReportDocument>(DATABASE_ID, COLLECTION_IDS.REPORTS, input.reportId),
+      getUserDocument(session.id),
+    ]);
+
+    const canReview = !!author && canReviewReport(author, report);
+    if (!author || (!canReview && report.user_id !== session.id)) {
+      return { success: false, message: 'You do not have permission to comment on this report' };
+    }
+
+    // Replies stay one level deep and always share the thread's visibility
+    let visibility: ReportCommentVisibility = input.visibility === 'internal' ? 'internal' : 'customer';
+    let parentCommentId: string | undefined;
+    if (input.parentCommentId) {
+      const parent = await databases.getDocument<ReportCommentDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.REPORT_COMMENTS,
+        input.parentCommentId
+      );
+      if (parent.claim_id !== report.$id) {
+        return { success: false, message: 'Comment not found on this report' };
+      }
+      visibility = parent.visibility;
+      parentCommentId = parent.parent_comment_id || parent.$id;
+    }
+
+    if (visibility === 'internal' && !canReview) {
+      return { success: false, message: 'Only the insurance company team can post internal notes' };
+    }
+
+    let teamId: string | undefined;
+    if (report.insurance_company_id) {
+      const company = await databases.getDocument<InsuranceCompanyDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.INSURANCE_COMPANIES,
+        report.insurance_company_id
+      );
+      teamId = company.team_id;
+    }
+
+    // Only insurance company team members can be mentioned
+    let mentionedUserIds: string[] = [];
+    const requestedMentions = [...new Set(input.mentionedUserIds ?? [])];
+    if (requestedMentions.length > 0) {
+      if (!canReview || !teamId) {
+        return { success: false, message: 'Mentions are only available to the insurance company team' };
+      }
+      const result = await getTeamMembers(teamId);
+      if (!result.success || !result.members) {
+        throw new Error(result.message || 'Failed to get team members');
+      }
+      const memberIds = new Set(result.members.map((membership) => membership.userId));
+      if (requestedMentions.some((userId) => !memberIds.has(userId))) {
+        return { success: false, message: 'Mentioned users must be members of your team' };
+      }
+      mentionedUserIds = requestedMentions;
+    }
+
+    const comment = await databases.createDocument<ReportCommentDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORT_COMMENTS,
+      ID.unique(),
+      {
+        claim_id: report.$id,
+        parent_comment_id: parentCommentId,
+        author_id: session.id,
+        author_name: author.full_name?.slice(0, 128),
+        author_role: author.role,
+        visibility,
+        body,
+        mentioned_user_ids: mentionedUserIds,
+      },
+      getReportCommentPermissions(report.user_id, session.id, teamId, visibility)
+    );
+
+    const link = `/auth/reports/${report.$id}`;
+    const preview = body.length > 140 ? `${body.slice(0, 137)}...` : body;
+
+    for (const userId of mentionedUserIds) {
+      if (userId === session.id) continue;
+      createNotification({
+        user_id: userId,
+        title: 'You were mentioned',
+        message: `${author.full_name || 'A team member'} mentioned you on claim ${report.claim_number}: "${preview}"`,
+        type: 'mention',
+        link,
+        report_id: report.$id,
+      }).catch((err) => console.error('Failed to create notification:', err));
+    }
+
+    if (visibility === 'customer' && canReview && report.user_id !== session.id) {
+      createNotification({
+        user_id: report.user_id,
+        title: 'New Message on Your Claim',
+        message: `Your insurer left a message on claim ${report.claim_number}.`,
+        type: 'report_updated',
+        link,
+        report_id: report.$id,
+      }).catch((err) => console.error('Failed to create notification:', err));
+    }
+
+    await recordAuditLog({
+      action: 'update_claim',
+      resourceType: 'claim',
+      resourceId: report.$id,
+      result: 'success',
+      metadata: {
+        comment_id: comment.$id,
+        visibility,
+        reply: !!parentCommentId,
+        mentions: mentionedUserIds.length,
+      },
+    });
+
+    return { success: true, comment };
+  } catch (error: any) {
+    console.error('Failed to add report comment:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to post comment',
+    };
+  }
+}
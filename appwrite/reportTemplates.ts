@@ -0,0 +1,265 @@
+"use server";
+
+import { ID } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { deleteFile, getFileUrl, uploadFile } from '@/appwrite/storage';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { DEFAULT_REPORT_TEMPLATE, getReportTemplateDocument } from '@/lib/pdf/reportTemplates';
+import type { ReportTemplateDocument, UserDocument } from '@/lib/types/appwrite';
+
+/**
+ * PDF Report Template Management
+ * Branding of the signed-in adjuster's company for generated report PDFs.
+ */
+
+export interface ReportTemplateSettings {
+  logoUrl: string | null;
+  primaryColor: string;
+  accentColor: string;
+  headerText: string;
+  footerDisclaimer: string;
+  showMediaThumbnails: boolean;
+  showFraudAssessment: boolean;
+  updatedAt: string | null;
+}
+
+export interface ReportTemplateInput {
+  primaryColor: string;
+  accentColor: string;
+  headerText?: string;
+  footerDisclaimer?: string;
+  showMediaThumbnails: boolean;
+  showFraudAssessment: boolean;
+}
+
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const MAX_HEADER_LENGTH = 200;
+const MAX_DISCLAIMER_LENGTH = 2000;
+const MAX_LOGO_SIZE = 2 * 1024 * 1024;
+const LOGO_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Get the company's report template (defaults when none is saved)
+ *
+ * @returns Template settings or error
+ */
+export async function getReportTemplateSettings(): Promise<{
+  success: boolean;
+  settings?: ReportTemplateSettings;
+  message?: string;
+}> {
+  try {
+    const manager = await getTemplateManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const template = await getReportTemplateDocument(manager.insurance_company_id);
+    return { success: true, settings: await toTemplateSettings(template) };
+  } catch (error: any) {
+    console.error('Failed to load report template:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to load report template',
+    };
+  }
+}
+
+/**
+ * Save the company's report colors, texts and sections
+ *
+ * @param input - Template settings
+ * @returns Saved settings or error
+ *
+ * @example
+ * await saveReportTemplate({
+ *   primaryColor: '#0f172a',
+ *   accentColor: '#1d4ed8',
+ *   footerDisclaimer: 'Acme Insurance Ltd. is authorised and regulated by ...',
+ *   showMediaThumbnails: true,
+ *   showFraudAssessment: false,
+ * });
+ */
+export async function saveReportTemplate(input: ReportTemplateInput): Promise<{
+  success: boolean;
+  settings?: ReportTemplateSettings;
+  message?: string;
+}> {
+  try {
+    const manager = await getTemplateManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    if (!HEX_COLOR_PATTERN.test(input.primaryColor) || !HEX_COLOR_PATTERN.test(input.accentColor)) {
+      return { success: false, message: 'Colors must be hex values such as #1d4ed8' };
+    }
+    if ((input.headerText?.length ?? 0) > MAX_HEADER_LENGTH) {
+      return { success: false, message: `Header text must be at most ${MAX_HEADER_LENGTH} characters` };
+    }
+    if ((input.footerDisclaimer?.length ?? 0) > MAX_DISCLAIMER_LENGTH) {
+      return { success: false, message: `Footer disclaimer must be at most ${MAX_DISCLAIMER_LENGTH} characters` };
+    }
+
+    const template = await upsertTemplate(manager, {
+      primary_color: input.primaryColor.toLowerCase(),
+      accent_color: input.accentColor.toLowerCase(),
+      header_text: input.headerText?.trim() || null,
+      footer_disclaimer: input.footerDisclaimer?.trim() || null,
+      show_media_thumbnails: input.showMediaThumbnails,
+      show_fraud_assessment: input.showFraudAssessment,
+    });
+
+    return { success: true, settings: await toTemplateSettings(template) };
+  } catch (error: any) {
+    console.error('Failed to save report template:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to save report template',
+    };
+  }
+}
+
+/**
+ * Upload a new report logo (PNG, JPEG or WebP, up to 2MB)
+ * Replaces and deletes the previous logo.
+ *
+ * @param formData - Form data with a "logo" file
+ * @returns Updated settings or error
+ */
+export async function uploadReportTemplateLogo(formData: FormData): Promise<{
+  success: boolean;
+  settings?: ReportTemplateSettings;
+  message?: string;
+}> {
+  try {
+    const manager = await getTemplateManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const logo = formData.get('logo');
+    if (!(logo instanceof File) || logo.size === 0) {
+      return { success: false, message: 'Select a logo image' };
+    }
+    if (!LOGO_MIME_TYPES.includes(logo.type)) {
+      return { success: false, message: 'Logo must be a PNG, JPEG or WebP image' };
+    }
+    if (logo.size > MAX_LOGO_SIZE) {
+      return { success: false, message: 'Logo must be at most 2MB' };
+    }
+
+    const upload = await uploadFile(logo);
+    if (!upload.success || !upload.fileId) {
+      return { success: false, message: upload.message || 'Failed to upload logo' };
+    }
+
+    const previous = await getReportTemplateDocument(manager.insurance_company_id);
+    const template = await upsertTemplate(manager, { logo_file_id: upload.fileId }, previous);
+
+    if (previous?.logo_file_id) {
+      await deleteFile(previous.logo_file_id);
+    }
+
+    return { success: true, settings: await toTemplateSettings(template) };
+  } catch (error: any) {
+    console.error('Failed to upload report logo:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to upload logo',
+    };
+  }
+}
+
+/**
+ * Remove the report logo
+ *
+ * @returns Updated settings or error
+ */
+export async function removeReportTemplateLogo(): Promise<{
+  success: boolean;
+  settings?: ReportTemplateSettings;
+  message?: string;
+}> {
+  try {
+    const manager = await getTemplateManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const previous = await getReportTemplateDocument(manager.insurance_company_id);
+    if (!previous?.logo_file_id) {
+      return { success: true, settings: await toTemplateSettings(previous) };
+    }
+
+    const template = await upsertTemplate(manager, { logo_file_id: null }, previous);
+    await deleteFile(previous.logo_file_id);
+
+    return { success: true, settings: await toTemplateSettings(template) };
+  } catch (error: any) {
+    console.error('Failed to remove report logo:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to remove logo',
+    };
+  }
+}
+
+/**
+ * Verify the current user manages a company's report template
+ */
+async function getTemplateManager(): Promise<UserDocument | null> {
+  const session = await getSession();
+  if (!session) return null;
+
+  const userDoc = await getUserDocument(session.id);
+  if (!userDoc || (userDoc.role !== 'insurance_adjuster' && userDoc.role !== 'admin')) {
+    return null;
+  }
+  return userDoc;
+}
+
+/**
+ * Update the company's template, creating it on first save
+ */
+async function upsertTemplate(
+  manager: UserDocument,
+  changes: Record<string, string | boolean | null>,
+  existing?: ReportTemplateDocument | null
+): Promise<ReportTemplateDocument> {
+  const companyId = manager.insurance_company_id!;
+  const { databases } = await adminAction();
+  const template = existing === undefined ? await getReportTemplateDocument(companyId) : existing;
+  const data = { ...changes, updated_by_user_id: manager.$id };
+
+  if (template) {
+    return databases.updateDocument<ReportTemplateDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORT_TEMPLATES,
+      template.$id,
+      data as unknown as Partial<ReportTemplateDocument>
+    );
+  }
+
+  return databases.createDocument<ReportTemplateDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.REPORT_TEMPLATES,
+    ID.unique(),
+    { insurance_company_id: companyId, ...data } as unknown as ReportTemplateDocument
+  );
+}
+
+async function toTemplateSettings(template: ReportTemplateDocument | null): Promise<ReportTemplateSettings> {
+  return {
+    logoUrl: template?.logo_file_id ? await getFileUrl(template.logo_file_id) : null,
+    primaryColor: template?.primary_color || DEFAULT_REPORT_TEMPLATE.primaryColor,
+    accentColor: template?.accent_color || DEFAULT_REPORT_TEMPLATE.accentColor,
+    headerText: template?.header_text ?? '',
+    footerDisclaimer: template?.footer_disclaimer ?? '',
+    showMediaThumbnails: template?.show_media_thumbnails ?? true,
+    showFraudAssessment: template?.show_fraud_assessment ?? true,
+    updatedAt: template?.$updatedAt ?? null,
+  };
+}
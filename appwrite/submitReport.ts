@@ -11,14 +11,23 @@ import {
   detectFileType,
 } from '@/lib/utils/fileConversion';
 import { withTimeout, isTimeoutError } from '@/lib/utils/timeout';
+import { fingerprintMedia, hashVideoFrames } from '@/lib/media/recycledMedia';
 import { analyzeAutoDamage } from '@/lib/gemini/actions/analyzeVideo';
 import { analyzeAutoDamageWithPolicy } from '@/lib/gemini/actions/analyzeVideoPlusPolicy';
 import { analyzeAutoDamageFromImages } from '@/lib/gemini/actions/analyzeImage';
 import { analyzeAutoDamageWithPolicyFromImages } from '@/lib/gemini/actions/analyzeImagePlusPolicy';
+import { analyzeMediaMetadata } from '@/lib/gemini/security/mediaMetadata';
+import { SECURITY_CONFIG } from '@/lib/gemini/constants';
+import { resolvePolicyTerms } from '@/lib/policy/policyLibrary';
+import type { IncidentDetails } from '@/lib/incident';
+import type { PolicyTerms } from '@/lib/policy/policyTerms';
 import type {
   EnhancedAutoDamageAnalysis,
   AutoDamageAnalysis,
   GeminiResult,
+  MetadataForensicsFlag,
+  MetadataForensicsResult,
+  SecurityScanResult,
 } from '@/lib/gemini/types';
 
 // Timeout for Gemini AI analysis (240 seconds — guided mode processes 5 photos + video)
@@ -37,6 +46,7 @@ export interface SubmitReportInput {
   // Files (from client as File objects)
   mediaFiles: File[]; // Images or single video
   supplementaryPhotos?: File[]; // Optional guided mode photos (sent alongside video to Gemini)
+  videoFrames?: File[]; // Optional PNG frames sampled from the video, for recycled media checks
   policyFile?: File; // Optional policy PDF (new upload)
   existingPolicyFileId?: string; // Optional existing policy file ID (reuse previous)
 
@@ -56,6 +66,9 @@ export interface SubmitReportInput {
     duration: number;
     qualitySeconds: number;
   };
+
+  // Claimant's account of the incident (passed to the policy-aware analysis)
+  incident?: IncidentDetails;
 }
 
 export interface SubmitReportResult {
@@ -65,6 +78,7 @@ export interface SubmitReportResult {
   analysis?: EnhancedAutoDamageAnalysis | AutoDamageAnalysis;
   message?: string;
   warnings?: string[];
+  metadataFlags?: MetadataForensicsFlag[]; // Metadata forensics of the uploaded media
   retryAfter?: number; // Seconds to wait before retry (rate limiting)
 }
 
@@ -73,11 +87,10 @@ export interface SubmitReportResult {
  *
  * Optimized Flow (prevents ECONNRESET errors):
  * 1. Convert files to base64 for Gemini (fast, in memory)
- * 2. Analyze with Gemini (with 60s timeout)
+ * 2. Analyze with Gemini (with timeout, see analyzeSubmission)
  * 3. Upload files to Appwrite Storage (only after successful analysis)
- * 4. Validate analysis results
- * 5. Create report in database with permissions
- * 6. Return success with report info
+ * 4. Create report in database with permissions
+ * 5. Return success with report info
  *
  * This order prevents wasted upload time if Gemini analysis fails,
  * and reduces the overall request duration to prevent connection resets.
@@ -130,6 +143,7 @@ export async function submitReport(
 
     let mediaBase64: Array<{ base64: string; mimeType: string; filename: string }>;
     let policyBase64: string | undefined;
+    let policyTerms: PolicyTerms | undefined;
     let supplementaryImagesBase64: Array<{ base64: string; mimeType: string }> | undefined;
 
     try {
@@ -150,20 +164,32 @@ export async function submitReport(
         const policyData = await convertFileToBase64Server(input.policyFile);
         policyBase64 = policyData.base64;
       } else if (input.existingPolicyFileId) {
-        // Fetch existing policy from storage
-        console.log('📄 Fetching existing policy from storage...');
+        // Use the policy's stored terms, fetching the PDF from storage only if they still have to be extracted
+        console.log('📄 Loading existing policy...');
         const { storage } = await adminAction();
+        const existingPolicyFileId = input.existingPolicyFileId;
 
         try {
-          // Get file as buffer from Appwrite Storage
-          const fileBuffer = await storage.getFileDownload(
-            STORAGE_BUCKET_ID,
-            input.existingPolicyFileId
+          const resolvedPolicy = await resolvePolicyTerms(
+            { userId: input.userId, insuranceCompanyId: input.insuranceCompanyId },
+            existingPolicyFileId,
+            async () => {
+              // Get file and its contents from Appwrite Storage
+              const [file, fileBuffer] = await Promise.all([
+                storage.getFile(STORAGE_BUCKET_ID, existingPolicyFileId),
+                storage.getFileDownload(STORAGE_BUCKET_ID, existingPolicyFileId),
+              ]);
+              return {
+                base64: Buffer.from(fileBuffer).toString('base64'),
+                filename: file.name,
+                size: file.sizeOriginal,
+              };
+            }
           );
 
-          // Convert Buffer to base64
-          policyBase64 = Buffer.from(fileBuffer).toString('base64');
-          console.log('✅ Existing policy loaded from storage');
+          policyTerms = resolvedPolicy.terms ?? undefined;
+          policyBase64 = policyTerms ? undefined : resolvedPolicy.policyBase64;
+          console.log(`✅ Existing policy loaded${policyTerms ? ' (stored terms)' : ' from storage'}`);
         } catch (storageError: any) {
           console.error('Failed to fetch existing policy:', storageError);
           return {
@@ -184,105 +210,11 @@ export async function submitReport(
     // STEP 2: Analyze with Gemini (with timeout to prevent hanging)
     console.log('🤖 Step 2: Analyzing with Gemini AI...');
 
-    let analysisResult: GeminiResult<{
-      analysis: EnhancedAutoDamageAnalysis | AutoDamageAnalysis;
-      securityWarnings?: string[];
-    }>;
-
-    // Determine if media is video or images
-    const firstFile = mediaBase64[0];
-    const isVideoFile = isVideo({ mimeType: firstFile.mimeType });
-
-    try {
-      if (policyBase64) {
-        // Enhanced analysis with policy
-        if (isVideoFile) {
-          // Video + Policy
-          // Note: MIME type normalization (stripping codec suffix) happens inside the analysis functions
-          analysisResult = await withTimeout(
-            analyzeAutoDamageWithPolicy(
-              mediaBase64[0].base64,
-              mediaBase64[0].mimeType as 'video/mp4' | 'video/mov' | 'video/avi' | 'video/webm',
-              policyBase64,
-              true, // isBase64
-              input.userCountry,
-              input.userCurrency,
-              input.userCurrencySymbol,
-              input.videoQualityMetadata,
-              supplementaryImagesBase64
-            ),
-            GEMINI_TIMEOUT_MS,
-            'AI analysis timed out. Please try again with a shorter video or fewer images.'
-          );
-        } else {
-          // Images + Policy
-          analysisResult = await withTimeout(
-            analyzeAutoDamageWithPolicyFromImages(
-              mediaBase64.map((m) => ({
-                base64: m.base64,
-                mimeType: m.mimeType as any,
-                angle: m.filename,
-              })),
-              policyBase64,
-              {
-                userCountry: input.userCountry,
-                userCurrency: input.userCurrency,
-                userCurrencySymbol: input.userCurrencySymbol,
-              }
-            ),
-            GEMINI_TIMEOUT_MS,
-            'AI analysis timed out. Please try again with fewer images.'
-          );
-        }
-      } else {
-        // Basic analysis without policy
-        if (isVideoFile) {
-          // Video only
-          // Note: MIME type normalization (stripping codec suffix) happens inside the analysis functions
-          analysisResult = await withTimeout(
-            analyzeAutoDamage(
-              mediaBase64[0].base64,
-              mediaBase64[0].mimeType as 'video/mp4' | 'video/mov' | 'video/avi' | 'video/webm',
-              true, // isBase64
-              input.userCountry,
-              input.userCurrency,
-              input.userCurrencySymbol,
-              input.videoQualityMetadata,
-              supplementaryImagesBase64
-            ),
-            GEMINI_TIMEOUT_MS,
-            'AI analysis timed out. Please try again with a shorter video.'
-          );
-        } else {
-          // Images only
-          analysisResult = await withTimeout(
-            analyzeAutoDamageFromImages(
-              mediaBase64.map((m) => ({
-                base64: m.base64,
-                mimeType: m.mimeType as any,
-                angle: m.filename,
-              })),
-              {
-                userCountry: input.userCountry,
-                userCurrency: input.userCurrency,
-                userCurrencySymbol: input.userCurrencySymbol,
-              }
-            ),
-            GEMINI_TIMEOUT_MS,
-            'AI analysis timed out. Please try again with fewer images.'
-          );
-        }
-      }
-    } catch (error: any) {
-      // Handle timeout errors with user-friendly message
-      if (isTimeoutError(error)) {
-        return {
-          success: false,
-          message: error.message,
-        };
-      }
-      throw error;
-    }
+    const analysisResult = await analyzeSubmission(
+      { mediaBase64, policyBase64, policyTerms, supplementaryImagesBase64 },
+      input,
+      input.userId
+    );
 
     // Check if analysis succeeded
     if (!analysisResult.success) {
@@ -297,12 +229,12 @@ export async function submitReport(
 
       return {
         success: false,
-        message: `Analysis failed: ${analysisResult.message}`,
+        message: analysisResult.message,
       };
     }
 
     const analysis = analysisResult.data.analysis;
-    const securityWarnings = analysisResult.data.securityWarnings;
+    const { securityWarnings, securityRiskLevel, metadataForensics } = analysisResult.data;
 
     console.log(`✅ Analysis completed (Model: ${analysisResult.modelUsed})`);
     if (securityWarnings && securityWarnings.length > 0) {
@@ -350,6 +282,13 @@ export async function submitReport(
 
       mediaFileIds = mediaUploadResult.fileIds!;
       policyFileId = policyUploadResult.fileId;
+
+      // Extract the new policy's terms into the policy library (the report's policy period check uses them too)
+      policyTerms = (await resolvePolicyTerms(
+        { userId: input.userId, insuranceCompanyId: input.insuranceCompanyId },
+        policyFileId!,
+        async () => ({ base64: policyBase64!, filename: input.policyFile!.name, size: input.policyFile!.size })
+      )).terms ?? undefined;
     } else {
       // No new policy — sequential path unchanged
       const mediaUploadResult = await uploadMediaFiles(allMediaFiles);
@@ -370,28 +309,25 @@ export async function submitReport(
 
     console.log(`✅ Uploaded ${mediaFileIds.length} media files${policyFileId ? (input.existingPolicyFileId ? ' + existing policy' : ' + new policy') : ''}`);
 
-    // STEP 4: Validate that we have enhanced analysis for database submission
-    // If we don't have a policy, we need to convert AutoDamageAnalysis to EnhancedAutoDamageAnalysis
-    let enhancedAnalysis: EnhancedAutoDamageAnalysis;
+    // STEP 4: Create report in database
+    console.log('💾 Step 4: Creating report in database...');
 
-    if (policyBase64) {
-      // We already have enhanced analysis
-      enhancedAnalysis = analysis as EnhancedAutoDamageAnalysis;
-    } else {
-      // Convert basic analysis to enhanced format with default values
-      const basicAnalysis = analysis as AutoDamageAnalysis;
-      enhancedAnalysis = convertToEnhancedAnalysis(basicAnalysis);
-    }
-
-    // STEP 5: Create report in database
-    console.log('💾 Step 5: Creating report in database...');
+    const mediaFingerprints = await fingerprintMedia(
+      mediaFileIds.map((fileId, i) => ({
+        fileId,
+        ...(i < mediaBase64.length ? mediaBase64[i] : supplementaryImagesBase64![i - mediaBase64.length]),
+      })),
+      input.videoFrames ? await hashVideoFrames(input.videoFrames) : []
+    );
 
     const reportResult = await createReportFromAnalysis(
       input.userId,
       input.insuranceCompanyId,
-      enhancedAnalysis,
+      analysis,
       mediaFileIds,
-      policyFileId
+      policyFileId,
+      undefined,
+      { securityRiskLevel, mediaFingerprints, metadataForensics, incident: input.incident, policyTerms }
     );
 
     if (!reportResult.success) {
@@ -404,13 +340,14 @@ export async function submitReport(
 
     console.log(`✅ Report created: ${reportResult.data!.claim_number}`);
 
-    // STEP 6: Return success with report info
+    // STEP 5: Return success with report info
     return {
       success: true,
       reportId: reportResult.data!.$id,
       reportNumber: reportResult.data!.claim_number,
-      analysis: enhancedAnalysis,
+      analysis,
       warnings: securityWarnings,
+      metadataFlags: metadataForensics?.flags,
     };
   } catch (error: any) {
     console.error('❌ Failed to submit report:', error);
@@ -421,6 +358,193 @@ export async function submitReport(
   }
 }
 
+/**
+ * Media prepared for analysis (already converted to base64)
+ */
+export interface SubmissionMedia {
+  mediaBase64: Array<{ base64: string; mimeType: string; filename: string }>;
+  policyBase64?: string;
+  policyTerms?: PolicyTerms; // Stored terms of the policy, sent instead of policyBase64
+  supplementaryImagesBase64?: Array<{ base64: string; mimeType: string }>;
+}
+
+/**
+ * Localization, forensic and incident options forwarded to the analysis actions
+ */
+export type SubmissionAnalysisOptions = Pick<
+  SubmitReportInput,
+  'userCountry' | 'userCurrency' | 'userCurrencySymbol' | 'videoQualityMetadata' | 'incident'
+>;
+
+/**
+ * Run the damage analysis for a submission
+ * Picks the video/image and policy/no-policy action, applies the analysis timeout,
+ * and converts basic analyses to the enhanced shape stored in the database.
+ * Shared by submitReport and the analysis job worker (lib/analysis/analysisJobs.ts).
+ *
+ * Metadata forensics of the media (lib/gemini/security/mediaMetadata.ts) run alongside the analysis.
+ *
+ * @param media - Base64 media, optional policy (PDF or stored terms) and supplementary photos
+ * @param options - Localization, video quality metadata and incident details (policy analyses only)
+ * @param userId - User the analysis runs for, recorded in the audit log (the job worker has no session)
+ * @returns Enhanced analysis with security warnings, scan risk and metadata forensics, or an error / rate limit result
+ */
+export async function analyzeSubmission(
+  media: SubmissionMedia,
+  options: SubmissionAnalysisOptions,
+  userId: string
+): Promise<GeminiResult<{
+  analysis: EnhancedAutoDamageAnalysis;
+  securityWarnings?: string[];
+  securityRiskLevel?: SecurityScanResult['riskLevel'];
+  metadataForensics?: MetadataForensicsResult;
+}>> {
+  const { mediaBase64, policyBase64, policyTerms, supplementaryImagesBase64 } = media;
+  const hasPolicy = !!policyBase64 || !!policyTerms;
+
+  const metadataForensicsPromise = SECURITY_CONFIG.ENABLE_METADATA_FORENSICS
+    ? analyzeMediaMetadata([...mediaBase64, ...(supplementaryImagesBase64 || [])], {
+        incidentDate: options.incident?.occurredAt,
+      })
+    : Promise.resolve(undefined);
+
+  let analysisResult: GeminiResult<{
+    analysis: EnhancedAutoDamageAnalysis | AutoDamageAnalysis;
+    securityWarnings?: string[];
+    securityRiskLevel?: SecurityScanResult['riskLevel'];
+  }>;
+
+  // Determine if media is video or images
+  const firstFile = mediaBase64[0];
+  const isVideoFile = isVideo({ mimeType: firstFile.mimeType });
+
+  try {
+    if (hasPolicy) {
+      // Enhanced analysis with policy
+      if (isVideoFile) {
+        // Video + Policy
+        // Note: MIME type normalization (stripping codec suffix) happens inside the analysis functions
+        analysisResult = await withTimeout(
+          analyzeAutoDamageWithPolicy(
+            mediaBase64[0].base64,
+            mediaBase64[0].mimeType as 'video/mp4' | 'video/mov' | 'video/avi' | 'video/webm',
+            policyBase64 ?? '',
+            true, // isBase64
+            options.userCountry,
+            options.userCurrency,
+            options.userCurrencySymbol,
+            options.videoQualityMetadata,
+            supplementaryImagesBase64,
+            options.incident,
+            policyTerms,
+            userId
+          ),
+          GEMINI_TIMEOUT_MS,
+          'AI analysis timed out. Please try again with a shorter video or fewer images.'
+        );
+      } else {
+        // Images + Policy
+        analysisResult = await withTimeout(
+          analyzeAutoDamageWithPolicyFromImages(
+            mediaBase64.map((m) => ({
+              base64: m.base64,
+              mimeType: m.mimeType as any,
+              angle: m.filename,
+            })),
+            policyBase64 ?? '',
+            {
+              userCountry: options.userCountry,
+              userCurrency: options.userCurrency,
+              userCurrencySymbol: options.userCurrencySymbol,
+              incident: options.incident,
+              policyTerms,
+              userId,
+            }
+          ),
+          GEMINI_TIMEOUT_MS,
+          'AI analysis timed out. Please try again with fewer images.'
+        );
+      }
+    } else {
+      // Basic analysis without policy
+      if (isVideoFile) {
+        // Video only
+        // Note: MIME type normalization (stripping codec suffix) happens inside the analysis functions
+        analysisResult = await withTimeout(
+          analyzeAutoDamage(
+            mediaBase64[0].base64,
+            mediaBase64[0].mimeType as 'video/mp4' | 'video/mov' | 'video/avi' | 'video/webm',
+            true, // isBase64
+            options.userCountry,
+            options.userCurrency,
+            options.userCurrencySymbol,
+            options.videoQualityMetadata,
+            supplementaryImagesBase64,
+            userId
+          ),
+          GEMINI_TIMEOUT_MS,
+          'AI analysis timed out. Please try again with a shorter video.'
+        );
+      } else {
+        // Images only
+        analysisResult = await withTimeout(
+          analyzeAutoDamageFromImages(
+            mediaBase64.map((m) => ({
+              base64: m.base64,
+              mimeType: m.mimeType as any,
+              angle: m.filename,
+            })),
+            {
+              userCountry: options.userCountry,
+              userCurrency: options.userCurrency,
+              userCurrencySymbol: options.userCurrencySymbol,
+              userId,
+            }
+          ),
+          GEMINI_TIMEOUT_MS,
+          'AI analysis timed out. Please try again with fewer images.'
+        );
+      }
+    }
+  } catch (error: any) {
+    // Handle timeout errors with user-friendly message
+    if (isTimeoutError(error)) {
+      return {
+        success: false,
+        message: error.message,
+      };
+    }
+    throw error;
+  }
+
+  if (!analysisResult.success) {
+    if ('rateLimited' in analysisResult && analysisResult.rateLimited) {
+      return analysisResult;
+    }
+
+    return {
+      success: false,
+      message: `Analysis failed: ${analysisResult.message}`,
+    };
+  }
+
+  // Convert basic analysis to enhanced format when no policy was provided
+  const analysis = hasPolicy
+    ? (analysisResult.data.analysis as EnhancedAutoDamageAnalysis)
+    : convertToEnhancedAnalysis(analysisResult.data.analysis as AutoDamageAnalysis);
+
+  return {
+    ...analysisResult,
+    data: {
+      analysis,
+      securityWarnings: analysisResult.data.securityWarnings,
+      securityRiskLevel: analysisResult.data.securityRiskLevel,
+      metadataForensics: await metadataForensicsPromise,
+    },
+  };
+
+}
+
 /**
  * Cleanup uploaded files when operation fails
  * Deletes files from Appwrite Storage
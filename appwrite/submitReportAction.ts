@@ -1,16 +1,19 @@
 "use server";
 
-import { submitReport } from '@/appwrite/submitReport';
+import { enqueueAnalysisJob, processAnalysisJob } from '@/lib/analysis/analysisJobs';
 import { getSession } from '@/appwrite/getSession';
-import { checkEvaluationLimit, decrementEvaluationLimit } from '@/appwrite/checkEvaluationLimit';
-import { revalidatePath, revalidateTag } from 'next/cache';
+import { normalizeIncidentDetails, type IncidentDetails } from '@/lib/incident';
+import { after } from 'next/server';
 
 /**
  * Server Action to submit report from analysis page
  * Automatically gets userId from session (server-side only)
  *
- * @param formData - FormData containing mediaFiles, policyFile, and insuranceCompanyId
- * @returns Report submission result
+ * Files are staged and an analysis job is queued; the analysis itself runs after
+ * the response is sent. Poll the job with waitForAnalysisJob (lib/utils/analysisJobPolling.ts).
+ *
+ * @param formData - FormData containing mediaFiles, policyFile, insuranceCompanyId and incidentDetails (JSON)
+ * @returns Job submission result (jobId to poll)
  *
  * @example
  * const formData = new FormData();
@@ -20,13 +23,14 @@ import { revalidatePath, revalidateTag } from 'next/cache';
  *
  * const result = await submitReportAction(formData);
  * if (result.success) {
- *   router.push(`/auth/reports/${result.reportId}`);
+ *   const job = await waitForAnalysisJob(result.jobId!);
  * }
  */
 export async function submitReportAction(formData: FormData) {
   // Extract files and data from FormData
   const mediaFiles = formData.getAll('mediaFiles') as File[];
   const supplementaryPhotos = formData.getAll('supplementaryPhotos') as File[];
+  const videoFrames = formData.getAll('videoFrames') as File[];
   const policyFile = formData.get('policyFile') as File | null;
   const existingPolicyFileId = formData.get('existingPolicyFileId') as string | null;
   const insuranceCompanyId = formData.get('insuranceCompanyId') as string | null;
@@ -34,6 +38,7 @@ export async function submitReportAction(formData: FormData) {
   const userCurrency = formData.get('userCurrency') as string | null;
   const userCurrencySymbol = formData.get('userCurrencySymbol') as string | null;
   const videoQualityMetadataStr = formData.get('videoQualityMetadata') as string | null;
+  const incidentDetailsStr = formData.get('incidentDetails') as string | null;
 
   // Get userId from session (secure authentication)
   const session = await getSession();
@@ -45,12 +50,6 @@ export async function submitReportAction(formData: FormData) {
   }
   const userId = session.id;
 
-  // Check evaluation limit before proceeding
-  const evalCheck = await checkEvaluationLimit(userId);
-  if (!evalCheck.allowed) {
-    return { success: false, message: evalCheck.message };
-  }
-
   // Parse video quality metadata if provided
   let videoQualityMetadata: {
     resolution: string;
@@ -68,6 +67,22 @@ export async function submitReportAction(formData: FormData) {
     }
   }
 
+  // Parse incident details if provided
+  let incident: IncidentDetails | undefined;
+  if (incidentDetailsStr) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(incidentDetailsStr);
+    } catch {
+      return { success: false, message: 'Incident details could not be read. Please try again.' };
+    }
+    const result = normalizeIncidentDetails(parsed);
+    if (result && 'error' in result) {
+      return { success: false, message: result.error };
+    }
+    incident = result ?? undefined;
+  }
+
   // Validate media files
   if (!mediaFiles || mediaFiles.length === 0) {
     return {
@@ -89,12 +104,14 @@ export async function submitReportAction(formData: FormData) {
   if (videoQualityMetadata) {
     console.log(`   Video Quality: ${videoQualityMetadata.resolution}, ${videoQualityMetadata.qualitySeconds}s stable footage`);
   }
-  // Call submitReport with userId
-  const result = await submitReport({
+  console.log(`   Incident details: ${incident ? 'Yes' : 'No'}`);
+  // Queue the analysis job with userId (reserves one of the user's daily evaluations)
+  const result = await enqueueAnalysisJob({
     userId,
     insuranceCompanyId: insuranceCompanyId || undefined,
     mediaFiles,
     supplementaryPhotos: supplementaryPhotos.length > 0 ? supplementaryPhotos : undefined,
+    videoFrames: videoFrames.length > 0 ? videoFrames : undefined,
     policyFile: policyFile || undefined,
     existingPolicyFileId: existingPolicyFileId || undefined,
     useEnhancedAnalysis: hasPolicy,
@@ -102,18 +119,14 @@ export async function submitReportAction(formData: FormData) {
     userCurrency: userCurrency || undefined,
     userCurrencySymbol: userCurrencySymbol || undefined,
     videoQualityMetadata,
+    incident,
   });
 
-  // Bust Router Cache + Data Cache so the user sees their new report immediately
+  // Start the worker once the response has been sent
+  // (caches are updated by the worker when the report is persisted)
   if (result.success) {
-    await decrementEvaluationLimit(userId);
-    revalidatePath(`/auth/dashboard/${userId}/reports`);
-    revalidatePath(`/auth/dashboard/${userId}`);
-    revalidateTag(`reports-${userId}`, { expire: 0 });
-    revalidateTag(`policies-${userId}`, { expire: 0 });
-    if (insuranceCompanyId) {
-      revalidateTag(`reports-company-${insuranceCompanyId}`, { expire: 0 });
-    }
+    const jobId = result.jobId!;
+    after(() => processAnalysisJob(jobId));
   }
 
   return result;
@@ -0,0 +1,430 @@
+"use server";
+
+import { ID, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { getSession } from '@/appwrite/getSession';
+import { getUserDocument } from '@/appwrite/getUserDocument';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { formatReportResponse } from '@/lib/api/reportResponse';
+import {
+  WEBHOOK_EVENTS,
+  attemptWebhookDelivery,
+  generateWebhookSecret,
+  queueWebhookDelivery,
+} from '@/lib/webhooks/deliveries';
+import { checkWebhookUrl } from '@/lib/webhooks/endpointUrl';
+import {
+  fetchFullReportData,
+  type ReportDocument,
+  type UserDocument,
+  type WebhookDeliveryDocument,
+  type WebhookDeliveryStatus,
+  type WebhookEndpointDocument,
+  type WebhookEvent,
+} from '@/lib/types/appwrite';
+
+/**
+ * Webhook Endpoint Management
+ * Configure the signed-in adjuster's company webhook endpoints and inspect deliveries.
+ * Signing secrets are only returned when an endpoint is created.
+ */
+
+export interface WebhookEndpointSummary {
+  id: string;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface WebhookDeliverySummary {
+  id: string;
+  endpointId: string;
+  event: WebhookDeliveryDocument['event'];
+  reportId?: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  responseStatus?: number;
+  errorMessage?: string;
+  createdAt: string;
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+}
+
+const MAX_ENDPOINTS_PER_COMPANY = 10;
+const DELIVERY_LOG_LIMIT = 50;
+
+/**
+ * List the company's webhook endpoints
+ *
+ * @returns Endpoint summaries (without secrets) or error
+ */
+export async function listWebhookEndpoints(): Promise<{
+  success: boolean;
+  endpoints?: WebhookEndpointSummary[];
+  message?: string;
+}> {
+  try {
+    const manager = await getWebhookManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const { databases } = await adminAction();
+    const result = await databases.listDocuments<WebhookEndpointDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.WEBHOOK_ENDPOINTS,
+      [
+        Query.equal('insurance_company_id', manager.insurance_company_id),
+        Query.orderDesc('$createdAt'),
+        Query.limit(MAX_ENDPOINTS_PER_COMPANY),
+      ]
+    );
+
+    return { success: true, endpoints: result.documents.map(toEndpointSummary) };
+  } catch (error: any) {
+    console.error('Failed to list webhook endpoints:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to load webhook endpoints',
+    };
+  }
+}
+
+/**
+ * Add a webhook endpoint
+ *
+ * @param input - URL, subscribed events and optional description
+ * @returns The endpoint and its signing secret (shown once), or error
+ *
+ * @example
+ * const result = await createWebhookEndpoint({
+ *   url: 'https://claims.example.com/hooks/vehicleclaim',
+ *   events: ['report.created', 'report.status_changed'],
+ * });
+ */
+export async function createWebhookEndpoint(input: WebhookEndpointInput): Promise<{
+  success: boolean;
+  data?: { endpoint: WebhookEndpointSummary; secret: string };
+  message?: string;
+}> {
+  try {
+    const manager = await getWebhookManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const validationError = await validateEndpointInput(input);
+    if (validationError) {
+      return { success: false, message: validationError };
+    }
+
+    const { databases } = await adminAction();
+    const existing = await databases.listDocuments<WebhookEndpointDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.WEBHOOK_ENDPOINTS,
+      [Query.equal('insurance_company_id', manager.insurance_company_id), Query.limit(1)]
+    );
+    if (existing.total >= MAX_ENDPOINTS_PER_COMPANY) {
+      return { success: false, message: `Companies can have up to ${MAX_ENDPOINTS_PER_COMPANY} webhook endpoints` };
+    }
+
+    const secret = generateWebhookSecret();
+    const endpoint = await databases.createDocument<WebhookEndpointDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.WEBHOOK_ENDPOINTS,
+      ID.unique(),
+      {
+        insurance_company_id: manager.insurance_company_id,
+        url: input.url.trim(),
+        secret,
+        events: [...new Set(input.events)],
+        is_active: true,
+        description: input.description?.trim().slice(0, 255) || undefined,
+        created_by_user_id: manager.$id,
+      }
+    );
+
+    return { success: true, data: { endpoint: toEndpointSummary(endpoint), secret } };
+  } catch (error: any) {
+    console.error('Failed to create webhook endpoint:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to create webhook endpoint',
+    };
+  }
+}
+
+/**
+ * Change an endpoint's subscribed events or pause/resume it
+ *
+ * @param endpointId - Webhook endpoint document ID
+ * @param changes - Events and/or active flag
+ * @returns Updated endpoint or error
+ */
+export async function updateWebhookEndpoint(
+  endpointId: string,
+  changes: { events?: WebhookEvent[]; isActive?: boolean }
+): Promise<{ success: boolean; endpoint?: WebhookEndpointSummary; message?: string }> {
+  try {
+    const manager = await getWebhookManager();
+    const endpoint = manager ? await getCompanyEndpoint(manager, endpointId) : null;
+    if (!endpoint) {
+      return { success: false, message: 'Webhook endpoint not found' };
+    }
+
+    if (changes.events && !isValidEventList(changes.events)) {
+      return { success: false, message: 'Select at least one valid event' };
+    }
+
+    const { databases } = await adminAction();
+    const updated = await databases.updateDocument<WebhookEndpointDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.WEBHOOK_ENDPOINTS,
+      endpoint.$id,
+      {
+        ...(changes.events ? { events: [...new Set(changes.events)] } : {}),
+        ...(changes.isActive !== undefined ? { is_active: changes.isActive } : {}),
+      }
+    );
+
+    return { success: true, endpoint: toEndpointSummary(updated) };
+  } catch (error: any) {
+    console.error('Failed to update webhook endpoint:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to update webhook endpoint',
+    };
+  }
+}
+
+/**
+ * Remove an endpoint; its pending deliveries fail on their next attempt
+ *
+ * @param endpointId - Webhook endpoint document ID
+ * @returns Success or error
+ */
+export async function deleteWebhookEndpoint(
+  endpointId: string
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    const manager = await getWebhookManager();
+    const endpoint = manager ? await getCompanyEndpoint(manager, endpointId) : null;
+    if (!endpoint) {
+      return { success: false, message: 'Webhook endpoint not found' };
+    }
+
+    const { databases } = await adminAction();
+    await databases.deleteDocument(DATABASE_ID, COLLECTION_IDS.WEBHOOK_ENDPOINTS, endpoint.$id);
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to delete webhook endpoint:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to delete webhook endpoint',
+    };
+  }
+}
+
+/**
+ * Send a signed test event to an endpoint right away
+ * Uses the company's most recent report as sample data when there is one.
+ *
+ * @param endpointId - Webhook endpoint document ID
+ * @returns The delivery outcome or error
+ */
+export async function sendTestWebhookEvent(endpointId: string): Promise<{
+  success: boolean;
+  delivery?: WebhookDeliverySummary;
+  message?: string;
+}> {
+  try {
+    const manager = await getWebhookManager();
+    const endpoint = manager ? await getCompanyEndpoint(manager, endpointId) : null;
+    if (!endpoint) {
+      return { success: false, message: 'Webhook endpoint not found' };
+    }
+
+    const { databases } = await adminAction();
+    const latest = await databases.listDocuments<ReportDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORTS,
+      [
+        Query.equal('insurance_company_id', endpoint.insurance_company_id),
+        Query.orderDesc('$createdAt'),
+        Query.limit(1),
+      ]
+    );
+    const sampleReport = latest.documents[0]
+      ? formatReportResponse(
+          await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, latest.documents[0].$id)
+        )
+      : null;
+
+    const queued = await queueWebhookDelivery(endpoint, 'test', {
+      report: sampleReport,
+      message: 'Test event from VehicleClaim AI',
+    }, sampleReport?.id);
+
+    // Test events are not retried - the result is shown to the user immediately
+    const delivery = (await attemptWebhookDelivery(queued.$id)) ?? queued;
+    if (delivery.status === 'pending') {
+      await databases.updateDocument(DATABASE_ID, COLLECTION_IDS.WEBHOOK_DELIVERIES, delivery.$id, {
+        status: 'failed',
+        next_attempt_at: null,
+      });
+    }
+
+    return {
+      success: true,
+      delivery: {
+        ...toDeliverySummary(delivery),
+        status: delivery.status === 'succeeded' ? 'succeeded' : 'failed',
+        nextAttemptAt: undefined,
+      },
+    };
+  } catch (error: any) {
+    console.error('Failed to send test webhook event:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to send test event',
+    };
+  }
+}
+
+/**
+ * Recent deliveries for the company, newest first
+ *
+ * @param endpointId - Only deliveries to this endpoint (optional)
+ * @returns Delivery log entries or error
+ */
+export async function listWebhookDeliveries(endpointId?: string): Promise<{
+  success: boolean;
+  deliveries?: WebhookDeliverySummary[];
+  message?: string;
+}> {
+  try {
+    const manager = await getWebhookManager();
+    if (!manager?.insurance_company_id) {
+      return { success: false, message: 'No insurance company associated with your account' };
+    }
+
+    const { databases } = await adminAction();
+    const result = await databases.listDocuments<WebhookDeliveryDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.WEBHOOK_DELIVERIES,
+      [
+        Query.equal('insurance_company_id', manager.insurance_company_id),
+        ...(endpointId ? [Query.equal('endpoint_id', endpointId)] : []),
+        Query.select([
+          '$id', '$createdAt', 'endpoint_id', 'event', 'report_id', 'status', 'attempts',
+          'next_attempt_at', 'last_attempt_at', 'response_status', 'error_message',
+        ]),
+        Query.orderDesc('$createdAt'),
+        Query.limit(DELIVERY_LOG_LIMIT),
+      ]
+    );
+
+    return { success: true, deliveries: result.documents.map(toDeliverySummary) };
+  } catch (error: any) {
+    console.error('Failed to list webhook deliveries:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to load webhook deliveries',
+    };
+  }
+}
+
+/**
+ * Signed-in insurance adjuster (or admin), null otherwise
+ */
+async function getWebhookManager(): Promise<UserDocument | null> {
+  const session = await getSession();
+  if (!session) return null;
+
+  const userDoc = await getUserDocument(session.id);
+  if (!userDoc || (userDoc.role !== 'insurance_adjuster' && userDoc.role !== 'admin')) {
+    return null;
+  }
+  return userDoc;
+}
+
+/**
+ * Load an endpoint, only if it belongs to the manager's company
+ */
+async function getCompanyEndpoint(
+  manager: UserDocument,
+  endpointId: string
+): Promise<WebhookEndpointDocument | null> {
+  if (!manager.insurance_company_id) return null;
+
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<WebhookEndpointDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.WEBHOOK_ENDPOINTS,
+    [
+      Query.equal('$id', endpointId),
+      Query.equal('insurance_company_id', manager.insurance_company_id),
+      Query.limit(1),
+    ]
+  );
+  return result.documents[0] ?? null;
+}
+
+function isValidEventList(events: WebhookEvent[]): boolean {
+  return events.length > 0 && events.every((event) => WEBHOOK_EVENTS.includes(event));
+}
+
+/**
+ * @returns Error message, or null if the input is valid
+ */
+async function validateEndpointInput(input: WebhookEndpointInput): Promise<string | null> {
+  const url = input.url?.trim() ?? '';
+  if (url.length > 2000) {
+    return 'Webhook URL is too long';
+  }
+  const urlError = await checkWebhookUrl(url);
+  if (urlError) {
+    return urlError;
+  }
+  if (!isValidEventList(input.events ?? [])) {
+    return 'Select at least one valid event';
+  }
+
+  return null;
+}
+
+function toEndpointSummary(endpoint: WebhookEndpointDocument): WebhookEndpointSummary {
+  return {
+    id: endpoint.$id,
+    url: endpoint.url,
+    description: endpoint.description,
+    events: endpoint.events,
+    isActive: endpoint.is_active,
+    createdAt: endpoint.$createdAt,
+  };
+}
+
+function toDeliverySummary(delivery: WebhookDeliveryDocument): WebhookDeliverySummary {
+  return {
+    id: delivery.$id,
+    endpointId: delivery.endpoint_id,
+    event: delivery.event,
+    reportId: delivery.report_id,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.next_attempt_at,
+    lastAttemptAt: delivery.last_attempt_at,
+    responseStatus: delivery.response_status,
+    errorMessage: delivery.error_message,
+    createdAt: delivery.$createdAt,
+  };
+}
@@ -9,6 +9,7 @@ import {
     Settings02Icon,
     Notification01Icon,
     PresentationBarChart01Icon,
+    PolicyIcon,
 } from "@hugeicons/core-free-icons"
 
 import * as React from "react"
@@ -47,6 +48,11 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       url: `/auth/dashboard/${userId}/reports`,
       icon: FileValidationIcon,
     },
+    {
+      title: "Policies",
+      url: `/auth/dashboard/${userId}/policies`,
+      icon: PolicyIcon,
+    },
     {
       title: "Analytics",
       url: `/auth/dashboard/${userId}/analytics`,
@@ -106,6 +112,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
                   (item.url.endsWith('/reports') && pathname?.startsWith(item.url)) ||
                   (item.url.endsWith('/settings') && pathname?.startsWith(item.url)) ||
                   (item.url.endsWith('/notifications') && pathname?.startsWith(item.url)) ||
+                  (item.url.endsWith('/policies') && pathname?.startsWith(item.url)) ||
                   (item.url.endsWith('/analytics') && pathname?.startsWith(item.url))
                 return (
                   <SidebarMenuItem key={item.title}>
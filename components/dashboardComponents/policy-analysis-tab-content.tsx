@@ -4,8 +4,14 @@ import { useState, useCallback } from "react";
 import { FileUploadZone } from "@/components/gemini-analysis/file-upload-zone";
 import { MediaPreview } from "@/components/gemini-analysis/media-preview";
 import { ProgressIndicator } from "@/components/gemini-analysis/progress-indicator";
-import { submitReportAction } from "@/appwrite/submitReportAction";
+import {
+  IncidentDetailsSection,
+  appendIncidentDetails,
+  type IncidentDraft,
+} from "@/components/gemini-analysis/incident-details-form";
+import { submitAndWaitForReport } from "@/lib/utils/analysisJobPolling";
 import { type PolicyInfo } from "@/lib/types/appwrite";
+import { PolicyExpiryBadge } from "@/components/gemini-analysis/policy-expiry-badge";
 import { usePolicies } from "@/lib/context/policy-context";
 import { useUser } from "@/lib/context/user-context";
 import { Button } from "@/components/ui/button";
@@ -34,9 +40,11 @@ import {
 
 interface PolicyAnalysisTabContentProps {
   onSuccess: (reportId: string) => void;
+  incident: IncidentDraft;
+  onIncidentChange: (incident: IncidentDraft) => void;
 }
 
-export function PolicyAnalysisTabContent({ onSuccess }: PolicyAnalysisTabContentProps) {
+export function PolicyAnalysisTabContent({ onSuccess, incident, onIncidentChange }: PolicyAnalysisTabContentProps) {
   const { evaluationTimes } = useUser();
   const [mediaType, setMediaType] = useState<'image' | 'video' | null>(null);
   const [mediaFiles, setMediaFiles] = useState<File[]>([]);
@@ -51,6 +59,7 @@ export function PolicyAnalysisTabContent({ onSuccess }: PolicyAnalysisTabContent
 
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [currentStep, setCurrentStep] = useState(1);
+  const [statusMessage, setStatusMessage] = useState<string | undefined>();
   const [success, setSuccess] = useState(false);
 
   // Determine the active policy (new upload takes precedence)
@@ -136,22 +145,16 @@ export function PolicyAnalysisTabContent({ onSuccess }: PolicyAnalysisTabContent
       formData.append('userCountry', location.country);
       formData.append('userCurrency', location.currency);
       formData.append('userCurrencySymbol', location.currencySymbol);
+      appendIncidentDetails(formData, incident);
 
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setCurrentStep(3);
-
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setCurrentStep(4);
-
-      const result = await submitReportAction(formData);
+      // Steps 3-6: queue the analysis job and follow it (scan + analyze + save)
+      const result = await submitAndWaitForReport(formData, (step, message) => {
+        setCurrentStep(step);
+        setStatusMessage(message);
+      });
 
       if (result.success && result.reportId) {
-        // Step 5: Saving
-        setCurrentStep(5);
-        await new Promise(resolve => setTimeout(resolve, 600));
-
         // Step 6: Complete
-        setCurrentStep(6);
         await new Promise(resolve => setTimeout(resolve, 800));
 
         setSuccess(true);
@@ -207,6 +210,7 @@ export function PolicyAnalysisTabContent({ onSuccess }: PolicyAnalysisTabContent
                       {formattedDate}
                     </span>
                   )}
+                  <PolicyExpiryBadge terms={policy.terms} />
                 </div>
               </div>
             </div>
@@ -248,6 +252,7 @@ export function PolicyAnalysisTabContent({ onSuccess }: PolicyAnalysisTabContent
                               {pSize} MB - {pDate}
                             </p>
                           </div>
+                          <PolicyExpiryBadge terms={p.terms} className="flex-shrink-0" />
                           {isSelected && (
                             <HugeiconsIcon
                               icon={Tick02Icon}
@@ -414,6 +419,7 @@ export function PolicyAnalysisTabContent({ onSuccess }: PolicyAnalysisTabContent
                                   {formattedSize} MB - {formattedDate}
                                 </p>
                               </div>
+                              <PolicyExpiryBadge terms={policy.terms} className="flex-shrink-0" />
                             </DropdownMenuItem>
                           );
                         })}
@@ -432,6 +438,15 @@ export function PolicyAnalysisTabContent({ onSuccess }: PolicyAnalysisTabContent
             )}
           </div>
 
+          {mediaFiles.length > 0 && (
+            <IncidentDetailsSection
+              value={incident}
+              onChange={onIncidentChange}
+              hasPolicy={!!hasPolicy}
+              idPrefix="policy-incident"
+            />
+          )}
+
           {canAnalyze && (
             <Button onClick={handleAnalyze} className="w-full" size="lg">
               Analyze Damage & Generate Report
@@ -441,7 +456,7 @@ export function PolicyAnalysisTabContent({ onSuccess }: PolicyAnalysisTabContent
       )}
 
       {isAnalyzing && (
-        <ProgressIndicator currentStep={currentStep} />
+        <ProgressIndicator currentStep={currentStep} statusMessage={statusMessage} />
       )}
 
     </div>
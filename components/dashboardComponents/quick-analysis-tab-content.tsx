@@ -4,7 +4,12 @@ import { useState } from "react";
 import { FileUploadZone } from "@/components/gemini-analysis/file-upload-zone";
 import { MediaPreview } from "@/components/gemini-analysis/media-preview";
 import { ProgressIndicator } from "@/components/gemini-analysis/progress-indicator";
-import { submitReportAction } from "@/appwrite/submitReportAction";
+import {
+  IncidentDetailsSection,
+  appendIncidentDetails,
+  type IncidentDraft,
+} from "@/components/gemini-analysis/incident-details-form";
+import { submitAndWaitForReport } from "@/lib/utils/analysisJobPolling";
 import { Button } from "@/components/ui/button";
 import { getUserLocation } from "@/lib/utils/country-detection";
 import { useUser } from "@/lib/context/user-context";
@@ -12,14 +17,17 @@ import { toast } from "sonner";
 
 interface QuickAnalysisTabContentProps {
   onSuccess: (reportId: string) => void;
+  incident: IncidentDraft;
+  onIncidentChange: (incident: IncidentDraft) => void;
 }
 
-export function QuickAnalysisTabContent({ onSuccess }: QuickAnalysisTabContentProps) {
+export function QuickAnalysisTabContent({ onSuccess, incident, onIncidentChange }: QuickAnalysisTabContentProps) {
   const { evaluationTimes } = useUser();
   const [mediaType, setMediaType] = useState<'image' | 'video' | null>(null);
   const [files, setFiles] = useState<File[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [currentStep, setCurrentStep] = useState(1);
+  const [statusMessage, setStatusMessage] = useState<string | undefined>();
   const [success, setSuccess] = useState(false);
 
   const handleFilesSelected = (selectedFiles: File[]) => {
@@ -70,24 +78,16 @@ export function QuickAnalysisTabContent({ onSuccess }: QuickAnalysisTabContentPr
       formData.append('userCountry', location.country);
       formData.append('userCurrency', location.currency);
       formData.append('userCurrencySymbol', location.currencySymbol);
+      appendIncidentDetails(formData, incident);
 
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setCurrentStep(3);
-
-      // Step 3: Security scanning
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setCurrentStep(4);
-
-      // Step 4: AI Analysis & Steps 5-6 (handled by server)
-      const result = await submitReportAction(formData);
+      // Steps 3-6: queue the analysis job and follow it (scan + analyze + save)
+      const result = await submitAndWaitForReport(formData, (step, message) => {
+        setCurrentStep(step);
+        setStatusMessage(message);
+      });
 
       if (result.success && result.reportId) {
-        // Step 5: Saving
-        setCurrentStep(5);
-        await new Promise(resolve => setTimeout(resolve, 600));
-
         // Step 6: Complete
-        setCurrentStep(6);
         await new Promise(resolve => setTimeout(resolve, 800));
 
         setSuccess(true);
@@ -136,6 +136,14 @@ export function QuickAnalysisTabContent({ onSuccess }: QuickAnalysisTabContentPr
             )}
           </div>
 
+          {files.length > 0 && (
+            <IncidentDetailsSection
+              value={incident}
+              onChange={onIncidentChange}
+              idPrefix="quick-incident"
+            />
+          )}
+
           {files.length > 0 && (
             <Button onClick={handleAnalyze} className="w-full" size="lg">
               Analyze & Submit Report
@@ -145,7 +153,7 @@ export function QuickAnalysisTabContent({ onSuccess }: QuickAnalysisTabContentPr
       )}
 
       {isAnalyzing && (
-        <ProgressIndicator currentStep={currentStep} />
+        <ProgressIndicator currentStep={currentStep} statusMessage={statusMessage} />
       )}
 
     </div>
@@ -21,6 +21,7 @@ import { useMounted } from "@/hooks/use-mounted";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { QuickAnalysisTabContent } from "./quick-analysis-tab-content";
 import { PolicyAnalysisTabContent } from "./policy-analysis-tab-content";
+import { EMPTY_INCIDENT_DRAFT, type IncidentDraft } from "@/components/gemini-analysis/incident-details-form";
 
 interface ReportUploadModalProps {
   children: React.ReactNode;
@@ -32,6 +33,8 @@ export function ReportUploadModal({ children }: ReportUploadModalProps) {
   const mounted = useMounted();
   const [open, setOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("quick");
+  // Shared by both tabs so switching tabs keeps what was entered
+  const [incident, setIncident] = useState<IncidentDraft>(EMPTY_INCIDENT_DRAFT);
 
   // Lock modal type when modal opens to prevent layout switching
   const [lockedIsMobile, setLockedIsMobile] = useState<boolean | null>(null);
@@ -50,6 +53,7 @@ export function ReportUploadModal({ children }: ReportUploadModalProps) {
 
   const handleSuccess = (reportId: string) => {
     setOpen(false);
+    setIncident(EMPTY_INCIDENT_DRAFT);
     router.push(`/auth/reports/${reportId}`);
   };
 
@@ -62,11 +66,11 @@ export function ReportUploadModal({ children }: ReportUploadModalProps) {
       </TabsList>
 
       <TabsContent value="quick" className="flex-1 overflow-y-auto mt-4 mx-0 mb-0 data-[state=active]:flex data-[state=active]:flex-col">
-        <QuickAnalysisTabContent onSuccess={handleSuccess} />
+        <QuickAnalysisTabContent onSuccess={handleSuccess} incident={incident} onIncidentChange={setIncident} />
       </TabsContent>
 
       <TabsContent value="policy" className="flex-1 overflow-y-auto mt-4 mx-0 mb-0 data-[state=active]:flex data-[state=active]:flex-col">
-        <PolicyAnalysisTabContent onSuccess={handleSuccess} />
+        <PolicyAnalysisTabContent onSuccess={handleSuccess} incident={incident} onIncidentChange={setIncident} />
       </TabsContent>
     </Tabs>
   );
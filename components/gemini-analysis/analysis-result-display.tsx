@@ -9,12 +9,13 @@ import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { SecurityWarnings } from "./security-warnings";
 import { VehicleDetailField } from "./vehicle-detail-field";
-import type { AutoDamageAnalysis, EnhancedAutoDamageAnalysis } from "@/lib/gemini/types";
+import type { AutoDamageAnalysis, EnhancedAutoDamageAnalysis, MetadataForensicsFlag } from "@/lib/gemini/types";
 import { cn } from "@/lib/utils";
 
 interface AnalysisResultDisplayProps {
   analysis: AutoDamageAnalysis | EnhancedAutoDamageAnalysis;
   securityWarnings?: string[];
+  metadataFlags?: MetadataForensicsFlag[];
   riskLevel?: 'low' | 'medium' | 'high';
   reportId: string;
   reportNumber: string;
@@ -31,6 +32,7 @@ function isEnhancedAnalysis(analysis: AutoDamageAnalysis | EnhancedAutoDamageAna
 export function AnalysisResultDisplay({
   analysis,
   securityWarnings = [],
+  metadataFlags = [],
   riskLevel = 'low',
   reportId,
   reportNumber,
@@ -71,8 +73,8 @@ export function AnalysisResultDisplay({
   return (
     <div className="space-y-4 pb-4">
       {/* Security Warnings */}
-      {securityWarnings.length > 0 && (
-        <SecurityWarnings warnings={securityWarnings} riskLevel={riskLevel} />
+      {(securityWarnings.length > 0 || metadataFlags.length > 0) && (
+        <SecurityWarnings warnings={securityWarnings} metadataFlags={metadataFlags} riskLevel={riskLevel} />
       )}
 
       {/* Report Success Banner */}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { INCIDENT_LIMITS } from "@/lib/incident";
+import { Add01Icon, ArrowDown01Icon, Cancel01Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+
+/**
+ * Incident details as typed into the form (all strings, occurredAt as a datetime-local value)
+ * Converted to IncidentDetails (lib/incident.ts) by appendIncidentDetails.
+ */
+export interface IncidentDraft {
+  occurredAt: string;
+  location: string;
+  narrative: string;
+  policeReportNumber: string;
+  otherParties: Array<{ name: string; contact: string; vehicle: string; insurer: string }>;
+  witnesses: Array<{ name: string; contact: string }>;
+}
+
+export const EMPTY_INCIDENT_DRAFT: IncidentDraft = {
+  occurredAt: "",
+  location: "",
+  narrative: "",
+  policeReportNumber: "",
+  otherParties: [],
+  witnesses: [],
+};
+
+/**
+ * Add the incident details to a submission, if any were entered
+ *
+ * @example
+ * appendIncidentDetails(formData, incident);
+ * const result = await submitAndWaitForReport(formData, onProgress);
+ */
+export function appendIncidentDetails(formData: FormData, draft: IncidentDraft) {
+  const filled = (value: string) => value.trim().length > 0;
+  const hasDetails =
+    filled(draft.occurredAt) ||
+    filled(draft.location) ||
+    filled(draft.narrative) ||
+    filled(draft.policeReportNumber) ||
+    draft.otherParties.some((party) => Object.values(party).some(filled)) ||
+    draft.witnesses.some((witness) => Object.values(witness).some(filled));
+  if (!hasDetails) return;
+
+  formData.append("incidentDetails", JSON.stringify({
+    ...draft,
+    // datetime-local has no timezone; send the instant as the claimant's browser reads it
+    occurredAt: filled(draft.occurredAt) ? new Date(draft.occurredAt).toISOString() : null,
+  }));
+}
+
+/**
+ * Summary line for a collapsed incident section
+ */
+export function describeIncidentDraft(draft: IncidentDraft): string | null {
+  const parts = [
+    draft.occurredAt && new Date(draft.occurredAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" }),
+    draft.location.trim(),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+interface IncidentDetailsFormProps {
+  value: IncidentDraft;
+  onChange: (value: IncidentDraft) => void;
+  idPrefix?: string; // Keeps input ids unique when the form is rendered twice
+}
+
+/**
+ * When, where and how the incident happened, and who else was involved
+ * All fields are optional; with a policy the analysis cross-checks them against the damage and policy period.
+ */
+export function IncidentDetailsForm({ value, onChange, idPrefix = "incident" }: IncidentDetailsFormProps) {
+  const update = (changes: Partial<IncidentDraft>) => onChange({ ...value, ...changes });
+  // Latest selectable time: local time without seconds, the format datetime-local expects
+  const [now] = useState(() =>
+    new Date(Date.now() - new Date().getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+  );
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-date`}>Date and time</Label>
+          <Input
+            id={`${idPrefix}-date`}
+            type="datetime-local"
+            max={now}
+            value={value.occurredAt}
+            onChange={(e) => update({ occurredAt: e.target.value })}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor={`${idPrefix}-police`}>Police report number</Label>
+          <Input
+            id={`${idPrefix}-police`}
+            placeholder="If the police were called"
+            value={value.policeReportNumber}
+            onChange={(e) => update({ policeReportNumber: e.target.value })}
+            maxLength={INCIDENT_LIMITS.POLICE_REPORT_LENGTH}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}-location`}>Location</Label>
+        <Input
+          id={`${idPrefix}-location`}
+          placeholder="Address, intersection or parking lot"
+          value={value.location}
+          onChange={(e) => update({ location: e.target.value })}
+          maxLength={INCIDENT_LIMITS.LOCATION_LENGTH}
+        />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}-narrative`}>What happened</Label>
+        <Textarea
+          id={`${idPrefix}-narrative`}
+          placeholder="Describe how the damage happened, e.g. which direction the other car came from"
+          value={value.narrative}
+          onChange={(e) => update({ narrative: e.target.value })}
+          maxLength={INCIDENT_LIMITS.NARRATIVE_LENGTH}
+          rows={4}
+        />
+        <p className="text-xs text-muted-foreground text-right">
+          {value.narrative.length}/{INCIDENT_LIMITS.NARRATIVE_LENGTH}
+        </p>
+      </div>
+
+      <div className="grid gap-2">
+        <div className="flex items-center justify-between">
+          <Label>Other parties</Label>
+          {value.otherParties.length < INCIDENT_LIMITS.MAX_PARTIES && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                update({ otherParties: [...value.otherParties, { name: "", contact: "", vehicle: "", insurer: "" }] })
+              }
+            >
+              <HugeiconsIcon icon={Add01Icon} className="h-3 w-3 mr-1" />
+              Add party
+            </Button>
+          )}
+        </div>
+        {value.otherParties.map((party, index) => (
+          <div key={index} className="relative grid grid-cols-1 sm:grid-cols-2 gap-2 rounded-lg border p-3 pr-10">
+            {(["name", "contact", "vehicle", "insurer"] as const).map((field) => (
+              <Input
+                key={field}
+                aria-label={`Party ${index + 1} ${field}`}
+                placeholder={{ name: "Name", contact: "Phone or email", vehicle: "Vehicle and plate", insurer: "Their insurer" }[field]}
+                value={party[field]}
+                onChange={(e) =>
+                  update({
+                    otherParties: value.otherParties.map((p, i) => (i === index ? { ...p, [field]: e.target.value } : p)),
+                  })
+                }
+                maxLength={INCIDENT_LIMITS.FIELD_LENGTH}
+              />
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="absolute top-2 right-1 h-7 w-7"
+              aria-label={`Remove party ${index + 1}`}
+              onClick={() => update({ otherParties: value.otherParties.filter((_, i) => i !== index) })}
+            >
+              <HugeiconsIcon icon={Cancel01Icon} className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-2">
+        <div className="flex items-center justify-between">
+          <Label>Witnesses</Label>
+          {value.witnesses.length < INCIDENT_LIMITS.MAX_WITNESSES && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => update({ witnesses: [...value.witnesses, { name: "", contact: "" }] })}
+            >
+              <HugeiconsIcon icon={Add01Icon} className="h-3 w-3 mr-1" />
+              Add witness
+            </Button>
+          )}
+        </div>
+        {value.witnesses.map((witness, index) => (
+          <div key={index} className="relative grid grid-cols-1 sm:grid-cols-2 gap-2 rounded-lg border p-3 pr-10">
+            {(["name", "contact"] as const).map((field) => (
+              <Input
+                key={field}
+                aria-label={`Witness ${index + 1} ${field}`}
+                placeholder={field === "name" ? "Name" : "Phone or email"}
+                value={witness[field]}
+                onChange={(e) =>
+                  update({
+                    witnesses: value.witnesses.map((w, i) => (i === index ? { ...w, [field]: e.target.value } : w)),
+                  })
+                }
+                maxLength={INCIDENT_LIMITS.FIELD_LENGTH}
+              />
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="absolute top-2 right-1 h-7 w-7"
+              aria-label={`Remove witness ${index + 1}`}
+              onClick={() => update({ witnesses: value.witnesses.filter((_, i) => i !== index) })}
+            >
+              <HugeiconsIcon icon={Cancel01Icon} className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface IncidentDetailsSectionProps extends IncidentDetailsFormProps {
+  hasPolicy?: boolean;
+}
+
+/**
+ * Collapsible incident form for the upload tabs
+ */
+export function IncidentDetailsSection({ hasPolicy = false, ...formProps }: IncidentDetailsSectionProps) {
+  const [open, setOpen] = useState(false);
+  const summary = describeIncidentDraft(formProps.value);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border">
+      <CollapsibleTrigger asChild>
+        <button type="button" className="w-full flex items-center justify-between gap-3 p-3 text-left">
+          <div className="min-w-0">
+            <p className="text-sm font-medium">Incident details (optional)</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {summary ??
+                (hasPolicy
+                  ? "Checked against the damage and your policy period"
+                  : "When, where and how it happened")}
+            </p>
+          </div>
+          <HugeiconsIcon
+            icon={ArrowDown01Icon}
+            className={cn("w-4 h-4 shrink-0 transition-transform", open && "rotate-180")}
+          />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3">
+        <IncidentDetailsForm {...formProps} />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -8,9 +8,9 @@ import { ProgressIndicator } from "./progress-indicator";
 import { AnalysisResultDisplay } from "./analysis-result-display";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { submitReportAction } from "@/appwrite/submitReportAction";
+import { submitAndWaitForReport } from "@/lib/utils/analysisJobPolling";
 import { getUserLocation } from "@/lib/utils/country-detection";
-import type { EnhancedAutoDamageAnalysis } from "@/lib/gemini/types";
+import type { EnhancedAutoDamageAnalysis, MetadataForensicsFlag } from "@/lib/gemini/types";
 
 export function PolicyAnalysisTab() {
   const router = useRouter();
@@ -19,10 +19,12 @@ export function PolicyAnalysisTab() {
   const [policyFile, setPolicyFile] = useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [currentStep, setCurrentStep] = useState(1);
+  const [statusMessage, setStatusMessage] = useState<string | undefined>();
   const [result, setResult] = useState<EnhancedAutoDamageAnalysis | null>(null);
   const [reportId, setReportId] = useState<string | null>(null);
   const [reportNumber, setReportNumber] = useState<string | null>(null);
   const [securityWarnings, setSecurityWarnings] = useState<string[]>([]);
+  const [metadataFlags, setMetadataFlags] = useState<MetadataForensicsFlag[]>([]);
   const [currencySymbol, setCurrencySymbol] = useState<string>("$");
   const [error, setError] = useState<string>("");
 
@@ -39,6 +41,7 @@ export function PolicyAnalysisTab() {
     setReportId(null);
     setReportNumber(null);
     setSecurityWarnings([]);
+    setMetadataFlags([]);
   };
 
   const handlePolicyFileSelected = (selectedFiles: File[]) => {
@@ -68,6 +71,7 @@ export function PolicyAnalysisTab() {
     setReportId(null);
     setReportNumber(null);
     setSecurityWarnings([]);
+    setMetadataFlags([]);
 
     try {
       // Step 1: Validating files
@@ -107,34 +111,19 @@ export function PolicyAnalysisTab() {
       formData.append('userCurrencySymbol', location.currencySymbol);
       setCurrencySymbol(location.currencySymbol);
 
-      // Step 3: Scanning for security threats
-      setCurrentStep(3);
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Longer for PDF scanning
-
-      // Step 4: Analyzing with Gemini AI
-      setCurrentStep(4);
-
-      // Call server action (this does: upload + scan + analyze + save to DB)
-      const result = await submitReportAction(formData);
+      // Steps 3-6: queue the analysis job and follow it (scan + analyze + save to DB)
+      // Rate-limited jobs are retried automatically while we keep polling
+      const result = await submitAndWaitForReport(formData, (step, message) => {
+        setCurrentStep(step);
+        setStatusMessage(message);
+      });
 
       if (!result.success) {
-        // Handle specific error types
-        if (result.retryAfter) {
-          setError(`AI models at capacity. Please retry in ${result.retryAfter} seconds.`);
-        } else {
-          setError(result.message || 'Analysis failed. Please try again.');
-        }
+        setError(result.message || 'Analysis failed. Please try again.');
         setIsAnalyzing(false);
         return;
       }
 
-      // Step 5: Saving to database (already done by server action)
-      setCurrentStep(5);
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Step 6: Complete
-      setCurrentStep(6);
-
       // Store results
       setResult(result.analysis as EnhancedAutoDamageAnalysis);
       setReportId(result.reportId!);
@@ -143,6 +132,7 @@ export function PolicyAnalysisTab() {
       if (result.warnings && result.warnings.length > 0) {
         setSecurityWarnings(result.warnings);
       }
+      setMetadataFlags(result.metadataFlags ?? []);
 
       console.log(`✅ Report created successfully: ${result.reportNumber}`);
     } catch (err) {
@@ -240,7 +230,7 @@ export function PolicyAnalysisTab() {
 
       {/* Progress Indicator */}
       {isAnalyzing && (
-        <ProgressIndicator currentStep={currentStep} />
+        <ProgressIndicator currentStep={currentStep} statusMessage={statusMessage} />
       )}
 
       {/* Error Message */}
@@ -257,6 +247,7 @@ export function PolicyAnalysisTab() {
         <AnalysisResultDisplay
           analysis={result}
           securityWarnings={securityWarnings}
+          metadataFlags={metadataFlags}
           riskLevel={
             result.vehicleVerification.verificationStatus === 'mismatched' ? 'high' :
             securityWarnings.length > 0 ? 'medium' : 'low'
@@ -274,6 +265,7 @@ export function PolicyAnalysisTab() {
             setReportId(null);
             setReportNumber(null);
             setSecurityWarnings([]);
+            setMetadataFlags([]);
             setCurrencySymbol("$");
             setError("");
           }}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  getDaysUntilExpiry,
+  getPolicyPeriodStatus,
+  POLICY_EXPIRY_WARNING_DAYS,
+  type PolicyTerms,
+} from "@/lib/policy/policyTerms";
+
+interface PolicyExpiryBadgeProps {
+  terms?: PolicyTerms | null;
+  className?: string;
+}
+
+const WARNING_COLORS = {
+  expired: "bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300",
+  soon: "bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300",
+};
+
+/**
+ * Warns when a policy has expired, has not started yet, or expires within POLICY_EXPIRY_WARNING_DAYS
+ * Renders nothing for active policies and policies without extracted dates.
+ */
+export function PolicyExpiryBadge({ terms, className }: PolicyExpiryBadgeProps) {
+  const [now] = useState(() => new Date());
+  if (!terms) return null;
+
+  const status = getPolicyPeriodStatus(terms, now);
+  if (status === "expired") {
+    return (
+      <Badge className={cn("text-xs", WARNING_COLORS.expired, className)}>
+        Expired {terms.expirationDate}
+      </Badge>
+    );
+  }
+  if (status === "not_started") {
+    return (
+      <Badge className={cn("text-xs", WARNING_COLORS.soon, className)}>
+        Starts {terms.effectiveDate}
+      </Badge>
+    );
+  }
+
+  const daysLeft = getDaysUntilExpiry(terms, now);
+  if (daysLeft === null || daysLeft > POLICY_EXPIRY_WARNING_DAYS) return null;
+
+  return (
+    <Badge className={cn("text-xs", WARNING_COLORS.soon, className)}>
+      {daysLeft === 0 ? "Expires today" : `Expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+    </Badge>
+  );
+}
@@ -12,6 +12,7 @@ interface ProgressStep {
 interface ProgressIndicatorProps {
   currentStep: number; // 1-6
   steps?: ProgressStep[];
+  statusMessage?: string; // Overrides the step description (e.g. waiting for model capacity)
 }
 
 const defaultSteps: ProgressStep[] = [
@@ -54,6 +55,7 @@ function CheckIcon() {
 export function ProgressIndicator({
   currentStep,
   steps = defaultSteps,
+  statusMessage,
 }: ProgressIndicatorProps) {
   const [msgIdx, setMsgIdx] = useState(0);
   const [msgVisible, setMsgVisible] = useState(true);
@@ -80,8 +82,10 @@ export function ProgressIndicator({
   const translatePercent = -((currentStep - 1) * (100 / 8));
 
   const activeStep = steps[currentStep - 1];
-  const subtext =
-    currentStep === 4
+  const showAnalyzingMessages = currentStep === 4 && !statusMessage;
+  const subtext = statusMessage
+    ? statusMessage
+    : showAnalyzingMessages
       ? analyzingMessages[msgIdx]
       : (activeStep?.description ?? "");
 
@@ -155,7 +159,7 @@ export function ProgressIndicator({
           className={cn(
             "text-sm text-muted-foreground text-center min-h-[1.25rem]",
             "transition-opacity duration-200",
-            currentStep === 4 ? (msgVisible ? "opacity-100" : "opacity-0") : "opacity-100"
+            showAnalyzingMessages ? (msgVisible ? "opacity-100" : "opacity-0") : "opacity-100"
           )}
         >
           {subtext}
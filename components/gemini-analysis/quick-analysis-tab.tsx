@@ -7,8 +7,8 @@ import { MediaPreview } from "./media-preview";
 import { ProgressIndicator } from "./progress-indicator";
 import { AnalysisResultDisplay } from "./analysis-result-display";
 import { Button } from "@/components/ui/button";
-import { submitReportAction } from "@/appwrite/submitReportAction";
-import type { EnhancedAutoDamageAnalysis } from "@/lib/gemini/types";
+import { submitAndWaitForReport } from "@/lib/utils/analysisJobPolling";
+import type { EnhancedAutoDamageAnalysis, MetadataForensicsFlag } from "@/lib/gemini/types";
 import { getUserLocation } from "@/lib/utils/country-detection";
 
 export function QuickAnalysisTab() {
@@ -17,10 +17,12 @@ export function QuickAnalysisTab() {
   const [files, setFiles] = useState<File[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [currentStep, setCurrentStep] = useState(1);
+  const [statusMessage, setStatusMessage] = useState<string | undefined>();
   const [result, setResult] = useState<EnhancedAutoDamageAnalysis | null>(null);
   const [reportId, setReportId] = useState<string | null>(null);
   const [reportNumber, setReportNumber] = useState<string | null>(null);
   const [securityWarnings, setSecurityWarnings] = useState<string[]>([]);
+  const [metadataFlags, setMetadataFlags] = useState<MetadataForensicsFlag[]>([]);
   const [currencySymbol, setCurrencySymbol] = useState<string>("$");
   const [error, setError] = useState<string>("");
 
@@ -38,6 +40,7 @@ export function QuickAnalysisTab() {
     setReportId(null);
     setReportNumber(null);
     setSecurityWarnings([]);
+    setMetadataFlags([]);
   };
 
   const handleRemoveFile = (index: number) => {
@@ -62,6 +65,7 @@ export function QuickAnalysisTab() {
     setReportId(null);
     setReportNumber(null);
     setSecurityWarnings([]);
+    setMetadataFlags([]);
 
     try {
       // Step 1: Validating files
@@ -98,34 +102,19 @@ export function QuickAnalysisTab() {
       formData.append('userCurrencySymbol', location.currencySymbol);
       setCurrencySymbol(location.currencySymbol);
 
-      // Step 3: Scanning for security threats
-      setCurrentStep(3);
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Step 4: Analyzing with Gemini AI
-      setCurrentStep(4);
-
-      // Call server action (this does: upload + scan + analyze + save to DB)
-      const result = await submitReportAction(formData);
+      // Steps 3-6: queue the analysis job and follow it (scan + analyze + save to DB)
+      // Rate-limited jobs are retried automatically while we keep polling
+      const result = await submitAndWaitForReport(formData, (step, message) => {
+        setCurrentStep(step);
+        setStatusMessage(message);
+      });
 
       if (!result.success) {
-        // Handle specific error types
-        if (result.retryAfter) {
-          setError(`AI models at capacity. Please retry in ${result.retryAfter} seconds.`);
-        } else {
-          setError(result.message || 'Analysis failed. Please try again.');
-        }
+        setError(result.message || 'Analysis failed. Please try again.');
         setIsAnalyzing(false);
         return;
       }
 
-      // Step 5: Saving to database (already done by server action)
-      setCurrentStep(5);
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Step 6: Complete
-      setCurrentStep(6);
-
       // Store results
       setResult(result.analysis as EnhancedAutoDamageAnalysis);
       setReportId(result.reportId!);
@@ -134,6 +123,7 @@ export function QuickAnalysisTab() {
       if (result.warnings && result.warnings.length > 0) {
         setSecurityWarnings(result.warnings);
       }
+      setMetadataFlags(result.metadataFlags ?? []);
 
       console.log(`✅ Report created successfully: ${result.reportNumber}`);
     } catch (err) {
@@ -190,7 +180,7 @@ export function QuickAnalysisTab() {
 
       {/* Progress Indicator */}
       {isAnalyzing && (
-        <ProgressIndicator currentStep={currentStep} />
+        <ProgressIndicator currentStep={currentStep} statusMessage={statusMessage} />
       )}
 
       {/* Error Message */}
@@ -207,6 +197,7 @@ export function QuickAnalysisTab() {
         <AnalysisResultDisplay
           analysis={result}
           securityWarnings={securityWarnings}
+          metadataFlags={metadataFlags}
           riskLevel={securityWarnings.length > 0 ? 'medium' : 'low'}
           reportId={reportId}
           reportNumber={reportNumber}
@@ -219,6 +210,7 @@ export function QuickAnalysisTab() {
             setReportId(null);
             setReportNumber(null);
             setSecurityWarnings([]);
+            setMetadataFlags([]);
             setCurrencySymbol("$");
             setError("");
           }}
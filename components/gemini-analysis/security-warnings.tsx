@@ -4,16 +4,26 @@ import { useState } from "react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import type { MetadataForensicsFlag } from "@/lib/gemini/types";
 
 interface SecurityWarningsProps {
   warnings: string[];
+  metadataFlags?: MetadataForensicsFlag[]; // Media metadata forensics, raise the risk level to their highest severity
   riskLevel?: 'low' | 'medium' | 'high';
 }
 
-export function SecurityWarnings({ warnings, riskLevel = 'medium' }: SecurityWarningsProps) {
+const RISK_ORDER = { low: 0, medium: 1, high: 2 } as const;
+
+export function SecurityWarnings({ warnings, metadataFlags = [], riskLevel: baseRiskLevel = 'medium' }: SecurityWarningsProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
-  if (!warnings || warnings.length === 0) return null;
+  if ((!warnings || warnings.length === 0) && metadataFlags.length === 0) return null;
+
+  const riskLevel = metadataFlags.reduce<'low' | 'medium' | 'high'>(
+    (level, flag) => (RISK_ORDER[flag.severity] > RISK_ORDER[level] ? flag.severity : level),
+    baseRiskLevel
+  );
+  const concernCount = warnings.length + metadataFlags.length;
 
   const getRiskColor = () => {
     switch (riskLevel) {
@@ -99,16 +109,18 @@ export function SecurityWarnings({ warnings, riskLevel = 'medium' }: SecurityWar
 
           <AlertDescription className="text-sm space-y-2">
             <p>
-              {warnings.length === 1
+              {concernCount === 1
                 ? "A security concern was detected during analysis."
-                : `${warnings.length} security concerns were detected during analysis.`}
+                : `${concernCount} security concerns were detected during analysis.`}
             </p>
 
             {/* First Warning Always Shown */}
-            <div className="flex items-start gap-2 text-foreground">
-              <span className="flex-shrink-0 mt-0.5">•</span>
-              <span>{warnings[0]}</span>
-            </div>
+            {warnings.length > 0 && (
+              <div className="flex items-start gap-2 text-foreground">
+                <span className="flex-shrink-0 mt-0.5">•</span>
+                <span>{warnings[0]}</span>
+              </div>
+            )}
 
             {/* Additional Warnings (Expandable) */}
             {warnings.length > 1 && (
@@ -149,6 +161,26 @@ export function SecurityWarnings({ warnings, riskLevel = 'medium' }: SecurityWar
               </>
             )}
 
+            {/* Media Metadata Forensics */}
+            {metadataFlags.length > 0 && (
+              <div className="space-y-2 pt-1">
+                <p className="font-medium text-foreground">Media metadata</p>
+                {metadataFlags.map((flag, index) => (
+                  <div key={index} className="flex items-start gap-2 text-foreground">
+                    <span className={cn(
+                      "flex-shrink-0 text-xs px-2 py-0.5 rounded-full uppercase font-bold",
+                      flag.severity === 'low' && "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
+                      flag.severity === 'medium' && "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
+                      flag.severity === 'high' && "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300"
+                    )}>
+                      {flag.severity}
+                    </span>
+                    <span>{flag.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <p className="text-xs italic mt-3 text-muted-foreground">
               {riskLevel === 'high' && "⚠️ Manual review is strongly recommended before approving this claim."}
               {riskLevel === 'medium' && "ℹ️ Review recommended. Analysis continues with warnings."}
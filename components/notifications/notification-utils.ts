@@ -3,6 +3,7 @@ import {
   ArrowReloadHorizontalIcon,
   SettingsIcon,
   InformationCircleIcon,
+  AtIcon,
 } from "@hugeicons/core-free-icons";
 import type { NotificationDocument } from "@/lib/types/appwrite";
 
@@ -14,6 +15,7 @@ export const notificationTypeConfig: Record<
   report_updated: { icon: ArrowReloadHorizontalIcon, className: "bg-blue-100 text-blue-600 dark:bg-blue-950 dark:text-blue-400" },
   system: { icon: SettingsIcon, className: "bg-muted text-muted-foreground" },
   info: { icon: InformationCircleIcon, className: "bg-blue-100 text-blue-600 dark:bg-blue-950 dark:text-blue-400" },
+  mention: { icon: AtIcon, className: "bg-purple-100 text-purple-600 dark:bg-purple-950 dark:text-purple-400" },
 };
 
 export function formatRelativeTime(dateString: string): string {
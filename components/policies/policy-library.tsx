@@ -0,0 +1,208 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Empty, EmptyDescription, EmptyHeader, EmptyTitle } from "@/components/ui/empty";
+import { PolicyExpiryBadge } from "@/components/gemini-analysis/policy-expiry-badge";
+import { PolicyTermsDialog } from "@/components/policies/policy-terms-dialog";
+import { usePolicies } from "@/lib/context/policy-context";
+import { extractPolicyTermsForFile, uploadPolicy } from "@/appwrite/policies";
+import { formatPolicyPeriod } from "@/lib/policy/policyTerms";
+import type { PolicyInfo } from "@/lib/types/appwrite";
+import { Pdf02Icon, Upload04Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+
+const STATUS_COLORS = {
+  reviewed: "bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300",
+  corrected: "bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300",
+  review: "bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300",
+};
+
+/**
+ * The user's policies with their extracted terms
+ * Upload a policy, review and correct its terms, or retry an extraction that failed.
+ * Corrections are shown in place of the extracted terms here; the insurer reviews them.
+ */
+export function PolicyLibrary() {
+  const { policies, refreshPolicies } = usePolicies();
+  const [reviewing, setReviewing] = useState<PolicyInfo | null>(null);
+  const [busyFileId, setBusyFileId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setIsUploading(true);
+    const formData = new FormData();
+    formData.append("policyFile", file);
+    const result = await uploadPolicy(formData);
+    setIsUploading(false);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+
+    if (!result.success) {
+      toast.error(result.message || "Failed to upload policy");
+      return;
+    }
+    if (result.terms) {
+      toast.success("Policy uploaded. Review the extracted terms.");
+    } else {
+      toast.warning(`Policy uploaded, but its terms could not be read: ${result.message}`);
+    }
+    await refreshPolicies();
+  };
+
+  const handleExtract = async (policy: PolicyInfo) => {
+    setBusyFileId(policy.fileId);
+    const result = await extractPolicyTermsForFile(policy.fileId);
+    setBusyFileId(null);
+
+    if (!result.success || !result.terms) {
+      toast.error(result.message || "Could not read the policy terms");
+    } else {
+      toast.success("Policy terms extracted. Review them below.");
+    }
+    await refreshPolicies();
+  };
+
+  const renderStatus = (policy: PolicyInfo) => {
+    if (policy.terms) {
+      if (policy.correctedTerms) {
+        return <Badge className={STATUS_COLORS.corrected}>Corrected, pending insurer review</Badge>;
+      }
+      return policy.reviewedAt ? (
+        <Badge className={STATUS_COLORS.reviewed}>Reviewed</Badge>
+      ) : (
+        <Badge className={STATUS_COLORS.review}>Needs review</Badge>
+      );
+    }
+    if (policy.termsStatus === "failed") {
+      return <Badge className={STATUS_COLORS.failed}>Extraction failed</Badge>;
+    }
+    return <Badge variant="secondary">Terms not extracted</Badge>;
+  };
+
+  const renderSummary = (policy: PolicyInfo) => {
+    if (!policy.terms) {
+      return policy.termsError ? <p className="text-sm text-muted-foreground">{policy.termsError}</p> : null;
+    }
+    const terms = policy.correctedTerms ?? policy.terms;
+    const rows = [
+      ["Policy number", terms.policyNumber],
+      ["Insurer", terms.insurerName],
+      ["Period", formatPolicyPeriod(terms)],
+      [
+        "Vehicles",
+        terms.vehicles
+          .map((vehicle) => [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(" ") || vehicle.vin)
+          .filter(Boolean)
+          .join(", ") || null,
+      ],
+      ["Coverages", terms.coverages.map((coverage) => coverage.label).join(", ") || null],
+    ] as const;
+
+    return (
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex gap-2 min-w-0">
+            <dt className="text-muted-foreground shrink-0">{label}</dt>
+            <dd className="truncate">{value ?? "Not stated"}</dd>
+          </div>
+        ))}
+      </dl>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Terms are read from each policy once. Check them and correct anything read wrong; your insurer reviews corrections against the policy.
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/pdf"
+          className="hidden"
+          onChange={(e) => handleUpload(e.target.files?.[0])}
+        />
+        <Button onClick={() => fileInputRef.current?.click()} disabled={isUploading} className="shrink-0">
+          <HugeiconsIcon icon={Upload04Icon} className="w-4 h-4" />
+          {isUploading ? "Reading policy..." : "Upload policy"}
+        </Button>
+      </div>
+
+      {policies.length === 0 && (
+        <Empty>
+          <EmptyHeader className="flex flex-col gap-2">
+            <EmptyTitle>No policies yet</EmptyTitle>
+            <EmptyDescription>
+              Upload your auto insurance policy to have its coverage, deductibles and insured vehicles ready for your claims.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      )}
+
+      {policies.map((policy) => (
+        <Card key={policy.fileId}>
+          <CardContent className="flex flex-col gap-3">
+            <div className="flex items-center gap-3">
+              <HugeiconsIcon icon={Pdf02Icon} className="w-8 h-8 text-red-500 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <a
+                  href={policy.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium truncate block hover:underline"
+                >
+                  {policy.filename}
+                </a>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-xs text-muted-foreground">
+                    {(policy.size / 1024 / 1024).toFixed(2)} MB - {new Date(policy.uploadedAt).toLocaleDateString()}
+                  </span>
+                  {renderStatus(policy)}
+                  <PolicyExpiryBadge terms={policy.terms} />
+                </div>
+              </div>
+              {policy.terms && policy.policyId ? (
+                <Button variant="outline" size="sm" onClick={() => setReviewing(policy)}>
+                  {policy.reviewedAt ? "Edit terms" : "Review terms"}
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyFileId === policy.fileId}
+                  onClick={() => handleExtract(policy)}
+                >
+                  {busyFileId === policy.fileId
+                    ? "Reading policy..."
+                    : policy.termsStatus === "failed"
+                      ? "Retry"
+                      : "Extract terms"}
+                </Button>
+              )}
+            </div>
+            {renderSummary(policy)}
+          </CardContent>
+        </Card>
+      ))}
+
+      {reviewing?.policyId && reviewing.terms && (
+        <PolicyTermsDialog
+          key={reviewing.policyId}
+          policyId={reviewing.policyId}
+          filename={reviewing.filename}
+          terms={reviewing.correctedTerms ?? reviewing.terms}
+          open
+          onOpenChange={(open) => !open && setReviewing(null)}
+          onSaved={refreshPolicies}
+        />
+      )}
+    </div>
+  );
+}
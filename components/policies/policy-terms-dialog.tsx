@@ -0,0 +1,307 @@
+"use client";
+
+import { useState, type ComponentProps } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { updatePolicyTerms } from "@/appwrite/policies";
+import {
+  normalizePolicyTerms,
+  POLICY_TERMS_LIMITS,
+  type PolicyCoverageType,
+  type PolicyTerms,
+  type PolicyVehicle,
+} from "@/lib/policy/policyTerms";
+import { Add01Icon, Cancel01Icon } from "@hugeicons/core-free-icons";
+import { HugeiconsIcon } from "@hugeicons/react";
+
+/**
+ * Policy terms as typed into the form (all strings, exclusions one per line)
+ * Validated with normalizePolicyTerms before saving.
+ */
+interface TermsDraft {
+  policyNumber: string;
+  insurerName: string;
+  policyholderName: string;
+  effectiveDate: string;
+  expirationDate: string;
+  currency: string;
+  vehicles: Array<Record<keyof PolicyVehicle, string>>;
+  coverages: Array<{ type: PolicyCoverageType; label: string; limit: string; deductible: string; section: string }>;
+  exclusions: string;
+}
+
+const COVERAGE_TYPE_LABELS: Record<PolicyCoverageType, string> = {
+  collision: "Collision",
+  comprehensive: "Comprehensive",
+  liability: "Liability",
+  other: "Other",
+};
+
+const EMPTY_VEHICLE: TermsDraft["vehicles"][number] = {
+  year: "",
+  make: "",
+  model: "",
+  vin: "",
+  licensePlate: "",
+  color: "",
+};
+
+const EMPTY_COVERAGE: TermsDraft["coverages"][number] = {
+  type: "collision",
+  label: "",
+  limit: "",
+  deductible: "",
+  section: "",
+};
+
+function toDraft(terms: PolicyTerms): TermsDraft {
+  const text = (value: string | number | null) => (value === null ? "" : String(value));
+  return {
+    policyNumber: text(terms.policyNumber),
+    insurerName: text(terms.insurerName),
+    policyholderName: text(terms.policyholderName),
+    effectiveDate: text(terms.effectiveDate),
+    expirationDate: text(terms.expirationDate),
+    currency: text(terms.currency),
+    vehicles: terms.vehicles.map((vehicle) => ({
+      year: text(vehicle.year),
+      make: text(vehicle.make),
+      model: text(vehicle.model),
+      vin: text(vehicle.vin),
+      licensePlate: text(vehicle.licensePlate),
+      color: text(vehicle.color),
+    })),
+    coverages: terms.coverages.map((coverage) => ({
+      type: coverage.type,
+      label: coverage.label,
+      limit: text(coverage.limit),
+      deductible: text(coverage.deductible),
+      section: text(coverage.section),
+    })),
+    exclusions: terms.exclusions.join("\n"),
+  };
+}
+
+interface PolicyTermsDialogProps {
+  policyId: string;
+  filename: string;
+  terms: PolicyTerms;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+/**
+ * Review and correct the terms extracted from a policy
+ * Saving marks the terms as reviewed; changes are sent to the insurer as corrections and
+ * do not replace the extracted terms.
+ */
+export function PolicyTermsDialog({ policyId, filename, terms, open, onOpenChange, onSaved }: PolicyTermsDialogProps) {
+  const [draft, setDraft] = useState<TermsDraft>(() => toDraft(terms));
+  const [errorMessage, setErrorMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (changes: Partial<TermsDraft>) => setDraft((current) => ({ ...current, ...changes }));
+  const updateVehicle = (index: number, changes: Partial<TermsDraft["vehicles"][number]>) =>
+    update({ vehicles: draft.vehicles.map((vehicle, i) => (i === index ? { ...vehicle, ...changes } : vehicle)) });
+  const updateCoverage = (index: number, changes: Partial<TermsDraft["coverages"][number]>) =>
+    update({ coverages: draft.coverages.map((coverage, i) => (i === index ? { ...coverage, ...changes } : coverage)) });
+
+  const handleSave = async () => {
+    const normalized = normalizePolicyTerms({ ...draft, exclusions: draft.exclusions.split("\n") });
+    if ("error" in normalized) {
+      setErrorMessage(normalized.error);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrorMessage("");
+    const result = await updatePolicyTerms(policyId, normalized);
+    setIsSaving(false);
+
+    if (!result.success) {
+      setErrorMessage(result.message || "Failed to save policy terms");
+      return;
+    }
+    toast.success("Policy terms saved");
+    onSaved();
+    onOpenChange(false);
+  };
+
+  const renderInput = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    props: ComponentProps<typeof Input> = {}
+  ) => (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        maxLength={POLICY_TERMS_LIMITS.TEXT_LENGTH}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review policy terms</DialogTitle>
+          <DialogDescription>
+            Extracted from {filename}. Correct anything that doesn&apos;t match your policy; your insurer reviews corrections against the policy document.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {renderInput("policy-number", "Policy number", draft.policyNumber, (policyNumber) => update({ policyNumber }))}
+            {renderInput("policy-insurer", "Insurer", draft.insurerName, (insurerName) => update({ insurerName }))}
+            {renderInput("policy-holder", "Policyholder", draft.policyholderName, (policyholderName) => update({ policyholderName }))}
+            {renderInput("policy-currency", "Currency", draft.currency, (currency) => update({ currency }), {
+              placeholder: "USD",
+              maxLength: 3,
+            })}
+            {renderInput("policy-effective", "Effective date", draft.effectiveDate, (effectiveDate) => update({ effectiveDate }), {
+              type: "date",
+            })}
+            {renderInput("policy-expiration", "Expiration date", draft.expirationDate, (expirationDate) => update({ expirationDate }), {
+              type: "date",
+            })}
+          </div>
+
+          <div className="grid gap-3">
+            <div className="flex items-center justify-between">
+              <Label>Insured vehicles</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={draft.vehicles.length >= POLICY_TERMS_LIMITS.MAX_VEHICLES}
+                onClick={() => update({ vehicles: [...draft.vehicles, EMPTY_VEHICLE] })}
+              >
+                <HugeiconsIcon icon={Add01Icon} className="w-4 h-4" />
+                Add vehicle
+              </Button>
+            </div>
+            {draft.vehicles.map((vehicle, index) => (
+              <div key={index} className="grid grid-cols-2 sm:grid-cols-3 gap-2 rounded-lg border p-3">
+                <Input aria-label="Year" placeholder="Year" inputMode="numeric" maxLength={4} value={vehicle.year} onChange={(e) => updateVehicle(index, { year: e.target.value })} />
+                <Input aria-label="Make" placeholder="Make" value={vehicle.make} onChange={(e) => updateVehicle(index, { make: e.target.value })} />
+                <Input aria-label="Model" placeholder="Model" value={vehicle.model} onChange={(e) => updateVehicle(index, { model: e.target.value })} />
+                <Input aria-label="Color" placeholder="Color" value={vehicle.color} onChange={(e) => updateVehicle(index, { color: e.target.value })} />
+                <Input aria-label="VIN" placeholder="VIN" value={vehicle.vin} onChange={(e) => updateVehicle(index, { vin: e.target.value })} />
+                <div className="flex gap-2">
+                  <Input aria-label="License plate" placeholder="License plate" value={vehicle.licensePlate} onChange={(e) => updateVehicle(index, { licensePlate: e.target.value })} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove vehicle"
+                    onClick={() => update({ vehicles: draft.vehicles.filter((_, i) => i !== index) })}
+                  >
+                    <HugeiconsIcon icon={Cancel01Icon} className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-3">
+            <div className="flex items-center justify-between">
+              <Label>Coverages</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={draft.coverages.length >= POLICY_TERMS_LIMITS.MAX_COVERAGES}
+                onClick={() => update({ coverages: [...draft.coverages, EMPTY_COVERAGE] })}
+              >
+                <HugeiconsIcon icon={Add01Icon} className="w-4 h-4" />
+                Add coverage
+              </Button>
+            </div>
+            {draft.coverages.map((coverage, index) => (
+              <div key={index} className="grid grid-cols-2 sm:grid-cols-3 gap-2 rounded-lg border p-3">
+                <Select
+                  value={coverage.type}
+                  onValueChange={(type) => updateCoverage(index, { type: type as PolicyCoverageType })}
+                >
+                  <SelectTrigger className="w-full" aria-label="Coverage type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(COVERAGE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input aria-label="Name" placeholder="Name in the policy" className="sm:col-span-2" value={coverage.label} onChange={(e) => updateCoverage(index, { label: e.target.value })} />
+                <Input aria-label="Limit" placeholder="Limit (amount or basis)" value={coverage.limit} onChange={(e) => updateCoverage(index, { limit: e.target.value })} />
+                <Input aria-label="Deductible" placeholder="Deductible" inputMode="decimal" value={coverage.deductible} onChange={(e) => updateCoverage(index, { deductible: e.target.value })} />
+                <div className="flex gap-2">
+                  <Input aria-label="Section" placeholder="Section" value={coverage.section} onChange={(e) => updateCoverage(index, { section: e.target.value })} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove coverage"
+                    onClick={() => update({ coverages: draft.coverages.filter((_, i) => i !== index) })}
+                  >
+                    <HugeiconsIcon icon={Cancel01Icon} className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="policy-exclusions">Exclusions</Label>
+            <Textarea
+              id="policy-exclusions"
+              placeholder="One exclusion per line"
+              rows={4}
+              value={draft.exclusions}
+              onChange={(e) => update({ exclusions: e.target.value })}
+            />
+          </div>
+
+          {errorMessage && <p className="text-sm text-destructive">{errorMessage}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Confirm terms"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
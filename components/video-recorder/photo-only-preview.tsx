@@ -12,9 +12,11 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Tick02Icon, File01Icon, Cancel01Icon, Pdf02Icon, ArrowLeft01Icon, ArrowRight01Icon } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { cn } from "@/lib/utils";
+import { PolicyExpiryBadge } from "@/components/gemini-analysis/policy-expiry-badge";
 import { usePolicies } from "@/lib/context/policy-context";
 import { type PolicySubmission } from "@/components/video-recorder/policy-upload-step";
 import { FileUploadZone } from "@/components/gemini-analysis/file-upload-zone";
+import { IncidentDetailsSection, type IncidentDraft } from "@/components/gemini-analysis/incident-details-form";
 
 interface CapturedPhoto {
   file: File;
@@ -27,6 +29,8 @@ interface PhotoOnlyPreviewProps {
   onSubmitQuick: () => void;
   onSubmitWithPolicy: (policy: PolicySubmission) => void;
   onRemovePhoto: (index: number) => void;
+  incident: IncidentDraft;
+  onIncidentChange: (incident: IncidentDraft) => void;
 }
 
 export function PhotoOnlyPreview({
@@ -34,6 +38,8 @@ export function PhotoOnlyPreview({
   onSubmitQuick,
   onSubmitWithPolicy,
   onRemovePhoto,
+  incident,
+  onIncidentChange,
 }: PhotoOnlyPreviewProps) {
   const [submissionOpen, setSubmissionOpen] = useState(false);
   const [policyPickerOpen, setPolicyPickerOpen] = useState(false);
@@ -144,6 +150,7 @@ export function PhotoOnlyPreview({
 
       {/* Submit button */}
       <div className="flex flex-col gap-3 pt-2">
+        <IncidentDetailsSection value={incident} onChange={onIncidentChange} idPrefix="photo-incident" />
         <Button
           onClick={() => setSubmissionOpen(true)}
           disabled={capturedPhotos.length === 0}
@@ -278,6 +285,7 @@ export function PhotoOnlyPreview({
                         {(policy.size / 1024 / 1024).toFixed(2)} MB
                       </p>
                     </div>
+                    <PolicyExpiryBadge terms={policy.terms} className="shrink-0" />
                     {selectedPolicy?.type === "existing" &&
                       selectedPolicy.policy.fileId === policy.fileId && (
                         <HugeiconsIcon icon={Tick02Icon} className="w-4 h-4 text-primary shrink-0" />
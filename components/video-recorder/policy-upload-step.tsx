@@ -4,6 +4,7 @@ import { useState, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { FileUploadZone } from "@/components/gemini-analysis/file-upload-zone";
+import { PolicyExpiryBadge } from "@/components/gemini-analysis/policy-expiry-badge";
 import { type PolicyInfo } from "@/lib/types/appwrite";
 import { usePolicies } from "@/lib/context/policy-context";
 import {
@@ -111,6 +112,7 @@ export function PolicyUploadStep({
               <span className="text-xs text-muted-foreground">{formattedSize} MB</span>
               <Badge variant="secondary" className="text-xs">Auto-filled</Badge>
               <span className="text-xs text-muted-foreground">{formattedDate}</span>
+              <PolicyExpiryBadge terms={policy.terms} />
             </div>
           </div>
           <div className="flex items-center gap-1 flex-shrink-0">
@@ -150,6 +152,7 @@ export function PolicyUploadStep({
                             {pSize} MB - {pDate}
                           </p>
                         </div>
+                        <PolicyExpiryBadge terms={p.terms} className="flex-shrink-0" />
                         {isSelected && (
                           <HugeiconsIcon
                             icon={Tick02Icon}
@@ -13,9 +13,11 @@ import { formatFileSize } from "@/lib/utils/video-compression";
 import { Tick02Icon, File01Icon, Cancel01Icon, Pdf02Icon, ArrowLeft01Icon, ArrowRight01Icon } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { cn } from "@/lib/utils";
+import { PolicyExpiryBadge } from "@/components/gemini-analysis/policy-expiry-badge";
 import { usePolicies } from "@/lib/context/policy-context";
 import { type PolicySubmission } from "@/components/video-recorder/policy-upload-step";
 import { FileUploadZone } from "@/components/gemini-analysis/file-upload-zone";
+import { IncidentDetailsSection, type IncidentDraft } from "@/components/gemini-analysis/incident-details-form";
 
 interface CapturedPhoto {
   file: File;
@@ -36,6 +38,8 @@ interface RecordingPreviewProps {
   captureMode?: "guided" | "free" | "photo-only";
   capturedPhotos?: CapturedPhoto[];
   onRemovePhoto?: (index: number) => void;
+  incident: IncidentDraft;
+  onIncidentChange: (incident: IncidentDraft) => void;
 }
 
 function formatDuration(seconds: number): string {
@@ -55,6 +59,8 @@ export function RecordingPreview({
   captureMode,
   capturedPhotos = [],
   onRemovePhoto,
+  incident,
+  onIncidentChange,
 }: RecordingPreviewProps) {
   const [submissionOpen, setSubmissionOpen] = useState(false);
   const [policyPickerOpen, setPolicyPickerOpen] = useState(false);
@@ -101,6 +107,7 @@ export function RecordingPreview({
 
   const submitButton = (
     <div className="flex flex-col gap-3 pt-2">
+      <IncidentDetailsSection value={incident} onChange={onIncidentChange} idPrefix="recording-incident" />
       <Button
         onClick={() => setSubmissionOpen(true)}
         disabled={isCompressing || isOverSize}
@@ -413,6 +420,7 @@ export function RecordingPreview({
                         {(policy.size / 1024 / 1024).toFixed(2)} MB
                       </p>
                     </div>
+                    <PolicyExpiryBadge terms={policy.terms} className="shrink-0" />
                     {selectedPolicy?.type === "existing" &&
                       selectedPolicy.policy.fileId === policy.fileId && (
                         <HugeiconsIcon
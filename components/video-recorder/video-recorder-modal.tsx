@@ -32,12 +32,13 @@ import { GuidedCaptureOverlay, GUIDED_CAPTURE_STEPS } from "./guided-capture-ove
 import { PhotoOnlyCaptureOverlay } from "./photo-only-capture-overlay";
 import { PhotoOnlyPreview } from "./photo-only-preview";
 import { ProgressIndicator } from "@/components/gemini-analysis/progress-indicator";
+import { appendIncidentDetails, EMPTY_INCIDENT_DRAFT, type IncidentDraft } from "@/components/gemini-analysis/incident-details-form";
 import { usePhotoCapture } from "@/hooks/use-photo-capture";
 import {
   compressVideoIfNeeded,
   needsCompression,
 } from "@/lib/utils/video-compression";
-import { submitReportAction } from "@/appwrite/submitReportAction";
+import { submitAndWaitForReport } from "@/lib/utils/analysisJobPolling";
 import { Camera02Icon, CameraOff02Icon, Cancel01Icon } from "@hugeicons/core-free-icons";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { getCountryFromTimezone } from "@/lib/utils/country-detection";
@@ -83,6 +84,7 @@ export function VideoRecorderModal({
   const [processedFile, setProcessedFile] = useState<File | null>(null);
   const [wasCompressed, setWasCompressed] = useState(false);
   const [uploadStep, setUploadStep] = useState(1);
+  const [uploadStatusMessage, setUploadStatusMessage] = useState<string | undefined>();
   const [qualitySeconds, setQualitySeconds] = useState(0);
   const [captureMode, setCaptureMode] = useState<CaptureMode>("free");
   const [guidedPhase, setGuidedPhase] = useState<'photos' | 'video'>('photos');
@@ -90,6 +92,7 @@ export function VideoRecorderModal({
   const [guidedStepPhotoCount, setGuidedStepPhotoCount] = useState(0);
   const [photoOnlyPhase, setPhotoOnlyPhase] = useState<'damage' | 'sides'>('damage');
   const [photoOnlyDamageCount, setPhotoOnlyDamageCount] = useState(0);
+  const [incident, setIncident] = useState<IncidentDraft>(EMPTY_INCIDENT_DRAFT);
 
   // Track last duration for quality seconds calculation
   const lastDurationRef = useRef(0);
@@ -307,6 +310,7 @@ export function VideoRecorderModal({
     setGuidedStepPhotoCount(0);
     setPhotoOnlyPhase('damage');
     setPhotoOnlyDamageCount(0);
+    setIncident(EMPTY_INCIDENT_DRAFT);
     lastDurationRef.current = 0;
   }, [stopCamera, resetRecording, clearPhotos]);
 
@@ -430,6 +434,12 @@ export function VideoRecorderModal({
     return ok;
   }, [stream, photoOnlyPhase, guidedStepIndex, capturePhoto]);
 
+  // Upload progress follows the analysis job status (see submitAndWaitForReport)
+  const handleUploadProgress = (step: number, message?: string) => {
+    setUploadStep(step);
+    setUploadStatusMessage(message);
+  };
+
   // Photo-only: submit without policy
   const handleSubmitPhotoOnly = async () => {
     if (isUploadingRef.current) return;
@@ -454,19 +464,11 @@ export function VideoRecorderModal({
       }
       const userCountry = getCountryFromTimezone();
       formData.append('userCountry', userCountry);
+      appendIncidentDetails(formData, incident);
 
-      setUploadStep(2);
-      await new Promise((r) => setTimeout(r, 500));
-      setUploadStep(3);
-      await new Promise((r) => setTimeout(r, 300));
-      setUploadStep(4);
-
-      const result = await submitReportAction(formData);
+      const result = await submitAndWaitForReport(formData, handleUploadProgress);
 
       if (result.success && result.reportId) {
-        setUploadStep(5);
-        await new Promise((r) => setTimeout(r, 300));
-        setUploadStep(6);
         await new Promise((r) => setTimeout(r, 500));
         onSuccess?.(result.reportId);
         router.replace(`/auth/reports/${result.reportId}`);
@@ -508,19 +510,11 @@ export function VideoRecorderModal({
 
       const userCountry = getCountryFromTimezone();
       formData.append('userCountry', userCountry);
+      appendIncidentDetails(formData, incident);
 
-      setUploadStep(2);
-      await new Promise((r) => setTimeout(r, 500));
-      setUploadStep(3);
-      await new Promise((r) => setTimeout(r, 300));
-      setUploadStep(4);
-
-      const result = await submitReportAction(formData);
+      const result = await submitAndWaitForReport(formData, handleUploadProgress);
 
       if (result.success && result.reportId) {
-        setUploadStep(5);
-        await new Promise((r) => setTimeout(r, 300));
-        setUploadStep(6);
         await new Promise((r) => setTimeout(r, 500));
         onSuccess?.(result.reportId);
         router.replace(`/auth/reports/${result.reportId}`);
@@ -657,6 +651,7 @@ export function VideoRecorderModal({
       // Add user's country for localized pricing
       const userCountry = getCountryFromTimezone();
       formData.append('userCountry', userCountry);
+      appendIncidentDetails(formData, incident);
 
       // Add video quality metadata for Gemini analysis
       if (cameraSettings) {
@@ -669,23 +664,13 @@ export function VideoRecorderModal({
         }));
       }
 
-      // Simulate progress steps
-      setUploadStep(2); // Uploading
-      await new Promise((r) => setTimeout(r, 500));
-
-      setUploadStep(3); // Scanning
-      await new Promise((r) => setTimeout(r, 300));
-
-      setUploadStep(4); // Analyzing
+      // Progress steps follow the analysis job (uploading → scanning → analyzing → saving)
       console.log('[VideoRecorder] Calling submitReportAction...');
-      const result = await submitReportAction(formData);
+      const result = await submitAndWaitForReport(formData, handleUploadProgress);
       console.log('[VideoRecorder] Submission result:', result);
 
       if (result.success && result.reportId) {
-        setUploadStep(5); // Saving
-        await new Promise((r) => setTimeout(r, 300));
-
-        setUploadStep(6); // Complete
+        // Complete
         await new Promise((r) => setTimeout(r, 500));
 
         onSuccess?.(result.reportId);
@@ -766,6 +751,7 @@ export function VideoRecorderModal({
       // Add user's country for localized pricing
       const userCountry = getCountryFromTimezone();
       formData.append('userCountry', userCountry);
+      appendIncidentDetails(formData, incident);
 
       // Add video quality metadata for Gemini analysis
       if (cameraSettings) {
@@ -778,22 +764,11 @@ export function VideoRecorderModal({
         }));
       }
 
-      setUploadStep(2);
-      await new Promise((r) => setTimeout(r, 500));
-
-      setUploadStep(3);
-      await new Promise((r) => setTimeout(r, 300));
-
-      setUploadStep(4);
       console.log('[VideoRecorder] Calling submitReportAction with policy...');
-      const result = await submitReportAction(formData);
+      const result = await submitAndWaitForReport(formData, handleUploadProgress);
       console.log('[VideoRecorder] Submission result:', result);
 
       if (result.success && result.reportId) {
-        setUploadStep(5);
-        await new Promise((r) => setTimeout(r, 300));
-
-        setUploadStep(6);
         await new Promise((r) => setTimeout(r, 500));
 
         onSuccess?.(result.reportId);
@@ -1072,6 +1047,8 @@ export function VideoRecorderModal({
               onSubmitQuick={handleSubmitPhotoOnly}
               onSubmitWithPolicy={handleSubmitPhotoOnlyWithPolicy}
               onRemovePhoto={removePhoto}
+              incident={incident}
+              onIncidentChange={setIncident}
             />
           )}
 
@@ -1093,6 +1070,8 @@ export function VideoRecorderModal({
                 captureMode={captureMode}
                 capturedPhotos={capturedPhotos}
                 onRemovePhoto={removePhoto}
+                incident={incident}
+                onIncidentChange={setIncident}
               />
             </>
           )}
@@ -1100,7 +1079,7 @@ export function VideoRecorderModal({
           {/* Uploading */}
           {modalState === "uploading" && (
             <div className="flex flex-1 min-h-0 items-center justify-center">
-              <ProgressIndicator currentStep={uploadStep} />
+              <ProgressIndicator currentStep={uploadStep} statusMessage={uploadStatusMessage} />
             </div>
           )}
         </div>
@@ -5,6 +5,10 @@ import { adminAction } from "@/appwrite/adminOrClient";
 import { validateAdminSession } from "./auth";
 import { DATABASE_ID, COLLECTION_IDS } from "@/lib/env";
 import { stripe } from "@/lib/stripe/client";
+import { buildAuditLogQueries, type AuditLogFilters } from "@/lib/audit/auditLogs";
+import { verifyAuditLogChain } from "@/lib/audit/hashChain";
+import { getApiUsage } from "@/lib/api/usage";
+import { toCsvRow } from "@/lib/utils/csv";
 import type {
   UserDocument,
   ReportDocument,
@@ -368,9 +372,35 @@ export async function getSubscriptionOverview() {
   }
 }
 
+// ── API Usage ─────────────────────────────────────────────
+
+/**
+ * Daily v1 API usage per key and endpoint, across all companies
+ *
+ * @param days - Number of UTC days to include, including today (1-90)
+ * @param companyId - Limit to one insurance company
+ */
+export async function listApiUsage(days: number = 14, companyId?: string) {
+  await requireAdmin();
+
+  const usage = await getApiUsage({
+    companyId,
+    days: Math.min(Math.max(Math.floor(days) || 1, 1), 90),
+  });
+
+  const totalRequests = usage.reduce((sum, row) => sum + row.requests, 0);
+  const totalThrottled = usage.reduce((sum, row) => sum + row.throttled, 0);
+
+  return { usage, totalRequests, totalThrottled };
+}
+
 // ── Audit Logs ────────────────────────────────────────────
 
-export async function listAuditLogs(page: number = 1, limit: number = 20) {
+export async function listAuditLogs(
+  page: number = 1,
+  limit: number = 20,
+  filters: AuditLogFilters = {}
+) {
   await requireAdmin();
   const { databases } = await adminAction();
 
@@ -378,7 +408,12 @@ export async function listAuditLogs(page: number = 1, limit: number = 20) {
   const result = await databases.listDocuments<AuditLogDocument>(
     DATABASE_ID,
     COLLECTION_IDS.AUDIT_LOGS,
-    [Query.limit(limit), Query.offset(offset), Query.orderDesc("$createdAt")]
+    [
+      ...buildAuditLogQueries(filters),
+      Query.limit(limit),
+      Query.offset(offset),
+      Query.orderDesc("$createdAt"),
+    ]
   );
 
   return {
@@ -389,3 +424,127 @@ export async function listAuditLogs(page: number = 1, limit: number = 20) {
     totalPages: Math.ceil(result.total / limit),
   };
 }
+
+const AUDIT_EXPORT_PAGE_SIZE = 100;
+const AUDIT_EXPORT_MAX_ROWS = 10000;
+
+const AUDIT_EXPORT_COLUMNS = [
+  "id",
+  "created_at",
+  "user_id",
+  "action",
+  "resource_type",
+  "resource_id",
+  "result",
+  "ip_address",
+  "user_agent",
+  "token_usage",
+  "file_hashes",
+  "security_flags",
+  "error_message",
+  "metadata",
+  "sequence",
+  "recorded_at",
+  "previous_hash",
+  "record_hash",
+] as const;
+
+/**
+ * Export audit logs matching the filters (oldest first)
+ *
+ * @param format - "csv" (one row per entry, arrays joined with ";") or "jsonl" (one JSON object per line)
+ * @param filters - Same filters as listAuditLogs
+ * @returns File name, content type and content; truncated is set when AUDIT_EXPORT_MAX_ROWS was reached
+ */
+export async function exportAuditLogs(
+  format: "csv" | "jsonl",
+  filters: AuditLogFilters = {}
+) {
+  await requireAdmin();
+  const { databases } = await adminAction();
+
+  const rows: Record<(typeof AUDIT_EXPORT_COLUMNS)[number], unknown>[] = [];
+  let cursor: string | undefined;
+  let truncated = false;
+
+  while (true) {
+    const result = await databases.listDocuments<AuditLogDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.AUDIT_LOGS,
+      [
+        ...buildAuditLogQueries(filters),
+        Query.orderAsc("$createdAt"),
+        Query.limit(AUDIT_EXPORT_PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    for (const log of result.documents) {
+      rows.push({
+        id: log.$id,
+        created_at: log.$createdAt,
+        user_id: log.user_id ?? null,
+        action: log.action,
+        resource_type: log.resource_type,
+        resource_id: log.resource_id ?? null,
+        result: log.result,
+        ip_address: log.ip_address ?? null,
+        user_agent: log.user_agent ?? null,
+        token_usage: log.token_usage ?? null,
+        file_hashes: log.file_hashes ?? [],
+        security_flags: log.security_flags ?? [],
+        error_message: log.error_message ?? null,
+        metadata: log.metadata ?? null,
+        sequence: log.sequence ?? null,
+        recorded_at: log.recorded_at ?? null,
+        previous_hash: log.previous_hash ?? null,
+        record_hash: log.record_hash ?? null,
+      });
+    }
+
+    if (rows.length >= AUDIT_EXPORT_MAX_ROWS) {
+      truncated =
+        rows.length > AUDIT_EXPORT_MAX_ROWS ||
+        result.documents.length === AUDIT_EXPORT_PAGE_SIZE;
+      rows.length = AUDIT_EXPORT_MAX_ROWS;
+      break;
+    }
+    if (result.documents.length < AUDIT_EXPORT_PAGE_SIZE) break;
+    cursor = result.documents[result.documents.length - 1].$id;
+  }
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  if (format === "jsonl") {
+    return {
+      filename: `audit-logs-${stamp}.jsonl`,
+      contentType: "application/x-ndjson",
+      content: rows.map((row) => JSON.stringify(row)).join("\n"),
+      rowCount: rows.length,
+      truncated,
+    };
+  }
+
+  const lines = [
+    AUDIT_EXPORT_COLUMNS.join(","),
+    ...rows.map((row) => toCsvRow(AUDIT_EXPORT_COLUMNS.map((column) => row[column]))),
+  ];
+
+  return {
+    filename: `audit-logs-${stamp}.csv`,
+    contentType: "text/csv",
+    content: lines.join("\n"),
+    rowCount: rows.length,
+    truncated,
+  };
+}
+
+/**
+ * Verify the audit log hash chain
+ *
+ * @returns Chain verification; firstBrokenLink identifies the first tampered, missing or reordered record
+ */
+export async function verifyAuditLogIntegrity() {
+  await requireAdmin();
+  return verifyAuditLogChain();
+}
@@ -0,0 +1,635 @@
+import { adminAction } from '@/appwrite/adminOrClient';
+import { uploadMediaFiles, uploadPolicyFile, deleteFile } from '@/appwrite/storage';
+import { createReportFromAnalysis } from '@/appwrite/createReport';
+import { reserveEvaluation, refundEvaluation } from '@/lib/analysis/evaluationQuota';
+import {
+  analyzeSubmission,
+  type SubmitReportInput,
+  type SubmissionAnalysisOptions,
+} from '@/appwrite/submitReport';
+import { DATABASE_ID, COLLECTION_IDS, STORAGE_BUCKET_ID } from '@/lib/env';
+import { isVideo } from '@/lib/utils/fileConversion';
+import { fingerprintMedia, hashVideoFrames } from '@/lib/media/recycledMedia';
+import { parseIncidentDetails } from '@/lib/incident';
+import { deletePolicyByFileId, resolvePolicyTerms } from '@/lib/policy/policyLibrary';
+import { getAnalysisProvider } from '@/lib/gemini/providers';
+import { GEMINI_MODELS } from '@/lib/gemini/constants';
+import { AppwriteException, ID, Permission, Query, Role, type Models } from 'node-appwrite';
+import { revalidatePath, revalidateTag } from 'next/cache';
+import type { AnalysisJobClaimDocument, AnalysisJobDocument, AnalysisJobStatus } from '@/lib/types/appwrite';
+import type { EnhancedAutoDamageAnalysis, MetadataForensicsFlag } from '@/lib/gemini/types';
+
+/**
+ * Analysis Job Queue
+ * Runs report analysis in the background so a submission returns as soon as its files are stored
+ *
+ * Lifecycle (analysis_jobs.status):
+ * - queued: files staged in storage, waiting for a worker (or for model capacity)
+ * - scanning: staged files downloaded and prepared for analysis
+ * - analyzing: AI damage assessment in progress
+ * - uploading: writing the report and linking the stored evidence
+ * - persisted: report created (report_id set)
+ * - failed: gave up (error_message set)
+ *
+ * When every model is rate-limited the job goes back to queued with next_attempt_at
+ * set from the limiter's retry timing, instead of surfacing retryAfter to the user.
+ *
+ * Deliberately not a "use server" module: callers pass the user and API key a job runs
+ * for, so jobs may only be queued and processed by server code that authenticated them
+ * (submitReportAction, the v1 API and the cron-secured worker route).
+ */
+
+// Processing attempts before a repeatedly rate-limited job is failed
+const MAX_ATTEMPTS = 5;
+
+// In-progress jobs not updated for this long are treated as abandoned and requeued
+// (must exceed the analysis timeout in submitReport.ts)
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+const IN_PROGRESS_STATUSES: AnalysisJobStatus[] = ['scanning', 'analyzing', 'uploading'];
+
+/**
+ * Extra job fields for submissions made through the v1 API
+ */
+export interface EnqueueAnalysisJobOptions {
+  /** Report ID returned to the caller before the analysis runs */
+  reservedReportId?: string;
+  apiKeyId?: string;
+}
+
+export interface EnqueueAnalysisJobResult {
+  success: boolean;
+  jobId?: string;
+  message?: string;
+  /** The user's daily evaluation limit is used up */
+  limitReached?: boolean;
+}
+
+/**
+ * Client-facing view of an analysis job, returned by the status endpoint
+ */
+export interface AnalysisJobView {
+  id: string;
+  status: AnalysisJobStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  reportId?: string;
+  reportNumber?: string;
+  analysis?: EnhancedAutoDamageAnalysis;
+  warnings?: string[];
+  metadataFlags?: MetadataForensicsFlag[];
+  message?: string;
+}
+
+export interface GetAnalysisJobResult {
+  success: boolean;
+  job?: AnalysisJobView;
+  /** True when the job is due and a worker should be started for it */
+  claimable?: boolean;
+  message?: string;
+}
+
+/**
+ * Stage submission files in storage and queue the analysis
+ *
+ * @param input - Same input as submitReport
+ * @param jobOptions - Reserved report ID and API key for v1 API submissions (optional)
+ * @returns Job ID to poll via /api/analysis-jobs/[id]
+ *
+ * @example
+ * const result = await enqueueAnalysisJob({ userId, mediaFiles: [image1, image2] });
+ * if (result.success) {
+ *   after(() => processAnalysisJob(result.jobId!));
+ * }
+ */
+export async function enqueueAnalysisJob(
+  input: SubmitReportInput,
+  jobOptions: EnqueueAnalysisJobOptions = {}
+): Promise<EnqueueAnalysisJobResult> {
+  if (input.mediaFiles.length === 0) {
+    return {
+      success: false,
+      message: 'At least one media file (image or video) is required',
+    };
+  }
+
+  const hasPolicy = !!input.policyFile || !!input.existingPolicyFileId;
+  if (input.useEnhancedAnalysis && !hasPolicy) {
+    return {
+      success: false,
+      message: 'Policy file is required for enhanced analysis',
+    };
+  }
+
+  // The evaluation is reserved up front and refunded if the job cannot be queued or fails
+  const evaluation = await reserveEvaluation(input.userId);
+  if (!evaluation.allowed) {
+    return { success: false, limitReached: true, message: evaluation.message };
+  }
+
+  const result = await stageAnalysisJob(input, jobOptions);
+  if (!result.success) {
+    await refundEvaluation(input.userId);
+  }
+  return result;
+}
+
+async function stageAnalysisJob(
+  input: SubmitReportInput,
+  jobOptions: EnqueueAnalysisJobOptions
+): Promise<EnqueueAnalysisJobResult> {
+  const uploadedFileIds: string[] = [];
+
+  try {
+    console.log('📤 Staging files for analysis job...');
+
+    const mediaUploadResult = await uploadMediaFiles(input.mediaFiles);
+    if (!mediaUploadResult.success) {
+      return {
+        success: false,
+        message: `Failed to upload media files: ${mediaUploadResult.message}`,
+      };
+    }
+    const mediaFileIds = mediaUploadResult.fileIds!;
+    uploadedFileIds.push(...mediaFileIds);
+
+    let supplementaryFileIds: string[] = [];
+    if (input.supplementaryPhotos && input.supplementaryPhotos.length > 0) {
+      const photoUploadResult = await uploadMediaFiles(input.supplementaryPhotos);
+      if (!photoUploadResult.success) {
+        await cleanupFiles(uploadedFileIds);
+        return {
+          success: false,
+          message: `Failed to upload supplementary photos: ${photoUploadResult.message}`,
+        };
+      }
+      supplementaryFileIds = photoUploadResult.fileIds!;
+      uploadedFileIds.push(...supplementaryFileIds);
+    }
+
+    let policyFileId = input.existingPolicyFileId;
+    if (input.policyFile) {
+      const policyUploadResult = await uploadPolicyFile(input.policyFile);
+      if (!policyUploadResult.success) {
+        await cleanupFiles(uploadedFileIds);
+        return {
+          success: false,
+          message: `Failed to upload policy file: ${policyUploadResult.message}`,
+        };
+      }
+      policyFileId = policyUploadResult.fileId;
+      uploadedFileIds.push(policyFileId!);
+    }
+
+    // Incident details are kept apart from options_json, which is too small for a narrative
+    const options: SubmissionAnalysisOptions = {
+      userCountry: input.userCountry,
+      userCurrency: input.userCurrency,
+      userCurrencySymbol: input.userCurrencySymbol,
+      videoQualityMetadata: input.videoQualityMetadata,
+    };
+    const videoFrameHashes = input.videoFrames ? await hashVideoFrames(input.videoFrames) : [];
+
+    const { databases } = await adminAction();
+    const job = await databases.createDocument<AnalysisJobDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.ANALYSIS_JOBS,
+      ID.unique(),
+      {
+        user_id: input.userId,
+        insurance_company_id: input.insuranceCompanyId,
+        status: 'queued',
+        media_kind: isVideo({ mimeType: input.mediaFiles[0].type }) ? 'video' : 'images',
+        media_file_ids: mediaFileIds,
+        supplementary_file_ids: supplementaryFileIds,
+        video_frame_hashes: videoFrameHashes,
+        policy_file_id: policyFileId,
+        policy_is_new: !!input.policyFile,
+        options_json: JSON.stringify(options),
+        incident_json: input.incident ? JSON.stringify(input.incident) : undefined,
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+        reserved_report_id: jobOptions.reservedReportId,
+        api_key_id: jobOptions.apiKeyId,
+      },
+      [Permission.read(Role.user(input.userId))]
+    );
+
+    console.log(`✅ Analysis job queued: ${job.$id}`);
+
+    return { success: true, jobId: job.$id };
+  } catch (error: any) {
+    console.error('❌ Failed to queue analysis job:', error);
+    await cleanupFiles(uploadedFileIds);
+    return {
+      success: false,
+      message: error.message || 'Failed to submit report. Please try again.',
+    };
+  }
+}
+
+/**
+ * Get an analysis job for its owner
+ *
+ * @param jobId - Analysis job document ID
+ * @param userId - Requesting user (must own the job)
+ * @returns Job view, plus whether a worker should be started for it
+ */
+export async function getAnalysisJob(
+  jobId: string,
+  userId: string
+): Promise<GetAnalysisJobResult> {
+  try {
+    const { databases } = await adminAction();
+    const job = await databases.getDocument<AnalysisJobDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.ANALYSIS_JOBS,
+      jobId
+    );
+
+    if (job.user_id !== userId) {
+      return { success: false, message: 'Analysis job not found' };
+    }
+
+    return {
+      success: true,
+      job: toAnalysisJobView(job),
+      claimable: isClaimable(job),
+    };
+  } catch (error: any) {
+    if (error.code === 404) {
+      return { success: false, message: 'Analysis job not found' };
+    }
+    console.error('Failed to get analysis job:', error);
+    return {
+      success: false,
+      message: error.message || 'Failed to get analysis job',
+    };
+  }
+}
+
+/**
+ * Process a single analysis job if it is due
+ * Safe to call repeatedly: jobs that are not due, already claimed or finished are skipped.
+ *
+ * @param jobId - Analysis job document ID
+ */
+export async function processAnalysisJob(jobId: string): Promise<void> {
+  const { databases, storage } = await adminAction();
+
+  let job: AnalysisJobDocument;
+  try {
+    job = await databases.getDocument<AnalysisJobDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.ANALYSIS_JOBS,
+      jobId
+    );
+  } catch (error) {
+    console.error(`Failed to load analysis job ${jobId}:`, error);
+    return;
+  }
+
+  if (!isClaimable(job)) {
+    return;
+  }
+
+  const hasPolicy = !!job.policy_file_id;
+  const isVideoJob = job.media_kind === 'video';
+
+  // Respect model selection: leave the job queued until a model has capacity
+  const provider = getAnalysisProvider();
+  const capacity = await provider.checkCapacity(
+    hasPolicy ? 13000 : isVideoJob ? 4000 : 3000,
+    isVideoJob ? new Set([GEMINI_MODELS.FLASH_LITE]) : undefined
+  );
+  if (!capacity.available) {
+    console.log(`⏳ Analysis job ${jobId} deferred ${capacity.retryAfter ?? 60}s (models at capacity)`);
+    await updateJob(jobId, {
+      status: 'queued',
+      next_attempt_at: retryDate(capacity.retryAfter),
+      error_message: 'AI models at capacity. Retrying automatically.',
+    });
+    return;
+  }
+
+  const claimed = await claimJob(job);
+  if (!claimed) {
+    return;
+  }
+  job = claimed;
+
+  try {
+    // scanning: download staged files and prepare them for analysis
+    console.log(`🔄 Analysis job ${jobId}: preparing files...`);
+    const mediaBase64 = await Promise.all(
+      job.media_file_ids.map((fileId) => downloadAsBase64(storage, fileId))
+    );
+    const supplementaryImagesBase64 = job.supplementary_file_ids?.length
+      ? (await Promise.all(
+          job.supplementary_file_ids.map((fileId) => downloadAsBase64(storage, fileId))
+        )).map(({ base64, mimeType }) => ({ base64, mimeType }))
+      : undefined;
+    // Policies are analyzed from their stored terms; the PDF is only downloaded to extract them
+    const policyFileId = job.policy_file_id;
+    const resolvedPolicy = policyFileId
+      ? await resolvePolicyTerms(
+          { userId: job.user_id, insuranceCompanyId: job.insurance_company_id },
+          policyFileId,
+          async () => {
+            const { base64, filename } = await downloadAsBase64(storage, policyFileId);
+            return { base64, filename, size: Buffer.byteLength(base64, 'base64') };
+          }
+        )
+      : null;
+    const policyTerms = resolvedPolicy?.terms ?? undefined;
+    const policyBase64 = policyTerms ? undefined : resolvedPolicy?.policyBase64;
+
+    // analyzing
+    await updateJob(jobId, { status: 'analyzing' });
+    console.log(`🤖 Analysis job ${jobId}: analyzing...`);
+
+    const incident = parseIncidentDetails(job.incident_json) ?? undefined;
+    const options: SubmissionAnalysisOptions = {
+      ...(job.options_json ? JSON.parse(job.options_json) : {}),
+      incident,
+    };
+    const analysisResult = await analyzeSubmission(
+      { mediaBase64, policyBase64, policyTerms, supplementaryImagesBase64 },
+      options,
+      job.user_id
+    );
+
+    if (!analysisResult.success) {
+      if ('rateLimited' in analysisResult && analysisResult.rateLimited) {
+        await requeueOrFail(job, analysisResult.retryAfter);
+        return;
+      }
+
+      await failJob(job, analysisResult.message);
+      return;
+    }
+
+    const { analysis, securityWarnings, securityRiskLevel, metadataForensics } = analysisResult.data;
+    console.log(`✅ Analysis job ${jobId}: completed (Model: ${analysisResult.modelUsed})`);
+
+    // uploading: write the report and link the stored evidence
+    await updateJob(jobId, { status: 'uploading' });
+
+    const mediaFingerprints = await fingerprintMedia(
+      [
+        ...job.media_file_ids.map((fileId, i) => ({ fileId, ...mediaBase64[i] })),
+        ...(job.supplementary_file_ids || []).map((fileId, i) => ({ fileId, ...supplementaryImagesBase64![i] })),
+      ],
+      job.video_frame_hashes
+    );
+
+    const reportResult = await createReportFromAnalysis(
+      job.user_id,
+      job.insurance_company_id,
+      analysis,
+      [...job.media_file_ids, ...(job.supplementary_file_ids || [])],
+      job.policy_file_id,
+      job.reserved_report_id,
+      { securityRiskLevel, mediaFingerprints, metadataForensics, incident, policyTerms }
+    );
+
+    if (!reportResult.success) {
+      // Keep uploaded files for potential retry (don't cleanup)
+      await updateJob(jobId, {
+        status: 'failed',
+        error_message: `Failed to create report in database: ${reportResult.message}`,
+      });
+      await refundEvaluation(job.user_id);
+      return;
+    }
+
+    await updateJob(jobId, {
+      status: 'persisted',
+      report_id: reportResult.data!.$id,
+      report_number: reportResult.data!.claim_number,
+      analysis_json: JSON.stringify(analysis),
+      warnings: securityWarnings || [],
+      metadata_flags_json: metadataForensics?.flags.length
+        ? JSON.stringify(metadataForensics.flags)
+        : null,
+      error_message: null,
+    });
+
+    console.log(`✅ Analysis job ${jobId}: report created ${reportResult.data!.claim_number}`);
+
+    revalidateReportCaches(job.user_id, job.insurance_company_id);
+  } catch (error: any) {
+    console.error(`❌ Analysis job ${jobId} failed:`, error);
+    await failJob(job, error.message || 'Failed to submit report. Please try again.');
+  }
+}
+
+/**
+ * Process queued jobs that are due (e.g. after a rate-limit deferral whose owner stopped polling)
+ * Jobs run one at a time so a single invocation never competes with itself for model capacity.
+ *
+ * @param limit - Maximum number of jobs to pick up
+ * @returns Number of jobs picked up
+ */
+export async function processDueAnalysisJobs(limit: number = 3): Promise<number> {
+  const { databases } = await adminAction();
+  const now = new Date().toISOString();
+
+  const due = await databases.listDocuments<AnalysisJobDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.ANALYSIS_JOBS,
+    [
+      Query.equal('status', 'queued'),
+      Query.lessThanEqual('next_attempt_at', now),
+      Query.orderAsc('next_attempt_at'),
+      Query.limit(limit),
+    ]
+  );
+
+  const stale = await databases.listDocuments<AnalysisJobDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.ANALYSIS_JOBS,
+    [
+      Query.equal('status', IN_PROGRESS_STATUSES),
+      Query.lessThan('$updatedAt', new Date(Date.now() - STALE_JOB_MS).toISOString()),
+      Query.limit(limit),
+    ]
+  );
+
+  const jobIds = [...due.documents, ...stale.documents]
+    .slice(0, limit)
+    .map((job) => job.$id);
+
+  for (const jobId of jobIds) {
+    await processAnalysisJob(jobId);
+  }
+
+  return jobIds.length;
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+function isClaimable(job: AnalysisJobDocument): boolean {
+  if (job.status === 'queued') {
+    return !job.next_attempt_at || Date.parse(job.next_attempt_at) <= Date.now();
+  }
+
+  if (IN_PROGRESS_STATUSES.includes(job.status)) {
+    return Date.now() - Date.parse(job.$updatedAt) > STALE_JOB_MS;
+  }
+
+  return false;
+}
+
+/**
+ * Claim the job's next attempt, then move it to scanning under the claim's token
+ * The claim is an analysis_job_claims document with ID {jobId}_{attempt}. Appwrite rejects
+ * a second document with the same ID, so of the workers claiming an attempt exactly one
+ * gets it and the others back off.
+ */
+async function claimJob(job: AnalysisJobDocument): Promise<AnalysisJobDocument | null> {
+  const { databases } = await adminAction();
+  const attempt = (job.attempts || 0) + 1;
+  const claimToken = ID.unique();
+
+  try {
+    await databases.createDocument<AnalysisJobClaimDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.ANALYSIS_JOB_CLAIMS,
+      getClaimId(job.$id, attempt),
+      { job_id: job.$id, attempt, claim_token: claimToken }
+    );
+  } catch (error) {
+    if (!(error instanceof AppwriteException && error.code === 409)) {
+      throw error;
+    }
+    await skipAbandonedClaim(job, attempt);
+    return null;
+  }
+
+  return databases.updateDocument<AnalysisJobDocument>(DATABASE_ID, COLLECTION_IDS.ANALYSIS_JOBS, job.$id, {
+    status: 'scanning',
+    claim_token: claimToken,
+    attempts: attempt,
+  });
+}
+
+/**
+ * Count an attempt whose worker stopped between claiming it and updating the job
+ * Without this the job would ask for the same attempt forever and never run again.
+ */
+async function skipAbandonedClaim(job: AnalysisJobDocument, attempt: number): Promise<void> {
+  const { databases } = await adminAction();
+  const claim = await databases.getDocument<AnalysisJobClaimDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.ANALYSIS_JOB_CLAIMS,
+    getClaimId(job.$id, attempt)
+  );
+
+  if (Date.now() - Date.parse(claim.$createdAt) > STALE_JOB_MS) {
+    console.log(`⏳ Analysis job ${job.$id}: attempt ${attempt} was abandoned, skipping it`);
+    await updateJob(job.$id, { attempts: attempt });
+  }
+}
+
+function getClaimId(jobId: string, attempt: number): string {
+  return `${jobId}_${attempt}`;
+}
+
+async function requeueOrFail(job: AnalysisJobDocument, retryAfter?: number): Promise<void> {
+  if ((job.attempts || 0) >= MAX_ATTEMPTS) {
+    await failJob(job, 'AI models are at capacity. Please try again later.');
+    return;
+  }
+
+  console.log(`⏳ Analysis job ${job.$id} requeued for ${retryAfter ?? 60}s (rate limited)`);
+  await updateJob(job.$id, {
+    status: 'queued',
+    next_attempt_at: retryDate(retryAfter),
+    error_message: 'AI models at capacity. Retrying automatically.',
+  });
+}
+
+async function failJob(job: AnalysisJobDocument, message: string): Promise<void> {
+  await updateJob(job.$id, { status: 'failed', error_message: message });
+  await refundEvaluation(job.user_id);
+
+  // Staged files belong to no report - remove them (but never a reused policy)
+  await cleanupFiles([
+    ...job.media_file_ids,
+    ...(job.supplementary_file_ids || []),
+    ...(job.policy_file_id && job.policy_is_new ? [job.policy_file_id] : []),
+  ]);
+  if (job.policy_file_id && job.policy_is_new) {
+    await deletePolicyByFileId(job.policy_file_id);
+  }
+}
+
+type AnalysisJobUpdate = {
+  [K in keyof Omit<AnalysisJobDocument, keyof Models.Document>]?: AnalysisJobDocument[K] | null;
+};
+
+async function updateJob(jobId: string, data: AnalysisJobUpdate): Promise<void> {
+  try {
+    const { databases } = await adminAction();
+    await databases.updateDocument(DATABASE_ID, COLLECTION_IDS.ANALYSIS_JOBS, jobId, data);
+  } catch (error) {
+    console.error(`Failed to update analysis job ${jobId}:`, error);
+  }
+}
+
+async function downloadAsBase64(
+  storage: Awaited<ReturnType<typeof adminAction>>['storage'],
+  fileId: string
+): Promise<{ base64: string; mimeType: string; filename: string }> {
+  const [file, buffer] = await Promise.all([
+    storage.getFile(STORAGE_BUCKET_ID, fileId),
+    storage.getFileDownload(STORAGE_BUCKET_ID, fileId),
+  ]);
+
+  return {
+    base64: Buffer.from(buffer).toString('base64'),
+    mimeType: file.mimeType,
+    filename: file.name,
+  };
+}
+
+async function cleanupFiles(fileIds: string[]): Promise<void> {
+  if (fileIds.length === 0) return;
+  console.log('🧹 Cleaning up staged files...');
+  await Promise.allSettled(fileIds.map((id) => deleteFile(id)));
+}
+
+function retryDate(retryAfterSeconds?: number): string {
+  return new Date(Date.now() + (retryAfterSeconds ?? 60) * 1000).toISOString();
+}
+
+function revalidateReportCaches(userId: string, insuranceCompanyId?: string): void {
+  // Bust Router Cache + Data Cache so the user sees their new report immediately
+  try {
+    revalidatePath(`/auth/dashboard/${userId}/reports`);
+    revalidatePath(`/auth/dashboard/${userId}`);
+    revalidateTag(`reports-${userId}`, { expire: 0 });
+    revalidateTag(`policies-${userId}`, { expire: 0 });
+    if (insuranceCompanyId) {
+      revalidateTag(`reports-company-${insuranceCompanyId}`, { expire: 0 });
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to revalidate report caches:', error);
+  }
+}
+
+function toAnalysisJobView(job: AnalysisJobDocument): AnalysisJobView {
+  return {
+    id: job.$id,
+    status: job.status,
+    attempts: job.attempts || 0,
+    nextAttemptAt: job.status === 'queued' ? job.next_attempt_at : undefined,
+    reportId: job.report_id,
+    reportNumber: job.report_number,
+    analysis: job.analysis_json ? JSON.parse(job.analysis_json) : undefined,
+    warnings: job.warnings,
+    metadataFlags: job.metadata_flags_json ? JSON.parse(job.metadata_flags_json) : undefined,
+    message: job.error_message,
+  };
+}
@@ -0,0 +1,125 @@
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { getPlanLimit } from '@/lib/evaluation-limits';
+import { AppwriteException } from 'node-appwrite';
+import { revalidateTag } from 'next/cache';
+import type { UserDocument } from '@/lib/types/appwrite';
+
+/**
+ * Daily evaluation quota
+ *
+ * An evaluation is reserved when the analysis job is queued and refunded if the job
+ * fails, so parallel submissions can never run more analyses than the plan allows.
+ * Deliberately not a "use server" module: only the analysis job queue reserves and
+ * refunds evaluations, for a user it has already authenticated.
+ */
+
+export interface EvaluationReservation {
+  allowed: boolean;
+  remaining: number;
+  message?: string;
+}
+
+function getTodayUTC(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function limitReachedMessage(plan: string, limit: number): string {
+  return `Daily evaluation limit reached. Your ${plan} plan allows ${limit} evaluation${limit === 1 ? '' : 's'} per day. Upgrade your plan for more.`;
+}
+
+/**
+ * Reserve one of the user's evaluations for today
+ *
+ * @param userId - User the analysis is billed to
+ * @returns Whether an evaluation was reserved, and how many are left
+ */
+export async function reserveEvaluation(userId: string): Promise<EvaluationReservation> {
+  try {
+    const { databases } = await adminAction();
+
+    const user = await databases.getDocument<UserDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.USERS,
+      userId
+    );
+
+    const plan = user.pricing_plan || 'free';
+    const today = getTodayUTC();
+    const limit = getPlanLimit(plan);
+    const stored = user.evaluation_times ?? limit;
+
+    // Reset if it's a new day (or first time), and cap to the current plan limit (handles plan downgrades)
+    if (user.evaluation_reset_date !== today || stored > limit) {
+      await databases.updateDocument(
+        DATABASE_ID,
+        COLLECTION_IDS.USERS,
+        userId,
+        {
+          evaluation_times: user.evaluation_reset_date !== today ? limit : Math.min(stored, limit),
+          evaluation_reset_date: today,
+        }
+      );
+    } else if (stored <= 0) {
+      return { allowed: false, remaining: 0, message: limitReachedMessage(plan, limit) };
+    }
+
+    // Atomic decrement - fails instead of going below zero when parallel submissions race for the last evaluation
+    let updated: UserDocument;
+    try {
+      updated = await databases.decrementDocumentAttribute<UserDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.USERS,
+        userId,
+        'evaluation_times',
+        1,
+        0
+      );
+    } catch (error) {
+      if (error instanceof AppwriteException && error.code === 400) {
+        return { allowed: false, remaining: 0, message: limitReachedMessage(plan, limit) };
+      }
+      throw error;
+    }
+
+    revalidateTag(`user-doc-${userId}`, { expire: 0 });
+    return { allowed: true, remaining: updated.evaluation_times ?? 0 };
+  } catch (error) {
+    console.error('Failed to reserve evaluation:', error);
+    // Fail closed — Gemini cost > user inconvenience
+    return { allowed: false, remaining: 0, message: 'Unable to verify your plan. Please try again in a moment.' };
+  }
+}
+
+/**
+ * Give back an evaluation reserved for an analysis that did not produce a report
+ *
+ * @param userId - User the evaluation was reserved for
+ */
+export async function refundEvaluation(userId: string): Promise<void> {
+  try {
+    const { databases } = await adminAction();
+
+    const user = await databases.getDocument<UserDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.USERS,
+      userId
+    );
+
+    // A reservation from an earlier day was already restored by the daily reset
+    if (user.evaluation_reset_date !== getTodayUTC()) return;
+
+    await databases.incrementDocumentAttribute(
+      DATABASE_ID,
+      COLLECTION_IDS.USERS,
+      userId,
+      'evaluation_times',
+      1,
+      getPlanLimit(user.pricing_plan || 'free')
+    );
+
+    revalidateTag(`user-doc-${userId}`, { expire: 0 });
+  } catch (error) {
+    console.error('Failed to refund evaluation:', error);
+  }
+}
@@ -0,0 +1,150 @@
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { checkApiRateLimit } from '@/lib/api/rateLimit';
+import { apiKeyScopeSchema } from '@/lib/api/schemas';
+import { getApiEndpoint, recordApiUsage } from '@/lib/api/usage';
+import type { ApiKeyDocument, ApiKeyScope } from '@/lib/types/appwrite';
+
+/**
+ * Public API Keys
+ * Per-company scoped keys for the v1 API. Only a SHA-256 hash of each key is
+ * stored; the plaintext key is shown to the user once, when it is created.
+ */
+
+export const API_KEY_SCOPES: ApiKeyScope[] = apiKeyScopeSchema.options;
+
+const API_KEY_PREFIX = 'vc_';
+const DISPLAY_PREFIX_LENGTH = 11;
+// Skip last-used writes for keys used within this window
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export type ApiKeyAuthResult =
+  | { success: true; apiKey: ApiKeyDocument; headers: Record<string, string> }
+  | {
+      success: false;
+      status: 401 | 403 | 429;
+      error: string;
+      message: string;
+      headers?: Record<string, string>;
+    };
+
+/**
+ * Generate a new random API key
+ *
+ * @returns Plaintext key, display prefix and hash to store
+ *
+ * @example
+ * const { key, prefix, hash } = generateApiKey();
+ * // key: "vc_3q2mX...", prefix: "vc_3q2mX9aB"
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(key),
+  };
+}
+
+/**
+ * SHA-256 hash of an API key (hex)
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Read the API key from Authorization: Bearer <key>
+ * Keys are never accepted in the URL, where they would end up in logs and browser history.
+ */
+export function extractApiKey(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.slice(7);
+  }
+  return null;
+}
+
+/**
+ * Authenticate a v1 API request, check the key's scope and apply its rate limit
+ * Records the key's last-used time and daily usage on success.
+ *
+ * @param request - Incoming request
+ * @param scope - Scope the endpoint requires (any one of them, when several are given)
+ * @returns The active API key document and rate limit headers for the response,
+ *          or the HTTP status, message and headers to return
+ *
+ * @example
+ * const auth = await authenticateApiRequest(request, 'reports:read');
+ * if (!auth.success) {
+ *   return NextResponse.json(
+ *     { error: auth.error, message: auth.message },
+ *     { status: auth.status, headers: auth.headers }
+ *   );
+ * }
+ * const companyId = auth.apiKey.insurance_company_id;
+ * return NextResponse.json(data, { headers: auth.headers });
+ */
+export async function authenticateApiRequest(
+  request: NextRequest,
+  scope: ApiKeyScope | ApiKeyScope[]
+): Promise<ApiKeyAuthResult> {
+  const key = extractApiKey(request);
+  if (!key || !key.startsWith(API_KEY_PREFIX)) {
+    return { success: false, status: 401, error: 'Unauthorized', message: 'Invalid or missing API key' };
+  }
+
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<ApiKeyDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.API_KEYS,
+    [Query.equal('key_hash', hashApiKey(key)), Query.limit(1)]
+  );
+
+  const apiKey = result.documents[0];
+  if (!apiKey || apiKey.revoked_at) {
+    return { success: false, status: 401, error: 'Unauthorized', message: 'Invalid or missing API key' };
+  }
+
+  const acceptedScopes = Array.isArray(scope) ? scope : [scope];
+  if (!acceptedScopes.some((accepted) => apiKey.scopes.includes(accepted))) {
+    return {
+      success: false,
+      status: 403,
+      error: 'Forbidden',
+      message: `API key is missing the "${acceptedScopes.join('" or "')}" scope`,
+    };
+  }
+
+  const rateLimit = await checkApiRateLimit(apiKey.$id);
+  recordApiUsage(apiKey, getApiEndpoint(request), !rateLimit.allowed).catch((err) =>
+    console.error('Failed to record API usage:', err)
+  );
+
+  if (!rateLimit.allowed) {
+    return {
+      success: false,
+      status: 429,
+      error: 'Too Many Requests',
+      message:
+        rateLimit.exceeded === 'day'
+          ? 'Daily request limit for this API key reached'
+          : 'Rate limit exceeded for this API key, retry after the time in the Retry-After header',
+      headers: rateLimit.headers,
+    };
+  }
+
+  const now = Date.now();
+  if (!apiKey.last_used_at || now - new Date(apiKey.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    databases
+      .updateDocument(DATABASE_ID, COLLECTION_IDS.API_KEYS, apiKey.$id, {
+        last_used_at: new Date(now).toISOString(),
+      })
+      .catch((err) => console.error('Failed to record API key usage:', err));
+  }
+
+  return { success: true, apiKey, headers: rateLimit.headers };
+}
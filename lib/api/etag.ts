@@ -0,0 +1,51 @@
+import { createHash } from 'crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+
+/**
+ * Conditional GET for v1 API responses
+ * The ETag is a hash of the serialized body, so polling clients sending
+ * If-None-Match get an empty 304 while the response is unchanged.
+ */
+
+/**
+ * Weak ETag of a serialized response body
+ */
+export function createEtag(body: string): string {
+  return `W/"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+/**
+ * Whether the request's If-None-Match header matches an ETag (weak comparison)
+ */
+export function matchesIfNoneMatch(request: NextRequest, etag: string): boolean {
+  const header = request.headers.get('if-none-match');
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some((tag) => opaque(tag) === opaque(etag));
+}
+
+/**
+ * JSON response with an ETag, or 304 Not Modified when the client already has it
+ *
+ * @example
+ * return conditionalJson(request, { data: reports }, auth.headers);
+ */
+export function conditionalJson(
+  request: NextRequest,
+  data: unknown,
+  extraHeaders: Record<string, string> = {}
+): NextResponse {
+  const body = JSON.stringify(data);
+  const etag = createEtag(body);
+  // Clients may cache but must revalidate before reuse
+  const headers = { ...extraHeaders, ETag: etag, 'Cache-Control': 'private, no-cache' };
+
+  if (matchesIfNoneMatch(request, etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(body, {
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,402 @@
+import { z } from 'zod';
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from '@/lib/api/submissions';
+import {
+  apiKeyScopeSchema,
+  apiSchemaRegistry,
+  lineItemExportQuerySchema,
+  reportListQuerySchema,
+  widgetTokenRequestSchema,
+} from '@/lib/api/schemas';
+
+/**
+ * OpenAPI Document
+ * OpenAPI 3.1 description of the v1 API, built from the zod schemas in
+ * lib/api/schemas.ts. Served at /api/v1/openapi.json and used by
+ * scripts/generate-api-client.ts to generate the typed client.
+ */
+
+export const API_VERSION = '1.0.0';
+
+type JsonSchema = Record<string, unknown>;
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+const jsonContent = (id: string) => ({ 'application/json': { schema: ref(id) } });
+
+const errorResponse = (description: string) => ({ description, content: jsonContent('ErrorResponse') });
+
+const authErrors = {
+  '401': errorResponse('Invalid or missing API key'),
+  '403': errorResponse('API key is missing the required scope'),
+  '429': {
+    ...errorResponse('Rate limit for the API key exceeded'),
+    headers: { 'Retry-After': { description: 'Seconds to wait', schema: { type: 'integer' } } },
+  },
+};
+
+const reportIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' },
+};
+
+/**
+ * Named component schemas
+ * $schema/$id are dropped (implied by the document) and zod's date-time regex is
+ * left to the "format" keyword.
+ */
+function getComponentSchemas(): Record<string, JsonSchema> {
+  const { schemas } = z.toJSONSchema(apiSchemaRegistry, {
+    uri: (id) => `#/components/schemas/${id}`,
+    override: stripFormatPattern,
+  });
+
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, schema]) => {
+      const component: JsonSchema = { ...schema };
+      delete component.$schema;
+      delete component.$id;
+      return [id, component];
+    })
+  );
+}
+
+/**
+ * Query schema → OpenAPI query parameters
+ */
+function getQueryParameters(schema: z.ZodObject): JsonSchema[] {
+  const jsonSchema = z.toJSONSchema(schema, { io: 'input', override: stripFormatPattern }) as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+
+  return Object.entries(jsonSchema.properties ?? {}).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: 'query',
+      required: jsonSchema.required?.includes(name) ?? false,
+      ...(description ? { description } : {}),
+      schema: propertySchema,
+    };
+  });
+}
+
+/**
+ * Request body schema → inline JSON Schema of what clients send (defaults optional)
+ */
+function getRequestBodySchema(schema: z.ZodType): JsonSchema {
+  const jsonSchema: JsonSchema = { ...z.toJSONSchema(schema, { io: 'input', override: stripFormatPattern }) };
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function stripFormatPattern({ jsonSchema }: { jsonSchema: { format?: string; pattern?: string } }) {
+  if (jsonSchema.format && jsonSchema.pattern) {
+    delete jsonSchema.pattern;
+  }
+}
+
+/**
+ * Build the OpenAPI document
+ *
+ * @param serverUrl - Base URL of the v1 API (e.g. "https://app.example.com/api/v1")
+ * @returns OpenAPI 3.1 document
+ *
+ * @example
+ * const spec = buildOpenApiDocument(`${request.nextUrl.origin}/api/v1`);
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'VehicleClaim API',
+      version: API_VERSION,
+      description:
+        'Read and submit vehicle damage claims for your insurance company. ' +
+        'Authenticate with an API key created on the API Keys page, sent as Authorization: Bearer <api key>. ' +
+        `Keys carry scopes (${apiKeyScopeSchema.options.join(', ')}); each operation lists the scopes it accepts. ` +
+        'Requests are rate limited per key; successful and 429 responses carry RateLimit-Policy, RateLimit-Limit, ' +
+        'RateLimit-Remaining and RateLimit-Reset headers, and 429 responses a Retry-After header.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/reports': {
+        get: {
+          operationId: 'listReports',
+          summary: 'List reports',
+          description: "Reports filed with the API key's insurance company. Filter, sort and select fields with the query " +
+            'parameters; page with nextCursor, which stays stable while new reports arrive. Scope: reports:read.',
+          parameters: [
+            ...getQueryParameters(reportListQuerySchema),
+            {
+              name: 'If-None-Match',
+              in: 'header',
+              required: false,
+              description: 'ETag of a previously fetched page; responds 304 while the page is unchanged',
+              schema: { type: 'string' },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'A page of reports',
+              headers: { ETag: { schema: { type: 'string' } } },
+              content: jsonContent('ReportListResponse'),
+            },
+            '304': { description: 'Not modified since the ETag sent in If-None-Match' },
+            '400': errorResponse('Invalid query parameters'),
+            ...authErrors,
+          },
+        },
+        post: {
+          operationId: 'submitReport',
+          summary: 'Submit a claim for analysis',
+          description:
+            'Stores the media and queues the analysis; poll statusUrl until the status is persisted. ' +
+            "The report is owned by the user who created the API key and counts against their daily evaluation limit " +
+            '(an analysis that fails is not counted). ' +
+            'Scope: reports:write.',
+          parameters: [
+            {
+              name: 'Idempotency-Key',
+              in: 'header',
+              required: false,
+              description:
+                'Repeated requests with the same key and the same files and fields return the original report instead of ' +
+                'submitting again. A request that fails, or is still unfinished after 10 minutes, can be retried with the same key.',
+              schema: { type: 'string', maxLength: MAX_IDEMPOTENCY_KEY_LENGTH },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['media'],
+                  properties: {
+                    media: {
+                      type: 'array',
+                      items: { type: 'string', contentMediaType: 'application/octet-stream' },
+                      description: 'Image files or a single video',
+                    },
+                    supplementaryPhotos: {
+                      type: 'array',
+                      items: { type: 'string', contentMediaType: 'application/octet-stream' },
+                      description: 'Extra photos sent alongside a video',
+                    },
+                    policy: {
+                      type: 'string',
+                      contentMediaType: 'application/pdf',
+                      description: 'Policy PDF',
+                    },
+                    policyId: {
+                      type: 'string',
+                      description: 'File ID of a policy used on an earlier company report (instead of policy)',
+                    },
+                    country: { type: 'string' },
+                    currency: { type: 'string' },
+                    currencySymbol: { type: 'string' },
+                    incident: {
+                      type: 'string',
+                      contentMediaType: 'application/json',
+                      description:
+                        'Incident details as a JSON object: occurredAt (ISO 8601), location, narrative, policeReportNumber, ' +
+                        'otherParties [{ name, contact, vehicle, insurer }], witnesses [{ name, contact }]. ' +
+                        'Cross-checked against the damage and the policy period when a policy is sent.',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '202': {
+              description: 'Submission accepted',
+              headers: {
+                Location: { description: 'Status URL', schema: { type: 'string', format: 'uri' } },
+                'Idempotent-Replayed': {
+                  description: 'Present when the response replays an earlier request',
+                  schema: { type: 'string', enum: ['true'] },
+                },
+              },
+              content: jsonContent('SubmissionAcceptedResponse'),
+            },
+            '400': errorResponse('Invalid submission'),
+            ...authErrors,
+            '409': errorResponse('A request with this Idempotency-Key is still being processed'),
+            '422': errorResponse('Idempotency-Key was already used for a different request'),
+            '429': {
+              ...authErrors['429'],
+              description: 'Rate limit for the API key exceeded, or daily evaluation limit reached',
+            },
+          },
+        },
+      },
+      '/reports/{id}': {
+        get: {
+          operationId: 'getReport',
+          summary: 'Get a report',
+          description: 'Scope: reports:read.',
+          parameters: [reportIdParameter],
+          responses: {
+            '200': { description: 'The report', content: jsonContent('ReportResponse') },
+            ...authErrors,
+            '404': errorResponse('Report not found'),
+          },
+        },
+      },
+      '/reports/{id}/pdf': {
+        get: {
+          operationId: 'getReportPdf',
+          summary: 'Download a report as PDF',
+          description: "Rendered with the company's report template (logo, colors and footer disclaimer). Scope: reports:read.",
+          parameters: [reportIdParameter],
+          responses: {
+            '200': {
+              description: 'The report PDF',
+              content: { 'application/pdf': { schema: { type: 'string', contentMediaType: 'application/pdf' } } },
+            },
+            ...authErrors,
+            '404': errorResponse('Report not found'),
+          },
+        },
+      },
+      '/reports/{id}/bundle': {
+        get: {
+          operationId: 'getReportBundle',
+          summary: 'Export a report as a JSON bundle',
+          description:
+            'Report, priced line items with adjuster overrides, vehicle verification, policy and fraud assessments ' +
+            'and a manifest of the media files, for import into adjuster systems. Scope: reports:read.',
+          parameters: [reportIdParameter],
+          responses: {
+            '200': { description: 'The report bundle', content: jsonContent('ReportBundleResponse') },
+            ...authErrors,
+            '404': errorResponse('Report not found'),
+          },
+        },
+      },
+      '/reports/{id}/estimate.xml': {
+        get: {
+          operationId: 'getReportEstimateXml',
+          summary: 'Export a report as an XML estimate',
+          description:
+            'Claim, vehicle, one LineItem per priced damage line (removed lines are kept with amount 0) and totals ' +
+            'after adjuster overrides, in the urn:vehicleclaim:estimate:1 namespace. Scope: reports:read.',
+          parameters: [reportIdParameter],
+          responses: {
+            '200': {
+              description: 'The estimate',
+              content: { 'application/xml': { schema: { type: 'string', contentMediaType: 'application/xml' } } },
+            },
+            ...authErrors,
+            '404': errorResponse('Report not found'),
+          },
+        },
+      },
+      '/reports/{id}/status': {
+        get: {
+          operationId: 'getSubmissionStatus',
+          summary: 'Get the analysis status of a submission',
+          description: 'Scope: reports:read or reports:write.',
+          parameters: [reportIdParameter],
+          responses: {
+            '200': { description: 'Submission status', content: jsonContent('SubmissionStatusResponse') },
+            ...authErrors,
+            '404': errorResponse('Submission not found'),
+          },
+        },
+      },
+      '/exports/line-items.csv': {
+        get: {
+          operationId: 'exportLineItemsCsv',
+          summary: 'Export line items as CSV',
+          description:
+            "One row per priced damage line of the API key's company reports submitted in the date range, " +
+            'oldest report first, with adjuster overrides applied. Scope: reports:read.',
+          parameters: getQueryParameters(lineItemExportQuerySchema),
+          responses: {
+            '200': {
+              description: 'Line items',
+              content: { 'text/csv': { schema: { type: 'string', contentMediaType: 'text/csv' } } },
+            },
+            '400': errorResponse('Invalid date range, or too many reports in it'),
+            ...authErrors,
+          },
+        },
+      },
+      '/widget/tokens': {
+        post: {
+          operationId: 'createWidgetToken',
+          summary: 'Issue a widget token',
+          description:
+            'Signs a short-lived token for embedding one report in a page on the given origin. ' +
+            'Call this from your backend and use embedUrl as the iframe src; include /api/v1/widget/embed.js on the page ' +
+            'to size the iframe to its content. Scope: widget.',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: getRequestBodySchema(widgetTokenRequestSchema) } },
+          },
+          responses: {
+            '201': { description: 'Token issued', content: jsonContent('WidgetTokenResponse') },
+            '400': errorResponse('Invalid request body'),
+            ...authErrors,
+            '404': errorResponse('Report not found'),
+          },
+        },
+      },
+      '/widget/{id}': {
+        get: {
+          operationId: 'getReportWidget',
+          summary: 'Report widget page',
+          description:
+            'HTML page for an iframe, themed and localized as set when the token was issued. ' +
+            'Only the token origin may frame it. Views count against the rate limit of the API key that issued the token. ' +
+            'The page posts ' +
+            '{ type: "vehicleclaim:widget:resize", reportId, height } to the parent window when its height changes.',
+          security: [],
+          parameters: [
+            reportIdParameter,
+            { name: 'token', in: 'query', required: true, description: 'Widget token', schema: { type: 'string' } },
+          ],
+          responses: {
+            '200': { description: 'Widget page', content: { 'text/html': { schema: { type: 'string' } } } },
+            '401': { description: 'Invalid or expired widget token' },
+            '404': { description: 'Report not found' },
+            '429': {
+              description: 'Rate limit of the issuing API key exceeded',
+              headers: authErrors['429'].headers,
+            },
+          },
+        },
+      },
+    },
+    webhooks: {
+      reportEvent: {
+        post: {
+          summary: 'Report lifecycle event',
+          description:
+            'Sent to webhook endpoints subscribed to the event. Verify the X-VehicleClaim-Signature header ' +
+            '(t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>"> using the endpoint secret) before trusting the payload. ' +
+            'Respond with a 2xx status; other responses are retried with backoff.',
+          parameters: [
+            { name: 'X-VehicleClaim-Event', in: 'header', required: true, schema: { type: 'string' } },
+            { name: 'X-VehicleClaim-Delivery', in: 'header', required: true, schema: { type: 'string' } },
+            { name: 'X-VehicleClaim-Signature', in: 'header', required: true, schema: { type: 'string' } },
+          ],
+          requestBody: { required: true, content: jsonContent('WebhookPayload') },
+          responses: { '2XX': { description: 'Delivery acknowledged' } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Authorization: Bearer <api key>' },
+      },
+      schemas: getComponentSchemas(),
+    },
+  };
+}
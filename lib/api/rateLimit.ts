@@ -0,0 +1,108 @@
+/**
+ * Public API Rate Limiting
+ * Per-API-key request limits using the same sliding windows and storage
+ * backends as the Gemini rate limiter (lib/gemini/rateLimit). Each key has its
+ * own window, stored under "api-key:<key ID>".
+ *
+ * Responses carry the IETF RateLimit headers for the per-minute window:
+ *   RateLimit-Policy: 60;w=60, 5000;w=86400
+ *   RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset (seconds)
+ * Rejected requests also get Retry-After.
+ */
+
+import { getOrCreateWindow, reserveRequest } from '@/lib/gemini/rateLimit/storage';
+import type { RateLimitWindow } from '@/lib/gemini/rateLimit/types';
+
+export interface ApiKeyLimits {
+  rpm: number; // Requests per minute
+  rpd: number; // Requests per day (UTC)
+}
+
+export const API_KEY_LIMITS: ApiKeyLimits = {
+  rpm: 60,
+  rpd: 5000,
+};
+
+export interface ApiRateLimitResult {
+  allowed: boolean;
+  /** Which limit rejected the request */
+  exceeded?: 'minute' | 'day';
+  headers: Record<string, string>;
+}
+
+/**
+ * Check an API key's limits and count the request if it is allowed
+ *
+ * @param apiKeyId - API key document ID
+ * @param limits - Limits to apply
+ * @returns Whether the request may proceed, and the headers to send either way
+ *
+ * @example
+ * const rateLimit = await checkApiRateLimit(apiKey.$id);
+ * if (!rateLimit.allowed) {
+ *   return NextResponse.json({ error: 'Too Many Requests' }, { status: 429, headers: rateLimit.headers });
+ * }
+ */
+export async function checkApiRateLimit(
+  apiKeyId: string,
+  limits: ApiKeyLimits = API_KEY_LIMITS
+): Promise<ApiRateLimitResult> {
+  const windowKey = `api-key:${apiKeyId}`;
+  const window = await getOrCreateWindow(windowKey);
+  const now = Date.now();
+
+  const recentRequests = getRecentRequests(window, now);
+  const minuteAllowed = recentRequests.length < limits.rpm;
+  const dayAllowed = window.dailyRequests < limits.rpd;
+
+  // The window only answers the headers and rejects early; the request is counted by
+  // reserveRequest, which also refuses it when concurrent requests took the last slot
+  const allowed = minuteAllowed && dayAllowed && (await reserveRequest(windowKey, limits));
+
+  const remaining = allowed ? Math.max(0, limits.rpm - recentRequests.length - 1) : 0;
+  const minuteReset = getSecondsUntilMinuteReset(recentRequests, now);
+  const dayReset = Math.ceil((getNextMidnightUtc(now) - now) / 1000);
+
+  const headers: Record<string, string> = {
+    'RateLimit-Policy': `${limits.rpm};w=60, ${limits.rpd};w=86400`,
+    'RateLimit-Limit': String(limits.rpm),
+    'RateLimit-Remaining': String(dayAllowed ? remaining : 0),
+    'RateLimit-Reset': String(dayAllowed ? minuteReset : dayReset),
+  };
+
+  if (!allowed) {
+    headers['Retry-After'] = String(dayAllowed ? Math.max(1, minuteReset) : dayReset);
+  }
+
+  return {
+    allowed,
+    exceeded: allowed ? undefined : dayAllowed ? 'minute' : 'day',
+    headers,
+  };
+}
+
+/**
+ * Requests in the last 60 seconds (sliding window)
+ */
+function getRecentRequests(window: RateLimitWindow, now: number): number[] {
+  const oneMinuteAgo = now - 60_000;
+  return window.requestTimestamps.filter((ts) => ts > oneMinuteAgo);
+}
+
+/**
+ * Seconds until the oldest request in the window expires and frees a slot
+ */
+function getSecondsUntilMinuteReset(recentRequests: number[], now: number): number {
+  if (recentRequests.length === 0) return 0;
+  const oldestRequest = Math.min(...recentRequests);
+  return Math.max(0, Math.ceil(60 - (now - oldestRequest) / 1000));
+}
+
+/**
+ * Get midnight UTC timestamp for tomorrow
+ * Used for the daily limit reset
+ */
+function getNextMidnightUtc(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
@@ -0,0 +1,233 @@
+import { AppwriteException, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { formatReportFinancials, formatReportInvestigation } from '@/lib/api/reportResponse';
+import {
+  DEFAULT_REPORT_LIST_FIELDS,
+  encodeReportListCursor,
+  type ApiReportListQuery,
+  type ApiReportListResponse,
+  type ApiReportSummary,
+  type ReportListField,
+  type ReportListSort,
+} from '@/lib/api/schemas';
+import type {
+  ReportAssessmentDocument,
+  ReportDamageDetailDocument,
+  ReportDocument,
+  ReportFraudAssessmentDocument,
+} from '@/lib/types/appwrite';
+
+/**
+ * Report Listing for GET /api/v1/reports
+ * Filters, sort, sparse fieldsets and cursor pagination over one company's reports.
+ */
+
+export type ReportListResult =
+  | { success: true; data: ApiReportListResponse }
+  | { success: false; message: string };
+
+const SORT_QUERIES: Record<ReportListSort, () => string[]> = {
+  createdAt: () => [Query.orderAsc('analysis_timestamp')],
+  '-createdAt': () => [Query.orderDesc('analysis_timestamp')],
+  estimatedTotalCost: () => [Query.orderAsc('estimated_total_repair_cost')],
+  '-estimatedTotalCost': () => [Query.orderDesc('estimated_total_repair_cost')],
+  confidenceScore: () => [Query.orderAsc('confidence_score')],
+  '-confidenceScore': () => [Query.orderDesc('confidence_score')],
+};
+
+// Report attributes each field is built from (financials come from report_assessments,
+// and from the damage lines of adjusted reports; fraud score, factors and recycled media from
+// report_fraud_assessments)
+const FIELD_ATTRIBUTES: Record<ReportListField, string[]> = {
+  id: ['$id'],
+  claimNumber: ['claim_number'],
+  status: ['claim_status'],
+  damageType: ['damage_type'],
+  overallSeverity: ['overall_severity'],
+  estimatedTotalCost: ['estimated_total_repair_cost'],
+  confidenceScore: ['confidence_score'],
+  createdAt: ['analysis_timestamp'],
+  updatedAt: ['$updatedAt'],
+  investigation: ['investigation_needed', 'investigation_reason'],
+  financials: ['adjusted_total_repair_cost'],
+};
+
+// Damage lines fetched for the adjusted reports of one page
+const MAX_DAMAGE_LINES = 5000;
+
+/**
+ * List a page of a company's reports
+ *
+ * @param companyId - Insurance company of the API key
+ * @param query - Parsed reportListQuerySchema params
+ * @returns Page in the v1 list response shape, or a message for a 400 response
+ *
+ * @example
+ * const result = await listCompanyReports(companyId, reportListQuerySchema.parse({ status: 'pending' }));
+ * if (result.success) console.log(result.data.nextCursor);
+ */
+export async function listCompanyReports(
+  companyId: string,
+  query: ApiReportListQuery
+): Promise<ReportListResult> {
+  const fields = new Set<ReportListField>(['id', ...(query.fields ?? DEFAULT_REPORT_LIST_FIELDS)]);
+  const { databases } = await adminAction();
+
+  let result;
+  try {
+    // Fetch one extra document to know whether another page exists
+    result = await databases.listDocuments<ReportDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORTS,
+      [
+        Query.equal('insurance_company_id', companyId),
+        ...buildFilterQueries(query),
+        ...SORT_QUERIES[query.sort](),
+        ...(query.cursor ? [Query.cursorAfter(query.cursor.id)] : [Query.offset(query.offset)]),
+        Query.select([...new Set([...fields].flatMap((field) => FIELD_ATTRIBUTES[field]))]),
+        Query.limit(query.limit + 1),
+      ]
+    );
+  } catch (error) {
+    // The cursor's report was deleted since the previous page
+    if (query.cursor && error instanceof AppwriteException && error.type === 'general_cursor_not_found') {
+      return { success: false, message: 'cursor: The report this cursor points to no longer exists' };
+    }
+    throw error;
+  }
+
+  const hasMore = result.documents.length > query.limit;
+  const reports = result.documents.slice(0, query.limit);
+
+  const [assessments, adjustedLines] = fields.has('financials')
+    ? await Promise.all([
+        getAssessmentsByReport(reports.map((report) => report.$id)),
+        // Adjusted financials are recomputed from the damage lines
+        getDamageLinesByReport(
+          reports.filter((report) => report.adjusted_total_repair_cost != null).map((report) => report.$id)
+        ),
+      ])
+    : [new Map<string, ReportAssessmentDocument>(), new Map<string, ReportDamageDetailDocument[]>()];
+  const fraudAssessments = fields.has('investigation')
+    ? await getFraudAssessmentsByReport(reports.map((report) => report.$id))
+    : new Map<string, ReportFraudAssessmentDocument>();
+
+  const last = reports[reports.length - 1];
+
+  return {
+    success: true,
+    data: {
+      data: reports.map((report) =>
+        formatReportSummary(
+          report,
+          fields,
+          assessments.get(report.$id),
+          adjustedLines.get(report.$id) ?? [],
+          fraudAssessments.get(report.$id)
+        )
+      ),
+      total: result.total,
+      limit: query.limit,
+      offset: query.cursor ? 0 : query.offset,
+      nextCursor: hasMore && last ? encodeReportListCursor(last.$id, query.sort) : null,
+    },
+  };
+}
+
+function buildFilterQueries(query: ApiReportListQuery): string[] {
+  const queries: string[] = [];
+
+  if (query.status) queries.push(Query.equal('claim_status', query.status));
+  if (query.damageType) queries.push(Query.equal('damage_type', query.damageType));
+  if (query.severity) queries.push(Query.equal('overall_severity', query.severity));
+  if (query.investigationNeeded !== undefined) {
+    queries.push(Query.equal('investigation_needed', query.investigationNeeded));
+  }
+  if (query.createdAfter) queries.push(Query.greaterThanEqual('analysis_timestamp', query.createdAfter));
+  if (query.createdBefore) queries.push(Query.lessThan('analysis_timestamp', query.createdBefore));
+  if (query.minCost !== undefined) {
+    queries.push(Query.greaterThanEqual('estimated_total_repair_cost', query.minCost));
+  }
+  if (query.maxCost !== undefined) {
+    queries.push(Query.lessThanEqual('estimated_total_repair_cost', query.maxCost));
+  }
+
+  return queries;
+}
+
+async function getAssessmentsByReport(
+  reportIds: string[]
+): Promise<Map<string, ReportAssessmentDocument>> {
+  if (reportIds.length === 0) return new Map();
+
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<ReportAssessmentDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.REPORT_ASSESSMENTS,
+    [Query.equal('claim_id', reportIds), Query.limit(reportIds.length)]
+  );
+
+  return new Map(result.documents.map((assessment) => [assessment.claim_id, assessment]));
+}
+
+async function getFraudAssessmentsByReport(
+  reportIds: string[]
+): Promise<Map<string, ReportFraudAssessmentDocument>> {
+  if (reportIds.length === 0) return new Map();
+
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<ReportFraudAssessmentDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.REPORT_FRAUD_ASSESSMENTS,
+    [
+      Query.equal('claim_id', reportIds),
+      Query.select(['claim_id', 'fraud_score', 'fraud_score_factors_json', 'recycled_media_json']),
+      Query.limit(reportIds.length),
+    ]
+  );
+
+  return new Map(result.documents.map((fraudAssessment) => [fraudAssessment.claim_id, fraudAssessment]));
+}
+
+async function getDamageLinesByReport(
+  reportIds: string[]
+): Promise<Map<string, ReportDamageDetailDocument[]>> {
+  if (reportIds.length === 0) return new Map();
+
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<ReportDamageDetailDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.REPORT_DAMAGE_DETAILS,
+    [Query.equal('claim_id', reportIds), Query.limit(MAX_DAMAGE_LINES)]
+  );
+
+  const linesByReport = new Map<string, ReportDamageDetailDocument[]>();
+  for (const line of result.documents) {
+    linesByReport.set(line.claim_id, [...(linesByReport.get(line.claim_id) ?? []), line]);
+  }
+  return linesByReport;
+}
+
+function formatReportSummary(
+  report: ReportDocument,
+  fields: Set<ReportListField>,
+  assessment: ReportAssessmentDocument | undefined,
+  damageDetails: ReportDamageDetailDocument[],
+  fraudAssessment: ReportFraudAssessmentDocument | undefined
+): ApiReportSummary {
+  const summary: ApiReportSummary = { id: report.$id };
+
+  if (fields.has('claimNumber')) summary.claimNumber = report.claim_number;
+  if (fields.has('status')) summary.status = report.claim_status;
+  if (fields.has('damageType')) summary.damageType = report.damage_type;
+  if (fields.has('overallSeverity')) summary.overallSeverity = report.overall_severity;
+  if (fields.has('estimatedTotalCost')) summary.estimatedTotalCost = report.estimated_total_repair_cost;
+  if (fields.has('confidenceScore')) summary.confidenceScore = report.confidence_score;
+  if (fields.has('createdAt')) summary.createdAt = report.analysis_timestamp;
+  if (fields.has('updatedAt')) summary.updatedAt = report.$updatedAt;
+  if (fields.has('investigation')) summary.investigation = formatReportInvestigation(report, fraudAssessment ?? null);
+  if (fields.has('financials')) summary.financials = formatReportFinancials(report, assessment ?? null, damageDetails);
+
+  return summary;
+}
@@ -0,0 +1,153 @@
+import type {
+  ReportDocument,
+  ReportDamageDetailDocument,
+  ReportVehicleVerificationDocument,
+  ReportAssessmentDocument,
+  ReportFraudAssessment,
+  ReportFraudEvidence,
+} from "@/lib/types/appwrite";
+import type { ApiReport, ApiReportFinancials, ApiReportInvestigation } from "@/lib/api/schemas";
+import { parseFraudScoreFactors } from "@/lib/fraud/fraudScore";
+import { parseRecycledMedia } from "@/lib/media/recycledMedia";
+import { getReportFinancials } from "@/lib/claimAdjustments";
+
+/**
+ * Public report representation (reportSchema in lib/api/schemas.ts)
+ * Shared by the v1 API and outbound webhook payloads
+ */
+export type ReportResponse = ApiReport;
+
+/**
+ * Format full report data for the public API
+ *
+ * @param data - Report with damage details, vehicle verification, assessment, fraud assessment and evidence
+ * @returns Report in the v1 API response shape
+ */
+export function formatReportResponse(data: {
+  report: ReportDocument;
+  damageDetails: ReportDamageDetailDocument[];
+  vehicleVerification: ReportVehicleVerificationDocument | null;
+  assessment: ReportAssessmentDocument | null;
+  fraudAssessment: ReportFraudAssessment | null;
+  fraudEvidence: ReportFraudEvidence | null;
+}): ReportResponse {
+  const { report, damageDetails, vehicleVerification, assessment, fraudAssessment, fraudEvidence } = data;
+
+  const visibleDamages = damageDetails.filter((d) => !d.is_inferred);
+  const inferredDamages = damageDetails.filter((d) => d.is_inferred);
+
+  return {
+    id: report.$id,
+    claimNumber: report.claim_number,
+    status: report.claim_status,
+    createdAt: report.analysis_timestamp,
+    damage: {
+      type: report.damage_type,
+      cause: report.damage_cause,
+      overallSeverity: report.overall_severity,
+      repairComplexity: report.estimated_repair_complexity,
+      estimatedTotalCost: report.estimated_total_repair_cost,
+      confidenceScore: report.confidence_score,
+      parts: visibleDamages.map((d) => ({
+        name: d.part_name,
+        severity: d.severity,
+        description: d.description,
+        estimatedCost: d.estimated_repair_cost,
+        repairOrReplace: d.repair_or_replace || null,
+        repairOrReplaceReason: d.repair_or_replace_reason || null,
+      })),
+      inferredInternalDamages: inferredDamages.map((d) => ({
+        component: d.part_name,
+        likelihood: d.inferred_likelihood,
+        description: d.description,
+        basedOn: d.inferred_based_on,
+      })),
+    },
+    vehicleVerification: vehicleVerification
+      ? {
+          status: vehicleVerification.verification_status,
+          confidenceScore: vehicleVerification.confidence_score,
+          videoVehicle: {
+            make: vehicleVerification.video_make,
+            model: vehicleVerification.video_model,
+            year: vehicleVerification.video_year,
+            color: vehicleVerification.video_color,
+          },
+          policyVehicle: {
+            make: vehicleVerification.policy_make,
+            model: vehicleVerification.policy_model,
+            year: vehicleVerification.policy_year,
+            color: vehicleVerification.policy_color,
+          },
+        }
+      : null,
+    financials: formatReportFinancials(report, assessment, damageDetails),
+    investigation: formatReportInvestigation(report, fraudEvidence),
+    // Same shape as the analysis types (lib/gemini/types.ts)
+    fraud: fraudAssessment,
+    safetyConcerns: report.safety_concerns || [],
+    recommendedActions: report.recommended_actions || [],
+  };
+}
+
+/**
+ * Financial breakdown of a report's policy assessment
+ * Adjuster overrides replace the AI figures, which are kept in aiEstimate.
+ *
+ * @returns Financials, or null when the claim was analyzed without a policy
+ */
+export function formatReportFinancials(
+  report: ReportDocument,
+  assessment: ReportAssessmentDocument | null,
+  damageDetails: ReportDamageDetailDocument[]
+): ApiReportFinancials | null {
+  const financials = getReportFinancials(report, assessment, damageDetails);
+  if (!assessment || !financials) return null;
+
+  return {
+    totalRepairEstimate: financials.totalRepairEstimate,
+    coveredAmount: financials.coveredAmount,
+    deductible: financials.deductible,
+    nonCoveredItems: financials.nonCoveredItems,
+    estimatedPayout: financials.estimatedPayout,
+    assessmentStatus: assessment.assessment_status,
+    adjusted: financials.adjusted,
+    aiEstimate: financials.adjusted
+      ? {
+          totalRepairEstimate: assessment.total_repair_estimate,
+          coveredAmount: assessment.covered_amount,
+          deductible: assessment.deductible,
+          nonCoveredItems: assessment.non_covered_items,
+          estimatedPayout: assessment.estimated_payout,
+        }
+      : null,
+  };
+}
+
+/**
+ * Investigation flag, fraud score and recycled media of a report
+ * Reports of other insurers are not identified.
+ *
+ * @param fraudEvidence - Score, factors and recycled media stored with the fraud assessment
+ */
+export function formatReportInvestigation(
+  report: ReportDocument,
+  fraudEvidence: ReportFraudEvidence | null
+): ApiReportInvestigation {
+  return {
+    needed: report.investigation_needed,
+    reason: report.investigation_reason || null,
+    fraudScore: fraudEvidence?.fraud_score ?? null,
+    fraudFactors: parseFraudScoreFactors(fraudEvidence?.fraud_score_factors_json),
+    recycledMedia: parseRecycledMedia(fraudEvidence?.recycled_media_json).map((match) => ({
+      fileId: match.fileId,
+      kind: match.kind,
+      frameIndex: match.frameIndex,
+      matchType: match.matchType,
+      distance: match.distance,
+      matchedReportId: match.sameCompany ? match.matchedReportId : null,
+      matchedClaimNumber: match.sameCompany ? match.matchedClaimNumber : null,
+      sameClaimant: match.sameClaimant,
+    })),
+  };
+}
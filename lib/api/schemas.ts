@@ -0,0 +1,675 @@
+import { z } from 'zod';
+import { FRAUD_SCORE_RULE_IDS } from '@/lib/fraud/fraudScore';
+
+/**
+ * Public API Schemas
+ * Single source of truth for the v1 API contract. Route handlers validate query
+ * params with these schemas and type their responses against them, and the
+ * OpenAPI document (lib/api/openapi.ts) and generated client are derived from them.
+ *
+ * Schemas registered in apiSchemaRegistry become named OpenAPI components.
+ */
+
+export const apiSchemaRegistry = z.registry<{ id: string; description?: string }>();
+
+// Enums
+
+export const claimStatusSchema = z
+  .enum(['pending', 'analyzed', 'approved', 'denied', 'partial', 'needs_investigation'])
+  .register(apiSchemaRegistry, { id: 'ClaimStatus', description: 'Claim lifecycle status' });
+
+export const severitySchema = z
+  .enum(['minor', 'moderate', 'severe', 'total_loss'])
+  .register(apiSchemaRegistry, { id: 'Severity' });
+
+export const damageTypeSchema = z
+  .enum(['collision', 'comprehensive', 'weather', 'vandalism', 'unknown'])
+  .register(apiSchemaRegistry, { id: 'DamageType' });
+
+export const repairComplexitySchema = z
+  .enum(['simple', 'moderate', 'complex', 'extensive'])
+  .register(apiSchemaRegistry, { id: 'RepairComplexity' });
+
+export const repairOrReplaceSchema = z
+  .enum(['repair', 'replace', 'either', 'undetermined'])
+  .register(apiSchemaRegistry, { id: 'RepairOrReplace' });
+
+export const verificationStatusSchema = z
+  .enum(['matched', 'mismatched', 'insufficient_data'])
+  .register(apiSchemaRegistry, { id: 'VerificationStatus' });
+
+export const assessmentStatusSchema = z
+  .enum(['approved', 'denied', 'partial', 'needs_investigation'])
+  .register(apiSchemaRegistry, { id: 'AssessmentStatus' });
+
+export const apiKeyScopeSchema = z.enum(['reports:read', 'reports:write', 'widget']);
+
+export const submissionStatusSchema = z
+  .enum(['queued', 'scanning', 'analyzing', 'uploading', 'persisted', 'failed'])
+  .register(apiSchemaRegistry, {
+    id: 'SubmissionStatus',
+    description: 'queued → scanning → analyzing → uploading → persisted (or failed)',
+  });
+
+// Reports
+
+const vehicleDescriptionSchema = z.object({
+  make: z.string().optional(),
+  model: z.string().optional(),
+  year: z.number().int().optional(),
+  color: z.string().optional(),
+});
+
+const financialFiguresSchema = z.object({
+  totalRepairEstimate: z.number(),
+  coveredAmount: z.number(),
+  deductible: z.number(),
+  nonCoveredItems: z.number(),
+  estimatedPayout: z.number(),
+});
+
+export const reportFinancialsSchema = financialFiguresSchema
+  .extend({
+    assessmentStatus: assessmentStatusSchema,
+    adjusted: z.boolean().describe('Whether adjuster overrides are applied to the figures'),
+    aiEstimate: financialFiguresSchema
+      .nullable()
+      .describe("The AI's original figures when an adjuster changed them; null otherwise"),
+  })
+  .register(apiSchemaRegistry, {
+    id: 'ReportFinancials',
+    description: 'Policy assessment of the claim, after adjuster overrides (same figures as the PDF and export)',
+  });
+
+export const fraudScoreFactorSchema = z
+  .object({
+    rule: z.enum(FRAUD_SCORE_RULE_IDS),
+    label: z.string(),
+    points: z.number().int().min(0).max(100),
+    detail: z.string(),
+  })
+  .register(apiSchemaRegistry, {
+    id: 'FraudScoreFactor',
+    description: 'Scoring rule that contributed to the fraud score',
+  });
+
+export const recycledMediaMatchSchema = z
+  .object({
+    fileId: z.string().describe('Media file of this report'),
+    kind: z.enum(['image', 'video', 'video_frame']),
+    frameIndex: z.number().int().optional().describe('Sampled frame of the video (video_frame only)'),
+    matchType: z.enum(['exact', 'perceptual']),
+    distance: z.number().int().min(0).describe('Differing perceptual hash bits, 0 for exact copies'),
+    matchedReportId: z.string().nullable().describe('Earlier report with the same media; null when filed with another insurer'),
+    matchedClaimNumber: z.string().nullable(),
+    sameClaimant: z.boolean(),
+  })
+  .register(apiSchemaRegistry, {
+    id: 'RecycledMediaMatch',
+    description: 'Evidence of the report that also appears in an earlier claim',
+  });
+
+export const reportInvestigationSchema = z
+  .object({
+    needed: z.boolean(),
+    reason: z.string().nullable(),
+    fraudScore: z
+      .number()
+      .int()
+      .min(0)
+      .max(100)
+      .nullable()
+      .describe('Composite fraud score (0-100) from the company\'s scoring rules; null for reports created before scoring'),
+    fraudFactors: z.array(fraudScoreFactorSchema).describe('Rules behind the fraud score, highest contribution first'),
+    recycledMedia: z.array(recycledMediaMatchSchema).describe('Evidence found in earlier claims, closest matches first'),
+  })
+  .register(apiSchemaRegistry, { id: 'ReportInvestigation' });
+
+const fraudRiskLevelSchema = z.enum(['low', 'medium', 'high']);
+
+export const reportFraudSchema = z
+  .object({
+    damageAge: z
+      .object({
+        estimatedAge: z.enum(['fresh', 'days_old', 'weeks_old', 'months_old', 'unknown']),
+        confidenceScore: z.number().min(0).max(1),
+        indicators: z.array(
+          z.object({
+            type: z.string().describe('e.g. oxidation, rust, paint_weathering, edge_condition, debris_accumulation'),
+            observation: z.string(),
+            ageImplication: z.string(),
+          })
+        ),
+        reasoning: z.string(),
+      })
+      .nullable(),
+    contamination: z
+      .object({
+        contaminationDetected: z.boolean(),
+        contaminants: z.array(
+          z.object({
+            type: z.string().describe('e.g. dirt, dust, snow, salt, water_stains, oil'),
+            location: z.string(),
+            obscuresDamage: z.boolean(),
+            description: z.string(),
+          })
+        ),
+        fraudRiskLevel: fraudRiskLevelSchema,
+        notes: z.string(),
+      })
+      .nullable()
+      .describe('Dirt or other contamination hiding or staging damage'),
+    rustCorrosion: z
+      .object({
+        rustDetected: z.boolean(),
+        corrosionAreas: z.array(
+          z.object({
+            location: z.string(),
+            severity: z.string().describe('surface_rust, pitting, deep_corrosion or structural'),
+            color: z.string(),
+            spreadPattern: z.string(),
+            estimatedAge: z.string(),
+          })
+        ),
+        overallCorrosionLevel: z.enum(['none', 'minimal', 'moderate', 'severe']),
+        estimatedCorrosionAge: z.string(),
+        fraudIndicator: z.boolean().describe('Corrosion older than the claimed incident'),
+        notes: z.string(),
+      })
+      .nullable(),
+    preExistingDamage: z
+      .object({
+        preExistingDamageDetected: z.boolean(),
+        preExistingItems: z.array(
+          z.object({
+            location: z.string(),
+            damageType: z.string(),
+            ageEstimate: z.string(),
+            reasoning: z.string(),
+            relatedToClaimedIncident: z.boolean(),
+          })
+        ),
+        damageConsistency: z.enum(['consistent', 'inconsistent', 'mixed', 'unclear']),
+        fraudRiskLevel: fraudRiskLevelSchema,
+        notes: z.string(),
+      })
+      .nullable(),
+  })
+  .register(apiSchemaRegistry, {
+    id: 'ReportFraud',
+    description: 'Fraud checks of the analysis. A check is null when it did not run or its details were not stored',
+  });
+
+/** Fields of a listed report that can be requested with ?fields= */
+export const REPORT_LIST_FIELDS = [
+  'id',
+  'claimNumber',
+  'status',
+  'damageType',
+  'overallSeverity',
+  'estimatedTotalCost',
+  'confidenceScore',
+  'createdAt',
+  'updatedAt',
+  'investigation',
+  'financials',
+] as const;
+
+export type ReportListField = (typeof REPORT_LIST_FIELDS)[number];
+
+/** Fields returned when ?fields= is not given */
+export const DEFAULT_REPORT_LIST_FIELDS: ReportListField[] = [
+  'id',
+  'claimNumber',
+  'status',
+  'damageType',
+  'overallSeverity',
+  'estimatedTotalCost',
+  'confidenceScore',
+  'createdAt',
+];
+
+export const reportSummarySchema = z
+  .object({
+    id: z.string(),
+    claimNumber: z.string().optional(),
+    status: claimStatusSchema.optional(),
+    damageType: damageTypeSchema.optional(),
+    overallSeverity: severitySchema.optional(),
+    estimatedTotalCost: z.number().optional(),
+    confidenceScore: z.number().min(0).max(1).optional(),
+    createdAt: z.iso.datetime({ offset: true }).optional(),
+    updatedAt: z.iso.datetime({ offset: true }).optional(),
+    investigation: reportInvestigationSchema.optional(),
+    financials: reportFinancialsSchema.nullable().optional(),
+  })
+  .register(apiSchemaRegistry, {
+    id: 'ReportSummary',
+    description:
+      'Report as listed by GET /reports. Contains the fields selected with ?fields= ' +
+      `(default: ${DEFAULT_REPORT_LIST_FIELDS.join(',')}); id is always present.`,
+  });
+
+export const reportSchema = z
+  .object({
+    id: z.string(),
+    claimNumber: z.string(),
+    status: claimStatusSchema,
+    createdAt: z.iso.datetime({ offset: true }),
+    damage: z.object({
+      type: damageTypeSchema,
+      cause: z.string().optional(),
+      overallSeverity: severitySchema,
+      repairComplexity: repairComplexitySchema,
+      estimatedTotalCost: z.number(),
+      confidenceScore: z.number().min(0).max(1),
+      parts: z.array(
+        z.object({
+          name: z.string(),
+          severity: severitySchema,
+          description: z.string(),
+          estimatedCost: z.string().optional().describe('Cost range as text, e.g. "$500 - $800"'),
+          repairOrReplace: repairOrReplaceSchema.nullable(),
+          repairOrReplaceReason: z.string().nullable(),
+        })
+      ),
+      inferredInternalDamages: z.array(
+        z.object({
+          component: z.string(),
+          likelihood: z.string().optional(),
+          description: z.string(),
+          basedOn: z.string().optional(),
+        })
+      ),
+    }),
+    vehicleVerification: z
+      .object({
+        status: verificationStatusSchema,
+        confidenceScore: z.number().min(0).max(1),
+        videoVehicle: vehicleDescriptionSchema,
+        policyVehicle: vehicleDescriptionSchema,
+      })
+      .nullable(),
+    financials: reportFinancialsSchema
+      .nullable()
+      .describe('Policy assessment; null when the claim was analyzed without a policy'),
+    investigation: reportInvestigationSchema,
+    fraud: reportFraudSchema.nullable().describe('Null for reports analyzed without fraud checks'),
+    safetyConcerns: z.array(z.string()),
+    recommendedActions: z.array(z.string()),
+  })
+  .register(apiSchemaRegistry, {
+    id: 'Report',
+    description: 'Full report with damage, verification, financials and fraud checks',
+  });
+
+// Query params (validated by the route handlers; documented as OpenAPI parameters)
+
+export const REPORT_LIST_SORTS = [
+  'createdAt',
+  '-createdAt',
+  'estimatedTotalCost',
+  '-estimatedTotalCost',
+  'confidenceScore',
+  '-confidenceScore',
+] as const;
+
+export type ReportListSort = (typeof REPORT_LIST_SORTS)[number];
+
+/**
+ * Comma-separated query param validated against a list of values
+ */
+function commaSeparated<T extends string>(values: readonly T[], description: string) {
+  const valueSchema = z.enum(values as readonly [T, ...T[]]);
+  return z
+    .string()
+    .describe(`${description}. Comma-separated: ${values.join(', ')}`)
+    .transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean))
+    .pipe(z.array(valueSchema).min(1));
+}
+
+/**
+ * Cursor for GET /reports
+ * Opaque to clients: base64url JSON of the last report on the page and the sort it was listed with.
+ */
+const reportListCursorSchema = z
+  .string()
+  .describe('nextCursor of the previous page. Stable while new reports arrive; use the same sort as the previous page')
+  .transform((value, ctx) => {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+      if (typeof cursor?.id === 'string' && REPORT_LIST_SORTS.includes(cursor.sort)) {
+        return cursor as { id: string; sort: ReportListSort };
+      }
+    } catch {
+      // Reported below
+    }
+    ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+    return z.NEVER;
+  });
+
+/**
+ * Encode the cursor for the page after a report
+ */
+export function encodeReportListCursor(id: string, sort: ReportListSort): string {
+  return Buffer.from(JSON.stringify({ id, sort })).toString('base64url');
+}
+
+export const reportListQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(100).default(20).describe('Page size (1-100)'),
+    offset: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .default(0)
+      .describe('Number of reports to skip. Prefer cursor, which does not shift when new reports arrive'),
+    cursor: reportListCursorSchema.optional(),
+    sort: z.enum(REPORT_LIST_SORTS).default('-createdAt').describe('Sort field; prefix with - for descending'),
+    fields: commaSeparated(REPORT_LIST_FIELDS, 'Fields to return (id is always included)').optional(),
+    status: commaSeparated(claimStatusSchema.options, 'Claim statuses').optional(),
+    damageType: commaSeparated(damageTypeSchema.options, 'Damage types').optional(),
+    severity: commaSeparated(severitySchema.options, 'Overall severities').optional(),
+    investigationNeeded: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional()
+      .describe('Only reports flagged (true) or not flagged (false) for investigation'),
+    createdAfter: z.iso.datetime({ offset: true }).optional().describe('Created at or after (ISO 8601)'),
+    createdBefore: z.iso.datetime({ offset: true }).optional().describe('Created before (ISO 8601)'),
+    minCost: z.coerce.number().min(0).optional().describe('Minimum estimatedTotalCost'),
+    maxCost: z.coerce.number().min(0).optional().describe('Maximum estimatedTotalCost'),
+  })
+  .superRefine((query, ctx) => {
+    if (query.cursor && query.offset > 0) {
+      ctx.addIssue({ code: 'custom', path: ['cursor'], message: 'Use either cursor or offset, not both' });
+    }
+    if (query.cursor && query.cursor.sort !== query.sort) {
+      ctx.addIssue({ code: 'custom', path: ['cursor'], message: 'Cursor was created with a different sort' });
+    }
+    if (query.minCost !== undefined && query.maxCost !== undefined && query.minCost > query.maxCost) {
+      ctx.addIssue({ code: 'custom', path: ['minCost'], message: 'minCost must not exceed maxCost' });
+    }
+  });
+
+// Responses
+
+export const reportListResponseSchema = z
+  .object({
+    data: z.array(reportSummarySchema),
+    total: z.number().int().describe('Reports matching the filters'),
+    limit: z.number().int(),
+    offset: z.number().int(),
+    nextCursor: z.string().nullable().describe('Pass as cursor to fetch the next page; null on the last page'),
+  })
+  .register(apiSchemaRegistry, { id: 'ReportListResponse' });
+
+export const reportResponseSchema = z
+  .object({ data: reportSchema })
+  .register(apiSchemaRegistry, { id: 'ReportResponse' });
+
+export const submissionAcceptedResponseSchema = z
+  .object({
+    data: z.object({
+      id: z.string().describe('Reserved report ID'),
+      status: z.literal('accepted'),
+      statusUrl: z.url(),
+    }),
+  })
+  .register(apiSchemaRegistry, { id: 'SubmissionAcceptedResponse' });
+
+export const submissionStatusResponseSchema = z
+  .object({
+    data: z.object({
+      id: z.string(),
+      status: submissionStatusSchema,
+      nextAttemptAt: z.iso.datetime({ offset: true }).nullable().describe('When a deferred submission is retried'),
+      claimNumber: z.string().nullable(),
+      reportUrl: z.url().nullable().describe('Set once the status is persisted'),
+      message: z.string().nullable().describe('Failure reason when the status is failed'),
+    }),
+  })
+  .register(apiSchemaRegistry, { id: 'SubmissionStatusResponse' });
+
+export const errorResponseSchema = z
+  .object({
+    error: z.string().describe('HTTP status text, e.g. "Not Found"'),
+    message: z.string(),
+  })
+  .register(apiSchemaRegistry, { id: 'ErrorResponse' });
+
+// Embeddable widget (request bodies are documented with their input types, so not registered)
+
+export const WIDGET_SECTIONS = ['overview', 'parts', 'financials', 'investigation'] as const;
+export const WIDGET_LOCALES = ['en', 'es', 'fr', 'de'] as const;
+
+const MAX_WIDGET_TOKEN_TTL_SECONDS = 60 * 60;
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex color such as #1d4ed8');
+
+export const widgetThemeSchema = z.object({
+  mode: z.enum(['light', 'dark']).default('light'),
+  primaryColor: hexColorSchema.optional().describe('Accent color for headings, badges and links'),
+  backgroundColor: hexColorSchema.optional(),
+  textColor: hexColorSchema.optional(),
+  fontFamily: z
+    .string()
+    .max(100)
+    .regex(/^[\w\s,'"-]+$/, 'Font family may only contain letters, digits, spaces, quotes, commas and dashes')
+    .optional()
+    .describe('CSS font-family list; the font must already be available to the browser'),
+  borderRadius: z.number().int().min(0).max(24).optional().describe('Corner radius in pixels'),
+  logoUrl: z.url({ protocol: /^https$/ }).max(500).optional().describe('HTTPS URL of a logo shown in the header'),
+  sections: z
+    .array(z.enum(WIDGET_SECTIONS))
+    .min(1)
+    .default(['overview', 'parts'])
+    .describe('Sections to show, in order'),
+  showPoweredBy: z.boolean().default(true),
+});
+
+const widgetOriginSchema = z
+  .url()
+  .describe('Origin of the page embedding the widget, e.g. https://portal.example.com')
+  .refine((value) => new URL(value).origin === value.replace(/\/+$/, ''), {
+    message: 'Expected an origin (scheme, host and optional port) without a path',
+  })
+  .refine(
+    (value) => {
+      const url = new URL(value);
+      return url.protocol === 'https:' || url.hostname === 'localhost';
+    },
+    { message: 'Origin must use HTTPS' }
+  )
+  .transform((value) => new URL(value).origin);
+
+export const widgetTokenRequestSchema = z.object({
+  reportId: z.string().min(1).max(36),
+  origin: widgetOriginSchema,
+  expiresIn: z
+    .number()
+    .int()
+    .min(60)
+    .max(MAX_WIDGET_TOKEN_TTL_SECONDS)
+    .default(15 * 60)
+    .describe('Token lifetime in seconds (60-3600)'),
+  locale: z.enum(WIDGET_LOCALES).default('en'),
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code')
+    .default('USD')
+    .describe('ISO 4217 currency code for amounts'),
+  theme: widgetThemeSchema.prefault({}),
+});
+
+export const widgetTokenResponseSchema = z
+  .object({
+    data: z.object({
+      token: z.string(),
+      expiresAt: z.iso.datetime({ offset: true }),
+      embedUrl: z.url().describe('iframe src for the widget'),
+    }),
+  })
+  .register(apiSchemaRegistry, { id: 'WidgetTokenResponse' });
+
+// Exports for adjuster systems (see lib/export/claimExport.ts)
+
+export const MAX_EXPORT_RANGE_DAYS = 366;
+
+export const exportLineItemSchema = z
+  .object({
+    lineNumber: z.number().int(),
+    partName: z.string(),
+    severity: severitySchema,
+    description: z.string(),
+    operation: repairOrReplaceSchema.nullable().describe('Repair or replace, after adjuster overrides'),
+    aiCostRange: z.string().nullable().describe('AI cost range as text, e.g. "$500 - $800"'),
+    aiAmount: z.number().describe('Midpoint of the AI cost range; 0 for lines added by an adjuster'),
+    adjustedAmount: z.number().nullable().describe('Adjuster re-price'),
+    amount: z.number().describe('Amount after adjuster overrides; 0 once removed'),
+    removed: z.boolean(),
+    adjusterAdded: z.boolean(),
+  })
+  .register(apiSchemaRegistry, {
+    id: 'ExportLineItem',
+    description: 'Priced damage line of an estimate (inferred internal damages are not priced)',
+  });
+
+const exportVehicleSchema = vehicleDescriptionSchema.extend({
+  licensePlate: z.string().optional(),
+  vin: z.string().optional(),
+});
+
+export const reportBundleSchema = z
+  .object({
+    format: z.literal('vehicleclaim.report-bundle'),
+    version: z.literal(1),
+    exportedAt: z.iso.datetime({ offset: true }),
+    report: reportSchema,
+    lineItems: z.array(exportLineItemSchema),
+    totals: z
+      .object({
+        totalRepairEstimate: z.number(),
+        coveredAmount: z.number().nullable(),
+        deductible: z.number().nullable(),
+        estimatedPayout: z.number().nullable(),
+        adjusted: z.boolean().describe('Whether adjuster overrides are applied'),
+      })
+      .describe('Amounts are null when the claim was analyzed without a policy'),
+    vehicleVerification: z
+      .object({
+        status: verificationStatusSchema,
+        confidenceScore: z.number().min(0).max(1),
+        videoVehicle: exportVehicleSchema,
+        policyVehicle: exportVehicleSchema,
+        mismatches: z.array(z.string()),
+        notes: z.string().nullable(),
+      })
+      .nullable(),
+    assessment: z
+      .object({
+        status: assessmentStatusSchema,
+        coverageTypes: z.array(z.string()),
+        deductibleTypes: z.array(z.string()),
+        deductibleAmounts: z.array(z.number()),
+        exclusions: z.array(z.string()),
+        coverageLimits: z.object({
+          collision: z.number().nullable(),
+          comprehensive: z.number().nullable(),
+          liability: z.number().nullable(),
+        }),
+        relevantPolicySections: z.array(z.string()),
+        coveredDamages: z.array(z.string()),
+        excludedDamages: z.array(z.string()),
+        reasoning: z.string().nullable(),
+        policyReferences: z.array(z.string()),
+        adjustmentNote: z.string().nullable(),
+      })
+      .nullable()
+      .describe('Policy assessment; null when the claim was analyzed without a policy'),
+    media: z.array(
+      z.object({
+        fileId: z.string(),
+        name: z.string().nullable(),
+        mimeType: z.string().nullable(),
+        sizeBytes: z.number().int().nullable(),
+        checksum: z.string().nullable().describe('MD5 of the stored file'),
+        uploadedAt: z.iso.datetime({ offset: true }).nullable(),
+        url: z.url(),
+      })
+    ).describe('Media manifest; name and the other file details are null when a file is no longer stored'),
+  })
+  .register(apiSchemaRegistry, {
+    id: 'ReportBundle',
+    description: 'Self-contained export of a report for adjuster systems (fraud checks are in report.fraud)',
+  });
+
+export const reportBundleResponseSchema = z
+  .object({ data: reportBundleSchema })
+  .register(apiSchemaRegistry, { id: 'ReportBundleResponse' });
+
+export const lineItemExportQuerySchema = z
+  .object({
+    from: z.iso.date().describe('First submission day (YYYY-MM-DD, UTC)'),
+    to: z.iso.date().describe(`Last submission day (YYYY-MM-DD, UTC); at most ${MAX_EXPORT_RANGE_DAYS} days after from`),
+  })
+  .superRefine((query, ctx) => {
+    const days = (Date.parse(query.to) - Date.parse(query.from)) / (24 * 60 * 60 * 1000);
+    if (days < 0) {
+      ctx.addIssue({ code: 'custom', path: ['to'], message: 'to must not be before from' });
+    } else if (days >= MAX_EXPORT_RANGE_DAYS) {
+      ctx.addIssue({ code: 'custom', path: ['to'], message: `Range must not exceed ${MAX_EXPORT_RANGE_DAYS} days` });
+    }
+  });
+
+// Webhooks (outbound payloads, see lib/webhooks/deliveries.ts)
+
+export const webhookEventSchema = z
+  .enum(['report.created', 'report.analyzed', 'report.flagged', 'report.status_changed'])
+  .register(apiSchemaRegistry, { id: 'WebhookEvent' });
+
+export const webhookPayloadSchema = z
+  .object({
+    id: z.string().describe('Delivery ID; the same for every retry of a delivery'),
+    event: z.union([webhookEventSchema, z.literal('test')]),
+    createdAt: z.iso.datetime({ offset: true }),
+    data: z.object({
+      report: reportSchema.nullable(),
+      previousStatus: claimStatusSchema.nullable().optional(),
+      reason: z.string().nullable().optional(),
+      message: z.string().optional(),
+    }),
+  })
+  .register(apiSchemaRegistry, { id: 'WebhookPayload' });
+
+export type ApiReportSummary = z.infer<typeof reportSummarySchema>;
+export type ApiReport = z.infer<typeof reportSchema>;
+export type ApiReportFinancials = z.infer<typeof reportFinancialsSchema>;
+export type ApiReportInvestigation = z.infer<typeof reportInvestigationSchema>;
+export type ApiFraudScoreFactor = z.infer<typeof fraudScoreFactorSchema>;
+export type ApiRecycledMediaMatch = z.infer<typeof recycledMediaMatchSchema>;
+export type ApiReportFraud = z.infer<typeof reportFraudSchema>;
+export type ApiReportListQuery = z.infer<typeof reportListQuerySchema>;
+export type ApiReportListResponse = z.infer<typeof reportListResponseSchema>;
+export type ApiSubmissionStatusResponse = z.infer<typeof submissionStatusResponseSchema>;
+export type ApiWebhookPayload = z.infer<typeof webhookPayloadSchema>;
+export type ApiExportLineItem = z.infer<typeof exportLineItemSchema>;
+export type ApiReportBundle = z.infer<typeof reportBundleSchema>;
+export type ApiLineItemExportQuery = z.infer<typeof lineItemExportQuerySchema>;
+export type ApiWidgetTheme = z.infer<typeof widgetThemeSchema>;
+export type ApiWidgetTokenRequest = z.infer<typeof widgetTokenRequestSchema>;
+export type ApiWidgetTokenResponse = z.infer<typeof widgetTokenResponseSchema>;
+export type WidgetSection = (typeof WIDGET_SECTIONS)[number];
+export type WidgetLocale = (typeof WIDGET_LOCALES)[number];
+
+/**
+ * First validation issue as a readable message for a 400 response
+ *
+ * @example
+ * formatValidationError(result.error) // 'limit: Too big: expected number to be <=100'
+ */
+export function formatValidationError(error: z.ZodError): string {
+  const issue = error.issues[0];
+  if (!issue) return 'Invalid request';
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
@@ -0,0 +1,253 @@
+import { createHash } from 'crypto';
+import { AppwriteException, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import type {
+  AnalysisJobDocument,
+  AnalysisJobStatus,
+  ApiIdempotencyKeyDocument,
+  ReportDocument,
+} from '@/lib/types/appwrite';
+
+/**
+ * Public API Submissions
+ * Idempotency-Key bookkeeping and status lookups for POST /api/v1/reports.
+ *
+ * Each (company, Idempotency-Key) pair maps to a chain of documents whose IDs are
+ * derived from the pair plus a generation number, so concurrent retries race on
+ * document creation and only one of them enqueues an analysis job. A reservation
+ * that was released, or whose request died before finishing (lease lapsed), is
+ * taken over by creating the next generation - again a race only one request wins.
+ */
+
+// How long a stored Idempotency-Key is honoured
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How long a reservation blocks retries while its request runs (longer than the route's maxDuration)
+const IDEMPOTENCY_LEASE_MS = 10 * 60 * 1000;
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export type IdempotencyReservation =
+  | { status: 'reserved'; recordId: string }
+  | { status: 'replay'; reportId: string; jobId: string }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' };
+
+export interface ApiSubmissionStatus {
+  reportId: string;
+  status: AnalysisJobStatus;
+  /** When a deferred (rate-limited) submission is retried */
+  nextAttemptAt?: string;
+  claimNumber?: string;
+  message?: string;
+  /** Job to resume when it was deferred or abandoned */
+  jobId: string;
+}
+
+/**
+ * Fingerprint an uploaded file by its contents, for hashSubmissionRequest
+ *
+ * @param file - Uploaded file
+ * @returns SHA-256 hex digest of the file bytes
+ */
+export async function hashSubmissionFile(file: File): Promise<string> {
+  return createHash('sha256').update(Buffer.from(await file.arrayBuffer())).digest('hex');
+}
+
+/**
+ * Fingerprint a submission so a reused Idempotency-Key with a different payload is rejected
+ *
+ * @param parts - Request fields that identify the submission
+ * @returns SHA-256 hex digest
+ */
+export function hashSubmissionRequest(parts: unknown): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+/**
+ * Claim an Idempotency-Key for a submission
+ *
+ * @param insuranceCompanyId - Company of the API key
+ * @param apiKeyId - API key making the request
+ * @param idempotencyKey - Idempotency-Key header value
+ * @param requestHash - Fingerprint from hashSubmissionRequest
+ * @returns reserved (go ahead), replay (return the earlier result), in_progress or mismatch
+ *
+ * @example
+ * const reservation = await reserveIdempotencyKey(companyId, apiKey.$id, key, hash);
+ * if (reservation.status === 'replay') {
+ *   return respondAccepted(reservation.reportId);
+ * }
+ */
+export async function reserveIdempotencyKey(
+  insuranceCompanyId: string,
+  apiKeyId: string,
+  idempotencyKey: string,
+  requestHash: string
+): Promise<IdempotencyReservation> {
+  const { databases } = await adminAction();
+  const recordPrefix = getIdempotencyRecordPrefix(insuranceCompanyId, idempotencyKey);
+
+  // Find the latest generation for the key
+  let generation = 0;
+  let latest: ApiIdempotencyKeyDocument | null = null;
+  while (true) {
+    try {
+      latest = await databases.getDocument<ApiIdempotencyKeyDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.API_IDEMPOTENCY_KEYS,
+        getIdempotencyRecordId(recordPrefix, generation)
+      );
+      generation++;
+    } catch (error) {
+      if (error instanceof AppwriteException && error.code === 404) break;
+      throw error;
+    }
+  }
+
+  if (latest && Date.parse(latest.expires_at) > Date.now()) {
+    if (latest.report_id && latest.job_id) {
+      return latest.request_hash === requestHash
+        ? { status: 'replay', reportId: latest.report_id, jobId: latest.job_id }
+        : { status: 'mismatch' };
+    }
+    if (Date.parse(latest.lease_expires_at ?? latest.expires_at) > Date.now()) {
+      return latest.request_hash === requestHash ? { status: 'in_progress' } : { status: 'mismatch' };
+    }
+    // Released, or its request died before finishing - take it over
+  }
+
+  const recordId = getIdempotencyRecordId(recordPrefix, generation);
+  const now = Date.now();
+  try {
+    await databases.createDocument<ApiIdempotencyKeyDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.API_IDEMPOTENCY_KEYS,
+      recordId,
+      {
+        insurance_company_id: insuranceCompanyId,
+        api_key_id: apiKeyId,
+        idempotency_key: idempotencyKey,
+        request_hash: requestHash,
+        lease_expires_at: new Date(now + IDEMPOTENCY_LEASE_MS).toISOString(),
+        expires_at: new Date(now + IDEMPOTENCY_TTL_MS).toISOString(),
+      }
+    );
+    return { status: 'reserved', recordId };
+  } catch (error) {
+    if (!(error instanceof AppwriteException && error.code === 409)) {
+      throw error;
+    }
+    // A concurrent request with the same key reserved this generation first
+    return { status: 'in_progress' };
+  }
+}
+
+/**
+ * Store the accepted submission on a reserved Idempotency-Key
+ */
+export async function completeIdempotencyKey(
+  recordId: string,
+  result: { reportId: string; jobId: string }
+): Promise<void> {
+  const { databases } = await adminAction();
+  await databases.updateDocument<ApiIdempotencyKeyDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.API_IDEMPOTENCY_KEYS,
+    recordId,
+    { report_id: result.reportId, job_id: result.jobId }
+  );
+}
+
+/**
+ * End a reservation's lease (the submission failed, so a retry may run it again)
+ * The record is kept so the next generation's ID stays unique.
+ */
+export async function releaseIdempotencyKey(recordId: string): Promise<void> {
+  const { databases } = await adminAction();
+  try {
+    await databases.updateDocument<ApiIdempotencyKeyDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.API_IDEMPOTENCY_KEYS,
+      recordId,
+      { lease_expires_at: new Date().toISOString() }
+    );
+  } catch (error) {
+    console.error('Failed to release idempotency key:', error);
+  }
+}
+
+/**
+ * Check that a previously uploaded policy belongs to one of the company's reports
+ *
+ * @param insuranceCompanyId - Company of the API key
+ * @param policyFileId - Storage file ID of the policy PDF
+ * @returns True if the company may reuse the policy
+ */
+export async function isCompanyPolicyFile(
+  insuranceCompanyId: string,
+  policyFileId: string
+): Promise<boolean> {
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<ReportDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.REPORTS,
+    [
+      Query.equal('insurance_company_id', insuranceCompanyId),
+      Query.equal('policy_file_id', policyFileId),
+      Query.limit(1),
+    ]
+  );
+  return result.total > 0;
+}
+
+/**
+ * Look up the analysis status of a report submitted through the v1 API
+ *
+ * @param reportId - Report ID returned by POST /api/v1/reports
+ * @param insuranceCompanyId - Company of the API key (other companies' submissions are not found)
+ * @returns Submission status, or null if there is no such submission
+ */
+export async function getApiSubmissionStatus(
+  reportId: string,
+  insuranceCompanyId: string
+): Promise<ApiSubmissionStatus | null> {
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<AnalysisJobDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.ANALYSIS_JOBS,
+    [
+      Query.equal('reserved_report_id', reportId),
+      Query.equal('insurance_company_id', insuranceCompanyId),
+      Query.limit(1),
+    ]
+  );
+
+  const job = result.documents[0];
+  if (!job) return null;
+
+  return {
+    reportId,
+    status: job.status,
+    nextAttemptAt: job.status === 'queued' ? job.next_attempt_at : undefined,
+    claimNumber: job.report_number,
+    message: job.error_message,
+    jobId: job.$id,
+  };
+}
+
+/**
+ * Document ID prefix for a (company, Idempotency-Key) pair
+ * Appwrite IDs are at most 36 characters, which leaves room for `_{generation}`.
+ */
+function getIdempotencyRecordPrefix(insuranceCompanyId: string, idempotencyKey: string): string {
+  return createHash('sha256')
+    .update(`${insuranceCompanyId}:${idempotencyKey}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+function getIdempotencyRecordId(recordPrefix: string, generation: number): string {
+  return `${recordPrefix}_${generation}`;
+}
@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { AppwriteException, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import type { ApiKeyDocument, ApiUsageDailyDocument } from '@/lib/types/appwrite';
+
+/**
+ * Public API Usage Metering
+ * Daily request counters per API key and endpoint (api_usage_daily).
+ * Counters are incremented atomically, so concurrent requests never lose counts.
+ */
+
+export interface ApiUsageRow {
+  date: string;
+  apiKeyId: string;
+  insuranceCompanyId: string;
+  endpoint: string;
+  requests: number;
+  throttled: number;
+}
+
+// Route templates, so report IDs don't create an endpoint each
+const ENDPOINT_PATTERNS: Array<[RegExp, string]> = [
+  [/^\/api\/v1\/reports\/?$/, '/reports'],
+  [/^\/api\/v1\/reports\/[^/]+\/status\/?$/, '/reports/{id}/status'],
+  [/^\/api\/v1\/reports\/[^/]+\/pdf\/?$/, '/reports/{id}/pdf'],
+  [/^\/api\/v1\/reports\/[^/]+\/bundle\/?$/, '/reports/{id}/bundle'],
+  [/^\/api\/v1\/reports\/[^/]+\/estimate\.xml\/?$/, '/reports/{id}/estimate.xml'],
+  [/^\/api\/v1\/reports\/[^/]+\/?$/, '/reports/{id}'],
+  [/^\/api\/v1\/exports\/line-items\.csv\/?$/, '/exports/line-items.csv'],
+  [/^\/api\/v1\/widget\/tokens\/?$/, '/widget/tokens'],
+  [/^\/api\/v1\/widget\/[^/]+\/?$/, '/widget/{id}'],
+];
+
+const MAX_USAGE_ROWS = 5000;
+
+/**
+ * Endpoint name used for usage counters, e.g. "GET /reports/{id}"
+ */
+export function getApiEndpoint(request: NextRequest): string {
+  const { pathname } = request.nextUrl;
+  const template =
+    ENDPOINT_PATTERNS.find(([pattern]) => pattern.test(pathname))?.[1] ??
+    pathname.replace(/^\/api\/v1/, '');
+  return `${request.method} ${template}`.slice(0, 100);
+}
+
+/**
+ * Count a request against today's usage for a key and endpoint
+ * Call without awaiting; failures are logged by the caller.
+ *
+ * @param apiKey - Authenticated API key
+ * @param endpoint - Endpoint name from getApiEndpoint
+ * @param throttled - Whether the rate limit rejected the request
+ */
+export async function recordApiUsage(
+  apiKey: ApiKeyDocument,
+  endpoint: string,
+  throttled: boolean
+): Promise<void> {
+  const { databases } = await adminAction();
+  const usageDate = new Date().toISOString().slice(0, 10);
+  // Deterministic ID: one counter document per key, endpoint and day
+  const documentId = createHash('sha256')
+    .update(`${apiKey.$id}:${endpoint}:${usageDate}`)
+    .digest('hex')
+    .slice(0, 36);
+
+  const increment = async () => {
+    await databases.incrementDocumentAttribute(
+      DATABASE_ID,
+      COLLECTION_IDS.API_USAGE_DAILY,
+      documentId,
+      'request_count',
+      1
+    );
+    if (throttled) {
+      await databases.incrementDocumentAttribute(
+        DATABASE_ID,
+        COLLECTION_IDS.API_USAGE_DAILY,
+        documentId,
+        'throttled_count',
+        1
+      );
+    }
+  };
+
+  try {
+    await increment();
+  } catch (error) {
+    if (!(error instanceof AppwriteException) || error.code !== 404) throw error;
+
+    // First request of the day for this key and endpoint
+    try {
+      await databases.createDocument(DATABASE_ID, COLLECTION_IDS.API_USAGE_DAILY, documentId, {
+        api_key_id: apiKey.$id,
+        insurance_company_id: apiKey.insurance_company_id,
+        endpoint,
+        usage_date: usageDate,
+        request_count: 1,
+        throttled_count: throttled ? 1 : 0,
+      });
+    } catch (createError) {
+      // A concurrent request created it first
+      if (createError instanceof AppwriteException && createError.code === 409) {
+        await increment();
+      } else {
+        throw createError;
+      }
+    }
+  }
+}
+
+/**
+ * Daily usage rows, newest day first
+ *
+ * @param options.companyId - Limit to one insurance company (all companies when omitted)
+ * @param options.days - Number of UTC days to include, including today
+ * @returns Usage rows per day, key and endpoint
+ */
+export async function getApiUsage(options: {
+  companyId?: string;
+  days: number;
+}): Promise<ApiUsageRow[]> {
+  const { databases } = await adminAction();
+  const since = new Date(Date.now() - (options.days - 1) * 86_400_000).toISOString().slice(0, 10);
+
+  const rows: ApiUsageRow[] = [];
+  let cursor: string | undefined;
+
+  while (rows.length < MAX_USAGE_ROWS) {
+    const page = await databases.listDocuments<ApiUsageDailyDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.API_USAGE_DAILY,
+      [
+        ...(options.companyId ? [Query.equal('insurance_company_id', options.companyId)] : []),
+        Query.greaterThanEqual('usage_date', since),
+        Query.orderDesc('usage_date'),
+        Query.limit(100),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    rows.push(
+      ...page.documents.map((doc) => ({
+        date: doc.usage_date,
+        apiKeyId: doc.api_key_id,
+        insuranceCompanyId: doc.insurance_company_id,
+        endpoint: doc.endpoint,
+        requests: doc.request_count,
+        throttled: doc.throttled_count,
+      }))
+    );
+
+    if (page.documents.length < 100) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return rows;
+}
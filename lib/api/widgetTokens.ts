@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { encryptData } from '@/utils/encrypt';
+import { decryptData } from '@/utils/decrypt';
+import { WIDGET_LOCALES, widgetThemeSchema, type ApiWidgetTokenRequest } from '@/lib/api/schemas';
+import type { ApiKeyDocument } from '@/lib/types/appwrite';
+
+/**
+ * Widget Tokens
+ * Short-lived signed JWTs that let a browser load one report's widget without
+ * the partner's API key. A token is issued by the partner's backend
+ * (POST /api/v1/widget/tokens) and is bound to a report, the embedding origin
+ * and the display options it was issued with.
+ */
+
+// Distinguishes widget tokens from session JWTs signed with the same key
+const WIDGET_TOKEN_TYPE = 'report_widget';
+
+const widgetTokenClaimsSchema = z.object({
+  typ: z.literal(WIDGET_TOKEN_TYPE),
+  rid: z.string(), // Report ID
+  cid: z.string(), // Insurance company ID
+  kid: z.string(), // Issuing API key ID
+  origin: z.string(),
+  locale: z.enum(WIDGET_LOCALES),
+  currency: z.string(),
+  theme: widgetThemeSchema,
+});
+
+export type WidgetTokenClaims = z.infer<typeof widgetTokenClaimsSchema>;
+
+/**
+ * Sign a widget token
+ *
+ * @param apiKey - Key issuing the token (must have the widget scope)
+ * @param request - Parsed widgetTokenRequestSchema body
+ * @returns Token and its expiry time
+ */
+export async function createWidgetToken(
+  apiKey: ApiKeyDocument,
+  request: ApiWidgetTokenRequest
+): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + request.expiresIn * 1000);
+
+  const claims: WidgetTokenClaims = {
+    typ: WIDGET_TOKEN_TYPE,
+    rid: request.reportId,
+    cid: apiKey.insurance_company_id,
+    kid: apiKey.$id,
+    origin: request.origin,
+    locale: request.locale,
+    currency: request.currency,
+    theme: request.theme,
+  };
+
+  const token = await encryptData(claims, expiresAt);
+  return { token, expiresAt };
+}
+
+/**
+ * Verify a widget token's signature, expiry and claims
+ *
+ * @param token - Token from the widget URL
+ * @returns Claims, or null if the token is invalid, expired or not a widget token
+ */
+export async function verifyWidgetToken(token: string): Promise<WidgetTokenClaims | null> {
+  try {
+    const payload = await decryptData(token, true);
+    const claims = widgetTokenClaimsSchema.safeParse(payload);
+    return claims.success ? claims.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a widget token and load the API key that issued it
+ * Tokens stop working as soon as their key is revoked or loses the widget scope.
+ *
+ * @param token - Token from the widget URL
+ * @returns Claims and issuing key, or null if either is no longer valid
+ *
+ * @example
+ * const widget = await authenticateWidgetToken(request.nextUrl.searchParams.get('token') ?? '');
+ * if (!widget || widget.claims.rid !== id) {
+ *   return new NextResponse('Invalid or expired widget token', { status: 401 });
+ * }
+ */
+export async function authenticateWidgetToken(
+  token: string
+): Promise<{ claims: WidgetTokenClaims; apiKey: ApiKeyDocument } | null> {
+  const claims = await verifyWidgetToken(token);
+  if (!claims) return null;
+
+  try {
+    const { databases } = await adminAction();
+    const apiKey = await databases.getDocument<ApiKeyDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.API_KEYS,
+      claims.kid
+    );
+
+    if (apiKey.revoked_at || !apiKey.scopes.includes('widget')) return null;
+    if (apiKey.insurance_company_id !== claims.cid) return null;
+
+    return { claims, apiKey };
+  } catch {
+    // The key was deleted
+    return null;
+  }
+}
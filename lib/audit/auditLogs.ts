@@ -0,0 +1,186 @@
+import { headers } from 'next/headers';
+import { AppwriteException, ID, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { getSession } from '@/appwrite/getSession';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { getClientIp, getUserAgent } from '@/lib/utils/requestContext';
+import type { AuditLogDocument } from '@/lib/types/appwrite';
+import { computeAuditRecordHash, getAuditChainHead } from './hashChain';
+
+/**
+ * Audit Log Persistence
+ * Writes audit trail entries to COLLECTION_IDS.AUDIT_LOGS
+ *
+ * Deliberately not a "use server" module: entries may only be written by
+ * server code, never by a client invoking a server action directly.
+ */
+
+export type AuditAction = AuditLogDocument['action'];
+export type AuditResourceType = AuditLogDocument['resource_type'];
+export type AuditResult = AuditLogDocument['result'];
+
+export interface RecordAuditLogInput {
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  result: AuditResult;
+  /** Acting user; defaults to the session user of the current request */
+  userId?: string;
+  resourceId?: string;
+  fileHashes?: string[];
+  securityFlags?: string[];
+  tokenUsage?: number;
+  errorMessage?: string;
+  metadata?: Record<string, unknown>;
+  /** Override request-derived values (e.g. when no request is in scope) */
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Filters shared by the admin audit log list and export
+ */
+export interface AuditLogFilters {
+  action?: AuditAction;
+  result?: AuditResult;
+  userId?: string;
+  fromDate?: string; // ISO date or datetime, inclusive
+  toDate?: string; // ISO date or datetime, inclusive
+}
+
+// Attribute sizes from schema/database.schema.json (audit_logs)
+const MAX_IP_LENGTH = 45;
+const MAX_USER_AGENT_LENGTH = 500;
+const MAX_ERROR_LENGTH = 1000;
+const MAX_METADATA_LENGTH = 5000;
+const MAX_FLAG_LENGTH = 100;
+
+// Backoff between attempts to append to the hash chain after losing a sequence race
+const CHAIN_RETRY_BASE_MS = 20;
+const CHAIN_RETRY_MAX_MS = 1000;
+
+/**
+ * Persist an audit log entry
+ * Never throws - audit failures are logged and must not block the audited operation
+ * Entries are appended to the tamper-evident hash chain (see lib/audit/hashChain.ts);
+ * losing the race for a sequence is retried with backoff until the entry is stored
+ *
+ * @param input - Audit entry
+ * @returns Created document, or null if it could not be written
+ *
+ * @example
+ * await recordAuditLog({
+ *   action: 'update_claim',
+ *   resourceType: 'claim',
+ *   resourceId: reportId,
+ *   result: 'success',
+ *   metadata: { status: 'approved' },
+ * });
+ */
+export async function recordAuditLog(
+  input: RecordAuditLogInput
+): Promise<AuditLogDocument | null> {
+  try {
+    const context = await getRequestContext();
+    const userId = input.userId ?? (await getSessionUserId());
+
+    const metadata = input.metadata ? JSON.stringify(input.metadata) : undefined;
+
+    const entry = {
+      user_id: userId,
+      action: input.action,
+      resource_type: input.resourceType,
+      resource_id: input.resourceId,
+      result: input.result,
+      file_hashes: input.fileHashes ?? [],
+      security_flags: (input.securityFlags ?? []).map((flag) => flag.slice(0, MAX_FLAG_LENGTH)),
+      token_usage: input.tokenUsage,
+      ip_address: (input.ipAddress ?? context.ipAddress)?.slice(0, MAX_IP_LENGTH),
+      user_agent: (input.userAgent ?? context.userAgent)?.slice(0, MAX_USER_AGENT_LENGTH),
+      error_message: input.errorMessage?.slice(0, MAX_ERROR_LENGTH),
+      metadata: metadata && metadata.length <= MAX_METADATA_LENGTH ? metadata : undefined,
+    };
+
+    const { databases } = await adminAction();
+
+    // Append to the hash chain; a concurrent writer taking the same sequence
+    // fails the unique index, in which case back off, re-read the head and retry
+    for (let attempt = 1; ; attempt++) {
+      const head = await getAuditChainHead();
+      const chained = {
+        ...entry,
+        sequence: head.sequence + 1,
+        recorded_at: new Date().toISOString(),
+        previous_hash: head.hash,
+      };
+
+      try {
+        return await databases.createDocument<AuditLogDocument>(
+          DATABASE_ID,
+          COLLECTION_IDS.AUDIT_LOGS,
+          ID.unique(),
+          { ...chained, record_hash: await computeAuditRecordHash(chained) }
+        );
+      } catch (error) {
+        const conflict = error instanceof AppwriteException && error.code === 409;
+        if (!conflict) throw error;
+      }
+
+      // Exponential backoff with jitter, so writers that collided do not collide again
+      const backoff = Math.min(CHAIN_RETRY_MAX_MS, CHAIN_RETRY_BASE_MS * 2 ** attempt);
+      await new Promise((resolve) => setTimeout(resolve, backoff / 2 + Math.random() * (backoff / 2)));
+    }
+  } catch (error) {
+    console.error('❌ Failed to persist audit log:', error);
+    return null;
+  }
+}
+
+/**
+ * Build Appwrite queries for audit log filters
+ *
+ * @param filters - Admin filters
+ * @returns Queries (without ordering or pagination)
+ */
+export function buildAuditLogQueries(filters: AuditLogFilters = {}): string[] {
+  const queries: string[] = [];
+
+  if (filters.action) queries.push(Query.equal('action', filters.action));
+  if (filters.result) queries.push(Query.equal('result', filters.result));
+  if (filters.userId) queries.push(Query.equal('user_id', filters.userId));
+  if (filters.fromDate) {
+    queries.push(Query.greaterThanEqual('$createdAt', new Date(filters.fromDate).toISOString()));
+  }
+  if (filters.toDate) {
+    // A bare date (YYYY-MM-DD) covers the whole day
+    const toDate = /^\d{4}-\d{2}-\d{2}$/.test(filters.toDate)
+      ? new Date(`${filters.toDate}T23:59:59.999Z`)
+      : new Date(filters.toDate);
+    queries.push(Query.lessThanEqual('$createdAt', toDate.toISOString()));
+  }
+
+  return queries;
+}
+
+/**
+ * IP address and user agent of the current request (undefined outside a request)
+ */
+async function getRequestContext(): Promise<{ ipAddress?: string; userAgent?: string }> {
+  try {
+    const headerList = await headers();
+    return {
+      ipAddress: getClientIp(headerList),
+      userAgent: getUserAgent(headerList) || undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+async function getSessionUserId(): Promise<string | undefined> {
+  try {
+    const session = await getSession();
+    return session?.id;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,173 @@
+import { Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { hashFileContent } from '@/lib/gemini/utils/auditLog';
+import type { AuditLogDocument } from '@/lib/types/appwrite';
+
+/**
+ * Audit Log Hash Chain
+ * Each audit record stores the SHA-256 of its own canonical content plus the
+ * previous record's hash, so editing, deleting or reordering any stored record
+ * breaks every link after it.
+ *
+ * The unique index on `sequence` serialises writers: two entries racing for the
+ * same position cannot both be stored (see recordAuditLog).
+ */
+
+/** previous_hash of the first record in the chain */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Audit log fields covered by the record hash, in canonical order
+ */
+const CHAINED_FIELDS = [
+  'sequence',
+  'recorded_at',
+  'previous_hash',
+  'user_id',
+  'action',
+  'resource_type',
+  'resource_id',
+  'result',
+  'file_hashes',
+  'security_flags',
+  'token_usage',
+  'ip_address',
+  'user_agent',
+  'error_message',
+  'metadata',
+] as const;
+
+export type ChainedAuditFields = Pick<AuditLogDocument, (typeof CHAINED_FIELDS)[number]>;
+
+export type ChainBreakReason = 'sequence_gap' | 'previous_hash_mismatch' | 'record_hash_mismatch';
+
+export interface AuditChainVerification {
+  valid: boolean;
+  /** Number of chained records checked */
+  checkedCount: number;
+  /** Hash of the newest record; compare with an externally stored copy to detect truncation */
+  headHash: string;
+  headSequence: number;
+  /** Set when valid is false */
+  firstBrokenLink?: {
+    documentId: string;
+    sequence: number;
+    reason: ChainBreakReason;
+    expected: string;
+    actual: string;
+  };
+}
+
+const VERIFY_PAGE_SIZE = 100;
+
+/**
+ * Compute the record hash for an audit entry
+ * Missing values are normalised to null/[] so the hash of a stored document matches
+ * the hash computed before it was written
+ *
+ * @param fields - Chained fields, including sequence, recorded_at and previous_hash
+ * @returns Hex-encoded SHA-256
+ */
+export async function computeAuditRecordHash(fields: ChainedAuditFields): Promise<string> {
+  const canonical = CHAINED_FIELDS.map((key) => {
+    const value = fields[key];
+    if (key === 'file_hashes' || key === 'security_flags') {
+      return [key, (value as string[] | undefined) ?? []];
+    }
+    return [key, value ?? null];
+  });
+
+  return hashFileContent(JSON.stringify(canonical));
+}
+
+/**
+ * Latest record in the chain, used as the previous link for the next entry
+ *
+ * @returns Sequence and hash of the chain head (sequence 0 and GENESIS_HASH for an empty chain)
+ */
+export async function getAuditChainHead(): Promise<{ sequence: number; hash: string }> {
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<AuditLogDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.AUDIT_LOGS,
+    [Query.isNotNull('sequence'), Query.orderDesc('sequence'), Query.limit(1)]
+  );
+
+  const head = result.documents[0];
+  if (!head?.sequence || !head.record_hash) {
+    return { sequence: 0, hash: GENESIS_HASH };
+  }
+  return { sequence: head.sequence, hash: head.record_hash };
+}
+
+/**
+ * Walk the audit chain from the first record and report the first broken link
+ * Entries written before chaining was introduced (no sequence) are skipped.
+ *
+ * @returns Verification result
+ *
+ * @example
+ * const result = await verifyAuditLogChain();
+ * if (!result.valid) {
+ *   console.error(`Audit chain broken at #${result.firstBrokenLink?.sequence}`);
+ * }
+ */
+export async function verifyAuditLogChain(): Promise<AuditChainVerification> {
+  const { databases } = await adminAction();
+
+  let expectedSequence = 1;
+  let previousHash = GENESIS_HASH;
+  let checkedCount = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const result = await databases.listDocuments<AuditLogDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.AUDIT_LOGS,
+      [
+        Query.isNotNull('sequence'),
+        Query.orderAsc('sequence'),
+        Query.limit(VERIFY_PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    for (const record of result.documents) {
+      const sequence = record.sequence ?? 0;
+      const broken = (reason: ChainBreakReason, expected: string, actual: string): AuditChainVerification => ({
+        valid: false,
+        checkedCount,
+        headHash: previousHash,
+        headSequence: expectedSequence - 1,
+        firstBrokenLink: { documentId: record.$id, sequence, reason, expected, actual },
+      });
+
+      if (sequence !== expectedSequence) {
+        return broken('sequence_gap', String(expectedSequence), String(sequence));
+      }
+      if (record.previous_hash !== previousHash) {
+        return broken('previous_hash_mismatch', previousHash, record.previous_hash ?? '');
+      }
+
+      const recordHash = await computeAuditRecordHash(record);
+      if (record.record_hash !== recordHash) {
+        return broken('record_hash_mismatch', recordHash, record.record_hash ?? '');
+      }
+
+      checkedCount++;
+      expectedSequence++;
+      previousHash = recordHash;
+    }
+
+    if (result.documents.length < VERIFY_PAGE_SIZE) break;
+    cursor = result.documents[result.documents.length - 1].$id;
+  }
+
+  return {
+    valid: true,
+    checkedCount,
+    headHash: previousHash,
+    headSequence: expectedSequence - 1,
+  };
+}
@@ -0,0 +1,181 @@
+import type { ReportAssessmentDocument, ReportDamageDetailDocument, ReportDocument } from '@/lib/types/appwrite';
+
+/**
+ * Adjuster Overrides
+ * Adjusters correct the AI estimate per damage line (re-price, repair/replace,
+ * remove, add) and may override covered amount and deductible. AI values are
+ * never overwritten - overrides live in the adjusted_* attributes.
+ *
+ * Totals are recomputed from the per-line difference to the AI estimate, so
+ * costs the model included without itemising (labour, paint) are preserved.
+ */
+
+export type DamageLineCostFields = Pick<
+  ReportDamageDetailDocument,
+  'estimated_repair_cost' | 'adjusted_repair_cost' | 'is_removed' | 'is_adjuster_added'
+>;
+
+export interface RepairCostRange {
+  low: number;
+  high: number;
+}
+
+export interface AdjustedFinancials {
+  totalRepairEstimate: number;
+  coveredAmount: number;
+  deductible: number;
+  estimatedPayout: number;
+}
+
+export interface ReportFinancials extends AdjustedFinancials {
+  nonCoveredItems: number;
+  adjusted: boolean; // Whether adjuster overrides are applied
+}
+
+export interface FinancialOverrides {
+  coveredAmount?: number | null;
+  deductible?: number | null;
+}
+
+/**
+ * Parse an AI cost estimate such as "$500 - $800" or "€1,200"
+ *
+ * @param text - estimated_repair_cost value
+ * @returns Low/high bounds (equal for a single amount), or null if no amount is found
+ *
+ * @example
+ * parseRepairCostRange('$500 - $800') // { low: 500, high: 800 }
+ */
+export function parseRepairCostRange(text: string | undefined | null): RepairCostRange | null {
+  if (!text) return null;
+
+  const range = text.match(/[$£€]?([\d,]+(?:\.\d+)?)\s*[-–]\s*[$£€]?([\d,]+(?:\.\d+)?)/);
+  if (range) {
+    return {
+      low: parseFloat(range[1].replace(/,/g, '')),
+      high: parseFloat(range[2].replace(/,/g, '')),
+    };
+  }
+
+  const single = text.match(/[$£€]?([\d,]+(?:\.\d+)?)/);
+  if (single) {
+    const amount = parseFloat(single[1].replace(/,/g, ''));
+    return { low: amount, high: amount };
+  }
+
+  return null;
+}
+
+/**
+ * AI cost of a damage line (midpoint of its range; 0 for adjuster-added lines)
+ */
+export function getAiLineCost(detail: DamageLineCostFields): number {
+  if (detail.is_adjuster_added) return 0;
+  const range = parseRepairCostRange(detail.estimated_repair_cost);
+  return range ? roundCurrency((range.low + range.high) / 2) : 0;
+}
+
+/**
+ * Cost of a damage line after adjuster overrides (0 once removed)
+ */
+export function getEffectiveLineCost(detail: DamageLineCostFields): number {
+  if (detail.is_removed) return 0;
+  return detail.adjusted_repair_cost ?? getAiLineCost(detail);
+}
+
+/**
+ * Whether an adjuster changed a damage line
+ */
+export function isDamageLineAdjusted(
+  detail: DamageLineCostFields & Pick<ReportDamageDetailDocument, 'adjusted_repair_or_replace'>
+): boolean {
+  return (
+    !!detail.is_removed ||
+    !!detail.is_adjuster_added ||
+    detail.adjusted_repair_cost != null ||
+    detail.adjusted_repair_or_replace != null
+  );
+}
+
+/**
+ * Recompute the financial breakdown from adjusted damage lines
+ *
+ * @param aiTotal - AI estimated_total_repair_cost / total_repair_estimate
+ * @param aiAssessment - AI financial breakdown (null when no policy was analysed)
+ * @param lines - Non-inferred damage lines, including removed and adjuster-added ones
+ * @param overrides - Adjuster's covered amount / deductible (null or undefined keeps the derived value)
+ * @returns Adjusted totals; payout is covered amount minus deductible, never negative
+ *
+ * @example
+ * // AI: total 1000, covered 900, deductible 200; bumper re-priced from "$400 - $600" to 800
+ * computeAdjustedFinancials(1000, assessment, lines, {})
+ * // { totalRepairEstimate: 1300, coveredAmount: 1200, deductible: 200, estimatedPayout: 1000 }
+ */
+export function computeAdjustedFinancials(
+  aiTotal: number,
+  aiAssessment: Pick<ReportAssessmentDocument, 'covered_amount' | 'deductible'> | null,
+  lines: DamageLineCostFields[],
+  overrides: FinancialOverrides = {}
+): AdjustedFinancials {
+  const delta = lines.reduce(
+    (sum, line) => sum + getEffectiveLineCost(line) - getAiLineCost(line),
+    0
+  );
+
+  const totalRepairEstimate = Math.max(0, aiTotal + delta);
+  const coveredAmount =
+    overrides.coveredAmount ??
+    (aiAssessment ? Math.max(0, aiAssessment.covered_amount + delta) : totalRepairEstimate);
+  const deductible = overrides.deductible ?? aiAssessment?.deductible ?? 0;
+
+  return {
+    totalRepairEstimate: roundCurrency(totalRepairEstimate),
+    coveredAmount: roundCurrency(coveredAmount),
+    deductible: roundCurrency(deductible),
+    estimatedPayout: roundCurrency(Math.max(0, coveredAmount - deductible)),
+  };
+}
+
+/**
+ * Financials of a report's policy assessment, after adjuster overrides when there are any
+ * Same figures as the report page, PDF and export.
+ *
+ * @param report - Report (adjusted_total_repair_cost marks an adjusted report)
+ * @param assessment - Policy assessment (null when no policy was analysed)
+ * @param damageDetails - The report's damage lines, including inferred ones
+ * @returns Financials, or null without an assessment
+ */
+export function getReportFinancials(
+  report: Pick<ReportDocument, 'adjusted_total_repair_cost'>,
+  assessment: ReportAssessmentDocument | null,
+  damageDetails: Array<DamageLineCostFields & Pick<ReportDamageDetailDocument, 'is_inferred'>>
+): ReportFinancials | null {
+  if (!assessment) return null;
+
+  if (report.adjusted_total_repair_cost == null) {
+    return {
+      totalRepairEstimate: assessment.total_repair_estimate,
+      coveredAmount: assessment.covered_amount,
+      deductible: assessment.deductible,
+      nonCoveredItems: assessment.non_covered_items,
+      estimatedPayout: assessment.estimated_payout,
+      adjusted: false,
+    };
+  }
+
+  const adjusted = computeAdjustedFinancials(
+    assessment.total_repair_estimate,
+    assessment,
+    damageDetails.filter((detail) => !detail.is_inferred),
+    { coveredAmount: assessment.adjusted_covered_amount, deductible: assessment.adjusted_deductible }
+  );
+  return {
+    ...adjusted,
+    nonCoveredItems: roundCurrency(Math.max(0, adjusted.totalRepairEstimate - adjusted.coveredAmount)),
+    adjusted: true,
+  };
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
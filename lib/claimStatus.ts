@@ -0,0 +1,59 @@
+import type { ClaimStatus } from '@/lib/types/appwrite';
+
+/**
+ * Claim Lifecycle
+ * Allowed claim_status transitions, shared by updateReportStatus (enforcement)
+ * and the report page (which transitions to offer)
+ *
+ * pending → analyzed → needs_investigation → approved | partial | denied
+ * Decided claims can only be reopened into needs_investigation.
+ */
+
+export const CLAIM_STATUS_TRANSITIONS: Record<ClaimStatus, readonly ClaimStatus[]> = {
+  pending: ['analyzed', 'needs_investigation', 'denied'],
+  analyzed: ['needs_investigation', 'approved', 'partial', 'denied'],
+  needs_investigation: ['analyzed', 'approved', 'partial', 'denied'],
+  approved: ['needs_investigation'],
+  partial: ['needs_investigation'],
+  denied: ['needs_investigation'],
+};
+
+/** Statuses that close a claim; leaving one of them is a reopen */
+export const DECIDED_CLAIM_STATUSES: readonly ClaimStatus[] = ['approved', 'partial', 'denied'];
+
+/**
+ * Check whether a claim may move between two statuses
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns True if the transition is in CLAIM_STATUS_TRANSITIONS
+ *
+ * @example
+ * canTransitionClaimStatus('denied', 'pending') // false
+ * canTransitionClaimStatus('denied', 'needs_investigation') // true (reopen)
+ */
+export function canTransitionClaimStatus(from: ClaimStatus, to: ClaimStatus): boolean {
+  return CLAIM_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Whether a transition must be justified with a reason
+ * Denials and reopening a decided claim always need one
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns True if a reason is required
+ */
+export function isTransitionReasonRequired(from: ClaimStatus, to: ClaimStatus): boolean {
+  return to === 'denied' || DECIDED_CLAIM_STATUSES.includes(from);
+}
+
+/**
+ * Human-readable status label
+ *
+ * @example
+ * formatClaimStatus('needs_investigation') // "needs investigation"
+ */
+export function formatClaimStatus(status: ClaimStatus): string {
+  return status.replace(/_/g, ' ');
+}
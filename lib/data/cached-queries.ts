@@ -7,7 +7,8 @@ import { isAppwriteClient } from "@/lib/types/appwrite";
 import { withRetry } from "@/lib/utils/retry";
 import { DATABASE_ID, COLLECTION_IDS, STORAGE_BUCKET_ID } from "@/lib/env";
 import { Query } from "node-appwrite";
-import type { UserDocument, ReportDocument, PolicyInfo, NotificationDocument, NewsPostDocument } from "@/lib/types/appwrite";
+import { toCorrectedPolicyTerms, toPolicyTerms } from "@/lib/policy/policyLibrary";
+import type { UserDocument, ReportDocument, PolicyDocument, PolicyInfo, NotificationDocument, NewsPostDocument } from "@/lib/types/appwrite";
 
 interface SessionUser {
   id: string;
@@ -179,24 +180,40 @@ export const getReportsCached = cache(
 
 /**
  * Cross-request cached user policies.
- * Fetches unique policy files from user's reports.
+ * Fetches the user's policy library plus unique policy files from user's reports
+ * (policies used before the library existed), with their extracted terms.
  */
 async function _fetchUserPolicies(userId: string): Promise<PolicyInfo[]> {
   try {
     const { databases, storage } = await adminAction();
 
-    const reportsResult = await databases.listDocuments<ReportDocument>(
-      DATABASE_ID,
-      COLLECTION_IDS.REPORTS,
-      [
-        Query.equal('user_id', userId),
-        Query.isNotNull('policy_file_id'),
-        Query.orderDesc('$createdAt'),
-        Query.limit(50),
-      ]
-    );
+    const [policiesResult, reportsResult] = await Promise.all([
+      databases.listDocuments<PolicyDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.POLICIES,
+        [
+          Query.equal('user_id', userId),
+          Query.orderDesc('$createdAt'),
+          Query.limit(50),
+        ]
+      ),
+      databases.listDocuments<ReportDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.REPORTS,
+        [
+          Query.equal('user_id', userId),
+          Query.isNotNull('policy_file_id'),
+          Query.orderDesc('$createdAt'),
+          Query.limit(50),
+        ]
+      ),
+    ]);
 
+    const policyDocuments = new Map(policiesResult.documents.map((policy) => [policy.file_id, policy]));
     const uniquePolicyIds = new Map<string, string>();
+    for (const policy of policiesResult.documents) {
+      uniquePolicyIds.set(policy.file_id, policy.$createdAt);
+    }
     for (const report of reportsResult.documents) {
       if (report.policy_file_id && !uniquePolicyIds.has(report.policy_file_id)) {
         uniquePolicyIds.set(report.policy_file_id, report.$createdAt);
@@ -219,12 +236,22 @@ async function _fetchUserPolicies(userId: string): Promise<PolicyInfo[]> {
       if (result.status === 'fulfilled') {
         const file = result.value;
         const url = `${process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT}/storage/buckets/${STORAGE_BUCKET_ID}/files/${fileId}/view?project=${process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID}`;
+        const policy = policyDocuments.get(fileId);
         policies.push({
           fileId,
           filename: file.name,
           size: file.sizeOriginal,
           uploadedAt,
           url,
+          ...(policy && {
+            policyId: policy.$id,
+            terms: policy.extraction_status === 'extracted' ? toPolicyTerms(policy) : null,
+            termsStatus: policy.extraction_status,
+            termsError: policy.extraction_error,
+            reviewedAt: policy.reviewed_at,
+            correctedTerms: toCorrectedPolicyTerms(policy),
+            correctedAt: policy.corrected_at,
+          }),
         });
       } else {
         console.warn(`Policy file ${fileId} not found, skipping`);
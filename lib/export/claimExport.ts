@@ -0,0 +1,383 @@
+import { Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { getFileUrl } from '@/appwrite/storage';
+import { DATABASE_ID, COLLECTION_IDS, STORAGE_BUCKET_ID } from '@/lib/env';
+import { computeAdjustedFinancials, getAiLineCost, getEffectiveLineCost } from '@/lib/claimAdjustments';
+import { formatReportResponse } from '@/lib/api/reportResponse';
+import { toCsvRow } from '@/lib/utils/csv';
+import type { ApiExportLineItem, ApiLineItemExportQuery, ApiReportBundle } from '@/lib/api/schemas';
+import type {
+  FullReportData,
+  ReportDamageDetailDocument,
+  ReportDocument,
+  ReportVehicleVerificationDocument,
+} from '@/lib/types/appwrite';
+
+/**
+ * Claim Exports
+ * Structured formats for adjuster systems: a per-report JSON bundle, an XML
+ * estimate and a CSV of line items across a company's reports. Line items and
+ * totals include adjuster overrides (lib/claimAdjustments.ts).
+ */
+
+export const ESTIMATE_XML_NAMESPACE = 'urn:vehicleclaim:estimate:1';
+
+/** Reports per line item CSV; narrow the date range beyond this */
+const MAX_CSV_REPORTS = 5000;
+const PAGE_SIZE = 100;
+
+const CSV_COLUMNS = [
+  'claim_number',
+  'report_id',
+  'submitted_at',
+  'claim_status',
+  'damage_type',
+  'line_number',
+  'part_name',
+  'severity',
+  'operation',
+  'description',
+  'ai_cost_range',
+  'ai_amount',
+  'adjusted_amount',
+  'amount',
+  'removed',
+  'adjuster_added',
+];
+
+type ExportTotals = ApiReportBundle['totals'];
+
+/**
+ * Priced line items of a report (inferred internal damages are left out)
+ *
+ * @param damageDetails - Damage details in sort order
+ * @returns Line items numbered from 1, including removed and adjuster-added lines
+ */
+export function toExportLineItems(damageDetails: ReportDamageDetailDocument[]): ApiExportLineItem[] {
+  return damageDetails
+    .filter((detail) => !detail.is_inferred)
+    .map((detail, index) => ({
+      lineNumber: index + 1,
+      partName: detail.part_name,
+      severity: detail.severity,
+      description: detail.description,
+      operation: detail.adjusted_repair_or_replace ?? detail.repair_or_replace ?? null,
+      aiCostRange: detail.is_adjuster_added ? null : detail.estimated_repair_cost || null,
+      aiAmount: getAiLineCost(detail),
+      adjustedAmount: detail.adjusted_repair_cost ?? null,
+      amount: getEffectiveLineCost(detail),
+      removed: !!detail.is_removed,
+      adjusterAdded: !!detail.is_adjuster_added,
+    }));
+}
+
+/**
+ * Build the JSON bundle of a report
+ * Includes the fraud assessment, so only hand it to the report's company.
+ *
+ * @param data - Report data from fetchFullReportData (access must already be checked)
+ * @returns Report bundle (reportBundleSchema in lib/api/schemas.ts)
+ *
+ * @example
+ * const data = await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, id);
+ * const bundle = await buildReportBundle(data);
+ */
+export async function buildReportBundle(data: FullReportData): Promise<ApiReportBundle> {
+  const { report, damageDetails, vehicleVerification, assessment } = data;
+  const media = await getMediaManifest(report.media_file_ids ?? []);
+
+  return {
+    format: 'vehicleclaim.report-bundle',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    report: formatReportResponse(data),
+    lineItems: toExportLineItems(damageDetails),
+    totals: getExportTotals(data),
+    vehicleVerification: vehicleVerification
+      ? {
+          status: vehicleVerification.verification_status,
+          confidenceScore: vehicleVerification.confidence_score,
+          videoVehicle: {
+            make: vehicleVerification.video_make,
+            model: vehicleVerification.video_model,
+            year: vehicleVerification.video_year,
+            color: vehicleVerification.video_color,
+            licensePlate: vehicleVerification.video_license_plate,
+            vin: vehicleVerification.video_vin,
+          },
+          policyVehicle: {
+            make: vehicleVerification.policy_make,
+            model: vehicleVerification.policy_model,
+            year: vehicleVerification.policy_year,
+            color: vehicleVerification.policy_color,
+            licensePlate: vehicleVerification.policy_license_plate,
+            vin: vehicleVerification.policy_vin,
+          },
+          // Stored comma-separated (see appwrite/createReport.ts)
+          mismatches: (vehicleVerification.mismatches ?? '')
+            .split(',')
+            .map((mismatch) => mismatch.trim())
+            .filter(Boolean),
+          notes: vehicleVerification.notes || null,
+        }
+      : null,
+    assessment: assessment
+      ? {
+          status: assessment.assessment_status,
+          coverageTypes: assessment.coverage_types ?? [],
+          deductibleTypes: assessment.deductible_types ?? [],
+          deductibleAmounts: assessment.deductible_amounts ?? [],
+          exclusions: assessment.exclusions ?? [],
+          coverageLimits: {
+            collision: assessment.coverage_limit_collision ?? null,
+            comprehensive: assessment.coverage_limit_comprehensive ?? null,
+            liability: assessment.coverage_limit_liability ?? null,
+          },
+          relevantPolicySections: assessment.relevant_policy_sections ?? [],
+          coveredDamages: assessment.covered_damages ?? [],
+          excludedDamages: assessment.excluded_damages ?? [],
+          reasoning: assessment.reasoning || null,
+          policyReferences: assessment.policy_references ?? [],
+          adjustmentNote: assessment.adjustment_note || null,
+        }
+      : null,
+    media,
+  };
+}
+
+/**
+ * Build the XML estimate of a report
+ * One <LineItem> per priced damage line; removed lines are kept with amount 0.
+ *
+ * @param data - Report data from fetchFullReportData (access must already be checked)
+ * @returns XML document (namespace ESTIMATE_XML_NAMESPACE)
+ */
+export function buildEstimateXml(data: FullReportData): string {
+  const { report, damageDetails, vehicleVerification } = data;
+  const totals = getExportTotals(data);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<Estimate xmlns="${ESTIMATE_XML_NAMESPACE}" version="1" exportedAt="${new Date().toISOString()}">`,
+    '  <Claim>',
+    xmlElement('ReportId', report.$id, 4),
+    xmlElement('ClaimNumber', report.claim_number, 4),
+    xmlElement('Status', report.claim_status, 4),
+    xmlElement('SubmittedAt', report.analysis_timestamp, 4),
+    xmlElement('DamageType', report.damage_type, 4),
+    xmlElement('DamageCause', report.damage_cause, 4),
+    xmlElement('Severity', report.overall_severity, 4),
+    xmlElement('RepairComplexity', report.estimated_repair_complexity, 4),
+    '  </Claim>',
+    ...getXmlVehicle(vehicleVerification),
+    '  <LineItems>',
+    ...toExportLineItems(damageDetails).flatMap((item) => [
+      `    <LineItem number="${item.lineNumber}" source="${item.adjusterAdded ? 'adjuster' : 'ai'}" removed="${item.removed}">`,
+      xmlElement('Part', item.partName, 6),
+      xmlElement('Severity', item.severity, 6),
+      xmlElement('Operation', item.operation, 6),
+      xmlElement('Description', item.description, 6),
+      xmlElement('AiCostRange', item.aiCostRange, 6),
+      xmlElement('AiAmount', item.aiAmount, 6),
+      xmlElement('AdjustedAmount', item.adjustedAmount, 6),
+      xmlElement('Amount', item.amount, 6),
+      '    </LineItem>',
+    ]),
+    '  </LineItems>',
+    `  <Totals adjusted="${totals.adjusted}">`,
+    xmlElement('RepairEstimate', totals.totalRepairEstimate, 4),
+    xmlElement('CoveredAmount', totals.coveredAmount, 4),
+    xmlElement('Deductible', totals.deductible, 4),
+    xmlElement('EstimatedPayout', totals.estimatedPayout, 4),
+    '  </Totals>',
+    '</Estimate>',
+  ];
+
+  return lines.filter(Boolean).join('\n') + '\n';
+}
+
+/**
+ * Build a CSV of the line items of a company's reports submitted in a date range
+ *
+ * @param companyId - Insurance company ID
+ * @param range - First and last submission day (YYYY-MM-DD, UTC, inclusive)
+ * @returns CSV text (one row per line item, oldest report first) or error
+ *
+ * @example
+ * const result = await exportLineItemsCsv(companyId, { from: '2025-01-01', to: '2025-01-31' });
+ */
+export async function exportLineItemsCsv(
+  companyId: string,
+  range: ApiLineItemExportQuery
+): Promise<{ success: boolean; data?: string; message?: string }> {
+  const { databases } = await adminAction();
+  const rows = [CSV_COLUMNS.join(',')];
+
+  let cursor: string | undefined;
+  let exported = 0;
+  do {
+    const reports = await databases.listDocuments<ReportDocument>(DATABASE_ID, COLLECTION_IDS.REPORTS, [
+      Query.equal('insurance_company_id', companyId),
+      Query.greaterThanEqual('analysis_timestamp', `${range.from}T00:00:00.000Z`),
+      Query.lessThanEqual('analysis_timestamp', `${range.to}T23:59:59.999Z`),
+      Query.orderAsc('analysis_timestamp'),
+      Query.select(['$id', 'claim_number', 'claim_status', 'damage_type', 'analysis_timestamp']),
+      ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      Query.limit(PAGE_SIZE),
+    ]);
+
+    exported += reports.documents.length;
+    if (exported > MAX_CSV_REPORTS) {
+      return {
+        success: false,
+        message: `More than ${MAX_CSV_REPORTS} reports in this range; export a shorter period`,
+      };
+    }
+
+    const details = await listDamageDetails(reports.documents.map((report) => report.$id));
+    for (const report of reports.documents) {
+      const items = toExportLineItems(details.filter((detail) => detail.claim_id === report.$id));
+      for (const item of items) {
+        rows.push(
+          toCsvRow([
+            report.claim_number,
+            report.$id,
+            report.analysis_timestamp,
+            report.claim_status,
+            report.damage_type,
+            item.lineNumber,
+            item.partName,
+            item.severity,
+            item.operation,
+            item.description,
+            item.aiCostRange,
+            item.aiAmount,
+            item.adjustedAmount,
+            item.amount,
+            item.removed,
+            item.adjusterAdded,
+          ])
+        );
+      }
+    }
+
+    cursor = reports.documents.length === PAGE_SIZE ? reports.documents[PAGE_SIZE - 1].$id : undefined;
+  } while (cursor);
+
+  return { success: true, data: rows.join('\r\n') + '\r\n' };
+}
+
+/**
+ * Damage details of several reports, in sort order per report
+ */
+async function listDamageDetails(reportIds: string[]): Promise<ReportDamageDetailDocument[]> {
+  if (reportIds.length === 0) return [];
+
+  const { databases } = await adminAction();
+  const details: ReportDamageDetailDocument[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await databases.listDocuments<ReportDamageDetailDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.REPORT_DAMAGE_DETAILS,
+      [
+        Query.equal('claim_id', reportIds),
+        Query.orderAsc('sort_order'),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+        Query.limit(PAGE_SIZE),
+      ]
+    );
+    details.push(...page.documents);
+    cursor = page.documents.length === PAGE_SIZE ? page.documents[PAGE_SIZE - 1].$id : undefined;
+  } while (cursor);
+
+  return details;
+}
+
+/**
+ * Stored details of a report's media files (missing files keep only their ID and URL)
+ */
+async function getMediaManifest(fileIds: string[]): Promise<ApiReportBundle['media']> {
+  const { storage } = await adminAction();
+  const files = await Promise.allSettled(fileIds.map((fileId) => storage.getFile(STORAGE_BUCKET_ID, fileId)));
+
+  return Promise.all(
+    files.map(async (file, index) => {
+      const stored = file.status === 'fulfilled' ? file.value : null;
+      return {
+        fileId: fileIds[index],
+        name: stored?.name ?? null,
+        mimeType: stored?.mimeType ?? null,
+        sizeBytes: stored?.sizeOriginal ?? null,
+        checksum: stored?.signature || null,
+        uploadedAt: stored?.$createdAt ?? null,
+        url: await getFileUrl(fileIds[index]),
+      };
+    })
+  );
+}
+
+/**
+ * Totals after adjuster overrides (same figures as the report page and PDF)
+ */
+function getExportTotals({ report, damageDetails, assessment }: FullReportData): ExportTotals {
+  if (report.adjusted_total_repair_cost != null) {
+    const aiTotal = assessment?.total_repair_estimate ?? report.estimated_total_repair_cost;
+    const adjusted = computeAdjustedFinancials(
+      aiTotal,
+      assessment,
+      damageDetails.filter((detail) => !detail.is_inferred),
+      { coveredAmount: assessment?.adjusted_covered_amount, deductible: assessment?.adjusted_deductible }
+    );
+    return {
+      ...adjusted,
+      ...(assessment ? {} : { coveredAmount: null, deductible: null, estimatedPayout: null }),
+      adjusted: true,
+    };
+  }
+
+  return {
+    totalRepairEstimate: assessment?.total_repair_estimate ?? report.estimated_total_repair_cost,
+    coveredAmount: assessment?.covered_amount ?? null,
+    deductible: assessment?.deductible ?? null,
+    estimatedPayout: assessment?.estimated_payout ?? null,
+    adjusted: false,
+  };
+}
+
+/**
+ * <Vehicle> of the XML estimate; policy details win over what was read from the media
+ */
+function getXmlVehicle(verification: ReportVehicleVerificationDocument | null): string[] {
+  if (!verification) return [];
+
+  return [
+    `  <Vehicle verification="${verification.verification_status}">`,
+    xmlElement('Make', verification.policy_make || verification.video_make, 4),
+    xmlElement('Model', verification.policy_model || verification.video_model, 4),
+    xmlElement('Year', verification.policy_year ?? verification.video_year, 4),
+    xmlElement('Color', verification.policy_color || verification.video_color, 4),
+    xmlElement('Vin', verification.policy_vin || verification.video_vin, 4),
+    xmlElement('LicensePlate', verification.policy_license_plate || verification.video_license_plate, 4),
+    '  </Vehicle>',
+  ];
+}
+
+/**
+ * Indented XML element, or an empty string for missing values (filtered out by the caller)
+ */
+function xmlElement(name: string, value: string | number | null | undefined, indent: number): string {
+  if (value == null || value === '') return '';
+  return `${' '.repeat(indent)}<${name}>${escapeXml(String(value))}</${name}>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
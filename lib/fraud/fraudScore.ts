@@ -0,0 +1,419 @@
+import type { EnhancedAutoDamageAnalysis, MetadataForensicsFlag, SecurityScanResult } from '@/lib/gemini/types';
+import type { RecycledMediaMatch } from '@/lib/media/recycledMedia';
+import type { MediaFingerprint } from '@/lib/media/fingerprint';
+
+/**
+ * Fraud Scoring
+ * Combines the fraud signals of an analysis - vehicle verification, damage age,
+ * rust, pre-existing damage, contamination - with the security scan of the
+ * uploads, their metadata forensics, evidence recycled from earlier claims (and
+ * videos that could not be checked for it) and the business rules of
+ * validateAutoDamageAnalysis into a single 0-100 score that explains which rules
+ * contributed.
+ *
+ * Each rule that applies adds up to its weight in points, scaled by how strongly
+ * it applies (a medium pre-existing damage risk adds half the weight). The total
+ * is capped at 100. Insurance companies tune the weights, the investigation
+ * threshold and auto-routing in fraud_scoring_configs (lib/fraud/scoringConfig.ts).
+ */
+
+export type FraudRiskLevel = SecurityScanResult['riskLevel'];
+
+export const FRAUD_SCORE_RULE_IDS = [
+  'vehicle_mismatch',
+  'vehicle_unverified',
+  'rust_fraud_indicator',
+  'damage_age',
+  'pre_existing_damage',
+  'damage_consistency',
+  'contamination',
+  'security_scan',
+  'recycled_media',
+  'video_frames_missing',
+  'media_metadata',
+  'ai_flagged_investigation',
+  'analysis_inconsistency',
+  'high_repair_cost',
+  'low_confidence',
+] as const;
+
+export type FraudScoreRuleId = (typeof FRAUD_SCORE_RULE_IDS)[number];
+
+/** Inputs of the score, collected from the analysis by collectFraudSignals */
+export interface FraudSignals {
+  verificationStatus: EnhancedAutoDamageAnalysis['vehicleVerification']['verificationStatus'] | null; // null without a policy
+  damageAge: NonNullable<EnhancedAutoDamageAnalysis['damageAgeAssessment']>['estimatedAge'] | null;
+  rustFraudIndicator: boolean;
+  preExistingDamageRisk: FraudRiskLevel | null; // null when none was detected
+  damageInconsistent: boolean;
+  contaminationRisk: FraudRiskLevel | null; // null when none was detected
+  contaminationObscuresDamage: boolean;
+  securityRisk: FraudRiskLevel | null; // null when the scan found nothing or did not run
+  recycledMedia: RecycledMediaMatch[]; // Evidence found in earlier claims, closest first
+  videosWithoutFrames: number; // Videos whose sampled frames were missing or undecodable
+  metadataFlags: MetadataForensicsFlag[]; // EXIF and container metadata checks of the uploads
+  flaggedReasons: string[]; // ValidationResult.flaggedReasons
+}
+
+export interface FraudScoreFactor {
+  rule: FraudScoreRuleId;
+  label: string;
+  points: number;
+  detail: string;
+}
+
+export interface FraudScore {
+  score: number;
+  factors: FraudScoreFactor[]; // Highest contribution first
+}
+
+export interface FraudScoringConfig {
+  weights: Record<FraudScoreRuleId, number>;
+  /** Scores at or above this route new claims to needs_investigation */
+  investigationThreshold: number;
+  autoRouteEnabled: boolean;
+}
+
+interface FraudScoreRule {
+  label: string;
+  description: string;
+  defaultWeight: number;
+  /** Strength (0-1) and explanation, or null when the rule does not apply */
+  evaluate: (signals: FraudSignals) => { strength: number; detail: string } | null;
+}
+
+export const MAX_FRAUD_RULE_WEIGHT = 100;
+
+const RISK_STRENGTH: Record<FraudRiskLevel, number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 1,
+};
+
+// validateAutoDamageAnalysis reasons that indicate an internally inconsistent analysis
+const INCONSISTENCY_REASONS = [
+  'severity_mismatch',
+  'inconsistent_cost',
+  'placeholder_hallucination',
+  'missing_mismatch_details',
+  'payout_exceeds_coverage',
+  'narrative_mismatch',
+  'incident_outside_policy_period',
+];
+
+export const FRAUD_SCORE_RULES: Record<FraudScoreRuleId, FraudScoreRule> = {
+  vehicle_mismatch: {
+    label: 'Vehicle mismatch',
+    description: 'The vehicle in the media does not match the policy vehicle',
+    defaultWeight: 35,
+    evaluate: (s) =>
+      s.verificationStatus === 'mismatched'
+        ? { strength: 1, detail: 'Vehicle in the media does not match the policy' }
+        : null,
+  },
+  vehicle_unverified: {
+    label: 'Vehicle not verified',
+    description: 'Plate or VIN not visible, or a match supported by too little evidence',
+    defaultWeight: 10,
+    evaluate: (s) => {
+      if (s.verificationStatus === 'insufficient_data') {
+        return { strength: 1, detail: 'License plate or VIN not visible' };
+      }
+      if (
+        s.flaggedReasons.includes('low_verification_confidence') ||
+        s.flaggedReasons.includes('insufficient_match_criteria')
+      ) {
+        return { strength: 0.5, detail: 'Vehicle match is weakly supported' };
+      }
+      return null;
+    },
+  },
+  rust_fraud_indicator: {
+    label: 'Rust at damage sites',
+    description: 'Corrosion at the claimed damage that is older than the incident',
+    defaultWeight: 25,
+    evaluate: (s) =>
+      s.rustFraudIndicator
+        ? { strength: 1, detail: 'Rust at the claimed damage is older than a fresh incident' }
+        : null,
+  },
+  damage_age: {
+    label: 'Old damage',
+    description: 'Damage estimated to be weeks (half weight) or months old',
+    defaultWeight: 20,
+    evaluate: (s) =>
+      s.damageAge === 'months_old'
+        ? { strength: 1, detail: 'Damage appears months old' }
+        : s.damageAge === 'weeks_old'
+          ? { strength: 0.5, detail: 'Damage appears weeks old' }
+          : null,
+  },
+  pre_existing_damage: {
+    label: 'Pre-existing damage',
+    description: 'Damage that predates the claimed incident, scaled by its risk level',
+    defaultWeight: 20,
+    evaluate: (s) =>
+      s.preExistingDamageRisk
+        ? {
+            strength: RISK_STRENGTH[s.preExistingDamageRisk],
+            detail: `Pre-existing damage detected (${s.preExistingDamageRisk} risk)`,
+          }
+        : null,
+  },
+  damage_consistency: {
+    label: 'Inconsistent damage ages',
+    description: 'Claimed damage mixes damage of different ages',
+    defaultWeight: 10,
+    evaluate: (s) =>
+      s.damageInconsistent
+        ? { strength: 1, detail: 'Claimed damage includes damage of different ages' }
+        : null,
+  },
+  contamination: {
+    label: 'Surface contamination',
+    description: 'Dirt or other contamination, full weight when it obscures the damage',
+    defaultWeight: 15,
+    evaluate: (s) => {
+      if (s.contaminationObscuresDamage) {
+        return { strength: 1, detail: 'Contamination obscures the damaged areas' };
+      }
+      return s.contaminationRisk
+        ? {
+            strength: RISK_STRENGTH[s.contaminationRisk],
+            detail: `Contamination detected (${s.contaminationRisk} risk)`,
+          }
+        : null;
+    },
+  },
+  security_scan: {
+    label: 'Manipulated uploads',
+    description: 'Prompt injection patterns found in the uploaded images or policy',
+    defaultWeight: 30,
+    evaluate: (s) =>
+      s.securityRisk
+        ? {
+            strength: RISK_STRENGTH[s.securityRisk],
+            detail: `Security scan found suspicious content (${s.securityRisk} risk)`,
+          }
+        : null,
+  },
+  recycled_media: {
+    label: 'Recycled media',
+    description: 'Photos or video frames found in earlier claims, 75% weight for near-duplicates',
+    defaultWeight: 60,
+    evaluate: (s) => {
+      const [closest] = s.recycledMedia;
+      if (!closest) return null;
+      const files = new Set(s.recycledMedia.map((match) => match.fileId)).size;
+      return {
+        strength: closest.matchType === 'exact' ? 1 : 0.75,
+        detail: `${files} ${files === 1 ? 'file matches' : 'files match'} ${describeRecycledSource(closest)}`,
+      };
+    },
+  },
+  video_frames_missing: {
+    label: 'Video not checked for recycling',
+    description: 'A video was submitted without usable sampled frames, so earlier claims could not be searched for it',
+    defaultWeight: 15,
+    evaluate: (s) =>
+      s.videosWithoutFrames > 0
+        ? {
+            strength: 1,
+            detail: `${s.videosWithoutFrames === 1 ? 'A video was' : `${s.videosWithoutFrames} videos were`} submitted without usable frames`,
+          }
+        : null,
+  },
+  media_metadata: {
+    label: 'Suspicious media metadata',
+    description: 'Editing software, old capture dates, stripped metadata or mixed devices, scaled by severity',
+    defaultWeight: 25,
+    evaluate: (s) => {
+      if (s.metadataFlags.length === 0) return null;
+      const [strongest] = [...s.metadataFlags].sort(
+        (a, b) => RISK_STRENGTH[b.severity] - RISK_STRENGTH[a.severity]
+      );
+      return { strength: RISK_STRENGTH[strongest.severity], detail: strongest.message };
+    },
+  },
+  ai_flagged_investigation: {
+    label: 'Flagged by the analysis',
+    description: 'The model recommended an investigation',
+    defaultWeight: 10,
+    evaluate: (s) =>
+      s.flaggedReasons.includes('ai_flagged_investigation')
+        ? { strength: 1, detail: 'Analysis recommended an investigation' }
+        : null,
+  },
+  analysis_inconsistency: {
+    label: 'Inconsistent analysis',
+    description: 'Severity, costs, payout, verification or incident details contradict each other',
+    defaultWeight: 10,
+    evaluate: (s) => {
+      const reasons = s.flaggedReasons.filter((reason) => INCONSISTENCY_REASONS.includes(reason));
+      return reasons.length > 0
+        ? { strength: 1, detail: `Inconsistencies: ${reasons.join(', ').replace(/_/g, ' ')}` }
+        : null;
+    },
+  },
+  high_repair_cost: {
+    label: 'High repair cost',
+    description: 'Estimate above the high risk cost threshold',
+    defaultWeight: 5,
+    evaluate: (s) =>
+      s.flaggedReasons.includes('high_repair_cost')
+        ? { strength: 1, detail: 'Repair estimate above the high risk threshold' }
+        : null,
+  },
+  low_confidence: {
+    label: 'Low confidence',
+    description: 'The analysis is not confident in its assessment',
+    defaultWeight: 5,
+    evaluate: (s) =>
+      s.flaggedReasons.includes('low_confidence')
+        ? { strength: 1, detail: 'Analysis confidence is low' }
+        : null,
+  },
+};
+
+// Claim numbers of other insurers' claims are not disclosed
+function describeRecycledSource(match: RecycledMediaMatch): string {
+  if (match.sameClaimant) {
+    return match.sameCompany
+      ? `the claimant's earlier claim ${match.matchedClaimNumber}`
+      : 'an earlier claim of the claimant with another insurer';
+  }
+  return match.sameCompany ? `claim ${match.matchedClaimNumber}` : 'a claim filed with another insurer';
+}
+
+export const DEFAULT_FRAUD_SCORING_CONFIG: FraudScoringConfig = {
+  weights: Object.fromEntries(
+    FRAUD_SCORE_RULE_IDS.map((id) => [id, FRAUD_SCORE_RULES[id].defaultWeight])
+  ) as Record<FraudScoreRuleId, number>,
+  investigationThreshold: 60,
+  autoRouteEnabled: true,
+};
+
+/**
+ * Collect the scoring inputs of an analysis
+ *
+ * @param analysis - Enhanced analysis as stored for the report
+ * @param context - Validation reasons, security scan risk, recycled media matches, metadata flags and whether a policy was compared
+ * @returns Signals for computeFraudScore
+ *
+ * @example
+ * const validation = await validateAutoDamageAnalysis(analysis);
+ * const signals = collectFraudSignals(analysis, {
+ *   flaggedReasons: validation.flaggedReasons,
+ *   securityRisk: 'medium',
+ *   hasPolicy: true,
+ * });
+ */
+export function collectFraudSignals(
+  analysis: EnhancedAutoDamageAnalysis,
+  context: {
+    flaggedReasons: string[];
+    securityRisk?: FraudRiskLevel | null;
+    recycledMedia?: RecycledMediaMatch[];
+    mediaFingerprints?: MediaFingerprint[];
+    metadataFlags?: MetadataForensicsFlag[];
+    hasPolicy: boolean;
+  }
+): FraudSignals {
+  // Frames are sampled by the client; a video without them escapes the perceptual check
+  const fingerprints = context.mediaFingerprints ?? [];
+  const framedVideoIds = new Set(
+    fingerprints.filter((fp) => fp.kind === 'video_frame' && fp.phash).map((fp) => fp.fileId)
+  );
+
+  const preExisting = analysis.preExistingDamageAssessment;
+  const contamination = analysis.contaminationAssessment;
+
+  return {
+    // Without a policy there is nothing to verify the vehicle against
+    verificationStatus: context.hasPolicy ? analysis.vehicleVerification.verificationStatus : null,
+    damageAge: analysis.damageAgeAssessment?.estimatedAge ?? null,
+    rustFraudIndicator: analysis.rustCorrosionAssessment?.fraudIndicator ?? false,
+    preExistingDamageRisk: preExisting?.preExistingDamageDetected ? preExisting.fraudRiskLevel : null,
+    damageInconsistent: preExisting?.damageConsistency === 'inconsistent',
+    contaminationRisk: contamination?.contaminationDetected ? contamination.fraudRiskLevel : null,
+    contaminationObscuresDamage: contamination?.contaminants?.some((c) => c.obscuresDamage) ?? false,
+    securityRisk: context.securityRisk ?? null,
+    recycledMedia: context.recycledMedia ?? [],
+    videosWithoutFrames: fingerprints.filter((fp) => fp.kind === 'video' && !framedVideoIds.has(fp.fileId)).length,
+    metadataFlags: context.metadataFlags ?? [],
+    flaggedReasons: context.flaggedReasons,
+  };
+}
+
+/**
+ * Score the fraud signals of a report
+ *
+ * @param signals - From collectFraudSignals
+ * @param weights - Points per rule (the company's config or the defaults)
+ * @returns Score from 0 to 100 with the contributing rules
+ *
+ * @example
+ * const { score, factors } = computeFraudScore(signals, DEFAULT_FRAUD_SCORING_CONFIG.weights);
+ * // score: 55, factors: [{ rule: 'vehicle_mismatch', points: 35, ... }, ...]
+ */
+export function computeFraudScore(
+  signals: FraudSignals,
+  weights: Record<FraudScoreRuleId, number>
+): FraudScore {
+  const factors: FraudScoreFactor[] = [];
+
+  for (const id of FRAUD_SCORE_RULE_IDS) {
+    const rule = FRAUD_SCORE_RULES[id];
+    const result = rule.evaluate(signals);
+    const points = result ? Math.round((weights[id] ?? rule.defaultWeight) * result.strength) : 0;
+    if (result && points > 0) {
+      factors.push({ rule: id, label: rule.label, points, detail: result.detail });
+    }
+  }
+
+  factors.sort((a, b) => b.points - a.points);
+  const total = factors.reduce((sum, factor) => sum + factor.points, 0);
+
+  return { score: Math.min(100, total), factors };
+}
+
+/**
+ * Merge saved weights with the rule defaults
+ * Unknown rules are dropped and weights are clamped to 0-100.
+ *
+ * @param weightsJson - weights_json of a fraud_scoring_configs document
+ * @returns Weight for every rule
+ */
+export function parseFraudScoreWeights(weightsJson: string | undefined | null): Record<FraudScoreRuleId, number> {
+  const weights = { ...DEFAULT_FRAUD_SCORING_CONFIG.weights };
+  if (!weightsJson) return weights;
+
+  try {
+    const saved = JSON.parse(weightsJson) as Record<string, unknown>;
+    for (const id of FRAUD_SCORE_RULE_IDS) {
+      const value = saved[id];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        weights[id] = Math.min(MAX_FRAUD_RULE_WEIGHT, Math.max(0, Math.round(value)));
+      }
+    }
+  } catch {
+    console.warn('⚠️ Ignoring unparseable fraud scoring weights');
+  }
+  return weights;
+}
+
+/**
+ * Read the factors stored on a report
+ *
+ * @param json - fraud_score_factors_json of a report's fraud assessment
+ * @returns Factors, or an empty list when missing or unparseable
+ */
+export function parseFraudScoreFactors(json: string | undefined | null): FraudScoreFactor[] {
+  if (!json) return [];
+  try {
+    const factors = JSON.parse(json);
+    return Array.isArray(factors) ? factors : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,60 @@
+import { Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { DEFAULT_FRAUD_SCORING_CONFIG, parseFraudScoreWeights, type FraudScoringConfig } from '@/lib/fraud/fraudScore';
+import type { FraudScoringConfigDocument } from '@/lib/types/appwrite';
+
+/**
+ * Fraud Scoring Configs
+ * Per-company rule weights and investigation threshold (fraud_scoring_configs
+ * collection). Companies without a config, and reports filed without a company,
+ * are scored with DEFAULT_FRAUD_SCORING_CONFIG.
+ */
+
+/**
+ * Config document of a company, if it has saved one
+ */
+export async function getFraudScoringConfigDocument(
+  companyId: string
+): Promise<FraudScoringConfigDocument | null> {
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<FraudScoringConfigDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.FRAUD_SCORING_CONFIGS,
+    [Query.equal('insurance_company_id', companyId), Query.limit(1)]
+  );
+  return result.documents[0] ?? null;
+}
+
+/**
+ * Scoring config of a config document, with defaults filled in
+ */
+export function toFraudScoringConfig(doc: FraudScoringConfigDocument | null): FraudScoringConfig {
+  return {
+    weights: parseFraudScoreWeights(doc?.weights_json),
+    investigationThreshold: doc?.investigation_threshold ?? DEFAULT_FRAUD_SCORING_CONFIG.investigationThreshold,
+    autoRouteEnabled: doc?.auto_route_enabled ?? DEFAULT_FRAUD_SCORING_CONFIG.autoRouteEnabled,
+  };
+}
+
+/**
+ * Resolve the scoring config for a new report
+ * A config that can't be loaded falls back to the defaults rather than failing the report.
+ *
+ * @param companyId - Insurance company of the report (undefined for unaffiliated reports)
+ * @returns Config with defaults filled in
+ *
+ * @example
+ * const config = await resolveFraudScoringConfig(insuranceCompanyId);
+ * const fraudScore = computeFraudScore(signals, config.weights);
+ */
+export async function resolveFraudScoringConfig(companyId: string | undefined): Promise<FraudScoringConfig> {
+  if (!companyId) return DEFAULT_FRAUD_SCORING_CONFIG;
+
+  try {
+    return toFraudScoringConfig(await getFraudScoringConfigDocument(companyId));
+  } catch (error) {
+    console.warn(`⚠️ Fraud scoring config of company ${companyId} could not be loaded:`, error);
+    return DEFAULT_FRAUD_SCORING_CONFIG;
+  }
+}
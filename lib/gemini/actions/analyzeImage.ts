@@ -1,7 +1,6 @@
 "use server";
 
-import { retryWithFallback } from "../utils/retryWithFallback";
-import { recordTokenUsage } from "../rateLimit/storage";
+import { getAnalysisProvider, type AnalysisClient } from "../providers";
 import { sanitizeGeminiError, isRateLimitError } from "../utils/sanitizeError";
 import { GEMINI_SAFETY_SETTINGS, SECURITY_CONFIG, RELAXED_CONSISTENCY_CONFIG } from "../constants";
 import { scanMultipleImagesForInjection } from "../security/contentScanner";
@@ -11,6 +10,7 @@ import type {
   GeminiResult,
   AutoDamageAnalysis,
   ImageMimeType,
+  SecurityScanResult,
 } from "../types";
 
 /**
@@ -18,13 +18,24 @@ import type {
  * Supports multiple angles for comprehensive assessment
  *
  * @param images - Array of image objects with base64 data and MIME type
- * @param options - Optional security scanning flag
+ * @param options - Optional security scanning flag, localization and the user the analysis
+ *                  is audited under (defaults to the session user)
  * @returns Structured damage analysis
  */
 export async function analyzeAutoDamageFromImages(
   images: Array<{ base64: string; mimeType: ImageMimeType; angle?: string }>,
-  options?: { scanForInjection?: boolean; userCountry?: string; userCurrency?: string; userCurrencySymbol?: string }
-): Promise<GeminiResult<{ analysis: AutoDamageAnalysis; securityWarnings?: string[] }>> {
+  options?: {
+    scanForInjection?: boolean;
+    userCountry?: string;
+    userCurrency?: string;
+    userCurrencySymbol?: string;
+    userId?: string;
+  }
+): Promise<GeminiResult<{
+  analysis: AutoDamageAnalysis;
+  securityWarnings?: string[];
+  securityRiskLevel?: SecurityScanResult['riskLevel'];
+}>> {
   try {
     // Validation: Check image count
     if (images.length === 0) {
@@ -44,6 +55,7 @@ export async function analyzeAutoDamageFromImages(
     // Security scanning (if enabled)
     let securityWarnings: string[] = [];
     let securityFlags: string[] = [];
+    let securityRiskLevel: SecurityScanResult['riskLevel'] | undefined;
 
     if (options?.scanForInjection ?? SECURITY_CONFIG.ENABLE_INJECTION_SCANNING) {
       const scanResult = await scanMultipleImagesForInjection(
@@ -52,6 +64,7 @@ export async function analyzeAutoDamageFromImages(
 
       if (scanResult.isSuspicious) {
         securityWarnings = scanResult.suspiciousPatterns;
+        securityRiskLevel = scanResult.riskLevel;
         securityFlags = [
           `Risk: ${scanResult.riskLevel}`,
           ...scanResult.suspiciousPatterns,
@@ -263,7 +276,7 @@ Provide thorough analysis based on visible damage across all ${images.length} im
     ];
 
     // Define the API call as a function
-    const apiCall = async (client: any, modelName: string) => {
+    const apiCall = async (client: AnalysisClient, modelName: string) => {
       console.log(`🎯 Attempting image analysis with model: ${modelName}`);
 
       const response = await client.models.generateContent({
@@ -341,10 +354,20 @@ Provide thorough analysis based on visible damage across all ${images.length} im
       };
     };
 
-    // Execute with automatic fallback
-    const result = await retryWithFallback(apiCall, 3000);
+    // Execute through the active provider (Gemini: automatic model fallback)
+    const provider = getAnalysisProvider();
+    const result = await provider.run(apiCall, 3000);
 
     if (!result.success) {
+      // Audit log the failed attempt
+      const failedAuditEntry = await createImageAnalysisAuditEntry(
+        images.map(img => img.base64),
+        'error',
+        [isRateLimitError(result.error) ? 'rate_limited' : 'analysis_failed'],
+        undefined
+      );
+      await logAnalysisRequest(failedAuditEntry, options?.userId);
+
       // All models failed
       if (isRateLimitError(result.error)) {
         return {
@@ -367,8 +390,8 @@ Provide thorough analysis based on visible damage across all ${images.length} im
     const { analysis, usage, validation } = result.result;
 
     // Record token usage
-    if (usage?.totalTokens) {
-      await recordTokenUsage(result.modelUsed, usage.totalTokens);
+    if (usage?.totalTokenCount) {
+      await provider.recordUsage(result.modelUsed, usage.totalTokenCount);
     }
 
     // Audit logging
@@ -376,9 +399,10 @@ Provide thorough analysis based on visible damage across all ${images.length} im
       images.map(img => img.base64),
       validation.requiresManualReview || securityFlags.length > 0 ? 'flagged' : 'success',
       securityFlags,
-      usage?.totalTokens
+      usage?.totalTokenCount,
+      result.modelUsed
     );
-    await logAnalysisRequest(auditEntry);
+    await logAnalysisRequest(auditEntry, options?.userId);
 
     console.log(`✅ Image analysis succeeded with model: ${result.modelUsed}`);
 
@@ -387,6 +411,7 @@ Provide thorough analysis based on visible damage across all ${images.length} im
       data: {
         analysis,
         ...(securityWarnings.length > 0 && { securityWarnings }),
+        ...(securityRiskLevel && { securityRiskLevel }),
       },
       usage,
       modelUsed: result.modelUsed,
@@ -402,7 +427,7 @@ Provide thorough analysis based on visible damage across all ${images.length} im
         ['analysis_failed'],
         undefined
       );
-      await logAnalysisRequest(auditEntry);
+      await logAnalysisRequest(auditEntry, options?.userId);
     } catch (auditError) {
       console.error("❌ Audit logging failed:", auditError);
     }
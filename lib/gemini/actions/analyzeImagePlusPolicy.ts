@@ -1,32 +1,54 @@
 "use server";
 
-import { retryWithFallback } from "../utils/retryWithFallback";
-import { recordTokenUsage } from "../rateLimit/storage";
+import { getAnalysisProvider, type AnalysisClient } from "../providers";
 import { sanitizeGeminiError, isRateLimitError } from "../utils/sanitizeError";
 import { GEMINI_SAFETY_SETTINGS, SECURITY_CONFIG, RELAXED_CONSISTENCY_CONFIG } from "../constants";
-import { scanMultipleImagesForInjection, scanPDFForInjection } from "../security/contentScanner";
+import { scanMultipleImagesForInjection, scanPDFForInjection, scanTextForInjection } from "../security/contentScanner";
 import { validateEnhancedAnalysis } from "../utils/validateResponse";
+import { buildIncidentContext } from "../utils/incidentContext";
+import { buildPolicyTermsContext } from "../utils/policyTermsContext";
 import { createPolicyAnalysisAuditEntry, logAnalysisRequest } from "../utils/auditLog";
 import type {
   GeminiResult,
   EnhancedAutoDamageAnalysis,
   ImageMimeType,
+  SecurityScanResult,
 } from "../types";
+import type { IncidentDetails } from "@/lib/incident";
+import type { PolicyTerms } from "@/lib/policy/policyTerms";
 
 /**
  * Analyze car damage images WITH insurance policy document
  * Performs cross-reference reasoning to determine claim validity with fraud prevention
  *
  * @param images - Array of image objects with base64 data
- * @param policyBase64 - Insurance policy PDF as base64
- * @param options - Optional security scanning flag
+ * @param policyBase64 - Insurance policy PDF as base64 (ignored when options.policyTerms is set)
+ * @param options - Optional security scanning flag, localization, the claimant's incident details,
+ *                  the policy's extracted terms, which are sent instead of the PDF, and the user
+ *                  the analysis is audited under (defaults to the session user)
  * @returns Enhanced analysis with claim assessment and vehicle verification
  */
 export async function analyzeAutoDamageWithPolicyFromImages(
   images: Array<{ base64: string; mimeType: ImageMimeType; angle?: string }>,
   policyBase64: string,
-  options?: { scanForInjection?: boolean; userCountry?: string; userCurrency?: string; userCurrencySymbol?: string }
-): Promise<GeminiResult<{ analysis: EnhancedAutoDamageAnalysis; securityWarnings?: string[] }>> {
+  options?: {
+    scanForInjection?: boolean;
+    userCountry?: string;
+    userCurrency?: string;
+    userCurrencySymbol?: string;
+    incident?: IncidentDetails;
+    policyTerms?: PolicyTerms;
+    userId?: string;
+  }
+): Promise<GeminiResult<{
+  analysis: EnhancedAutoDamageAnalysis;
+  securityWarnings?: string[];
+  securityRiskLevel?: SecurityScanResult['riskLevel'];
+}>> {
+  const policyTerms = options?.policyTerms;
+  // What the audit log hashes as the policy: the PDF, or the terms sent in its place
+  const policyAuditContent = policyTerms ? JSON.stringify(policyTerms) : policyBase64;
+
   try {
     // Validation: Check image count
     if (images.length === 0) {
@@ -46,6 +68,7 @@ export async function analyzeAutoDamageWithPolicyFromImages(
     // Security scanning (if enabled)
     let securityWarnings: string[] = [];
     let securityFlags: string[] = [];
+    const scanRiskLevels: SecurityScanResult['riskLevel'][] = [];
 
     if (options?.scanForInjection ?? SECURITY_CONFIG.ENABLE_INJECTION_SCANNING) {
       // Scan images
@@ -55,6 +78,7 @@ export async function analyzeAutoDamageWithPolicyFromImages(
 
       if (imageScanResult.isSuspicious) {
         securityWarnings.push(...imageScanResult.suspiciousPatterns.map(p => `Image: ${p}`));
+        scanRiskLevels.push(imageScanResult.riskLevel);
         securityFlags.push(
           `Image Risk: ${imageScanResult.riskLevel}`,
           ...imageScanResult.suspiciousPatterns.map(p => `img_${p}`)
@@ -65,11 +89,16 @@ export async function analyzeAutoDamageWithPolicyFromImages(
         console.warn("  Patterns:", imageScanResult.suspiciousPatterns);
       }
 
-      // Scan PDF
-      const pdfScanResult = await scanPDFForInjection(policyBase64);
+      // Scan PDF, or the terms' free text when they are sent instead (the policyholder can edit them)
+      const pdfScanResult = policyTerms
+        ? await scanTextForInjection(
+            [...policyTerms.coverages.map(coverage => coverage.label), ...policyTerms.exclusions].join("\n")
+          )
+        : await scanPDFForInjection(policyBase64);
 
       if (pdfScanResult.isSuspicious) {
         securityWarnings.push(...pdfScanResult.suspiciousPatterns.map(p => `PDF: ${p}`));
+        scanRiskLevels.push(pdfScanResult.riskLevel);
         securityFlags.push(
           `PDF Risk: ${pdfScanResult.riskLevel}`,
           ...pdfScanResult.suspiciousPatterns.map(p => `pdf_${p}`)
@@ -79,6 +108,27 @@ export async function analyzeAutoDamageWithPolicyFromImages(
         console.warn("  Risk Level:", pdfScanResult.riskLevel);
         console.warn("  Patterns:", pdfScanResult.suspiciousPatterns);
       }
+
+      // Scan the claimant's incident account
+      const incidentText = options?.incident
+        ? [options.incident.narrative, options.incident.location].filter(Boolean).join("\n")
+        : "";
+      if (incidentText) {
+        const incidentScanResult = await scanTextForInjection(incidentText);
+
+        if (incidentScanResult.isSuspicious) {
+          securityWarnings.push(...incidentScanResult.suspiciousPatterns.map(p => `Incident details: ${p}`));
+          scanRiskLevels.push(incidentScanResult.riskLevel);
+          securityFlags.push(
+            `Incident Risk: ${incidentScanResult.riskLevel}`,
+            ...incidentScanResult.suspiciousPatterns.map(p => `incident_${p}`)
+          );
+
+          console.warn("⚠️ Incident details scan detected suspicious patterns:");
+          console.warn("  Risk Level:", incidentScanResult.riskLevel);
+          console.warn("  Patterns:", incidentScanResult.suspiciousPatterns);
+        }
+      }
     }
 
     // Build enhanced prompt with security preamble
@@ -120,6 +170,9 @@ The policyholder is located in ${options.userCountry}.
 - Factor in ${options.userCountry} regional cost variations if applicable
 ` : '';
 
+    const INCIDENT_CONTEXT = buildIncidentContext(options?.incident);
+    const POLICY_CONTEXT = buildPolicyTermsContext(policyTerms);
+
     // Sort images for consistent ordering
     const sortedImages = [...images].sort((a, b) => {
       // Sort by angle if available, otherwise maintain original order
@@ -133,7 +186,7 @@ The policyholder is located in ${options.userCountry}.
       .join(', ');
 
     // Reuse the comprehensive prompt from analyzeVideoPlusPolicy.ts but adapted for images
-    const prompt = `${SECURITY_PREAMBLE}${CONSISTENCY_INSTRUCTION}${LOCALIZED_PRICING_CONTEXT}
+    const prompt = `${SECURITY_PREAMBLE}${CONSISTENCY_INSTRUCTION}${LOCALIZED_PRICING_CONTEXT}${POLICY_CONTEXT}${INCIDENT_CONTEXT}
 
 ═══════════════════════════════════════════════════════════════════
 CRITICAL ANTI-HALLUCINATION INSTRUCTION - READ FIRST
@@ -629,7 +682,7 @@ Do NOT invent other key names. Omit a key entirely if that coverage type is abse
 6. Consider edge cases (pre-existing damage, multiple causes, etc.)
 7. Return ONLY the JSON object (no markdown formatting)`;
 
-    // Build content parts with all images + PDF
+    // Build content parts with all images + PDF (unless its terms are in the prompt)
     const contentParts = [
       { text: prompt },
       ...sortedImages.map(img => ({
@@ -638,16 +691,16 @@ Do NOT invent other key names. Omit a key entirely if that coverage type is abse
           data: img.base64,
         },
       })),
-      {
+      ...(policyTerms ? [] : [{
         inlineData: {
           mimeType: 'application/pdf',
           data: policyBase64,
         },
-      },
+      }]),
     ];
 
     // Define the API call as a function
-    const apiCall = async (client: any, modelName: string) => {
+    const apiCall = async (client: AnalysisClient, modelName: string) => {
       console.log(`🎯 Attempting image+policy analysis with model: ${modelName}`);
 
       const response = await client.models.generateContent({
@@ -739,7 +792,10 @@ Do NOT invent other key names. Omit a key entirely if that coverage type is abse
       }
 
       // Validate response against business rules
-      const validation = await validateEnhancedAnalysis(analysis);
+      const validation = await validateEnhancedAnalysis(analysis, {
+        policyTerms,
+        incidentDate: options?.incident?.occurredAt,
+      });
 
       if (validation.warnings.length > 0) {
         console.warn("⚠️ Validation warnings:");
@@ -760,10 +816,21 @@ Do NOT invent other key names. Omit a key entirely if that coverage type is abse
       };
     };
 
-    // Execute with automatic fallback
-    const result = await retryWithFallback(apiCall, 13000);
+    // Execute through the active provider (Gemini: automatic model fallback)
+    const provider = getAnalysisProvider();
+    const result = await provider.run(apiCall, 13000);
 
     if (!result.success) {
+      // Audit log the failed attempt
+      const failedAuditEntry = await createPolicyAnalysisAuditEntry(
+        images.map(img => img.base64),
+        policyAuditContent,
+        'error',
+        [isRateLimitError(result.error) ? 'rate_limited' : 'analysis_failed'],
+        undefined
+      );
+      await logAnalysisRequest(failedAuditEntry, options?.userId);
+
       // All models failed
       if (isRateLimitError(result.error)) {
         return {
@@ -786,27 +853,32 @@ Do NOT invent other key names. Omit a key entirely if that coverage type is abse
     const { analysis, usage, validation } = result.result;
 
     // Record token usage
-    if (usage?.totalTokens) {
-      await recordTokenUsage(result.modelUsed, usage.totalTokens);
+    if (usage?.totalTokenCount) {
+      await provider.recordUsage(result.modelUsed, usage.totalTokenCount);
     }
 
     // Audit logging
     const auditEntry = await createPolicyAnalysisAuditEntry(
       images.map(img => img.base64),
-      policyBase64,
+      policyAuditContent,
       validation.requiresManualReview || securityFlags.length > 0 ? 'flagged' : 'success',
       securityFlags,
-      usage?.totalTokens
+      usage?.totalTokenCount,
+      result.modelUsed
     );
-    await logAnalysisRequest(auditEntry);
+    await logAnalysisRequest(auditEntry, options?.userId);
 
     console.log(`✅ Image+policy analysis succeeded with model: ${result.modelUsed}`);
 
+    // Highest risk of the image and PDF scans
+    const securityRiskLevel = (['high', 'medium', 'low'] as const).find(level => scanRiskLevels.includes(level));
+
     return {
       success: true,
       data: {
         analysis,
         ...(securityWarnings.length > 0 && { securityWarnings }),
+        ...(securityRiskLevel && { securityRiskLevel }),
       },
       usage,
       modelUsed: result.modelUsed,
@@ -818,12 +890,12 @@ Do NOT invent other key names. Omit a key entirely if that coverage type is abse
     try {
       const auditEntry = await createPolicyAnalysisAuditEntry(
         images.map(img => img.base64),
-        policyBase64,
+        policyAuditContent,
         'error',
         ['analysis_failed'],
         undefined
       );
-      await logAnalysisRequest(auditEntry);
+      await logAnalysisRequest(auditEntry, options?.userId);
     } catch (auditError) {
       console.error("❌ Audit logging failed:", auditError);
     }
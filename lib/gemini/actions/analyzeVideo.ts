@@ -1,9 +1,9 @@
 "use server";
 
-import { retryWithFallback } from "../utils/retryWithFallback";
-import { recordTokenUsage } from "../rateLimit/storage";
+import { getAnalysisProvider, type AnalysisClient } from "../providers";
 import { fileToBase64 } from "../utils/fileToBase64";
 import { sanitizeGeminiError, isRateLimitError } from "../utils/sanitizeError";
+import { createVideoAnalysisAuditEntry, logAnalysisRequest } from "../utils/auditLog";
 import { GEMINI_MODELS, GEMINI_SAFETY_SETTINGS, RELAXED_CONSISTENCY_CONFIG, DAMAGE_ANALYSIS_SYSTEM_INSTRUCTION } from "../constants";
 import type {
   VideoAnalysisInput,
@@ -43,7 +43,7 @@ export async function analyzeVideo(
     const normalizedMimeType = mimeType.split(';')[0].trim();
 
     // Define the API call as a function
-    const apiCall = async (client: any, modelName: string) => {
+    const apiCall = async (client: AnalysisClient, modelName: string) => {
       console.log(`🎯 Attempting video analysis with model: ${modelName}`);
 
       // Build content parts: prompt + video + optional supplementary images
@@ -163,10 +163,20 @@ export async function analyzeVideo(
       };
     };
 
-    // Execute with automatic fallback
-    const result = await retryWithFallback(apiCall, 4000, new Set([GEMINI_MODELS.FLASH_LITE]));
+    // Execute through the active provider (Gemini: automatic model fallback)
+    const provider = getAnalysisProvider();
+    const result = await provider.run(apiCall, 4000, new Set([GEMINI_MODELS.FLASH_LITE]));
 
     if (!result.success) {
+      // Audit log the failed attempt
+      const failedAuditEntry = await createVideoAnalysisAuditEntry(
+        videoBase64,
+        'error',
+        [isRateLimitError(result.error) ? 'rate_limited' : 'analysis_failed'],
+        undefined
+      );
+      await logAnalysisRequest(failedAuditEntry, input.userId);
+
       // All models failed
       if (isRateLimitError(result.error)) {
         return {
@@ -189,10 +199,20 @@ export async function analyzeVideo(
     const { analysis, usage } = result.result;
 
     // Record token usage
-    if (usage?.totalTokens) {
-      await recordTokenUsage(result.modelUsed, usage.totalTokens);
+    if (usage?.totalTokenCount) {
+      await provider.recordUsage(result.modelUsed, usage.totalTokenCount);
     }
 
+    // Audit logging
+    const auditEntry = await createVideoAnalysisAuditEntry(
+      videoBase64,
+      'success',
+      [],
+      usage?.totalTokenCount,
+      result.modelUsed
+    );
+    await logAnalysisRequest(auditEntry, input.userId);
+
     console.log(`✅ Video analysis succeeded with model: ${result.modelUsed}`);
 
     return {
@@ -246,6 +266,8 @@ export interface VideoQualityMetadata {
  * @param userCurrency - User's currency code
  * @param userCurrencySymbol - User's currency symbol
  * @param videoQualityMetadata - Metadata about video capture quality
+ * @param supplementaryImages - Close-up photos sent alongside the video
+ * @param userId - User the analysis is audited under (defaults to the session user)
  * @returns Structured damage analysis
  */
 export async function analyzeAutoDamage(
@@ -256,7 +278,8 @@ export async function analyzeAutoDamage(
   userCurrency?: string,
   userCurrencySymbol?: string,
   videoQualityMetadata?: VideoQualityMetadata,
-  supplementaryImages?: Array<{ base64: string; mimeType: string }>
+  supplementaryImages?: Array<{ base64: string; mimeType: string }>,
+  userId?: string
 ): Promise<GeminiResult<{ analysis: AutoDamageAnalysis }>> {
   // Build localized pricing context if country is provided
   const currency = userCurrency || 'USD';
@@ -445,6 +468,7 @@ Provide thorough analysis based on visible damage in the video.`;
     temperature: 0.2, // Very factual
     responseFormat: 'json',
     supplementaryImages,
+    userId,
   });
 
   // Type assertion: when responseFormat is 'json', analysis is always AutoDamageAnalysis
@@ -1,14 +1,18 @@
 "use server";
 
-import { retryWithFallback } from "../utils/retryWithFallback";
-import { recordTokenUsage } from "../rateLimit/storage";
+import { getAnalysisProvider, type AnalysisClient } from "../providers";
 import { fileToBase64 } from "../utils/fileToBase64";
 import { sanitizeGeminiError, isRateLimitError } from "../utils/sanitizeError";
+import { createPolicyAnalysisAuditEntry, logAnalysisRequest } from "../utils/auditLog";
 import { GEMINI_MODELS, GEMINI_SAFETY_SETTINGS, RELAXED_CONSISTENCY_CONFIG, DAMAGE_ANALYSIS_SYSTEM_INSTRUCTION } from "../constants";
+import { buildIncidentContext } from "../utils/incidentContext";
+import { buildPolicyTermsContext } from "../utils/policyTermsContext";
 import type {
   GeminiResult,
   EnhancedAutoDamageAnalysis,
 } from "../types";
+import type { IncidentDetails } from "@/lib/incident";
+import type { PolicyTerms } from "@/lib/policy/policyTerms";
 
 export interface VideoQualityMetadata {
   resolution: string;
@@ -23,6 +27,10 @@ export interface VideoQualityMetadata {
  * Performs cross-reference reasoning to determine claim validity
  *
  * This is the "secret sauce" - holds video + policy in 1M context window
+ *
+ * When the policy's extracted terms are passed (lib/policy/policyLibrary.ts), they are
+ * sent in the prompt instead of the PDF and policyPathOrBase64 is ignored.
+ * The analysis is audited under userId, or the session user when it is not passed.
  */
 export async function analyzeAutoDamageWithPolicy(
   videoPathOrBase64: string,
@@ -33,7 +41,10 @@ export async function analyzeAutoDamageWithPolicy(
   userCurrency?: string,
   userCurrencySymbol?: string,
   videoQualityMetadata?: VideoQualityMetadata,
-  supplementaryImages?: Array<{ base64: string; mimeType: string }>
+  supplementaryImages?: Array<{ base64: string; mimeType: string }>,
+  incident?: IncidentDetails,
+  policyTerms?: PolicyTerms,
+  userId?: string
 ): Promise<GeminiResult<{ analysis: EnhancedAutoDamageAnalysis }>> {
   try {
     // Normalize MIME type: strip codec suffix (e.g., "video/webm;codecs=vp8" -> "video/webm")
@@ -48,9 +59,9 @@ export async function analyzeAutoDamageWithPolicy(
       videoBase64 = videoData.base64;
     }
 
-    // Get policy PDF data
+    // Get policy PDF data (not needed when the extracted terms are sent)
     let policyBase64: string;
-    if (isBase64) {
+    if (policyTerms || isBase64) {
       policyBase64 = policyPathOrBase64;
     } else {
       const policyData = await fileToBase64(policyPathOrBase64);
@@ -99,7 +110,10 @@ paint depth damage, rust nucleation points, and VIN/plate visibility.
       ? `\nSUPPLEMENTARY PHOTOS:\nYou are provided with a video walkthrough AND ${supplementaryImages.length} close-up photos captured at specific angles. Use BOTH for your analysis. The photos provide higher-detail views of specific areas.\n`
       : '';
 
-    const prompt = `${CONSISTENCY_INSTRUCTION}${VIDEO_QUALITY_CONTEXT}${LOCALIZED_PRICING_CONTEXT}${SUPPLEMENTARY_CONTEXT}
+    const INCIDENT_CONTEXT = buildIncidentContext(incident);
+    const POLICY_CONTEXT = buildPolicyTermsContext(policyTerms);
+
+    const prompt = `${CONSISTENCY_INSTRUCTION}${VIDEO_QUALITY_CONTEXT}${LOCALIZED_PRICING_CONTEXT}${SUPPLEMENTARY_CONTEXT}${POLICY_CONTEXT}${INCIDENT_CONTEXT}
 
 ═══════════════════════════════════════════════════════════════════
 CRITICAL ANTI-HALLUCINATION INSTRUCTION - READ FIRST
@@ -639,10 +653,10 @@ Include ALL visible damage in damagedParts, no matter how minor. This is the mir
 7. Return ONLY the JSON object (no markdown formatting)`;
 
     // Define the API call as a function
-    const apiCall = async (client: any, modelName: string) => {
+    const apiCall = async (client: AnalysisClient, modelName: string) => {
       console.log(`🎯 Attempting video+policy analysis with model: ${modelName}`);
 
-      // Build content parts: prompt + video + policy + optional supplementary images
+      // Build content parts: prompt + video + policy (unless its terms are in the prompt) + optional supplementary images
       const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [
         { text: prompt },
         {
@@ -651,13 +665,15 @@ Include ALL visible damage in damagedParts, no matter how minor. This is the mir
             data: videoBase64,
           },
         },
-        {
+      ];
+      if (!policyTerms) {
+        parts.push({
           inlineData: {
             mimeType: 'application/pdf',
             data: policyBase64,
           },
-        },
-      ];
+        });
+      }
 
       // Add supplementary images if provided (from guided mode captures)
       if (supplementaryImages && supplementaryImages.length > 0) {
@@ -776,10 +792,21 @@ Include ALL visible damage in damagedParts, no matter how minor. This is the mir
       };
     };
 
-    // Execute with automatic fallback
-    const result = await retryWithFallback(apiCall, 13000, new Set([GEMINI_MODELS.FLASH_LITE]));
+    // Execute through the active provider (Gemini: automatic model fallback)
+    const provider = getAnalysisProvider();
+    const result = await provider.run(apiCall, 13000, new Set([GEMINI_MODELS.FLASH_LITE]));
 
     if (!result.success) {
+      // Audit log the failed attempt
+      const failedAuditEntry = await createPolicyAnalysisAuditEntry(
+        [videoBase64],
+        policyTerms ? JSON.stringify(policyTerms) : policyBase64,
+        'error',
+        [isRateLimitError(result.error) ? 'rate_limited' : 'analysis_failed'],
+        undefined
+      );
+      await logAnalysisRequest(failedAuditEntry, userId);
+
       // All models failed
       if (isRateLimitError(result.error)) {
         return {
@@ -802,10 +829,21 @@ Include ALL visible damage in damagedParts, no matter how minor. This is the mir
     const { analysis, usage } = result.result;
 
     // Record token usage
-    if (usage?.totalTokens) {
-      await recordTokenUsage(result.modelUsed, usage.totalTokens);
+    if (usage?.totalTokenCount) {
+      await provider.recordUsage(result.modelUsed, usage.totalTokenCount);
     }
 
+    // Audit logging
+    const auditEntry = await createPolicyAnalysisAuditEntry(
+      [videoBase64],
+      policyTerms ? JSON.stringify(policyTerms) : policyBase64,
+      'success',
+      [],
+      usage?.totalTokenCount,
+      result.modelUsed
+    );
+    await logAnalysisRequest(auditEntry, userId);
+
     console.log(`✅ Video+policy analysis succeeded with model: ${result.modelUsed}`);
 
     return {
@@ -1,7 +1,7 @@
 import { GoogleGenAI } from "@google/genai";
 import { GEMINI_MODELS } from "./constants";
-import { selectAvailableModel } from "./rateLimit/selector";
-import { recordRequest } from "./rateLimit/storage";
+import { getModelLimits, selectAvailableModel } from "./rateLimit/selector";
+import { reserveRequest } from "./rateLimit/storage";
 
 /**
  * Get Gemini client instance
@@ -66,17 +66,21 @@ export async function getModelWithRateLimiting(
   }
 
   // Normal rate-limited model selection (with exclusion list for fallback)
-  const result = await selectAvailableModel(estimatedTokens, excludeModels);
+  const skippedModels = new Set(excludeModels);
+  while (true) {
+    const result = await selectAvailableModel(estimatedTokens, skippedModels);
 
-  if (!result.available) {
-    return {
-      error: result.error || "All models are rate-limited",
-      retryAfter: result.retryAfter || 60,
-    };
-  }
-
-  // Record request immediately
-  await recordRequest(result.modelName!);
+    if (!result.available) {
+      return {
+        error: result.error || "All models are rate-limited",
+        retryAfter: result.retryAfter || 60,
+      };
+    }
 
-  return { client, modelName: result.modelName! };
+    // Take the request slot; a concurrent request may have used the last one since the check
+    if (await reserveRequest(result.modelName!, getModelLimits(result.modelName!))) {
+      return { client, modelName: result.modelName! };
+    }
+    skippedModels.add(result.modelName!);
+  }
 }
@@ -121,6 +121,8 @@ export const SECURITY_CONFIG = {
   MAX_IMAGES_PER_REQUEST: 10,        // Maximum number of images per analysis
   HIGH_RISK_THRESHOLD: 100000,        // $100k - flag for manual review
   LOW_CONFIDENCE_THRESHOLD: 0.3,      // Flag results below 30% confidence
+  ENABLE_METADATA_FORENSICS: true,   // Check EXIF and container metadata of uploaded media
+  MAX_CAPTURE_AGE_DAYS: 30,           // Flag media captured this long before the incident (or the claim)
 } as const;
 
 /**
@@ -0,0 +1,31 @@
+import { getGeminiClient } from '../client';
+import { recordTokenUsage } from '../rateLimit/storage';
+import { selectAvailableModel } from '../rateLimit/selector';
+import { retryWithFallback } from '../utils/retryWithFallback';
+import type { AnalysisClient, AnalysisProvider } from './types';
+
+/**
+ * Gemini Analysis Provider
+ * Default provider - serves analysis through @google/genai with
+ * rate-limited model selection and automatic fallback (see retryWithFallback)
+ */
+export const geminiProvider: AnalysisProvider = {
+  name: 'gemini',
+
+  run(apiCall, estimatedTokens, excludeModels) {
+    return retryWithFallback(apiCall, estimatedTokens, excludeModels);
+  },
+
+  checkCapacity(estimatedTokens, excludeModels) {
+    return selectAvailableModel(estimatedTokens, excludeModels);
+  },
+
+  getClient() {
+    // GoogleGenAI's generateContent accepts a superset of AnalysisContentRequest
+    return getGeminiClient() as unknown as AnalysisClient;
+  },
+
+  recordUsage(modelName, totalTokens) {
+    return recordTokenUsage(modelName, totalTokens);
+  },
+};
@@ -0,0 +1,55 @@
+import { geminiProvider } from './geminiProvider';
+import { fixtureProvider } from './fixtureProvider';
+import type { AnalysisProvider } from './types';
+
+/**
+ * Analysis Provider Registry
+ * Selects the backend that serves lib/gemini/actions/*
+ *
+ * Selection is controlled by the ANALYSIS_PROVIDER environment variable:
+ * - "gemini" (default): Google Gemini with rate-limited model fallback
+ * - "fixture": offline deterministic responses (see fixtureProvider.ts)
+ * - any name registered via registerAnalysisProvider (e.g. another vision model)
+ */
+
+const providers = new Map<string, AnalysisProvider>([
+  [geminiProvider.name, geminiProvider],
+  [fixtureProvider.name, fixtureProvider],
+]);
+
+/**
+ * Register an additional analysis provider
+ * Replaces any provider previously registered under the same name
+ *
+ * @param provider - Provider implementation
+ */
+export function registerAnalysisProvider(provider: AnalysisProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get the active analysis provider
+ *
+ * @throws {Error} If ANALYSIS_PROVIDER names an unregistered provider
+ * @returns Provider selected by ANALYSIS_PROVIDER (default: gemini)
+ */
+export function getAnalysisProvider(): AnalysisProvider {
+  const name = process.env.ANALYSIS_PROVIDER || geminiProvider.name;
+  const provider = providers.get(name);
+
+  if (!provider) {
+    throw new Error(`Unknown analysis provider: ${name}`);
+  }
+
+  return provider;
+}
+
+export type {
+  AnalysisProvider,
+  AnalysisClient,
+  AnalysisApiCall,
+  AnalysisRunResult,
+  AnalysisContentPart,
+  AnalysisContentRequest,
+  AnalysisContentResponse,
+} from './types';
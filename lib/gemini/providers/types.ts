@@ -0,0 +1,105 @@
+import type { UsageMetadata } from '@google/genai';
+import type { RateLimitResult } from '../rateLimit/types';
+
+/**
+ * Analysis Provider Type Definitions
+ * Contract between the analysis actions in lib/gemini/actions/* and the model backend serving them
+ */
+
+/**
+ * Single content part sent to a provider (prompt text or inline file data)
+ */
+export type AnalysisContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+/**
+ * Request shape accepted by a provider client
+ * Mirrors the subset of the @google/genai generateContent parameters used by the actions
+ */
+export interface AnalysisContentRequest {
+  model: string;
+  contents: Array<{ parts: AnalysisContentPart[] }>;
+  config?: Record<string, unknown>;
+}
+
+/**
+ * Response shape returned by a provider client
+ */
+export interface AnalysisContentResponse {
+  text: string;
+  finishReason?: string;
+  usageMetadata?: UsageMetadata;
+}
+
+/**
+ * Minimal client surface the actions call into
+ * GoogleGenAI satisfies this at runtime; other providers implement it directly
+ */
+export interface AnalysisClient {
+  models: {
+    generateContent(request: AnalysisContentRequest): Promise<AnalysisContentResponse>;
+  };
+}
+
+/**
+ * API call executed by a provider with a client and the model it selected
+ */
+export type AnalysisApiCall<T> = (client: AnalysisClient, modelName: string) => Promise<T>;
+
+/**
+ * Result of running an API call through a provider
+ * Same shape as retryWithFallback so callers can treat all providers alike
+ */
+export type AnalysisRunResult<T> =
+  | { success: true; result: T; modelUsed: string }
+  | { success: false; error: unknown; exhaustedModels: string[] };
+
+/**
+ * Backend that serves the GeminiResult<T> contract of the analysis actions
+ *
+ * @example
+ * const provider = getAnalysisProvider();
+ * const result = await provider.run(apiCall, 3000);
+ * if (result.success) {
+ *   await provider.recordUsage(result.modelUsed, 1200);
+ * }
+ */
+export interface AnalysisProvider {
+  /** Identifier used by ANALYSIS_PROVIDER to select this provider */
+  readonly name: string;
+
+  /**
+   * Run an analysis call, including any model selection, rate limiting and fallback
+   *
+   * @param apiCall - Function that performs the request and parses the response
+   * @param estimatedTokens - Token estimate for model selection
+   * @param excludeModels - Models to skip (provider-specific, ignored where irrelevant)
+   */
+  run<T>(
+    apiCall: AnalysisApiCall<T>,
+    estimatedTokens: number,
+    excludeModels?: Set<string>
+  ): Promise<AnalysisRunResult<T>>;
+
+  /**
+   * Check whether a call of this size could run now without hitting rate limits
+   * Used by the analysis job worker to defer jobs instead of failing them
+   *
+   * @param estimatedTokens - Token estimate for model selection
+   * @param excludeModels - Models the call would skip (same meaning as in run)
+   * @returns Available model, or retry timing when every model is at capacity
+   */
+  checkCapacity(estimatedTokens: number, excludeModels?: Set<string>): Promise<RateLimitResult>;
+
+  /**
+   * Client for auxiliary single-shot calls (OCR, PDF text extraction)
+   * These bypass model selection, matching the previous direct client usage
+   */
+  getClient(): AnalysisClient;
+
+  /**
+   * Record token usage for a completed call (no-op for providers without quotas)
+   */
+  recordUsage(modelName: string, totalTokens: number): Promise<void>;
+}
@@ -0,0 +1,185 @@
+/**
+ * Appwrite Rate Limit Storage
+ * Durable, shared rate limit backend built on an append-only event log
+ *
+ * Every request and token usage record is its own document in the
+ * rate_limit_events collection, so concurrent writers on different server
+ * instances never overwrite each other. Windows are rebuilt from the events:
+ * - RPM/TPM: events in the last 60 seconds
+ * - RPD: request events since midnight UTC
+ *
+ * A reservation appends its request event first and then counts the events
+ * Appwrite stored up to and including it. Over a limit, the event is deleted
+ * again: every writer sees the earlier events, so together they stay within it.
+ */
+
+import { ID, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import type { Models } from 'node-appwrite';
+import type { RateLimitStorageBackend, RateLimitWindow } from './types';
+
+/**
+ * Rate limit event document (rate_limit_events collection)
+ */
+interface RateLimitEventDocument extends Models.Document {
+  model_name: string;
+  event_type: 'request' | 'tokens';
+  tokens?: number;
+  occurred_at: number; // Unix timestamp (ms)
+}
+
+/**
+ * Max events fetched per sliding window query
+ * Well above any per-minute limit in MODEL_RATE_LIMITS
+ */
+const WINDOW_QUERY_LIMIT = 500;
+
+export const appwriteRateLimitBackend: RateLimitStorageBackend = {
+  name: 'appwrite',
+
+  async loadWindow(modelName) {
+    const { databases } = await adminAction();
+    const oneMinuteAgo = Date.now() - 60_000;
+    const midnightUtc = getMidnightUtc();
+
+    const [requests, tokenEvents, dailyRequests] = await Promise.all([
+      databases.listDocuments<RateLimitEventDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.RATE_LIMIT_EVENTS,
+        [
+          Query.equal('model_name', modelName),
+          Query.equal('event_type', 'request'),
+          Query.greaterThan('occurred_at', oneMinuteAgo),
+          Query.limit(WINDOW_QUERY_LIMIT),
+        ]
+      ),
+      databases.listDocuments<RateLimitEventDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.RATE_LIMIT_EVENTS,
+        [
+          Query.equal('model_name', modelName),
+          Query.equal('event_type', 'tokens'),
+          Query.greaterThan('occurred_at', oneMinuteAgo),
+          Query.limit(WINDOW_QUERY_LIMIT),
+        ]
+      ),
+      databases.listDocuments<RateLimitEventDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.RATE_LIMIT_EVENTS,
+        [
+          Query.equal('model_name', modelName),
+          Query.equal('event_type', 'request'),
+          Query.greaterThanEqual('occurred_at', midnightUtc),
+          Query.limit(1),
+        ]
+      ),
+    ]);
+
+    const window: RateLimitWindow = {
+      modelName,
+      requestTimestamps: requests.documents.map((doc) => doc.occurred_at),
+      tokenUsageLog: tokenEvents.documents.map((doc) => ({
+        timestamp: doc.occurred_at,
+        tokens: doc.tokens ?? 0,
+      })),
+      dailyRequests: dailyRequests.total,
+      dailyResetTime: midnightUtc,
+    };
+
+    return window;
+  },
+
+  async appendRequest(modelName, timestamp) {
+    const { databases } = await adminAction();
+
+    await databases.createDocument(
+      DATABASE_ID,
+      COLLECTION_IDS.RATE_LIMIT_EVENTS,
+      ID.unique(),
+      {
+        model_name: modelName,
+        event_type: 'request',
+        occurred_at: timestamp,
+      }
+    );
+  },
+
+  async reserveRequest(modelName, timestamp, limits) {
+    const { databases } = await adminAction();
+
+    const event = await databases.createDocument<RateLimitEventDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.RATE_LIMIT_EVENTS,
+      ID.unique(),
+      {
+        model_name: modelName,
+        event_type: 'request',
+        occurred_at: timestamp,
+      }
+    );
+
+    // Requests stored before this one (server time), this one included
+    const countUpToEvent = async (since: number) =>
+      (
+        await databases.listDocuments<RateLimitEventDocument>(
+          DATABASE_ID,
+          COLLECTION_IDS.RATE_LIMIT_EVENTS,
+          [
+            Query.equal('model_name', modelName),
+            Query.equal('event_type', 'request'),
+            Query.greaterThan('occurred_at', since),
+            Query.lessThanEqual('$createdAt', event.$createdAt),
+            Query.limit(1),
+          ]
+        )
+      ).total;
+
+    const [minuteRequests, dailyRequests] = await Promise.all([
+      countUpToEvent(timestamp - 60_000),
+      countUpToEvent(getMidnightUtc() - 1),
+    ]);
+
+    if (minuteRequests <= limits.rpm && dailyRequests <= limits.rpd) {
+      return true;
+    }
+
+    await databases.deleteDocument(DATABASE_ID, COLLECTION_IDS.RATE_LIMIT_EVENTS, event.$id);
+    return false;
+  },
+
+  async appendTokenUsage(modelName, tokens, timestamp) {
+    const { databases } = await adminAction();
+
+    await databases.createDocument(
+      DATABASE_ID,
+      COLLECTION_IDS.RATE_LIMIT_EVENTS,
+      ID.unique(),
+      {
+        model_name: modelName,
+        event_type: 'tokens',
+        tokens: Math.max(0, Math.round(tokens)),
+        occurred_at: timestamp,
+      }
+    );
+  },
+
+  async cleanup(olderThan) {
+    const { databases } = await adminAction();
+
+    await databases.deleteDocuments(
+      DATABASE_ID,
+      COLLECTION_IDS.RATE_LIMIT_EVENTS,
+      [Query.lessThan('occurred_at', olderThan)]
+    );
+  },
+};
+
+/**
+ * Get midnight UTC timestamp for today
+ * Used for daily counter resets
+ */
+function getMidnightUtc(): number {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+}
@@ -3,60 +3,52 @@
  * Validates requests against RPM, TPM, and RPD limits using sliding windows
  */
 
-import type { ModelLimits } from './types';
+import type { ModelLimits, RateLimitWindow } from './types';
 import { getOrCreateWindow } from './storage';
 
 /**
  * Check if a model can accept a new request (RPM check)
  * Uses sliding window algorithm to count requests in last 60 seconds
  *
- * @param modelName - Name of the Gemini model
+ * @param window - Current rate limit window for the model
  * @param limits - Rate limit configuration for the model
  * @returns True if request is allowed, false if RPM limit exceeded
  */
 export function canMakeRequest(
-  modelName: string,
+  window: RateLimitWindow,
   limits: ModelLimits
 ): boolean {
-  const window = getOrCreateWindow(modelName);
   const oneMinuteAgo = Date.now() - 60_000;
 
-  // Remove expired timestamps (older than 1 minute)
-  window.requestTimestamps = window.requestTimestamps.filter(
+  // Ignore expired timestamps (older than 1 minute)
+  const recentRequests = window.requestTimestamps.filter(
     (ts) => ts > oneMinuteAgo
   );
 
   // Check if adding this request would exceed RPM limit
-  return window.requestTimestamps.length < limits.rpm;
+  return recentRequests.length < limits.rpm;
 }
 
 /**
  * Check if a model can consume the estimated tokens (TPM check)
  * Uses sliding window algorithm to count tokens in last 60 seconds
  *
- * @param modelName - Name of the Gemini model
+ * @param window - Current rate limit window for the model
  * @param estimatedTokens - Estimated tokens for this request
  * @param limits - Rate limit configuration for the model
  * @returns True if tokens can be consumed, false if TPM limit exceeded
  */
 export function canConsumeTokens(
-  modelName: string,
+  window: RateLimitWindow,
   estimatedTokens: number,
   limits: ModelLimits
 ): boolean {
-  const window = getOrCreateWindow(modelName);
   const oneMinuteAgo = Date.now() - 60_000;
 
-  // Remove expired token logs (older than 1 minute)
-  window.tokenUsageLog = window.tokenUsageLog.filter(
-    (entry) => entry.timestamp > oneMinuteAgo
-  );
-
-  // Calculate current token usage in last minute
-  const currentUsage = window.tokenUsageLog.reduce(
-    (sum, entry) => sum + entry.tokens,
-    0
-  );
+  // Calculate current token usage in last minute (expired logs ignored)
+  const currentUsage = window.tokenUsageLog
+    .filter((entry) => entry.timestamp > oneMinuteAgo)
+    .reduce((sum, entry) => sum + entry.tokens, 0);
 
   // Check if adding estimated tokens would exceed TPM limit
   return currentUsage + estimatedTokens <= limits.tpm;
@@ -64,24 +56,19 @@ export function canConsumeTokens(
 
 /**
  * Check if a model has capacity for daily requests (RPD check)
- * Resets counter at midnight UTC
+ * Daily counter is reset at midnight UTC by the storage backend
  *
- * @param modelName - Name of the Gemini model
+ * @param window - Current rate limit window for the model
  * @param limits - Rate limit configuration for the model
  * @returns True if daily limit not exceeded, false otherwise
  */
 export function checkDailyLimit(
-  modelName: string,
+  window: RateLimitWindow,
   limits: ModelLimits
 ): boolean {
-  const window = getOrCreateWindow(modelName);
-  const nowUtc = Date.now();
-  const midnightUtc = getMidnightUtc();
-
-  // Reset daily counter if it's a new day
-  if (window.dailyResetTime < midnightUtc) {
-    window.dailyRequests = 0;
-    window.dailyResetTime = midnightUtc;
+  // Counter from a previous day no longer applies
+  if (window.dailyResetTime < getMidnightUtc()) {
+    return true;
   }
 
   // Check if adding this request would exceed RPD limit
@@ -90,22 +77,24 @@ export function checkDailyLimit(
 
 /**
  * Check all rate limits for a model
- * Combines RPM, TPM, and RPD checks
+ * Loads the window once and combines RPM, TPM, and RPD checks
  *
  * @param modelName - Name of the Gemini model
  * @param estimatedTokens - Estimated tokens for this request
  * @param limits - Rate limit configuration for the model
  * @returns True if all limits allow the request, false otherwise
  */
-export function checkAllLimits(
+export async function checkAllLimits(
   modelName: string,
   estimatedTokens: number,
   limits: ModelLimits
-): boolean {
+): Promise<boolean> {
+  const window = await getOrCreateWindow(modelName);
+
   return (
-    canMakeRequest(modelName, limits) &&
-    canConsumeTokens(modelName, estimatedTokens, limits) &&
-    checkDailyLimit(modelName, limits)
+    canMakeRequest(window, limits) &&
+    canConsumeTokens(window, estimatedTokens, limits) &&
+    checkDailyLimit(window, limits)
   );
 }
 
@@ -116,8 +105,8 @@ export function checkAllLimits(
  * @param modelName - Name of the Gemini model
  * @returns Seconds until retry (minimum 1 second)
  */
-export function getSecondsUntilRetry(modelName: string): number {
-  const window = getOrCreateWindow(modelName);
+export async function getSecondsUntilRetry(modelName: string): Promise<number> {
+  const window = await getOrCreateWindow(modelName);
   const now = Date.now();
 
   // Calculate seconds until oldest RPM timestamp expires
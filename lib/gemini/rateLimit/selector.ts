@@ -23,7 +23,7 @@ export async function selectAvailableModel(
   const tier1Model = GEMINI_MODELS.FLASH_LITE;
   const tier1Limits = getModelLimits(tier1Model);
 
-  if (!excludeModels.has(tier1Model) && checkAllLimits(tier1Model, estimatedTokens, tier1Limits)) {
+  if (!excludeModels.has(tier1Model) && await checkAllLimits(tier1Model, estimatedTokens, tier1Limits)) {
     return {
       available: true,
       modelName: tier1Model,
@@ -46,7 +46,7 @@ export async function selectAvailableModel(
 
     const limits = getModelLimits(modelName);
 
-    if (checkAllLimits(modelName, estimatedTokens, limits)) {
+    if (await checkAllLimits(modelName, estimatedTokens, limits)) {
       return {
         available: true,
         modelName,
@@ -55,7 +55,7 @@ export async function selectAvailableModel(
   }
 
   // All models exhausted - calculate retry timing
-  const retryAfter = getRetryAfterSeconds();
+  const retryAfter = await getRetryAfterSeconds();
 
   return {
     available: false,
@@ -85,7 +85,7 @@ export function getModelLimits(modelName: string): ModelLimits {
  *
  * @returns Seconds until retry (minimum 1)
  */
-function getRetryAfterSeconds(): number {
+async function getRetryAfterSeconds(): Promise<number> {
   const allModels = [
     GEMINI_MODELS.FLASH_LITE,
     GEMINI_MODELS.FLASH,
@@ -93,8 +93,8 @@ function getRetryAfterSeconds(): number {
   ];
 
   // Get retry time for each model and return the minimum
-  const retryTimes = allModels.map((modelName) =>
-    getSecondsUntilRetry(modelName)
+  const retryTimes = await Promise.all(
+    allModels.map((modelName) => getSecondsUntilRetry(modelName))
   );
 
   return Math.min(...retryTimes, 60); // Cap at 60 seconds max
@@ -1,9 +1,22 @@
 /**
- * In-Memory Rate Limit Storage
- * Manages rate limit windows for all models using an in-memory Map
+ * Rate Limit Storage
+ * Manages rate limit windows for all models through a pluggable storage backend
+ *
+ * Backends:
+ * - memory: process-local Map (default when no durable store is configured, used by tests)
+ * - appwrite: shared event log in the rate_limit_events collection (see appwriteStorage.ts)
+ *
+ * Selection is controlled by the RATE_LIMIT_STORAGE environment variable ("memory" | "appwrite").
+ * When unset, the Appwrite backend is used if RATE_LIMIT_EVENTS_COLLECTION_ID is configured.
+ *
+ * Request limits are enforced by reserveRequest, which checks and records in one step.
+ * Token usage is only known after a request and is recorded afterwards, so the TPM
+ * limit is approximate: concurrent requests may together go over it.
  */
 
-import type { RateLimitWindow } from './types';
+import { COLLECTION_IDS } from '@/lib/env';
+import { appwriteRateLimitBackend } from './appwriteStorage';
+import type { ModelLimits, RateLimitStorageBackend, RateLimitWindow } from './types';
 
 /**
  * Global in-memory cache for rate limit tracking
@@ -12,11 +25,76 @@ import type { RateLimitWindow } from './types';
 const rateLimitCache = new Map<string, RateLimitWindow>();
 
 /**
- * Get or create a rate limit window for a model
- * @param modelName - Name of the Gemini model
- * @returns Rate limit window for the model
+ * In-memory storage backend
+ * Only consistent within a single process - state is lost on restart
  */
-export function getOrCreateWindow(modelName: string): RateLimitWindow {
+export const memoryRateLimitBackend: RateLimitStorageBackend = {
+  name: 'memory',
+
+  async loadWindow(modelName) {
+    const window = getCachedWindow(modelName);
+
+    return {
+      ...window,
+      requestTimestamps: [...window.requestTimestamps],
+      tokenUsageLog: [...window.tokenUsageLog],
+    };
+  },
+
+  async appendRequest(modelName, timestamp) {
+    const window = getCachedWindow(modelName);
+    window.requestTimestamps.push(timestamp);
+    window.dailyRequests++;
+  },
+
+  // No await between the check and the append, so concurrent calls cannot interleave
+  async reserveRequest(modelName, timestamp, limits) {
+    const window = getCachedWindow(modelName);
+    const recentRequests = window.requestTimestamps.filter((ts) => ts > timestamp - 60_000);
+
+    if (recentRequests.length >= limits.rpm || window.dailyRequests >= limits.rpd) {
+      return false;
+    }
+
+    window.requestTimestamps.push(timestamp);
+    window.dailyRequests++;
+    return true;
+  },
+
+  async appendTokenUsage(modelName, tokens, timestamp) {
+    const window = getCachedWindow(modelName);
+    window.tokenUsageLog.push({ timestamp, tokens });
+  },
+
+  async cleanup(olderThan) {
+    for (const [modelName, window] of rateLimitCache.entries()) {
+      // Remove old request timestamps
+      window.requestTimestamps = window.requestTimestamps.filter(
+        (ts) => ts > olderThan
+      );
+
+      // Remove old token usage logs
+      window.tokenUsageLog = window.tokenUsageLog.filter(
+        (entry) => entry.timestamp > olderThan
+      );
+
+      // Remove window entirely if empty and its daily counter has expired
+      if (
+        window.requestTimestamps.length === 0 &&
+        window.tokenUsageLog.length === 0 &&
+        window.dailyResetTime < getMidnightUtc()
+      ) {
+        rateLimitCache.delete(modelName);
+      }
+    }
+  },
+};
+
+/**
+ * Get the cached window of a model, creating it or resetting its daily counter as needed
+ * Returns the cached object itself - callers mutate it
+ */
+function getCachedWindow(modelName: string): RateLimitWindow {
   let window = rateLimitCache.get(modelName);
 
   if (!window) {
@@ -30,17 +108,90 @@ export function getOrCreateWindow(modelName: string): RateLimitWindow {
     rateLimitCache.set(modelName, window);
   }
 
+  // Reset daily counter if it's a new day
+  const midnightUtc = getMidnightUtc();
+  if (window.dailyResetTime < midnightUtc) {
+    window.dailyRequests = 0;
+    window.dailyResetTime = midnightUtc;
+  }
+
   return window;
 }
 
+/**
+ * Explicitly configured backend (overrides environment-based selection)
+ */
+let configuredBackend: RateLimitStorageBackend | null = null;
+
+/**
+ * Override the storage backend (e.g. to force the in-memory backend in tests)
+ * Pass null to restore environment-based selection
+ *
+ * @param backend - Backend to use for all rate limit operations
+ */
+export function setRateLimitStorageBackend(backend: RateLimitStorageBackend | null): void {
+  configuredBackend = backend;
+}
+
+/**
+ * Get the active storage backend
+ * @returns Configured backend, or one selected from RATE_LIMIT_STORAGE
+ */
+export function getRateLimitStorageBackend(): RateLimitStorageBackend {
+  if (configuredBackend) {
+    return configuredBackend;
+  }
+
+  const selected = process.env.RATE_LIMIT_STORAGE;
+
+  if (selected === 'memory') {
+    return memoryRateLimitBackend;
+  }
+
+  if (selected === 'appwrite' || (!selected && COLLECTION_IDS.RATE_LIMIT_EVENTS)) {
+    return appwriteRateLimitBackend;
+  }
+
+  return memoryRateLimitBackend;
+}
+
+/**
+ * Get or create a rate limit window for a model
+ * @param modelName - Name of the Gemini model
+ * @returns Rate limit window for the model
+ */
+export async function getOrCreateWindow(modelName: string): Promise<RateLimitWindow> {
+  return getRateLimitStorageBackend().loadWindow(modelName);
+}
+
 /**
  * Record a request timestamp for RPM tracking
+ * Does not check the limits; use reserveRequest to enforce them.
  * @param modelName - Name of the model
  */
 export async function recordRequest(modelName: string): Promise<void> {
-  const window = getOrCreateWindow(modelName);
-  window.requestTimestamps.push(Date.now());
-  window.dailyRequests++;
+  await getRateLimitStorageBackend().appendRequest(modelName, Date.now());
+}
+
+/**
+ * Record a request if the model's per-minute and per-day limits allow it
+ * Unlike checking the window and then calling recordRequest, concurrent callers
+ * cannot together go over the limits.
+ *
+ * @param modelName - Name of the model (or another window key)
+ * @param limits - Requests per minute and per day
+ * @returns Whether the request was recorded
+ *
+ * @example
+ * if (!(await reserveRequest(modelName, getModelLimits(modelName)))) {
+ *   // A concurrent request took the last slot
+ * }
+ */
+export async function reserveRequest(
+  modelName: string,
+  limits: Pick<ModelLimits, 'rpm' | 'rpd'>
+): Promise<boolean> {
+  return getRateLimitStorageBackend().reserveRequest(modelName, Date.now(), limits);
 }
 
 /**
@@ -52,38 +203,24 @@ export async function recordTokenUsage(
   modelName: string,
   tokens: number
 ): Promise<void> {
-  const window = getOrCreateWindow(modelName);
-  window.tokenUsageLog.push({
-    timestamp: Date.now(),
-    tokens,
-  });
+  await getRateLimitStorageBackend().appendTokenUsage(modelName, tokens, Date.now());
 }
 
 /**
  * Clean up expired timestamps and token logs from all windows
- * Removes entries older than 1 hour to prevent memory leaks
+ * In-memory: removes entries older than 1 hour to prevent memory leaks
+ * Appwrite: removes events from before the previous UTC day (daily counts need today's events)
  */
-export function cleanupExpiredWindows(): void {
-  const oneHourAgo = Date.now() - 3600_000;
-
-  for (const [modelName, window] of rateLimitCache.entries()) {
-    // Remove old request timestamps
-    window.requestTimestamps = window.requestTimestamps.filter(
-      (ts) => ts > oneHourAgo
-    );
-
-    // Remove old token usage logs
-    window.tokenUsageLog = window.tokenUsageLog.filter(
-      (entry) => entry.timestamp > oneHourAgo
-    );
-
-    // Remove window entirely if empty and old
-    if (
-      window.requestTimestamps.length === 0 &&
-      window.tokenUsageLog.length === 0
-    ) {
-      rateLimitCache.delete(modelName);
-    }
+export async function cleanupExpiredWindows(): Promise<void> {
+  const backend = getRateLimitStorageBackend();
+  const olderThan = backend === memoryRateLimitBackend
+    ? Date.now() - 3600_000
+    : getMidnightUtc() - 86_400_000;
+
+  try {
+    await backend.cleanup(olderThan);
+  } catch (error) {
+    console.error('❌ Rate limit cleanup failed:', error);
   }
 }
 
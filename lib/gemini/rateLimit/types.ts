@@ -48,3 +48,38 @@ export interface RateLimitError {
   retryAfter: number; // Seconds until retry
   exhaustedModels: string[]; // Models that hit limits
 }
+
+/**
+ * Storage backend for rate limit windows
+ * Implementations must make appends safe under concurrent use from multiple
+ * server instances (each append is an independent write, never a read-modify-write).
+ * Checking a window and then appending is not atomic; reserveRequest is the one
+ * operation that enforces a limit under concurrency.
+ */
+export interface RateLimitStorageBackend {
+  readonly name: string;
+
+  /**
+   * Load the current window for a model
+   * Returned timestamps/token logs cover at least the last 60 seconds and
+   * dailyRequests counts requests since midnight UTC
+   */
+  loadWindow(modelName: string): Promise<RateLimitWindow>;
+
+  /** Record a request at the given Unix timestamp (ms) */
+  appendRequest(modelName: string, timestamp: number): Promise<void>;
+
+  /**
+   * Record a request only if it stays within the per-minute and per-day limits
+   * Concurrent reservations never exceed the limits together; under contention one
+   * may be refused although a slot was left.
+   * @returns Whether the request was recorded
+   */
+  reserveRequest(modelName: string, timestamp: number, limits: Pick<ModelLimits, 'rpm' | 'rpd'>): Promise<boolean>;
+
+  /** Record token usage at the given Unix timestamp (ms) */
+  appendTokenUsage(modelName: string, tokens: number, timestamp: number): Promise<void>;
+
+  /** Remove entries older than the given Unix timestamp (ms) */
+  cleanup(olderThan: number): Promise<void>;
+}
@@ -1,6 +1,6 @@
 "use server";
 
-import { getGeminiClient } from "../client";
+import { getAnalysisProvider } from "../providers";
 import { GEMINI_MODELS } from "../constants";
 import { sanitizeGeminiError } from "../utils/sanitizeError";
 import type { ImageMimeType } from "../types";
@@ -14,7 +14,7 @@ export async function extractImageText(
   mimeType: ImageMimeType
 ): Promise<string> {
   try {
-    const ai = getGeminiClient();
+    const ai = getAnalysisProvider().getClient();
 
     const prompt = `Extract all visible text from this image. Return only the text you can read, without any additional commentary. If there is no text, return "NO_TEXT_FOUND".`;
 
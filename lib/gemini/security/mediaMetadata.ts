@@ -0,0 +1,591 @@
+import { SECURITY_CONFIG } from "../constants";
+import type {
+  MediaMetadata,
+  MetadataForensicsFlag,
+  MetadataForensicsResult,
+} from "../types";
+
+/**
+ * Media Metadata Forensics
+ * Reads EXIF (JPEG, PNG, WebP), XMP and MP4/MOV/WebM container metadata of the
+ * uploaded media and flags signs of manipulation:
+ * - editing_software: saved by a photo or video editor
+ * - capture_before_claim: captured long before the incident, or the claim when no
+ *   incident date was given (MAX_CAPTURE_AGE_DAYS)
+ * - capture_after_claim: capture date in the future, i.e. a tampered clock or tags
+ * - metadata_stripped: photos without any camera metadata (screenshots, re-saved copies)
+ * - device_mismatch: photos of one claim taken with different cameras
+ *
+ * Parsing is best effort: unreadable metadata yields empty fields, never an error.
+ */
+
+type EditingSoftware = { pattern: RegExp; severity: MetadataForensicsFlag["severity"] };
+
+// Pixel editors can alter damage; photo apps mostly adjust colors and crop
+const EDITING_SOFTWARE: EditingSoftware[] = [
+  { pattern: /photoshop|gimp|pixelmator|affinity photo|photopea|paint\.net|after effects/i, severity: "high" },
+  {
+    pattern: /lightroom|snapseed|vsco|picsart|facetune|canva|afterlight|luminar|premiere|final cut|davinci|imovie|capcut/i,
+    severity: "medium",
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Seconds between the QuickTime epoch (1904) and the Unix epoch
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+// Matroska DateUTC counts nanoseconds from 2001-01-01
+const MATROSKA_EPOCH_MS = Date.UTC(2001, 0, 1);
+
+// Container metadata sits near the start (WebM) or in one moov box (MP4); cap the scan
+const MAX_WEBM_SCAN_BYTES = 256 * 1024;
+
+/**
+ * Check the metadata of a submission's media
+ *
+ * @param files - Uploaded media (images, video) with base64 content
+ * @param options - Date of the claim (defaults to now) and the claimant's incident date, if given
+ * @returns Metadata per file, in input order, and the flags raised
+ *
+ * @example
+ * const forensics = await analyzeMediaMetadata(mediaBase64);
+ * if (forensics.riskLevel === "high") {
+ *   console.warn(forensics.flags.map((flag) => flag.message));
+ * }
+ */
+export async function analyzeMediaMetadata(
+  files: Array<{ base64: string; mimeType: string }>,
+  options?: { claimDate?: Date; incidentDate?: string | null }
+): Promise<MetadataForensicsResult> {
+  const claimDate = options?.claimDate ?? new Date();
+  const incidentDate = options?.incidentDate ? new Date(options.incidentDate) : null;
+
+  const metadata = files.map((file) => {
+    try {
+      return readMediaMetadata(Buffer.from(file.base64, "base64"), file.mimeType);
+    } catch (error) {
+      console.warn("⚠️ Media metadata could not be read:", error);
+      return emptyMetadata("unknown");
+    }
+  });
+
+  const flags = flagMetadata(metadata, claimDate, incidentDate && !isNaN(incidentDate.getTime()) ? incidentDate : null);
+  const riskLevel = flags.some((flag) => flag.severity === "high")
+    ? "high"
+    : flags.some((flag) => flag.severity === "medium")
+      ? "medium"
+      : flags.length > 0
+        ? "low"
+        : null;
+
+  return { files: metadata, flags, riskLevel };
+}
+
+/**
+ * Read the metadata forensics stored on a report's fraud assessment
+ *
+ * @param json - metadata_forensics_json of a fraud assessment
+ * @returns Stored result, or null when missing or unparseable
+ */
+export function parseMetadataForensics(json: string | undefined | null): MetadataForensicsResult | null {
+  if (!json) return null;
+  try {
+    const result = JSON.parse(json);
+    return Array.isArray(result?.files) && Array.isArray(result?.flags) ? result : null;
+  } catch {
+    return null;
+  }
+}
+
+function flagMetadata(files: MediaMetadata[], claimDate: Date, incidentDate: Date | null): MetadataForensicsFlag[] {
+  const flags: MetadataForensicsFlag[] = [];
+  const isVideoFormat = (file: MediaMetadata) => file.format === "mp4" || file.format === "webm";
+  let imageNumber = 0;
+  const labels = files.map((file) => (isVideoFormat(file) ? "Video" : `Photo ${++imageNumber}`));
+
+  files.forEach((file, index) => {
+    const editor = file.software && EDITING_SOFTWARE.find((entry) => entry.pattern.test(file.software!));
+    if (editor) {
+      flags.push({
+        type: "editing_software",
+        severity: editor.severity,
+        message: `${labels[index]} was saved with editing software (${file.software}).`,
+        fileIndexes: [index],
+      });
+    }
+
+    if (file.captureTime) {
+      const captured = new Date(file.captureTime).getTime();
+      const ageDays = (claimDate.getTime() - captured) / DAY_MS;
+      // Photos taken at the incident are legitimately as old as the incident
+      const daysBeforeIncident = incidentDate ? (incidentDate.getTime() - captured) / DAY_MS : ageDays;
+      if (daysBeforeIncident > SECURITY_CONFIG.MAX_CAPTURE_AGE_DAYS) {
+        flags.push({
+          type: "capture_before_claim",
+          // Several times the limit is unlikely to be a late claim
+          severity: daysBeforeIncident > SECURITY_CONFIG.MAX_CAPTURE_AGE_DAYS * 3 ? "high" : "medium",
+          message: `${labels[index]} was captured ${Math.floor(daysBeforeIncident)} days before the ${
+            incidentDate ? "incident" : "claim"
+          } (${file.captureTime.slice(0, 10)}).`,
+          fileIndexes: [index],
+        });
+      } else if (ageDays < -1) {
+        flags.push({
+          type: "capture_after_claim",
+          severity: "medium",
+          message: `${labels[index]} has a capture date after the claim (${file.captureTime.slice(0, 10)}). The device clock or metadata may have been altered.`,
+          fileIndexes: [index],
+        });
+      }
+    }
+  });
+
+  // In-app recordings carry no camera tags, so only photos are expected to have them
+  const stripped = files
+    .map((file, index) => ({ file, index }))
+    .filter(({ file }) => !isVideoFormat(file) && !file.captureTime && !file.make && !file.model);
+  if (stripped.length > 0) {
+    flags.push({
+      type: "metadata_stripped",
+      severity: "low",
+      message: `${stripped.map(({ index }) => labels[index]).join(", ")} ${stripped.length === 1 ? "has" : "have"} no camera metadata. Screenshots and re-saved copies lose it.`,
+      fileIndexes: stripped.map(({ index }) => index),
+    });
+  }
+
+  const devices = new Map<string, number[]>();
+  files.forEach((file, index) => {
+    if (isVideoFormat(file) || (!file.make && !file.model)) return;
+    const device = [file.make, file.model].filter(Boolean).join(" ");
+    devices.set(device, [...(devices.get(device) ?? []), index]);
+  });
+  if (devices.size > 1) {
+    flags.push({
+      type: "device_mismatch",
+      severity: "medium",
+      message: `Photos of this claim were taken with ${devices.size} different devices (${[...devices.keys()].join(", ")}).`,
+      fileIndexes: [...devices.values()].flat(),
+    });
+  }
+
+  return flags;
+}
+
+function emptyMetadata(format: MediaMetadata["format"]): MediaMetadata {
+  return { format, hasMetadata: false, captureTime: null, make: null, model: null, software: null, gps: null };
+}
+
+function readMediaMetadata(data: Buffer, mimeType: string): MediaMetadata {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8) return readJpeg(data);
+  if (data.length >= 8 && data.toString("latin1", 1, 4) === "PNG") return readPng(data);
+  if (data.length >= 12 && data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP") {
+    return readWebp(data);
+  }
+  if (data.length >= 4 && data.readUInt32BE(0) === 0x1a45dfa3) return readWebm(data);
+  if (data.length >= 8 && (data.toString("latin1", 4, 8) === "ftyp" || mimeType.startsWith("video/"))) {
+    return readMp4(data);
+  }
+  return emptyMetadata("unknown");
+}
+
+/**
+ * Fill empty fields of the metadata from another source (e.g. XMP after EXIF)
+ */
+function mergeMetadata(target: MediaMetadata, source: Partial<MediaMetadata>): void {
+  for (const key of ["captureTime", "make", "model", "software", "gps"] as const) {
+    if (target[key] == null && source[key] != null) {
+      (target as unknown as Record<string, unknown>)[key] = source[key];
+    }
+  }
+  target.hasMetadata = true;
+}
+
+// ---------- Images ----------
+
+function readJpeg(data: Buffer): MediaMetadata {
+  const metadata = emptyMetadata("jpeg");
+
+  for (let offset = 2; offset + 4 <= data.length; ) {
+    if (data[offset] !== 0xff) break;
+    const marker = data[offset + 1];
+    // Start of scan / end of image: no metadata after this
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = data.readUInt16BE(offset + 2);
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && segment.toString("latin1", 0, 6) === "Exif\0\0") {
+      mergeMetadata(metadata, readTiff(segment.subarray(6)));
+    } else if (marker === 0xe1 && segment.toString("latin1", 0, 29) === "http://ns.adobe.com/xap/1.0/\0") {
+      mergeMetadata(metadata, readXmp(segment.toString("utf8", 29)));
+    }
+    offset += 2 + length;
+  }
+
+  return metadata;
+}
+
+function readPng(data: Buffer): MediaMetadata {
+  const metadata = emptyMetadata("png");
+
+  for (let offset = 8; offset + 8 <= data.length; ) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === "eXIf") {
+      mergeMetadata(metadata, readTiff(chunk));
+    } else if (type === "tEXt" || type === "iTXt") {
+      const separator = chunk.indexOf(0);
+      const keyword = chunk.toString("latin1", 0, separator);
+      // iTXt: compression flag, method, language and translated keyword precede the text
+      let text: string;
+      if (type === "iTXt") {
+        if (chunk[separator + 1] !== 0) {
+          offset += length + 12;
+          continue; // Compressed text is not read
+        }
+        const language = chunk.indexOf(0, separator + 3);
+        const translated = chunk.indexOf(0, language + 1);
+        text = chunk.toString("utf8", translated + 1);
+      } else {
+        text = chunk.toString("latin1", separator + 1);
+      }
+
+      if (keyword === "XML:com.adobe.xmp") {
+        mergeMetadata(metadata, readXmp(text));
+      } else if (keyword === "Software") {
+        mergeMetadata(metadata, { software: text.trim() || null });
+      } else if (keyword === "Creation Time") {
+        const time = new Date(text.trim());
+        mergeMetadata(metadata, { captureTime: Number.isNaN(time.getTime()) ? null : time.toISOString() });
+      }
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += length + 12;
+  }
+
+  return metadata;
+}
+
+function readWebp(data: Buffer): MediaMetadata {
+  const metadata = emptyMetadata("webp");
+
+  for (let offset = 12; offset + 8 <= data.length; ) {
+    const type = data.toString("latin1", offset, offset + 4);
+    const length = data.readUInt32LE(offset + 4);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === "EXIF") {
+      mergeMetadata(metadata, readTiff(chunk.toString("latin1", 0, 6) === "Exif\0\0" ? chunk.subarray(6) : chunk));
+    } else if (type === "XMP ") {
+      mergeMetadata(metadata, readXmp(chunk.toString("utf8")));
+    }
+    // Chunks are padded to an even size
+    offset += 8 + length + (length % 2);
+  }
+
+  return metadata;
+}
+
+/**
+ * Read the EXIF tags of a TIFF structure (IFD0, Exif and GPS IFDs)
+ */
+function readTiff(tiff: Buffer): Partial<MediaMetadata> {
+  if (tiff.length < 8) return {};
+  const byteOrder = tiff.toString("latin1", 0, 2);
+  if (byteOrder !== "II" && byteOrder !== "MM") return {};
+  const little = byteOrder === "II";
+  const u16 = (offset: number) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+
+  // Size in bytes of each EXIF value type
+  const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+  type Entry = { type: number; count: number; valueOffset: number };
+  const readIfd = (ifdOffset: number): Map<number, Entry> => {
+    const entries = new Map<number, Entry>();
+    if (ifdOffset <= 0 || ifdOffset + 2 > tiff.length) return entries;
+    const count = u16(ifdOffset);
+    for (let i = 0; i < count; i++) {
+      const entryOffset = ifdOffset + 2 + i * 12;
+      if (entryOffset + 12 > tiff.length) break;
+      const type = u16(entryOffset + 2);
+      const valueCount = u32(entryOffset + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      entries.set(u16(entryOffset), {
+        type,
+        count: valueCount,
+        valueOffset: size <= 4 ? entryOffset + 8 : u32(entryOffset + 8),
+      });
+    }
+    return entries;
+  };
+
+  const ascii = (entry?: Entry): string | null => {
+    if (!entry || entry.type !== 2 || entry.valueOffset + entry.count > tiff.length) return null;
+    const value = tiff.toString("latin1", entry.valueOffset, entry.valueOffset + entry.count).replace(/\0+$/, "").trim();
+    return value || null;
+  };
+  const long = (entry?: Entry): number | null => {
+    if (!entry) return null;
+    if (entry.type === 3) return u16(entry.valueOffset);
+    if (entry.type === 4) return u32(entry.valueOffset);
+    return null;
+  };
+  const rationals = (entry?: Entry): number[] | null => {
+    if (!entry || entry.type !== 5 || entry.valueOffset + entry.count * 8 > tiff.length) return null;
+    return Array.from({ length: entry.count }, (_, i) => {
+      const denominator = u32(entry.valueOffset + i * 8 + 4);
+      return denominator === 0 ? 0 : u32(entry.valueOffset + i * 8) / denominator;
+    });
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const exif = readIfd(long(ifd0.get(0x8769)) ?? 0);
+  const gpsIfd = readIfd(long(ifd0.get(0x8825)) ?? 0);
+
+  const coordinate = (valueTag: number, refTag: number, negativeRef: string): number | null => {
+    const parts = rationals(gpsIfd.get(valueTag));
+    if (!parts || parts.length < 3) return null;
+    const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+    return ascii(gpsIfd.get(refTag)) === negativeRef ? -degrees : degrees;
+  };
+  const latitude = coordinate(0x0002, 0x0001, "S");
+  const longitude = coordinate(0x0004, 0x0003, "W");
+
+  return {
+    // DateTimeOriginal, DateTimeDigitized, then the file change date
+    captureTime:
+      exifDate(ascii(exif.get(0x9003))) ?? exifDate(ascii(exif.get(0x9004))) ?? exifDate(ascii(ifd0.get(0x0132))),
+    make: ascii(ifd0.get(0x010f)),
+    model: ascii(ifd0.get(0x0110)),
+    software: ascii(ifd0.get(0x0131)),
+    gps: latitude != null && longitude != null ? { latitude, longitude } : null,
+  };
+}
+
+/**
+ * EXIF date ("2024:05:01 14:30:00", no time zone) as ISO 8601, read as UTC
+ */
+function exifDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === "0000") return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const time = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+  return Number.isNaN(time.getTime()) ? null : time.toISOString();
+}
+
+/**
+ * Editing software and dates of an XMP packet
+ */
+function readXmp(xmp: string): Partial<MediaMetadata> {
+  const property = (name: string): string | null => {
+    const match = xmp.match(new RegExp(`${name}(?:="([^"]*)"|>([^<]*)<)`));
+    return match ? (match[1] ?? match[2]).trim() || null : null;
+  };
+  const created = property("photoshop:DateCreated") ?? property("xmp:CreateDate");
+  const time = created ? new Date(created) : null;
+
+  return {
+    software: property("xmp:CreatorTool") ?? property("stEvt:softwareAgent"),
+    captureTime: time && !Number.isNaN(time.getTime()) ? time.toISOString() : null,
+  };
+}
+
+// ---------- Video containers ----------
+
+type Box = { type: string; start: number; end: number };
+
+/**
+ * Child boxes of an ISO BMFF (MP4/MOV) range
+ */
+function readBoxes(data: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  for (let offset = start; offset + 8 <= end; ) {
+    let size = data.readUInt32BE(offset);
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    let headerSize = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(data.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+    boxes.push({ type, start: offset + headerSize, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function readMp4(data: Buffer): MediaMetadata {
+  const metadata = emptyMetadata("mp4");
+  const moov = readBoxes(data, 0, data.length).find((box) => box.type === "moov");
+  if (!moov) return metadata;
+
+  const found: Partial<MediaMetadata> = {};
+  for (const box of readBoxes(data, moov.start, moov.end)) {
+    if (box.type === "mvhd") {
+      const version = data[box.start];
+      const seconds = version === 1 ? Number(data.readBigUInt64BE(box.start + 4)) : data.readUInt32BE(box.start + 4);
+      if (seconds > QUICKTIME_EPOCH_OFFSET) {
+        found.captureTime = new Date((seconds - QUICKTIME_EPOCH_OFFSET) * 1000).toISOString();
+      }
+    } else if (box.type === "udta") {
+      Object.assign(found, { ...readMp4Tags(data, box), ...stripNulls(found) });
+    } else if (box.type === "meta") {
+      Object.assign(found, { ...readMp4Meta(data, box), ...stripNulls(found) });
+    }
+  }
+
+  if (Object.values(found).some((value) => value != null)) {
+    mergeMetadata(metadata, found);
+  }
+  return metadata;
+}
+
+function stripNulls(values: Partial<MediaMetadata>): Partial<MediaMetadata> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value != null));
+}
+
+/**
+ * QuickTime user data (©mak, ©mod, ©swr, ©xyz...) and a nested iTunes-style meta box
+ */
+function readMp4Tags(data: Buffer, udta: Box): Partial<MediaMetadata> {
+  const tags: Partial<MediaMetadata> = {};
+  for (const box of readBoxes(data, udta.start, udta.end)) {
+    if (box.type === "meta") {
+      Object.assign(tags, { ...readMp4Meta(data, box), ...stripNulls(tags) });
+      continue;
+    }
+    // Text atom: 2-byte length, 2-byte language, text
+    if (box.type.charCodeAt(0) !== 0xa9 || box.end - box.start < 4) continue;
+    const length = data.readUInt16BE(box.start);
+    const text = data.toString("utf8", box.start + 4, Math.min(box.start + 4 + length, box.end)).trim();
+    applyMp4Tag(tags, box.type.slice(1), text);
+  }
+  return tags;
+}
+
+/**
+ * meta box: iTunes item list (©too...) or QuickTime mdta keys (com.apple.quicktime.*)
+ */
+function readMp4Meta(data: Buffer, meta: Box): Partial<MediaMetadata> {
+  // MP4 meta is a full box (4 bytes version/flags); QuickTime meta starts with its children
+  const start = data.toString("latin1", meta.start + 4, meta.start + 8) === "hdlr" ? meta.start : meta.start + 4;
+  const children = readBoxes(data, start, meta.end);
+  const tags: Partial<MediaMetadata> = {};
+
+  const keys: string[] = [];
+  const keysBox = children.find((box) => box.type === "keys");
+  if (keysBox) {
+    const count = data.readUInt32BE(keysBox.start + 4);
+    let offset = keysBox.start + 8;
+    for (let i = 0; i < count && offset + 8 <= keysBox.end; i++) {
+      const size = data.readUInt32BE(offset);
+      if (size < 8) break;
+      keys.push(data.toString("utf8", offset + 8, offset + size));
+      offset += size;
+    }
+  }
+
+  const ilst = children.find((box) => box.type === "ilst");
+  if (!ilst) return tags;
+
+  for (const item of readBoxes(data, ilst.start, ilst.end)) {
+    const dataBox = readBoxes(data, item.start, item.end).find((box) => box.type === "data");
+    if (!dataBox || dataBox.end - dataBox.start < 8) continue;
+    // data box: 4-byte type indicator, 4-byte locale, value
+    const value = data.toString("utf8", dataBox.start + 8, dataBox.end).trim();
+    const keyIndex = data.readUInt32BE(item.start - 4);
+    const key = keys.length > 0 && keyIndex >= 1 && keyIndex <= keys.length ? keys[keyIndex - 1] : item.type.slice(1);
+    applyMp4Tag(tags, key.replace("com.apple.quicktime.", ""), value);
+  }
+  return tags;
+}
+
+function applyMp4Tag(tags: Partial<MediaMetadata>, key: string, value: string): void {
+  if (!value) return;
+  switch (key) {
+    case "mak":
+    case "make":
+      tags.make ??= value;
+      break;
+    case "mod":
+    case "model":
+      tags.model ??= value;
+      break;
+    case "swr":
+    case "too":
+    case "software":
+      tags.software ??= value;
+      break;
+    case "day":
+    case "creationdate": {
+      const time = new Date(value);
+      if (!Number.isNaN(time.getTime())) tags.captureTime ??= time.toISOString();
+      break;
+    }
+    case "xyz":
+    case "location.ISO6709": {
+      // ISO 6709, e.g. "+37.3349-122.0090+010.000/"
+      const match = value.match(/^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)/);
+      if (match) tags.gps ??= { latitude: parseFloat(match[1]), longitude: parseFloat(match[2]) };
+      break;
+    }
+  }
+}
+
+function readWebm(data: Buffer): MediaMetadata {
+  const metadata = emptyMetadata("webm");
+  const end = Math.min(data.length, MAX_WEBM_SCAN_BYTES);
+
+  // EBML variable-length integer; the ID keeps its length marker, sizes drop it
+  const readVint = (offset: number, keepMarker: boolean): { value: number; length: number } | null => {
+    const first = data[offset];
+    if (first === undefined || first === 0) return null;
+    const length = Math.clz32(first) - 23;
+    if (length > 8 || offset + length > data.length) return null;
+    let value = keepMarker ? first : first & (0xff >> length);
+    for (let i = 1; i < length; i++) value = value * 256 + data[offset + i];
+    return { value, length };
+  };
+
+  const SEGMENT = 0x18538067;
+  const INFO = 0x1549a966;
+  const found: Partial<MediaMetadata> = {};
+
+  const walk = (start: number, stop: number) => {
+    for (let offset = start; offset < stop; ) {
+      const id = readVint(offset, true);
+      if (!id) return;
+      const size = readVint(offset + id.length, false);
+      if (!size) return;
+      const dataStart = offset + id.length + size.length;
+      const unknownSize = size.value === Math.pow(2, 7 * size.length) - 1;
+      const dataEnd = unknownSize ? stop : Math.min(dataStart + size.value, stop);
+
+      if (id.value === SEGMENT || id.value === INFO) {
+        walk(dataStart, dataEnd);
+        if (id.value === INFO) return;
+      } else if (id.value === 0x4461 && size.value === 8) {
+        // DateUTC: signed nanoseconds since 2001-01-01
+        const ms = Number(data.readBigInt64BE(dataStart) / BigInt(1000000));
+        found.captureTime = new Date(MATROSKA_EPOCH_MS + ms).toISOString();
+      } else if (id.value === 0x5741) {
+        found.software = data.toString("utf8", dataStart, dataEnd).trim() || null;
+      } else if (id.value === 0x4d80 && !found.software) {
+        found.software = data.toString("utf8", dataStart, dataEnd).trim() || null;
+      }
+      if (unknownSize) return;
+      offset = dataEnd;
+    }
+  };
+  walk(0, end);
+
+  if (Object.values(found).some((value) => value != null)) {
+    mergeMetadata(metadata, found);
+  }
+  return metadata;
+}
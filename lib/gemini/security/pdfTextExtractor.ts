@@ -1,6 +1,6 @@
 "use server";
 
-import { getGeminiClient } from "../client";
+import { getAnalysisProvider } from "../providers";
 import { GEMINI_MODELS } from "../constants";
 import { sanitizeGeminiError } from "../utils/sanitizeError";
 
@@ -10,7 +10,7 @@ import { sanitizeGeminiError } from "../utils/sanitizeError";
  */
 export async function extractPDFText(pdfBase64: string): Promise<string> {
   try {
-    const ai = getGeminiClient();
+    const ai = getAnalysisProvider().getClient();
 
     const prompt = `Extract all text from this PDF document. Return only the extracted text without any additional commentary or formatting.`;
 
@@ -101,6 +101,7 @@ export interface VideoAnalysisInput {
   seed?: number;
   responseFormat?: 'text' | 'json';
   supplementaryImages?: Array<{ base64: string; mimeType: string }>;
+  userId?: string; // User the analysis is audited under (defaults to the session user)
 }
 
 export interface PDFAnalysisInput {
@@ -290,6 +291,15 @@ export interface ClaimAssessment {
   policyReferences: string[];
 }
 
+// Claimant's incident account cross-checked against media and policy (lib/incident.ts)
+export interface IncidentAssessment {
+  narrativeConsistent: boolean | null; // null when no narrative was given
+  narrativeNotes: string | null;
+  policyPeriod: { start: string | null; end: string | null } | null; // As stated in the policy
+  incidentWithinPolicyPeriod: boolean | null; // null when the date or period is unknown
+  notes: string | null;
+}
+
 export interface EnhancedAutoDamageAnalysis extends AutoDamageAnalysis {
   estimatedTotalRepairCost: number;
   damageType: 'collision' | 'comprehensive' | 'weather' | 'vandalism' | 'unknown';
@@ -305,6 +315,8 @@ export interface EnhancedAutoDamageAnalysis extends AutoDamageAnalysis {
   contaminationAssessment?: ContaminationAssessment;
   rustCorrosionAssessment?: RustCorrosionAssessment;
   preExistingDamageAssessment?: PreExistingDamageAssessment;
+  // Only when the claimant provided incident details
+  incidentAssessment?: IncidentAssessment;
   // Policy validation
   policyValidation?: {
     isValidAutoPolicy: boolean;
@@ -366,6 +378,33 @@ export interface InjectionPattern {
   category: 'instruction_override' | 'system_prompt' | 'suspicious_keywords';
 }
 
+// ========================================
+// Metadata Forensics Types
+// ========================================
+
+export interface MediaMetadata {
+  format: 'jpeg' | 'png' | 'webp' | 'mp4' | 'webm' | 'unknown';
+  hasMetadata: boolean; // Any EXIF, XMP or container tags at all
+  captureTime: string | null; // ISO 8601
+  make: string | null;
+  model: string | null;
+  software: string | null; // Editing or encoding software
+  gps: { latitude: number; longitude: number } | null;
+}
+
+export interface MetadataForensicsFlag {
+  type: 'editing_software' | 'capture_before_claim' | 'capture_after_claim' | 'metadata_stripped' | 'device_mismatch';
+  severity: 'low' | 'medium' | 'high';
+  message: string;
+  fileIndexes: number[]; // Positions in MetadataForensicsResult.files
+}
+
+export interface MetadataForensicsResult {
+  files: MediaMetadata[];
+  flags: MetadataForensicsFlag[];
+  riskLevel: SecurityScanResult['riskLevel'] | null; // Highest flag severity, null when nothing was flagged
+}
+
 // ========================================
 // Response Validation Types
 // ========================================
@@ -388,4 +427,5 @@ export interface AuditLogEntry {
   result: 'success' | 'error' | 'flagged';
   securityFlags: string[];
   tokenUsage?: number;
+  modelUsed?: string;
 }
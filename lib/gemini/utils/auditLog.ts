@@ -1,6 +1,5 @@
-"use server";
-
 import { createHash } from "crypto";
+import { recordAuditLog } from "@/lib/audit/auditLogs";
 import type { AuditLogEntry } from "../types";
 
 /**
@@ -29,11 +28,16 @@ export async function hashMultipleFiles(
 
 /**
  * Log analysis request for audit trail
- * Phase 1: Console-based logging
- * Future: Integrate with Appwrite database for persistence
+ * Prints a summary to the console and persists the entry to the audit_logs collection
+ * (IP and user agent are taken from the current request - see lib/audit/auditLogs.ts)
+ *
+ * @param entry - Audit entry for the analysis
+ * @param userId - User the analysis runs for; defaults to the session user, which the
+ *                 analysis job worker and the v1 API do not have
  */
 export async function logAnalysisRequest(
-  entry: AuditLogEntry
+  entry: AuditLogEntry,
+  userId?: string
 ): Promise<void> {
   try {
     // Format for console output
@@ -41,6 +45,7 @@ export async function logAnalysisRequest(
     const action = entry.action.toUpperCase().padEnd(20);
     const result = entry.result.toUpperCase().padEnd(10);
     const tokens = entry.tokenUsage ? `${entry.tokenUsage} tokens` : 'N/A';
+    const model = entry.modelUsed || 'N/A';
 
     // Log header
     console.log('\n' + '='.repeat(80));
@@ -51,6 +56,7 @@ export async function logAnalysisRequest(
     console.log(`Action:        ${action}`);
     console.log(`Result:        ${result}`);
     console.log(`Token Usage:   ${tokens}`);
+    console.log(`Model:         ${model}`);
 
     // Log file hashes
     if (entry.fileHashes.length > 0) {
@@ -69,6 +75,20 @@ export async function logAnalysisRequest(
     }
 
     console.log('='.repeat(80) + '\n');
+
+    await recordAuditLog({
+      action: entry.action,
+      resourceType: 'analysis',
+      userId,
+      result: entry.result,
+      fileHashes: entry.fileHashes,
+      securityFlags: entry.securityFlags,
+      tokenUsage: entry.tokenUsage,
+      metadata: {
+        timestamp,
+        ...(entry.modelUsed && { modelUsed: entry.modelUsed }),
+      },
+    });
   } catch (error) {
     console.error("❌ Audit logging error:", error);
     // Don't throw - logging failures shouldn't block operations
@@ -82,7 +102,8 @@ export async function createVideoAnalysisAuditEntry(
   videoBase64: string,
   result: 'success' | 'error' | 'flagged',
   securityFlags: string[],
-  tokenUsage?: number
+  tokenUsage?: number,
+  modelUsed?: string
 ): Promise<AuditLogEntry> {
   const fileHashes = [await hashFileContent(videoBase64)];
 
@@ -93,6 +114,7 @@ export async function createVideoAnalysisAuditEntry(
     result,
     securityFlags,
     tokenUsage,
+    modelUsed,
   };
 }
 
@@ -103,7 +125,8 @@ export async function createImageAnalysisAuditEntry(
   imageBase64Array: string[],
   result: 'success' | 'error' | 'flagged',
   securityFlags: string[],
-  tokenUsage?: number
+  tokenUsage?: number,
+  modelUsed?: string
 ): Promise<AuditLogEntry> {
   const fileHashes = await hashMultipleFiles(imageBase64Array);
 
@@ -114,6 +137,7 @@ export async function createImageAnalysisAuditEntry(
     result,
     securityFlags,
     tokenUsage,
+    modelUsed,
   };
 }
 
@@ -125,7 +149,8 @@ export async function createPolicyAnalysisAuditEntry(
   policyBase64: string,
   result: 'success' | 'error' | 'flagged',
   securityFlags: string[],
-  tokenUsage?: number
+  tokenUsage?: number,
+  modelUsed?: string
 ): Promise<AuditLogEntry> {
   const fileHashes = await hashMultipleFiles([...mediaBase64Array, policyBase64]);
 
@@ -136,22 +161,6 @@ export async function createPolicyAnalysisAuditEntry(
     result,
     securityFlags,
     tokenUsage,
+    modelUsed,
   };
 }
-
-/**
- * Get audit logs (placeholder for future database integration)
- * Currently returns empty array since we're only logging to console
- */
-export async function getAuditLogs(
-  filters?: {
-    action?: string;
-    result?: string;
-    fromDate?: Date;
-    toDate?: Date;
-  }
-): Promise<AuditLogEntry[]> {
-  // TODO: Implement database query when integrated with Appwrite
-  console.warn("getAuditLogs not yet implemented - audit logs are console-only in Phase 1");
-  return [];
-}
@@ -1,10 +1,13 @@
 "use server";
 
 import { SECURITY_CONFIG } from "../constants";
+import { formatPolicyPeriod, getPolicyPeriodStatus, type PolicyTerms } from "@/lib/policy/policyTerms";
+import { calculateCoverage, compareFinancialBreakdowns } from "@/lib/policy/coverageCalculator";
 import type {
   ValidationResult,
   AutoDamageAnalysis,
   EnhancedAutoDamageAnalysis,
+  MetadataForensicsResult,
 } from "../types";
 
 /**
@@ -18,9 +21,18 @@ function isEnhancedAnalysis(
 
 /**
  * Validate basic auto damage analysis against business rules
+ * Metadata forensics of the uploads, when available, add their flags as warnings
+ * (flagged reason metadata_<flag type>). With the policy's stored terms, the policy
+ * period is checked against the incident date (or today) instead of trusting the model.
+ * The model's financial breakdown is checked against lib/policy/coverageCalculator.ts.
  */
 export async function validateAutoDamageAnalysis(
-  analysis: AutoDamageAnalysis | EnhancedAutoDamageAnalysis
+  analysis: AutoDamageAnalysis | EnhancedAutoDamageAnalysis,
+  context?: {
+    metadataForensics?: MetadataForensicsResult;
+    policyTerms?: PolicyTerms;
+    incidentDate?: string | null;
+  }
 ): Promise<ValidationResult> {
   const warnings: string[] = [];
   const flaggedReasons: string[] = [];
@@ -50,6 +62,17 @@ export async function validateAutoDamageAnalysis(
     }
   }
 
+  // Rule 3a: Media metadata shows signs of manipulation
+  for (const flag of context?.metadataForensics?.flags ?? []) {
+    warnings.push(flag.message);
+    if (!flaggedReasons.includes(`metadata_${flag.type}`)) {
+      flaggedReasons.push(`metadata_${flag.type}`);
+    }
+    if (flag.severity === 'high') {
+      requiresManualReview = true;
+    }
+  }
+
   // Enhanced analysis validation
   if (isEnhancedAnalysis(analysis)) {
     // Check for hallucinated placeholder data
@@ -231,6 +254,57 @@ export async function validateAutoDamageAnalysis(
       flaggedReasons.push('damage_consistency_issue');
       requiresManualReview = true;
     }
+
+    // Rule 16: Claimant's narrative contradicts the visible damage
+    if (analysis.incidentAssessment?.narrativeConsistent === false) {
+      warnings.push(
+        `Incident narrative does not match the visible damage${
+          analysis.incidentAssessment.narrativeNotes ? `: ${analysis.incidentAssessment.narrativeNotes}` : '.'
+        }`
+      );
+      flaggedReasons.push('narrative_mismatch');
+      requiresManualReview = true;
+    }
+
+    // Rule 17: Incident date outside the policy period
+    // Stored terms with dates decide it; the model's reading of the PDF is the fallback
+    const policyTerms = context?.policyTerms;
+    const periodStatus = policyTerms ? getPolicyPeriodStatus(policyTerms, context?.incidentDate ?? new Date()) : 'unknown';
+    if (policyTerms && periodStatus !== 'unknown') {
+      if (periodStatus !== 'active') {
+        warnings.push(
+          `Policy was not in force on the ${context?.incidentDate ? 'incident' : 'submission'} date (policy period ${
+            formatPolicyPeriod(policyTerms)
+          }). Coverage may not apply.`
+        );
+        flaggedReasons.push('incident_outside_policy_period');
+        requiresManualReview = true;
+      }
+    } else if (analysis.incidentAssessment?.incidentWithinPolicyPeriod === false) {
+      const period = analysis.incidentAssessment.policyPeriod;
+      warnings.push(
+        `Incident date is outside the policy period${
+          period ? ` (${period.start ?? 'unknown'} to ${period.end ?? 'unknown'})` : ''
+        }. Coverage may not apply.`
+      );
+      flaggedReasons.push('incident_outside_policy_period');
+      requiresManualReview = true;
+    }
+
+    // Rule 18: Model's financial breakdown disagrees with the coverage calculator
+    if (analysis.claimAssessment?.financialBreakdown) {
+      const computed = calculateCoverage(analysis, policyTerms).breakdown;
+      const differences = compareFinancialBreakdowns(analysis.claimAssessment.financialBreakdown, computed);
+      if (differences.length > 0) {
+        warnings.push(
+          `Financial breakdown does not match the policy calculation: ${differences
+            .map(({ field, model, computed }) => `${field} ${model.toLocaleString()} (calculated ${computed.toLocaleString()})`)
+            .join(', ')}.`
+        );
+        flaggedReasons.push('payout_mismatch');
+        requiresManualReview = true;
+      }
+    }
   }
 
   return {
@@ -246,9 +320,10 @@ export async function validateAutoDamageAnalysis(
  * Alias for validateAutoDamageAnalysis with type assertion
  */
 export async function validateEnhancedAnalysis(
-  analysis: EnhancedAutoDamageAnalysis
+  analysis: EnhancedAutoDamageAnalysis,
+  context?: Parameters<typeof validateAutoDamageAnalysis>[1]
 ): Promise<ValidationResult> {
-  return await validateAutoDamageAnalysis(analysis);
+  return await validateAutoDamageAnalysis(analysis, context);
 }
 
 /**
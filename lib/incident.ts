@@ -0,0 +1,163 @@
+/**
+ * Incident Details
+ * What the claimant says happened: when, where, how, and who else was involved.
+ * Collected with the capture flow, stored on the report's assessment (incident_json,
+ * never public) and passed to the policy-aware analysis so the model can cross-check
+ * the narrative against the visible damage and the incident date against the policy
+ * period.
+ *
+ * Everything is optional; an empty form is not stored.
+ */
+
+import type { IncidentAssessment } from '@/lib/gemini/types';
+
+export interface IncidentParty {
+  name: string;
+  contact: string | null; // Phone or email
+  vehicle: string | null; // Make, model and plate of their vehicle
+  insurer: string | null;
+}
+
+export interface IncidentWitness {
+  name: string;
+  contact: string | null;
+}
+
+export interface IncidentDetails {
+  occurredAt: string | null; // ISO 8601
+  location: string | null;
+  narrative: string | null;
+  policeReportNumber: string | null;
+  otherParties: IncidentParty[];
+  witnesses: IncidentWitness[];
+}
+
+export const INCIDENT_LIMITS = {
+  NARRATIVE_LENGTH: 2000,
+  LOCATION_LENGTH: 300,
+  POLICE_REPORT_LENGTH: 50,
+  FIELD_LENGTH: 100, // Names, contacts, vehicles, insurers
+  MAX_PARTIES: 5,
+  MAX_WITNESSES: 5,
+} as const;
+
+// Device clocks drift; a slightly future incident time is not an error
+const FUTURE_TOLERANCE_MS = 60 * 60 * 1000;
+
+/**
+ * Validate incident details sent by a client
+ * Strings are trimmed and cut to INCIDENT_LIMITS, empty parties are dropped.
+ *
+ * @param value - Parsed JSON from the submission form or API
+ * @returns Incident details, null when nothing was filled in, or an error message
+ *
+ * @example
+ * const result = normalizeIncidentDetails(JSON.parse(formData.get('incidentDetails')));
+ * if ('error' in result) return { success: false, message: result.error };
+ */
+export function normalizeIncidentDetails(
+  value: unknown
+): IncidentDetails | null | { error: string } {
+  if (!value || typeof value !== 'object') return null;
+  const input = value as Record<string, unknown>;
+
+  let occurredAt: string | null = null;
+  const rawDate = text(input.occurredAt, 40);
+  if (rawDate) {
+    const date = new Date(rawDate);
+    if (isNaN(date.getTime())) {
+      return { error: 'Incident date is not a valid date' };
+    }
+    if (date.getTime() > Date.now() + FUTURE_TOLERANCE_MS) {
+      return { error: 'Incident date cannot be in the future' };
+    }
+    occurredAt = date.toISOString();
+  }
+
+  const otherParties = list(input.otherParties)
+    .map((party) => ({
+      name: text(party.name, INCIDENT_LIMITS.FIELD_LENGTH) ?? '',
+      contact: text(party.contact, INCIDENT_LIMITS.FIELD_LENGTH),
+      vehicle: text(party.vehicle, INCIDENT_LIMITS.FIELD_LENGTH),
+      insurer: text(party.insurer, INCIDENT_LIMITS.FIELD_LENGTH),
+    }))
+    .filter((party) => party.name || party.contact || party.vehicle || party.insurer)
+    .slice(0, INCIDENT_LIMITS.MAX_PARTIES);
+
+  const witnesses = list(input.witnesses)
+    .map((witness) => ({
+      name: text(witness.name, INCIDENT_LIMITS.FIELD_LENGTH) ?? '',
+      contact: text(witness.contact, INCIDENT_LIMITS.FIELD_LENGTH),
+    }))
+    .filter((witness) => witness.name || witness.contact)
+    .slice(0, INCIDENT_LIMITS.MAX_WITNESSES);
+
+  const details: IncidentDetails = {
+    occurredAt,
+    location: text(input.location, INCIDENT_LIMITS.LOCATION_LENGTH),
+    narrative: text(input.narrative, INCIDENT_LIMITS.NARRATIVE_LENGTH),
+    policeReportNumber: text(input.policeReportNumber, INCIDENT_LIMITS.POLICE_REPORT_LENGTH),
+    otherParties,
+    witnesses,
+  };
+
+  return hasIncidentDetails(details) ? details : null;
+}
+
+/**
+ * Whether any incident detail was provided
+ */
+export function hasIncidentDetails(details: IncidentDetails | null | undefined): details is IncidentDetails {
+  return !!details && (
+    !!details.occurredAt ||
+    !!details.location ||
+    !!details.narrative ||
+    !!details.policeReportNumber ||
+    details.otherParties.length > 0 ||
+    details.witnesses.length > 0
+  );
+}
+
+/**
+ * Read the incident details stored on a report assessment or analysis job
+ *
+ * @param json - incident_json attribute
+ * @returns Incident details, or null when missing or unparseable
+ */
+export function parseIncidentDetails(json: string | undefined | null): IncidentDetails | null {
+  if (!json) return null;
+  try {
+    const details = normalizeIncidentDetails(JSON.parse(json));
+    return details && !('error' in details) ? details : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the model's incident cross-check stored on a report's fraud assessment
+ *
+ * @param json - incident_assessment_json attribute
+ * @returns Incident assessment, or null when missing or unparseable
+ */
+export function parseIncidentAssessment(json: string | undefined | null): IncidentAssessment | null {
+  if (!json) return null;
+  try {
+    const assessment = JSON.parse(json);
+    return assessment && typeof assessment === 'object' ? assessment : null;
+  } catch {
+    return null;
+  }
+}
+
+function text(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, maxLength) : null;
+}
+
+function list(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    : [];
+}
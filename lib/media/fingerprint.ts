@@ -0,0 +1,246 @@
+import { inflateSync } from 'zlib';
+
+/**
+ * Media Fingerprints
+ * Exact and perceptual hashes of claim evidence, used to detect photos and videos
+ * recycled from earlier claims (lib/media/recycledMedia.ts).
+ *
+ * - Exact: SHA-256 of the base64 upload (hashFileContent, same value as the audit log)
+ * - Perceptual: 64-bit difference hash (dHash) of a small grayscale rendition. It
+ *   survives re-compression, resizing and light edits, and two images are
+ *   near-duplicates when their hashes differ in at most PERCEPTUAL_MATCH_DISTANCE bits.
+ *
+ * Images are hashed from a PNG preview rendered by Appwrite storage. Videos can't
+ * be decoded on the server, so the browser samples frames as small PNGs when the
+ * report is submitted (lib/utils/video-frames.ts) and each frame is hashed here.
+ * Those frames can't be checked against the video, so a video submitted without
+ * usable frames counts towards the fraud score (video_frames_missing).
+ */
+
+export type MediaFingerprintKind = 'image' | 'video' | 'video_frame';
+
+export interface MediaFingerprint {
+  fileId: string;
+  kind: MediaFingerprintKind;
+  frameIndex?: number; // video_frame only
+  sha256: string | null; // null for video frames
+  phash: string | null; // 16 hex characters; null when the media could not be decoded
+}
+
+/** Maximum differing bits for two perceptual hashes to count as the same picture */
+export const PERCEPTUAL_MATCH_DISTANCE = 4;
+
+// Hashes are split into bands for lookup: near-duplicates within
+// PERCEPTUAL_MATCH_DISTANCE bits always share at least one band (pigeonhole)
+const HASH_BANDS = PERCEPTUAL_MATCH_DISTANCE + 1;
+const HASH_BITS = 64;
+
+// dHash compares each pixel with its right neighbour on a 9x8 grid
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+// Near-uniform pictures (black frames, blank walls) hash to almost all 0s or 1s and
+// would match each other; they are not used for perceptual matching
+const MIN_HASH_BITS_SET = 4;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Previews and sampled frames are 64 pixels wide; larger PNGs are not decoded, and
+// inflation stops at the size the header announces (guards against deflate bombs)
+const MAX_PNG_DIMENSION = 512;
+
+/**
+ * Perceptual hash (dHash) of a PNG image
+ *
+ * @param png - PNG file contents (8-bit grayscale, RGB, palette or with alpha; not interlaced)
+ * @returns 16 hex characters, or null for unsupported PNGs
+ *
+ * @example
+ * const preview = await storage.getFilePreview({ bucketId, fileId, width: 64, output: ImageFormat.Png });
+ * const phash = perceptualHashPng(new Uint8Array(preview)); // "f0e4c8d0b0a09088"
+ */
+export function perceptualHashPng(png: Uint8Array): string | null {
+  const image = decodePngGrayscale(png);
+  if (!image) return null;
+
+  const grid = resizeGrayscale(image, DHASH_WIDTH, DHASH_HEIGHT);
+  let bits = '';
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      bits += grid[y * DHASH_WIDTH + x] > grid[y * DHASH_WIDTH + x + 1] ? '1' : '0';
+    }
+  }
+
+  const setBits = bits.split('').filter((bit) => bit === '1').length;
+  if (setBits < MIN_HASH_BITS_SET || setBits > HASH_BITS - MIN_HASH_BITS_SET) {
+    return null;
+  }
+
+  let hex = '';
+  for (let i = 0; i < HASH_BITS; i += 4) {
+    hex += parseInt(bits.slice(i, i + 4), 2).toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Number of differing bits between two perceptual hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Lookup bands of a perceptual hash, stored in media_fingerprints.phash_bands
+ *
+ * @example
+ * perceptualHashBands('f0e4c8d0b0a09088') // ['0:1e1c', '1:...', ...]
+ */
+export function perceptualHashBands(phash: string): string[] {
+  const bits = phash
+    .split('')
+    .map((digit) => parseInt(digit, 16).toString(2).padStart(4, '0'))
+    .join('');
+  const bandSize = Math.ceil(HASH_BITS / HASH_BANDS);
+
+  const bands: string[] = [];
+  for (let band = 0; band < HASH_BANDS; band++) {
+    const value = parseInt(bits.slice(band * bandSize, (band + 1) * bandSize), 2);
+    bands.push(`${band}:${value.toString(16)}`);
+  }
+  return bands;
+}
+
+/**
+ * Decode a PNG into 8-bit luminance values
+ * Supports what previews and canvas exports produce: bit depth 8, no interlacing,
+ * at most MAX_PNG_DIMENSION pixels on each side.
+ */
+function decodePngGrayscale(png: Uint8Array): { width: number; height: number; pixels: Uint8Array } | null {
+  if (png.length < 8 || PNG_SIGNATURE.some((byte, i) => png[i] !== byte)) return null;
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Uint8Array | null = null;
+  const dataChunks: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= png.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const data = png.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      const bitDepth = data[8];
+      colorType = data[9];
+      const interlace = data[12];
+      if (bitDepth !== 8 || interlace !== 0) return null;
+      if (width > MAX_PNG_DIMENSION || height > MAX_PNG_DIMENSION) return null;
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'IDAT') {
+      dataChunks.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += length + 12;
+  }
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (!channels || width === 0 || height === 0 || (colorType === 3 && !palette)) return null;
+
+  const stride = width * channels;
+  let raw: Uint8Array;
+  try {
+    raw = inflateSync(Buffer.concat(dataChunks), { maxOutputLength: (stride + 1) * height });
+  } catch {
+    return null;
+  }
+  if (raw.length < (stride + 1) * height) return null;
+
+  // Undo the per-row filters (PNG spec, section 9)
+  const rows = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = rows.subarray(y * stride, (y + 1) * stride);
+    const previous = y > 0 ? rows.subarray((y - 1) * stride, y * stride) : null;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? row[x - channels] : 0;
+      const up = previous ? previous[x] : 0;
+      const upLeft = previous && x >= channels ? previous[x - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) predictor = paeth(left, up, upLeft);
+      row[x] = (source[x] + predictor) & 0xff;
+    }
+  }
+
+  const pixels = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    let r: number, g: number, b: number;
+    if (colorType === 3) {
+      const entry = rows[i] * 3;
+      [r, g, b] = [palette![entry], palette![entry + 1], palette![entry + 2]];
+    } else if (colorType === 0 || colorType === 4) {
+      r = g = b = rows[i * channels];
+    } else {
+      [r, g, b] = [rows[i * channels], rows[i * channels + 1], rows[i * channels + 2]];
+    }
+    pixels[i] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+  }
+
+  return { width, height, pixels };
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+/**
+ * Area-average a grayscale image down to a small grid
+ */
+function resizeGrayscale(
+  image: { width: number; height: number; pixels: Uint8Array },
+  width: number,
+  height: number
+): number[] {
+  const grid: number[] = [];
+  for (let gy = 0; gy < height; gy++) {
+    const y0 = Math.floor((gy * image.height) / height);
+    const y1 = Math.max(y0 + 1, Math.floor(((gy + 1) * image.height) / height));
+    for (let gx = 0; gx < width; gx++) {
+      const x0 = Math.floor((gx * image.width) / width);
+      const x1 = Math.max(x0 + 1, Math.floor(((gx + 1) * image.width) / width));
+      let sum = 0;
+      let count = 0;
+      for (let y = y0; y < Math.min(y1, image.height); y++) {
+        for (let x = x0; x < Math.min(x1, image.width); x++) {
+          sum += image.pixels[y * image.width + x];
+          count++;
+        }
+      }
+      grid.push(count > 0 ? sum / count : 0);
+    }
+  }
+  return grid;
+}
@@ -0,0 +1,275 @@
+import { AppwriteException, ImageFormat, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS, STORAGE_BUCKET_ID } from '@/lib/env';
+import { hashFileContent } from '@/lib/gemini/utils/auditLog';
+import { isVideo } from '@/lib/utils/fileConversion';
+import {
+  PERCEPTUAL_MATCH_DISTANCE,
+  hammingDistance,
+  perceptualHashBands,
+  perceptualHashPng,
+  type MediaFingerprint,
+  type MediaFingerprintKind,
+} from '@/lib/media/fingerprint';
+import type { MediaFingerprintDocument, ReportDocument } from '@/lib/types/appwrite';
+
+/**
+ * Recycled Media Detection
+ * Fingerprints the evidence of every new report and looks it up in the
+ * media_fingerprints collection, which holds the fingerprints of all earlier
+ * claims - the claimant's own, the company's and those filed with other insurers.
+ * Matches are stored on the report's fraud assessment (recycled_media_json), which
+ * only the company's team can read, and raise the recycled_media fraud rule
+ * (lib/fraud/fraudScore.ts).
+ */
+
+export interface RecycledMediaMatch {
+  fileId: string;
+  kind: MediaFingerprintKind;
+  frameIndex?: number;
+  matchType: 'exact' | 'perceptual';
+  distance: number; // Differing perceptual hash bits, 0 for exact copies
+  matchedReportId: string;
+  matchedClaimNumber: string;
+  matchedFileId: string;
+  sameClaimant: boolean;
+  sameCompany: boolean; // Reviewers can only open matches within their company
+}
+
+/** Owner of the fingerprints being checked */
+export interface MediaOwner {
+  reportId: string;
+  userId: string;
+  insuranceCompanyId?: string;
+}
+
+// Width of the preview rendered for perceptual hashing
+const PREVIEW_WIDTH = 64;
+
+// Browser-sampled frames are tiny PNGs; anything larger is not a frame
+const MAX_VIDEO_FRAMES = 8;
+const MAX_VIDEO_FRAME_BYTES = 256 * 1024;
+
+const MAX_CANDIDATES = 100;
+const MAX_STORED_MATCHES = 20;
+
+/**
+ * Fingerprint the uploaded evidence of a report
+ * Previews that fail to render leave the perceptual hash empty; the exact hash is always set.
+ *
+ * @param files - Uploaded files with their base64 content, in upload order
+ * @param videoFrameHashes - Perceptual hashes of frames sampled from the video (see hashVideoFrames)
+ * @returns One fingerprint per image and video, plus one per sampled frame
+ *
+ * @example
+ * const fingerprints = await fingerprintMedia(
+ *   fileIds.map((fileId, i) => ({ fileId, ...mediaBase64[i] })),
+ *   job.video_frame_hashes
+ * );
+ */
+export async function fingerprintMedia(
+  files: Array<{ fileId: string; base64: string; mimeType: string }>,
+  videoFrameHashes: string[] = []
+): Promise<MediaFingerprint[]> {
+  const { storage } = await adminAction();
+  // Frames are sampled from the first video of the submission
+  const videoFileId = files.find((file) => isVideo(file))?.fileId;
+
+  const fingerprints = await Promise.all(
+    files.map(async (file): Promise<MediaFingerprint[]> => {
+      const sha256 = await hashFileContent(file.base64);
+
+      if (isVideo(file)) {
+        const frames = file.fileId === videoFileId ? videoFrameHashes : [];
+        return [
+          { fileId: file.fileId, kind: 'video', sha256, phash: null },
+          ...frames.map((phash, frameIndex) => ({
+            fileId: file.fileId,
+            kind: 'video_frame' as const,
+            frameIndex,
+            sha256: null,
+            phash,
+          })),
+        ];
+      }
+
+      let phash: string | null = null;
+      try {
+        const preview = await storage.getFilePreview({
+          bucketId: STORAGE_BUCKET_ID,
+          fileId: file.fileId,
+          width: PREVIEW_WIDTH,
+          output: ImageFormat.Png,
+        });
+        phash = perceptualHashPng(new Uint8Array(preview));
+      } catch (error) {
+        console.warn(`⚠️ Preview of ${file.fileId} could not be rendered for fingerprinting:`, error);
+      }
+      return [{ fileId: file.fileId, kind: 'image', sha256, phash }];
+    })
+  );
+
+  return fingerprints.flat();
+}
+
+/**
+ * Perceptual hashes of the video frames sampled by the browser
+ * Frames that are too large or can't be decoded are skipped.
+ *
+ * @param frames - PNG frames from sampleVideoFrames (lib/utils/video-frames.ts)
+ * @returns Hashes in frame order
+ */
+export async function hashVideoFrames(frames: File[]): Promise<string[]> {
+  const hashes: string[] = [];
+  for (const frame of frames.slice(0, MAX_VIDEO_FRAMES)) {
+    if (frame.size > MAX_VIDEO_FRAME_BYTES) continue;
+    const phash = perceptualHashPng(new Uint8Array(await frame.arrayBuffer()));
+    if (phash) hashes.push(phash);
+  }
+  return hashes;
+}
+
+/**
+ * Find evidence of a new report in earlier claims
+ * Exact copies are found by SHA-256, near-duplicates (re-compressed, resized,
+ * cropped slightly) through the perceptual hash bands. A lookup that fails
+ * returns no matches rather than failing the report.
+ *
+ * @param fingerprints - From fingerprintMedia
+ * @param owner - The new report, its claimant and company
+ * @returns Matches, exact copies and closest matches first
+ *
+ * @example
+ * const matches = await findRecycledMedia(fingerprints, { reportId, userId, insuranceCompanyId });
+ * // [{ fileId: 'abc', matchType: 'exact', matchedClaimNumber: 'CLM-...', sameClaimant: true, ... }]
+ */
+export async function findRecycledMedia(
+  fingerprints: MediaFingerprint[],
+  owner: MediaOwner
+): Promise<RecycledMediaMatch[]> {
+  const hashes = [...new Set(fingerprints.flatMap((fp) => (fp.sha256 ? [fp.sha256] : [])))];
+  const bands = [...new Set(fingerprints.flatMap((fp) => (fp.phash ? perceptualHashBands(fp.phash) : [])))];
+  if (hashes.length === 0 && bands.length === 0) return [];
+
+  try {
+    const { databases } = await adminAction();
+    const lookup = (query: string) =>
+      databases
+        .listDocuments<MediaFingerprintDocument>(DATABASE_ID, COLLECTION_IDS.MEDIA_FINGERPRINTS, [
+          query,
+          Query.notEqual('claim_id', owner.reportId),
+          Query.orderDesc('$createdAt'),
+          Query.limit(MAX_CANDIDATES),
+        ])
+        .then((result) => result.documents);
+
+    const [exactCandidates, similarCandidates] = await Promise.all([
+      hashes.length > 0 ? lookup(Query.equal('sha256', hashes)) : Promise.resolve([]),
+      bands.length > 0 ? lookup(Query.contains('phash_bands', bands)) : Promise.resolve([]),
+    ]);
+
+    // Best match per file (or frame) and earlier report
+    const matches = new Map<string, RecycledMediaMatch>();
+    const addMatch = (fp: MediaFingerprint, doc: MediaFingerprintDocument, distance: number) => {
+      const key = `${fp.fileId}:${fp.frameIndex ?? ''}:${doc.claim_id}`;
+      const existing = matches.get(key);
+      if (existing && existing.distance <= distance) return;
+
+      matches.set(key, {
+        fileId: fp.fileId,
+        kind: fp.kind,
+        ...(fp.frameIndex !== undefined && { frameIndex: fp.frameIndex }),
+        matchType: distance === 0 ? 'exact' : 'perceptual',
+        distance,
+        matchedReportId: doc.claim_id,
+        matchedClaimNumber: doc.claim_number,
+        matchedFileId: doc.file_id,
+        sameClaimant: doc.user_id === owner.userId,
+        sameCompany: !!owner.insuranceCompanyId && doc.insurance_company_id === owner.insuranceCompanyId,
+      });
+    };
+
+    for (const fp of fingerprints) {
+      for (const doc of exactCandidates) {
+        if (fp.sha256 && doc.sha256 === fp.sha256) addMatch(fp, doc, 0);
+      }
+      for (const doc of similarCandidates) {
+        if (!fp.phash || !doc.phash) continue;
+        const distance = hammingDistance(fp.phash, doc.phash);
+        // An identical perceptual hash without identical bytes is still a re-encoded copy
+        if (distance <= PERCEPTUAL_MATCH_DISTANCE) addMatch(fp, doc, Math.max(distance, 1));
+      }
+    }
+
+    return [...matches.values()]
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_STORED_MATCHES);
+  } catch (error) {
+    console.warn(`⚠️ Recycled media lookup for report ${owner.reportId} failed:`, error);
+    return [];
+  }
+}
+
+/**
+ * Store the fingerprints of a new report for checks of later claims
+ * Failures are logged; the report itself is already created. IDs are derived from the
+ * report ID, so saving again for a retried report only adds the missing fingerprints.
+ *
+ * @param fingerprints - From fingerprintMedia
+ * @param report - The created report
+ */
+export async function saveMediaFingerprints(
+  fingerprints: MediaFingerprint[],
+  report: ReportDocument
+): Promise<void> {
+  if (fingerprints.length === 0) return;
+
+  const { databases } = await adminAction();
+  const results = await Promise.allSettled(
+    fingerprints.map((fp, index) =>
+      databases.createDocument<MediaFingerprintDocument>(
+        DATABASE_ID,
+        COLLECTION_IDS.MEDIA_FINGERPRINTS,
+        `${report.$id}_media${index}`,
+        {
+          claim_id: report.$id,
+          claim_number: report.claim_number,
+          user_id: report.user_id,
+          insurance_company_id: report.insurance_company_id,
+          file_id: fp.fileId,
+          kind: fp.kind,
+          frame_index: fp.frameIndex,
+          sha256: fp.sha256 ?? undefined,
+          phash: fp.phash ?? undefined,
+          phash_bands: fp.phash ? perceptualHashBands(fp.phash) : [],
+        }
+      )
+    )
+  );
+
+  // A conflict is a fingerprint an earlier attempt already saved
+  const failed = results.filter(
+    (result) =>
+      result.status === 'rejected' &&
+      !(result.reason instanceof AppwriteException && result.reason.code === 409)
+  ).length;
+  if (failed > 0) {
+    console.error(`❌ ${failed} of ${fingerprints.length} media fingerprints of report ${report.$id} were not saved`);
+  }
+}
+
+/**
+ * Read the matches stored on a report's fraud assessment
+ *
+ * @param json - recycled_media_json of a fraud assessment
+ * @returns Matches, or an empty list when missing or unparseable
+ */
+export function parseRecycledMedia(json: string | undefined | null): RecycledMediaMatch[] {
+  if (!json) return [];
+  try {
+    const matches = JSON.parse(json);
+    return Array.isArray(matches) ? matches : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,468 @@
+import { jsPDF } from 'jspdf';
+import { ImageFormat } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { STORAGE_BUCKET_ID } from '@/lib/env';
+import { computeAdjustedFinancials } from '@/lib/claimAdjustments';
+import { resolveReportTemplate, type ReportPdfTemplate } from '@/lib/pdf/reportTemplates';
+import type { FullReportData, ReportFraudAssessment } from '@/lib/types/appwrite';
+
+/**
+ * Claim Report PDF
+ * Server-side rendering of a report to a branded A4 PDF, so every download,
+ * API client and attachment gets the same document.
+ */
+
+export interface ReportPdfData extends FullReportData {
+  /** JPEG previews of the image evidence, in upload order */
+  mediaThumbnails: Uint8Array[];
+}
+
+export interface ReportPdfOptions {
+  /** Symbol prefixed to amounts (the report page uses the viewer's locale) */
+  currencySymbol?: string;
+  /** Fraud checks are internal; leave them out for claimants (default true) */
+  includeFraudAssessment?: boolean;
+}
+
+const MAX_THUMBNAILS = 12;
+const THUMBNAIL_PREVIEW_WIDTH = 480;
+
+/**
+ * Load everything the PDF shows for a report and render it
+ *
+ * @param data - Report data from fetchFullReportData (access must already be checked)
+ * @param options - Rendering options
+ * @returns PDF bytes and a download filename
+ *
+ * @example
+ * const data = await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, id);
+ * const { pdf, filename } = await generateReportPdf(data);
+ * return new NextResponse(pdf, { headers: { 'Content-Type': 'application/pdf' } });
+ */
+export async function generateReportPdf(
+  data: FullReportData,
+  options: ReportPdfOptions = {}
+): Promise<{ pdf: ArrayBuffer; filename: string }> {
+  const template = await resolveReportTemplate(data.report.insurance_company_id);
+  const mediaThumbnails = template.showMediaThumbnails ? await getMediaThumbnails(data.report.media_file_ids ?? []) : [];
+  const fraudAssessment =
+    template.showFraudAssessment && options.includeFraudAssessment !== false ? data.fraudAssessment : null;
+
+  const pdf = renderReportPdf({ ...data, fraudAssessment, mediaThumbnails }, template, options);
+  return { pdf, filename: `report-${data.report.claim_number}.pdf` };
+}
+
+/**
+ * JPEG previews of a report's images (videos and missing files are skipped)
+ */
+async function getMediaThumbnails(fileIds: string[]): Promise<Uint8Array[]> {
+  const { storage } = await adminAction();
+
+  const files = await Promise.allSettled(fileIds.map((fileId) => storage.getFile(STORAGE_BUCKET_ID, fileId)));
+  const imageIds = files
+    .flatMap((file) => (file.status === 'fulfilled' && file.value.mimeType.startsWith('image/') ? [file.value.$id] : []))
+    .slice(0, MAX_THUMBNAILS);
+
+  const previews = await Promise.allSettled(
+    imageIds.map((fileId) =>
+      storage.getFilePreview({
+        bucketId: STORAGE_BUCKET_ID,
+        fileId,
+        width: THUMBNAIL_PREVIEW_WIDTH,
+        quality: 70,
+        output: ImageFormat.Jpeg,
+      })
+    )
+  );
+
+  return previews.flatMap((preview) => (preview.status === 'fulfilled' ? [new Uint8Array(preview.value)] : []));
+}
+
+const SEVERITY_BADGES: Record<string, { fill: string; text: string }> = {
+  minor: { fill: '#dcfce7', text: '#166534' },
+  moderate: { fill: '#fef9c3', text: '#854d0e' },
+  severe: { fill: '#fed7aa', text: '#9a3412' },
+  total_loss: { fill: '#fecaca', text: '#991b1b' },
+};
+
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const RULE_COLOR = '#e5e7eb';
+
+const formatLabel = (value: string) => value.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short',
+  });
+
+/**
+ * Render a report to PDF
+ *
+ * @param data - Report, related documents and media thumbnails
+ * @param template - Company branding
+ * @param options - Rendering options
+ * @returns PDF bytes
+ */
+export function renderReportPdf(
+  data: ReportPdfData,
+  template: ReportPdfTemplate,
+  options: ReportPdfOptions = {}
+): ArrayBuffer {
+  const { report, damageDetails, vehicleVerification, assessment, fraudAssessment, mediaThumbnails } = data;
+  const currencySymbol = options.currencySymbol ?? '$';
+  const money = (amount: number) => `${currencySymbol}${amount.toLocaleString('en-US')}`;
+
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  doc.setProperties({
+    title: `Damage Report ${report.claim_number}`,
+    subject: 'Vehicle damage claim report',
+    creator: template.companyName,
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - margin * 2;
+  const labelWidth = 60;
+
+  // The footer is drawn on every page at the end; reserve its height up front
+  doc.setFontSize(7);
+  const disclaimerLines: string[] = doc.splitTextToSize(template.footerDisclaimer, contentWidth);
+  const footerHeight = disclaimerLines.length * 3 + 9;
+  const contentBottom = pageHeight - margin - footerHeight;
+
+  let y = margin;
+
+  const ensureSpace = (neededHeight: number) => {
+    if (y + neededHeight > contentBottom) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  const drawRule = (yPos: number, color = RULE_COLOR) => {
+    doc.setDrawColor(color);
+    doc.line(margin, yPos, pageWidth - margin, yPos);
+  };
+
+  const sectionHeader = (title: string, minHeight = 30) => {
+    ensureSpace(minHeight);
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(template.primaryColor);
+    doc.text(title.toUpperCase(), margin, y);
+    y += 2;
+    drawRule(y, template.accentColor);
+    y += 7;
+  };
+
+  const keyValueRows = (rows: Array<[string, string]>) => {
+    doc.setFontSize(10);
+    for (const [label, value] of rows) {
+      const valueLines: string[] = doc.splitTextToSize(value, contentWidth - labelWidth);
+      ensureSpace(valueLines.length * 5 + 3);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(MUTED_COLOR);
+      doc.text(label, margin, y);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(TEXT_COLOR);
+      doc.text(valueLines, margin + labelWidth, y);
+      y += valueLines.length * 5 + 3;
+    }
+    y += 6;
+  };
+
+  const paragraph = (text: string, color = MUTED_COLOR) => {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(color);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth);
+    for (const line of lines) {
+      ensureSpace(5);
+      doc.text(line, margin, y);
+      y += 4.5;
+    }
+    y += 2;
+  };
+
+  const badge = (text: string, x: number, yPos: number, colors: { fill: string; text: string }) => {
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setFillColor(colors.fill);
+    doc.setTextColor(colors.text);
+    doc.roundedRect(x, yPos - 3.5, doc.getTextWidth(text) + 4, 5, 1, 1, 'F');
+    doc.text(text, x + 2, yPos);
+  };
+
+  // Header: logo, company and report title
+  if (template.logo) {
+    const logo = doc.getImageProperties(template.logo);
+    const logoHeight = 14;
+    const logoWidth = Math.min(60, (logo.width / logo.height) * logoHeight);
+    doc.addImage(template.logo, 'PNG', margin, y, logoWidth, (logo.height / logo.width) * logoWidth);
+    y += logoHeight + 4;
+  }
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(template.accentColor);
+  doc.text(template.headerText ?? template.companyName, margin, y);
+  y += 8;
+
+  doc.setFontSize(20);
+  doc.setTextColor(template.primaryColor);
+  doc.text(`Damage Report: ${report.claim_number}`, margin, y);
+  y += 7;
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(MUTED_COLOR);
+  doc.text(`Generated on ${formatDate(new Date().toISOString())}`, margin, y);
+  y += 4;
+  drawRule(y, template.accentColor);
+  y += 10;
+
+  // Overview
+  sectionHeader('Report Overview');
+  const overviewRows: Array<[string, string]> = [
+    ['Report Number', report.claim_number],
+    ['Analysis Date', formatDate(report.analysis_timestamp)],
+    ['Status', formatLabel(report.claim_status ?? 'pending')],
+    ['Damage Type', formatLabel(report.damage_type)],
+    ['Overall Severity', formatLabel(report.overall_severity)],
+    ['Repair Complexity', formatLabel(report.estimated_repair_complexity)],
+    ['Confidence Score', `${(report.confidence_score * 100).toFixed(0)}%`],
+  ];
+  if (report.damage_cause) overviewRows.push(['Cause', report.damage_cause]);
+  if (report.investigation_needed) {
+    overviewRows.push(['Investigation', 'Required']);
+    if (report.investigation_reason) overviewRows.push(['Investigation Reason', report.investigation_reason]);
+  }
+  keyValueRows(overviewRows);
+
+  // Financial summary (adjuster overrides replace the AI figures)
+  const visibleDamages = damageDetails.filter((d) => !d.is_inferred);
+  const aiTotal = assessment?.total_repair_estimate ?? report.estimated_total_repair_cost;
+  const financials =
+    report.adjusted_total_repair_cost != null
+      ? computeAdjustedFinancials(aiTotal, assessment, visibleDamages, {
+          coveredAmount: assessment?.adjusted_covered_amount,
+          deductible: assessment?.adjusted_deductible,
+        })
+      : assessment
+        ? {
+            totalRepairEstimate: assessment.total_repair_estimate,
+            coveredAmount: assessment.covered_amount,
+            deductible: assessment.deductible,
+            estimatedPayout: assessment.estimated_payout,
+          }
+        : null;
+
+  if (financials) {
+    sectionHeader(report.adjusted_total_repair_cost != null ? 'Financial Summary (Adjusted)' : 'Financial Summary');
+    keyValueRows([
+      ['Total Repair Estimate', money(financials.totalRepairEstimate)],
+      ['Covered Amount', money(financials.coveredAmount)],
+      ['Deductible', money(financials.deductible)],
+    ]);
+
+    ensureSpace(14);
+    y -= 4;
+    doc.setFillColor('#f0fdf4');
+    doc.rect(margin, y - 2, contentWidth, 10, 'F');
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(TEXT_COLOR);
+    doc.text('Estimated Payout', margin + 2, y + 4.5);
+    doc.setFontSize(12);
+    doc.setTextColor('#16a34a');
+    doc.text(money(financials.estimatedPayout), margin + labelWidth, y + 4.5);
+    y += 16;
+
+    if (assessment?.adjustment_note) paragraph(`Adjuster note: ${assessment.adjustment_note}`);
+  }
+
+  // Vehicle verification
+  if (vehicleVerification) {
+    sectionHeader('Vehicle Verification', 60);
+    keyValueRows([
+      ['Status', formatLabel(vehicleVerification.verification_status)],
+      ...(
+        [
+          ['License Plate', vehicleVerification.video_license_plate, vehicleVerification.policy_license_plate],
+          ['VIN', vehicleVerification.video_vin, vehicleVerification.policy_vin],
+          ['Make', vehicleVerification.video_make, vehicleVerification.policy_make],
+          ['Model', vehicleVerification.video_model, vehicleVerification.policy_model],
+          ['Year', vehicleVerification.video_year, vehicleVerification.policy_year],
+          ['Color', vehicleVerification.video_color, vehicleVerification.policy_color],
+        ] as Array<[string, unknown, unknown]>
+      ).map(([field, media, policy]): [string, string] => [
+        field,
+        `${media || '—'} (media)  /  ${policy || '—'} (policy)`,
+      ]),
+    ]);
+    if (vehicleVerification.mismatches) paragraph(`Mismatches: ${vehicleVerification.mismatches}`, '#b91c1c');
+    if (vehicleVerification.notes) paragraph(`Notes: ${vehicleVerification.notes}`);
+  }
+
+  // Damaged parts
+  const listedDamages = visibleDamages.filter((d) => !d.is_removed);
+  if (listedDamages.length > 0) {
+    sectionHeader(`Damaged Parts (${listedDamages.length})`, 40);
+
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setFillColor('#f9fafb');
+    doc.rect(margin, y - 4, contentWidth, 6, 'F');
+    doc.setTextColor(MUTED_COLOR);
+    doc.text('PART', margin + 2, y);
+    doc.text('SEVERITY', margin + 45, y);
+    doc.text('EST. COST', margin + 75, y);
+    doc.text('DESCRIPTION', margin + 105, y);
+    y += 7;
+
+    for (const detail of listedDamages) {
+      doc.setFontSize(9);
+      const partName: string[] = doc.splitTextToSize(detail.part_name, 40);
+      const description: string[] = doc.splitTextToSize(detail.description || '—', contentWidth - 105);
+      const cost =
+        detail.adjusted_repair_cost != null ? money(detail.adjusted_repair_cost) : detail.estimated_repair_cost || '—';
+      const action = detail.adjusted_repair_or_replace ?? detail.repair_or_replace;
+      const rowHeight = Math.max(partName.length, description.length) * 4 + (action ? 4 : 0) + 4;
+      ensureSpace(rowHeight);
+
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(TEXT_COLOR);
+      doc.text(partName, margin + 2, y);
+      badge(formatLabel(detail.severity), margin + 45, y, SEVERITY_BADGES[detail.severity] ?? SEVERITY_BADGES.minor);
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(MUTED_COLOR);
+      doc.text(cost, margin + 75, y);
+      doc.text(description, margin + 105, y);
+      if (action && action !== 'undetermined') {
+        doc.setFont('helvetica', 'italic');
+        doc.text(`Recommendation: ${formatLabel(action)}`, margin + 2, y + partName.length * 4);
+      }
+
+      y += rowHeight;
+      doc.setDrawColor('#f3f4f6');
+      doc.line(margin, y - 3, pageWidth - margin, y - 3);
+    }
+    y += 6;
+  }
+
+  // Fraud assessment
+  const fraudRows = fraudAssessment ? getFraudRows(fraudAssessment) : [];
+  if (fraudRows.length > 0) {
+    sectionHeader('Fraud Assessment');
+    keyValueRows(fraudRows);
+  }
+
+  // Safety concerns and recommended actions
+  if (report.safety_concerns?.length) {
+    sectionHeader('Safety Concerns', 20);
+    report.safety_concerns.forEach((concern) => paragraph(`• ${concern}`, TEXT_COLOR));
+    y += 4;
+  }
+  if (report.recommended_actions?.length) {
+    sectionHeader('Recommended Actions', 20);
+    report.recommended_actions.forEach((action) => paragraph(`• ${action}`, TEXT_COLOR));
+    y += 4;
+  }
+
+  // Media thumbnails, three per row
+  if (template.showMediaThumbnails && mediaThumbnails.length > 0) {
+    const columns = 3;
+    const gap = 4;
+    const cellWidth = (contentWidth - gap * (columns - 1)) / columns;
+    const cellHeight = 40;
+
+    sectionHeader(`Media Evidence (${mediaThumbnails.length} of ${report.media_file_ids?.length ?? 0})`, cellHeight + 12);
+
+    mediaThumbnails.forEach((thumbnail, index) => {
+      const column = index % columns;
+      if (column === 0 && index > 0) y += cellHeight + gap;
+      if (column === 0) ensureSpace(cellHeight);
+
+      const image = doc.getImageProperties(thumbnail);
+      const scale = Math.min(cellWidth / image.width, cellHeight / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      const x = margin + column * (cellWidth + gap);
+
+      doc.setFillColor('#f3f4f6');
+      doc.rect(x, y, cellWidth, cellHeight, 'F');
+      doc.addImage(thumbnail, 'JPEG', x + (cellWidth - width) / 2, y + (cellHeight - height) / 2, width, height);
+    });
+    y += cellHeight + 8;
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    let footerY = pageHeight - margin - footerHeight + 4;
+    drawRule(footerY);
+    footerY += 4;
+    doc.setFontSize(7);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor('#9ca3af');
+    doc.text(disclaimerLines, margin, footerY);
+    footerY += disclaimerLines.length * 3 + 1;
+    doc.text(`Report ID: ${report.$id}`, margin, footerY);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin, footerY, { align: 'right' });
+  }
+
+  return doc.output('arraybuffer');
+}
+
+/**
+ * Summary rows of the fraud checks
+ */
+function getFraudRows(fraud: ReportFraudAssessment): Array<[string, string]> {
+  const { damageAge, contamination, rustCorrosion: rust, preExistingDamage: preExisting } = fraud;
+
+  const withNotes = (summary: string, notes?: string) => (notes ? `${summary}. ${notes}` : summary);
+
+  const rows: Array<[string, string]> = [];
+  if (damageAge) {
+    const confidence = ` (${Math.round(damageAge.confidenceScore * 100)}% confidence)`;
+    rows.push(['Damage Age', withNotes(`${formatLabel(damageAge.estimatedAge)}${confidence}`, damageAge.reasoning)]);
+  }
+  if (preExisting) {
+    rows.push([
+      'Pre-existing Damage',
+      preExisting.preExistingDamageDetected
+        ? withNotes(`Detected, ${preExisting.fraudRiskLevel} risk`, preExisting.notes)
+        : 'Not detected',
+    ]);
+  }
+  if (rust) {
+    rows.push([
+      'Rust / Corrosion',
+      rust.rustDetected
+        ? withNotes(
+            `Detected (${rust.overallCorrosionLevel})${rust.fraudIndicator ? ', fraud indicator' : ''}`,
+            rust.notes
+          )
+        : 'Not detected',
+    ]);
+  }
+  if (contamination) {
+    rows.push([
+      'Contamination',
+      contamination.contaminationDetected
+        ? withNotes(`Detected, ${contamination.fraudRiskLevel} risk`, contamination.notes)
+        : 'Not detected',
+    ]);
+  }
+  return rows;
+}
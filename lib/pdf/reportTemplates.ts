@@ -0,0 +1,105 @@
+import { ImageFormat, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS, STORAGE_BUCKET_ID } from '@/lib/env';
+import { COMPANY } from '@/lib/company';
+import type { InsuranceCompanyDocument, ReportTemplateDocument } from '@/lib/types/appwrite';
+
+/**
+ * PDF Report Templates
+ * Per-company branding for generated claim reports (report_templates collection).
+ * Companies without a template, and reports filed without a company, use the
+ * VehicleClaim defaults.
+ */
+
+export interface ReportPdfTemplate {
+  /** Company name shown in the header */
+  companyName: string;
+  headerText: string | null;
+  /** PNG logo, already resized for the header */
+  logo: Uint8Array | null;
+  primaryColor: string;
+  accentColor: string;
+  footerDisclaimer: string;
+  showMediaThumbnails: boolean;
+  showFraudAssessment: boolean;
+}
+
+export const DEFAULT_REPORT_TEMPLATE: ReportPdfTemplate = {
+  companyName: COMPANY.name,
+  headerText: null,
+  logo: null,
+  primaryColor: '#111827',
+  accentColor: '#2563eb',
+  footerDisclaimer:
+    'This report was generated automatically from the submitted media and policy. ' +
+    'Estimates are indicative and subject to review by a claims adjuster.',
+  showMediaThumbnails: true,
+  showFraudAssessment: true,
+};
+
+// Logo is rendered at most this many pixels wide before embedding
+const LOGO_PREVIEW_WIDTH = 400;
+
+/**
+ * Template document of a company, if it has saved one
+ */
+export async function getReportTemplateDocument(
+  companyId: string
+): Promise<ReportTemplateDocument | null> {
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<ReportTemplateDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.REPORT_TEMPLATES,
+    [Query.equal('insurance_company_id', companyId), Query.limit(1)]
+  );
+  return result.documents[0] ?? null;
+}
+
+/**
+ * Resolve the PDF template for a company, including its logo image
+ * A logo that can't be loaded is left out rather than failing the report.
+ *
+ * @param companyId - Insurance company of the report (undefined for unaffiliated reports)
+ * @returns Template with defaults filled in
+ *
+ * @example
+ * const template = await resolveReportTemplate(report.insurance_company_id);
+ */
+export async function resolveReportTemplate(companyId: string | undefined): Promise<ReportPdfTemplate> {
+  if (!companyId) return DEFAULT_REPORT_TEMPLATE;
+
+  const { databases, storage } = await adminAction();
+  const [company, templateDoc] = await Promise.all([
+    databases
+      .getDocument<InsuranceCompanyDocument>(DATABASE_ID, COLLECTION_IDS.INSURANCE_COMPANIES, companyId)
+      .catch(() => null),
+    getReportTemplateDocument(companyId),
+  ]);
+
+  let logo: ReportPdfTemplate['logo'] = null;
+  if (templateDoc?.logo_file_id) {
+    try {
+      const preview = await storage.getFilePreview({
+        bucketId: STORAGE_BUCKET_ID,
+        fileId: templateDoc.logo_file_id,
+        width: LOGO_PREVIEW_WIDTH,
+        output: ImageFormat.Png,
+      });
+      logo = new Uint8Array(preview);
+    } catch (error) {
+      console.warn(`⚠️ Report template logo ${templateDoc.logo_file_id} could not be loaded:`, error);
+    }
+  }
+
+  return {
+    companyName: company?.name ?? DEFAULT_REPORT_TEMPLATE.companyName,
+    headerText: templateDoc?.header_text || null,
+    logo,
+    primaryColor: templateDoc?.primary_color || DEFAULT_REPORT_TEMPLATE.primaryColor,
+    accentColor: templateDoc?.accent_color || DEFAULT_REPORT_TEMPLATE.accentColor,
+    footerDisclaimer: templateDoc?.footer_disclaimer || DEFAULT_REPORT_TEMPLATE.footerDisclaimer,
+    showMediaThumbnails: templateDoc?.show_media_thumbnails ?? true,
+    showFraudAssessment: templateDoc?.show_fraud_assessment ?? true,
+  };
+}
+
@@ -1,4 +1,5 @@
 import { Permission, Role } from 'node-appwrite';
+import type { ReportDocument, UserDocument } from '@/lib/types/appwrite';
 
 /**
  * Permission Helper Functions
@@ -75,6 +76,26 @@ export function getReportRelatedPermissions(
   return permissions;
 }
 
+/**
+ * Generate permissions for internal report documents (fraud assessments)
+ * Readable and updatable by the insurance company team only - never by the claimant
+ *
+ * @param insuranceCompanyTeamId - The team ID of the insurance company (optional)
+ * @returns Array of permission strings; empty (server access only) without a team
+ *
+ * @example
+ * getReportInternalPermissions(teamId)
+ * // Returns: [Permission.read(Role.team(teamId)), Permission.update(Role.team(teamId))]
+ */
+export function getReportInternalPermissions(insuranceCompanyTeamId?: string): string[] {
+  if (!insuranceCompanyTeamId) return [];
+
+  return [
+    Permission.read(Role.team(insuranceCompanyTeamId)),
+    Permission.update(Role.team(insuranceCompanyTeamId)),
+  ];
+}
+
 /**
  * Generate permissions for user profile
  * Users can read and update their own profile
@@ -109,3 +130,91 @@ export function getInsuranceCompanyPermissions(): string[] {
     Permission.read(Role.any()),
   ];
 }
+
+/**
+ * Generate permissions for report status history entries
+ * Read-only for owner and insurance company team - history is append-only via admin client
+ *
+ * @param userId - The user who created the report
+ * @param insuranceCompanyTeamId - The team ID of the insurance company (optional)
+ * @returns Array of permission strings
+ *
+ * @example
+ * getReportHistoryPermissions(userId, teamId)
+ * // Returns: [Permission.read(Role.user(userId)), Permission.read(Role.team(teamId))]
+ */
+export function getReportHistoryPermissions(
+  userId: string,
+  insuranceCompanyTeamId?: string
+): string[] {
+  const permissions = [
+    Permission.read(Role.user(userId)),
+  ];
+
+  if (insuranceCompanyTeamId) {
+    permissions.push(Permission.read(Role.team(insuranceCompanyTeamId)));
+  }
+
+  return permissions;
+}
+
+/**
+ * Generate permissions for a report comment
+ * The insurance company team can read every comment and the report owner every
+ * customer comment; only the author can edit it
+ *
+ * @param userId - The report owner's user ID
+ * @param authorId - The comment author's user ID
+ * @param insuranceCompanyTeamId - Optional insurance company team ID
+ * @param visibility - Comment visibility
+ * @returns Array of permission strings
+ *
+ * @example
+ * getReportCommentPermissions(userId, session.id, teamId, 'internal')
+ * // Returns: [Permission.read(Role.team(teamId)), Permission.read(Role.user(authorId)), Permission.update(Role.user(authorId))]
+ */
+export function getReportCommentPermissions(
+  userId: string,
+  authorId: string,
+  insuranceCompanyTeamId: string | undefined,
+  visibility: 'internal' | 'customer'
+): string[] {
+  const readers = new Set<string>([authorId]);
+  if (visibility === 'customer') {
+    readers.add(userId);
+  }
+
+  const permissions = [...readers].map((readerId) => Permission.read(Role.user(readerId)));
+  if (insuranceCompanyTeamId) {
+    permissions.unshift(Permission.read(Role.team(insuranceCompanyTeamId)));
+  }
+  permissions.push(Permission.update(Role.user(authorId)));
+
+  return permissions;
+}
+
+/**
+ * Whether a user may review a report (change its status, see internal data)
+ * Admins can review any report; adjusters only reports filed with their insurance company
+ *
+ * @param user - Reviewer's user document
+ * @param report - Report being reviewed
+ * @returns True if the user is a reviewer for the report
+ *
+ * @example
+ * canReviewReport(userDoc, report)
+ * // Returns: true for an adjuster of report.insurance_company_id
+ */
+export function canReviewReport(
+  user: Pick<UserDocument, 'role' | 'insurance_company_id'> | null | undefined,
+  report: Pick<ReportDocument, 'insurance_company_id'>
+): boolean {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+
+  return (
+    user.role === 'insurance_adjuster' &&
+    !!user.insurance_company_id &&
+    user.insurance_company_id === report.insurance_company_id
+  );
+}
@@ -0,0 +1,270 @@
+import { parseRepairCostRange } from '@/lib/claimAdjustments';
+import type { EnhancedAutoDamageAnalysis, FinancialBreakdown } from '@/lib/gemini/types';
+import type { PolicyTerms } from '@/lib/policy/policyTerms';
+
+/**
+ * Coverage Calculator
+ * Computes the financial breakdown of a claim from the damage lines, the damage
+ * type and the policy's coverages, deductibles, limits and exclusions - without
+ * asking the model. Each line records the rule that decided it, so the numbers
+ * can be audited and compared with the model's claimAssessment.financialBreakdown
+ * (Rule 18 of validateAutoDamageAnalysis).
+ *
+ * The policy comes from its stored terms (lib/policy/policyLibrary.ts) when it has
+ * them, otherwise from the model's reading of the PDF (analysis.policyAnalysis).
+ * Line costs are the midpoint of the model's cost range, like getAiLineCost.
+ */
+
+/**
+ * Rule that decided a damage line, checked in this order
+ * - pre_existing: damage older than the incident, never covered
+ * - not_covered: the policy has no coverage for the damage type
+ * - excluded: a policy exclusion names the part
+ * - unpriced: the line has no cost estimate
+ * - covered: none of the above
+ */
+export type CoverageRule = 'pre_existing' | 'not_covered' | 'excluded' | 'unpriced' | 'covered';
+
+export type CoverageSource = 'policy_terms' | 'policy_analysis';
+
+export interface CoverageLine {
+  part: string;
+  amount: number; // Midpoint of the cost range
+  coveredAmount: number;
+  rule: CoverageRule;
+  detail: string;
+}
+
+export interface AppliedCoverage {
+  type: 'collision' | 'comprehensive' | null; // null when the damage type is unknown
+  label: string | null; // Coverage as named in the policy, null when the policy has none
+  limit: number | string | null;
+  deductible: number | null;
+}
+
+export interface CoverageCalculation {
+  source: CoverageSource;
+  coverage: AppliedCoverage;
+  lines: CoverageLine[];
+  breakdown: FinancialBreakdown;
+  trace: string[]; // Claim-level rules: coverage, deductible, limit
+}
+
+export interface BreakdownDifference {
+  field: keyof FinancialBreakdown;
+  model: number;
+  computed: number;
+}
+
+// Label of the line holding the estimate the model did not itemise (labour, paint)
+export const UNITEMIZED_LINE_PART = 'Unitemized repair costs';
+
+// Differences within max(absolute, relative * larger value) are rounding, not disagreement
+export const BREAKDOWN_TOLERANCE = {
+  ABSOLUTE: 25,
+  RELATIVE: 0.05,
+} as const;
+
+const DAMAGE_TYPE_COVERAGE: Record<EnhancedAutoDamageAnalysis['damageType'], AppliedCoverage['type']> = {
+  collision: 'collision',
+  comprehensive: 'comprehensive',
+  weather: 'comprehensive',
+  vandalism: 'comprehensive',
+  unknown: null,
+};
+
+const BREAKDOWN_FIELDS: Array<keyof FinancialBreakdown> = [
+  'totalRepairEstimate',
+  'coveredAmount',
+  'deductible',
+  'nonCoveredItems',
+  'estimatedPayout',
+];
+
+/**
+ * Compute the financial breakdown of a policy-aware analysis
+ *
+ * @param analysis - Analysis with damage lines, damage type and policyAnalysis
+ * @param policyTerms - Stored terms of the policy; policyAnalysis is used without them
+ * @returns Breakdown with the rule applied to each line
+ *
+ * @example
+ * // Collision, deductible 200: bumper "$400 - $600", pre-existing door dent "$300", total 800
+ * calculateCoverage(analysis, terms).breakdown
+ * // { totalRepairEstimate: 800, coveredAmount: 500, deductible: 200, nonCoveredItems: 300, estimatedPayout: 300 }
+ */
+export function calculateCoverage(
+  analysis: Pick<EnhancedAutoDamageAnalysis, 'damagedParts' | 'damageType' | 'estimatedTotalRepairCost' | 'policyAnalysis'>,
+  policyTerms?: PolicyTerms | null
+): CoverageCalculation {
+  const source: CoverageSource = policyTerms ? 'policy_terms' : 'policy_analysis';
+  const coverage = findCoverage(analysis, policyTerms);
+  const exclusions = policyTerms ? policyTerms.exclusions : analysis.policyAnalysis?.exclusions ?? [];
+  const trace: string[] = [];
+
+  if (!coverage.type) {
+    trace.push(`Damage type "${analysis.damageType}" does not map to a coverage; nothing is covered.`);
+  } else if (!coverage.label) {
+    trace.push(`The policy has no ${coverage.type} coverage; nothing is covered.`);
+  } else {
+    trace.push(`${capitalize(analysis.damageType)} damage falls under ${coverage.type} coverage "${coverage.label}".`);
+  }
+
+  const lines: CoverageLine[] = (analysis.damagedParts ?? []).map((damagedPart): CoverageLine => {
+    const part = damagedPart.part;
+    const range = parseRepairCostRange(damagedPart.estimatedRepairCost);
+    const amount = range ? roundCurrency((range.low + range.high) / 2) : 0;
+
+    if (damagedPart.preExisting) {
+      return { part, amount, coveredAmount: 0, rule: 'pre_existing', detail: 'Damage predates the incident.' };
+    }
+    if (!coverage.label) {
+      return { part, amount, coveredAmount: 0, rule: 'not_covered', detail: `No ${coverage.type ?? 'applicable'} coverage.` };
+    }
+    const exclusion = exclusions.find((text) => mentionsPart(text, part));
+    if (exclusion) {
+      return { part, amount, coveredAmount: 0, rule: 'excluded', detail: `Excluded by "${exclusion}".` };
+    }
+    if (!range) {
+      return { part, amount, coveredAmount: 0, rule: 'unpriced', detail: 'No cost estimate for this part.' };
+    }
+    return { part, amount, coveredAmount: amount, rule: 'covered', detail: `Covered by "${coverage.label}".` };
+  });
+
+  // The model's total includes labour and paint it did not itemise; they follow the coverage
+  const itemized = lines.reduce((sum, line) => sum + line.amount, 0);
+  const unitemized = roundCurrency((analysis.estimatedTotalRepairCost || 0) - itemized);
+  if (unitemized > 0) {
+    lines.push(
+      coverage.label
+        ? { part: UNITEMIZED_LINE_PART, amount: unitemized, coveredAmount: unitemized, rule: 'covered', detail: `Remainder of the estimate, covered by "${coverage.label}".` }
+        : { part: UNITEMIZED_LINE_PART, amount: unitemized, coveredAmount: 0, rule: 'not_covered', detail: 'Remainder of the estimate; no applicable coverage.' }
+    );
+  } else if (unitemized < 0) {
+    trace.push(`Damage lines add up to more than the estimated total (${analysis.estimatedTotalRepairCost}); the line total is used.`);
+  }
+
+  const totalRepairEstimate = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+  const coveredAmount = roundCurrency(lines.reduce((sum, line) => sum + line.coveredAmount, 0));
+  const deductible = coverage.label ? coverage.deductible ?? 0 : 0;
+  if (coverage.label) {
+    trace.push(
+      coverage.deductible === null
+        ? 'The policy states no deductible for this coverage; none is applied.'
+        : `Deductible of ${coverage.deductible} is subtracted from the covered amount.`
+    );
+  }
+
+  let estimatedPayout = Math.max(0, coveredAmount - deductible);
+  if (typeof coverage.limit === 'number' && estimatedPayout > coverage.limit) {
+    trace.push(`Payout of ${roundCurrency(estimatedPayout)} is capped at the coverage limit of ${coverage.limit}.`);
+    estimatedPayout = coverage.limit;
+  } else if (typeof coverage.limit === 'string' && coverage.label) {
+    trace.push(`Coverage limit is "${coverage.limit}"; the payout is not capped.`);
+  }
+
+  return {
+    source,
+    coverage,
+    lines,
+    breakdown: {
+      totalRepairEstimate,
+      coveredAmount,
+      deductible: roundCurrency(deductible),
+      nonCoveredItems: roundCurrency(totalRepairEstimate - coveredAmount),
+      estimatedPayout: roundCurrency(estimatedPayout),
+    },
+    trace,
+  };
+}
+
+/**
+ * Fields where the model's breakdown and the computed one disagree beyond BREAKDOWN_TOLERANCE
+ *
+ * @example
+ * compareFinancialBreakdowns(analysis.claimAssessment.financialBreakdown, calculation.breakdown)
+ * // [{ field: 'estimatedPayout', model: 1800, computed: 1300 }]
+ */
+export function compareFinancialBreakdowns(
+  model: FinancialBreakdown,
+  computed: FinancialBreakdown
+): BreakdownDifference[] {
+  return BREAKDOWN_FIELDS.flatMap((field) => {
+    const modelValue = Number(model[field]) || 0;
+    const computedValue = computed[field];
+    const tolerance = Math.max(
+      BREAKDOWN_TOLERANCE.ABSOLUTE,
+      BREAKDOWN_TOLERANCE.RELATIVE * Math.max(Math.abs(modelValue), Math.abs(computedValue))
+    );
+    return Math.abs(modelValue - computedValue) > tolerance
+      ? [{ field, model: modelValue, computed: computedValue }]
+      : [];
+  });
+}
+
+/**
+ * Read the calculation stored on an assessment
+ *
+ * @param json - coverage_calculation_json of a report assessment
+ * @returns Calculation, or null when missing or unparseable
+ */
+export function parseCoverageCalculation(json: string | undefined | null): CoverageCalculation | null {
+  if (!json) return null;
+  try {
+    const calculation = JSON.parse(json);
+    return calculation && Array.isArray(calculation.lines) ? calculation : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Coverage of the damage type, from the stored terms or the model's policyAnalysis
+ */
+function findCoverage(
+  analysis: Pick<EnhancedAutoDamageAnalysis, 'damageType' | 'policyAnalysis'>,
+  policyTerms?: PolicyTerms | null
+): AppliedCoverage {
+  const type = DAMAGE_TYPE_COVERAGE[analysis.damageType] ?? null;
+  const none: AppliedCoverage = { type, label: null, limit: null, deductible: null };
+  if (!type) return none;
+
+  if (policyTerms) {
+    const coverage = policyTerms.coverages.find((c) => c.type === type);
+    return coverage ? { type, label: coverage.label, limit: coverage.limit, deductible: coverage.deductible } : none;
+  }
+
+  const policyAnalysis = analysis.policyAnalysis;
+  const label = policyAnalysis?.coverageTypes?.find((name) => normalize(name).includes(type));
+  if (!label) return none;
+
+  const deductible = policyAnalysis.deductibles?.find((d) => normalize(d.type).includes(type))?.amount;
+  const limit = Object.entries(policyAnalysis.coverageLimits ?? {}).find(([name]) => normalize(name).includes(type))?.[1];
+  return {
+    type,
+    label,
+    limit: typeof limit === 'number' && limit > 0 ? limit : null,
+    deductible: typeof deductible === 'number' && deductible >= 0 ? deductible : null,
+  };
+}
+
+/**
+ * Whether an exclusion names the part, as whole words ("tires" matches "Tire")
+ */
+function mentionsPart(exclusion: string, part: string): boolean {
+  const name = normalize(part).replace(/s$/, '');
+  if (!name) return false;
+  return new RegExp(`\\b${name.replace(/ /g, '\\s+')}s?\\b`).test(normalize(exclusion));
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,236 @@
+import { ID, Query, type Models } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { extractPolicyTerms } from '@/lib/gemini/actions/extractPolicyTerms';
+import { EMPTY_POLICY_TERMS, normalizePolicyTerms, type PolicyTerms } from '@/lib/policy/policyTerms';
+import type { PolicyDocument } from '@/lib/types/appwrite';
+
+/**
+ * Policy Library
+ * One policies document per uploaded policy PDF (keyed by its storage file ID), holding
+ * the terms extracted from it. Terms are extracted the first time a policy is uploaded or
+ * used; later analyses read them from here instead of sending the PDF to the model again.
+ * The extracted terms are never overwritten by the policyholder: their corrections are
+ * kept in corrected_terms_json for the insurer to review against the PDF.
+ *
+ * Policies uploaded before the policies collection existed get their document the next
+ * time they are used.
+ */
+
+/** Owner recorded on a policy created from a submission or upload */
+export interface PolicyOwner {
+  userId: string;
+  insuranceCompanyId?: string;
+}
+
+/** Policy PDF, loaded only when the terms still have to be extracted */
+export interface PolicyPdf {
+  base64: string;
+  filename: string;
+  size: number;
+}
+
+export interface ResolvedPolicy {
+  policy: PolicyDocument | null;
+  terms: PolicyTerms | null; // null when extraction failed - analyze the PDF instead
+  policyBase64?: string; // Set when the PDF was loaded for extraction
+}
+
+/**
+ * Find the policy document of a policy file
+ *
+ * @param fileId - Policy PDF file ID
+ * @returns Policy document, or null when the file has none yet
+ */
+export async function getPolicyByFileId(fileId: string): Promise<PolicyDocument | null> {
+  const { databases } = await adminAction();
+  const result = await databases.listDocuments<PolicyDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.POLICIES,
+    [Query.equal('file_id', fileId), Query.limit(1)]
+  );
+  return result.documents[0] ?? null;
+}
+
+/**
+ * Get the terms of a policy file, extracting them on first use
+ * Extraction failures are recorded on the policy (and retried the next time it is used);
+ * the caller then falls back to analyzing the PDF.
+ *
+ * @param owner - User (and company) the policy belongs to, used when creating its document
+ * @param fileId - Policy PDF file ID
+ * @param loadPdf - Loads the PDF when extraction is needed
+ * @returns Policy, its terms, and the PDF if it had to be loaded
+ *
+ * @example
+ * const { terms, policyBase64 } = await resolvePolicyTerms(
+ *   { userId },
+ *   policyFileId,
+ *   () => downloadPolicy(policyFileId)
+ * );
+ */
+export async function resolvePolicyTerms(
+  owner: PolicyOwner,
+  fileId: string,
+  loadPdf: () => Promise<PolicyPdf>
+): Promise<ResolvedPolicy> {
+  let policy: PolicyDocument | null = null;
+  try {
+    policy = await getPolicyByFileId(fileId);
+    if (policy?.extraction_status === 'extracted') {
+      return { policy, terms: toPolicyTerms(policy) };
+    }
+  } catch (error) {
+    console.error(`Failed to load policy for file ${fileId}:`, error);
+  }
+
+  const pdf = await loadPdf();
+
+  try {
+    policy = policy ?? (await createPolicy(owner, fileId, pdf));
+
+    console.log(`📄 Extracting policy terms for file ${fileId}...`);
+    const extraction = await extractPolicyTerms(pdf.base64, owner.userId);
+    if (!extraction.success) {
+      console.warn(`⚠️ Policy terms extraction failed: ${extraction.message}`);
+      policy = await updatePolicy(policy.$id, {
+        extraction_status: 'failed',
+        extraction_error: extraction.message.slice(0, 500),
+      });
+      return { policy, terms: null, policyBase64: pdf.base64 };
+    }
+
+    policy = await updatePolicy(policy.$id, {
+      ...toPolicyTermsAttributes(extraction.data.terms),
+      extraction_status: 'extracted',
+      extraction_error: null,
+      reviewed_at: null,
+    });
+    return { policy, terms: extraction.data.terms, policyBase64: pdf.base64 };
+  } catch (error) {
+    console.error(`Failed to extract policy terms for file ${fileId}:`, error);
+    return { policy, terms: null, policyBase64: pdf.base64 };
+  }
+}
+
+/**
+ * Read the terms stored on a policy document
+ */
+export function toPolicyTerms(policy: PolicyDocument): PolicyTerms {
+  const terms = normalizePolicyTerms({
+    policyNumber: policy.policy_number,
+    insurerName: policy.insurer_name,
+    policyholderName: policy.policyholder_name,
+    effectiveDate: policy.effective_date,
+    expirationDate: policy.expiration_date,
+    currency: policy.currency,
+    vehicles: parseJsonArray(policy.vehicles_json),
+    coverages: parseJsonArray(policy.coverages_json),
+    exclusions: parseJsonArray(policy.exclusions_json),
+  });
+
+  // Stored terms were validated on write; only a hand-edited document ends up here
+  return 'error' in terms ? EMPTY_POLICY_TERMS : terms;
+}
+
+/**
+ * Read the policyholder's corrections stored on a policy document
+ *
+ * @returns Corrected terms, or null when the policyholder changed nothing
+ */
+export function toCorrectedPolicyTerms(policy: PolicyDocument): PolicyTerms | null {
+  if (!policy.corrected_terms_json) return null;
+  try {
+    const terms = normalizePolicyTerms(JSON.parse(policy.corrected_terms_json));
+    return 'error' in terms ? null : terms;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Policy document attributes holding the terms
+ */
+function toPolicyTermsAttributes(terms: PolicyTerms) {
+  return {
+    policy_number: terms.policyNumber,
+    insurer_name: terms.insurerName,
+    policyholder_name: terms.policyholderName,
+    effective_date: terms.effectiveDate,
+    expiration_date: terms.expirationDate,
+    currency: terms.currency,
+    vehicles_json: JSON.stringify(terms.vehicles),
+    coverages_json: JSON.stringify(terms.coverages),
+    exclusions_json: JSON.stringify(terms.exclusions),
+  };
+}
+
+type PolicyUpdate = {
+  [K in keyof Omit<PolicyDocument, keyof Models.Document>]?: PolicyDocument[K] | null;
+};
+
+/**
+ * Update a policy document
+ */
+export async function updatePolicy(policyId: string, data: PolicyUpdate): Promise<PolicyDocument> {
+  const { databases } = await adminAction();
+  return databases.updateDocument<PolicyDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.POLICIES,
+    policyId,
+    data as Partial<PolicyDocument>
+  );
+}
+
+/**
+ * Delete the document of a policy file whose PDF was removed
+ * Failures are logged only; the caller is already cleaning up.
+ */
+export async function deletePolicyByFileId(fileId: string): Promise<void> {
+  try {
+    const policy = await getPolicyByFileId(fileId);
+    if (!policy) return;
+    const { databases } = await adminAction();
+    await databases.deleteDocument(DATABASE_ID, COLLECTION_IDS.POLICIES, policy.$id);
+  } catch (error) {
+    console.error(`Failed to delete policy for file ${fileId}:`, error);
+  }
+}
+
+/**
+ * Create the document of a policy file
+ * Two submissions using the same new file can race here; the unique file_id index
+ * rejects the second create, which then reads the first one's document.
+ */
+async function createPolicy(owner: PolicyOwner, fileId: string, pdf: PolicyPdf): Promise<PolicyDocument> {
+  const { databases } = await adminAction();
+  try {
+    return await databases.createDocument<PolicyDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.POLICIES,
+      ID.unique(),
+      {
+        user_id: owner.userId,
+        insurance_company_id: owner.insuranceCompanyId,
+        file_id: fileId,
+        filename: pdf.filename.slice(0, 255),
+        file_size: pdf.size,
+        extraction_status: 'pending',
+      } as unknown as PolicyDocument
+    );
+  } catch (error) {
+    const existing = await getPolicyByFileId(fileId);
+    if (existing) return existing;
+    throw error;
+  }
+}
+
+function parseJsonArray(json: string | undefined): unknown[] {
+  if (!json) return [];
+  try {
+    const value = JSON.parse(json);
+    return Array.isArray(value) ? value : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Policy Terms
+ * The parts of an insurance policy the analysis needs: policy number, period, insured
+ * vehicles, coverages with their limits and deductibles, and exclusions.
+ *
+ * Extracted once from the policy PDF (lib/gemini/actions/extractPolicyTerms.ts) and stored in
+ * the policies collection (lib/policy/policyLibrary.ts). Policy-aware analyses receive these
+ * terms instead of the PDF. Corrections the policyholder makes on the Policies page are
+ * stored separately for the insurer to review and never replace the extracted terms.
+ */
+
+export type PolicyCoverageType = 'collision' | 'comprehensive' | 'liability' | 'other';
+
+export interface PolicyVehicle {
+  year: number | null;
+  make: string | null;
+  model: string | null;
+  vin: string | null;
+  licensePlate: string | null;
+  color: string | null;
+}
+
+export interface PolicyCoverage {
+  type: PolicyCoverageType;
+  label: string; // Name as written in the policy, e.g. "Collision (CASCO)"
+  limit: number | string | null; // Amount, or a basis such as "Actual cash value"
+  deductible: number | null;
+  section: string | null; // Policy section to cite
+}
+
+export interface PolicyTerms {
+  policyNumber: string | null;
+  insurerName: string | null;
+  policyholderName: string | null;
+  effectiveDate: string | null; // YYYY-MM-DD
+  expirationDate: string | null; // YYYY-MM-DD
+  currency: string | null; // ISO 4217
+  vehicles: PolicyVehicle[];
+  coverages: PolicyCoverage[];
+  exclusions: string[];
+}
+
+/**
+ * Whether the policy covers a given day
+ * - active: within the policy period (or only one bound known and not past it)
+ * - expired: after the expiration date
+ * - not_started: before the effective date
+ * - unknown: no dates in the terms
+ */
+export type PolicyPeriodStatus = 'active' | 'expired' | 'not_started' | 'unknown';
+
+export const EMPTY_POLICY_TERMS: PolicyTerms = {
+  policyNumber: null,
+  insurerName: null,
+  policyholderName: null,
+  effectiveDate: null,
+  expirationDate: null,
+  currency: null,
+  vehicles: [],
+  coverages: [],
+  exclusions: [],
+};
+
+export const POLICY_TERMS_LIMITS = {
+  TEXT_LENGTH: 200, // Numbers, names, labels, vehicle fields
+  EXCLUSION_LENGTH: 300,
+  MAX_VEHICLES: 5,
+  MAX_COVERAGES: 15,
+  MAX_EXCLUSIONS: 30,
+} as const;
+
+// Policies expiring within this many days get an "expires soon" warning
+export const POLICY_EXPIRY_WARNING_DAYS = 30;
+
+const POLICY_TERMS_FIELD_LABELS: Record<keyof PolicyTerms, string> = {
+  policyNumber: 'Policy number',
+  insurerName: 'Insurer',
+  policyholderName: 'Policyholder',
+  effectiveDate: 'Effective date',
+  expirationDate: 'Expiration date',
+  currency: 'Currency',
+  vehicles: 'Vehicles',
+  coverages: 'Coverages',
+  exclusions: 'Exclusions',
+};
+
+const COVERAGE_TYPES: PolicyCoverageType[] = ['collision', 'comprehensive', 'liability', 'other'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate policy terms from the extraction model or the review form
+ * Strings are trimmed and cut to POLICY_TERMS_LIMITS, empty vehicles and coverages are dropped.
+ *
+ * @param value - Parsed JSON terms
+ * @returns Policy terms, or an error message
+ *
+ * @example
+ * const result = normalizePolicyTerms(input);
+ * if ('error' in result) return { success: false, message: result.error };
+ */
+export function normalizePolicyTerms(value: unknown): PolicyTerms | { error: string } {
+  if (!value || typeof value !== 'object') {
+    return { error: 'Policy terms are missing' };
+  }
+  const input = value as Record<string, unknown>;
+
+  const effectiveDate = date(input.effectiveDate);
+  const expirationDate = date(input.expirationDate);
+  if (effectiveDate === undefined || expirationDate === undefined) {
+    return { error: 'Policy dates must be valid dates (YYYY-MM-DD)' };
+  }
+  if (effectiveDate && expirationDate && effectiveDate > expirationDate) {
+    return { error: 'The policy cannot expire before it takes effect' };
+  }
+
+  const currency = text(input.currency, 3)?.toUpperCase() ?? null;
+
+  const vehicles = list(input.vehicles)
+    .map((vehicle) => ({
+      year: year(vehicle.year),
+      make: text(vehicle.make),
+      model: text(vehicle.model),
+      vin: text(vehicle.vin)?.toUpperCase() ?? null,
+      licensePlate: text(vehicle.licensePlate)?.toUpperCase() ?? null,
+      color: text(vehicle.color),
+    }))
+    .filter((vehicle) => Object.values(vehicle).some((field) => field !== null))
+    .slice(0, POLICY_TERMS_LIMITS.MAX_VEHICLES);
+
+  const coverages = list(input.coverages)
+    .map((coverage) => {
+      const type = COVERAGE_TYPES.includes(coverage.type as PolicyCoverageType)
+        ? (coverage.type as PolicyCoverageType)
+        : 'other';
+      return {
+        type,
+        label: text(coverage.label) ?? type,
+        limit: amount(coverage.limit) ?? text(coverage.limit),
+        deductible: amount(coverage.deductible),
+        section: text(coverage.section),
+      };
+    })
+    .slice(0, POLICY_TERMS_LIMITS.MAX_COVERAGES);
+
+  const exclusions = (Array.isArray(input.exclusions) ? input.exclusions : [])
+    .map((exclusion) => text(exclusion, POLICY_TERMS_LIMITS.EXCLUSION_LENGTH))
+    .filter((exclusion): exclusion is string => !!exclusion)
+    .slice(0, POLICY_TERMS_LIMITS.MAX_EXCLUSIONS);
+
+  return {
+    policyNumber: text(input.policyNumber),
+    insurerName: text(input.insurerName),
+    policyholderName: text(input.policyholderName),
+    effectiveDate,
+    expirationDate,
+    currency: currency && /^[A-Z]{3}$/.test(currency) ? currency : null,
+    vehicles,
+    coverages,
+    exclusions,
+  };
+}
+
+/**
+ * Whether the terms hold anything the analysis can use
+ * Extractions without a policy number, dates, vehicles or coverages are treated as failed.
+ */
+export function hasPolicyTerms(terms: PolicyTerms | null | undefined): terms is PolicyTerms {
+  return !!terms && (
+    !!terms.policyNumber ||
+    !!terms.effectiveDate ||
+    !!terms.expirationDate ||
+    terms.vehicles.length > 0 ||
+    terms.coverages.length > 0
+  );
+}
+
+/**
+ * Check whether the policy was in force on a day
+ *
+ * @param terms - Policy terms
+ * @param at - Day to check (incident date, or today)
+ * @returns Period status
+ *
+ * @example
+ * getPolicyPeriodStatus(terms, new Date('2026-03-01')) // 'expired' for a policy ending 2026-02-28
+ */
+export function getPolicyPeriodStatus(
+  terms: Pick<PolicyTerms, 'effectiveDate' | 'expirationDate'>,
+  at: Date | string = new Date()
+): PolicyPeriodStatus {
+  if (!terms.effectiveDate && !terms.expirationDate) return 'unknown';
+
+  // Policy dates are calendar days; compare in UTC so the result doesn't depend on the server timezone
+  const day = new Date(at).toISOString().slice(0, 10);
+  if (terms.expirationDate && day > terms.expirationDate) return 'expired';
+  if (terms.effectiveDate && day < terms.effectiveDate) return 'not_started';
+  return 'active';
+}
+
+/**
+ * Days until the policy expires (negative once expired), or null without an expiration date
+ */
+export function getDaysUntilExpiry(
+  terms: Pick<PolicyTerms, 'expirationDate'>,
+  now: Date = new Date()
+): number | null {
+  if (!terms.expirationDate) return null;
+  const today = Date.parse(now.toISOString().slice(0, 10));
+  return Math.round((Date.parse(terms.expirationDate) - today) / DAY_MS);
+}
+
+/**
+ * One-line description of the policy period, e.g. "2025-06-01 to 2026-05-31"
+ */
+export function formatPolicyPeriod(terms: Pick<PolicyTerms, 'effectiveDate' | 'expirationDate'>): string | null {
+  if (!terms.effectiveDate && !terms.expirationDate) return null;
+  return `${terms.effectiveDate ?? 'unknown'} to ${terms.expirationDate ?? 'unknown'}`;
+}
+
+/**
+ * Fields the policyholder changed from the extracted terms, for reviewers
+ *
+ * @param extracted - Terms extracted from the policy PDF
+ * @param corrected - Terms as corrected by the policyholder
+ * @returns One line per changed field
+ *
+ * @example
+ * describePolicyTermsChanges(extracted, corrected)
+ * // ['Expiration date: 2026-05-31 → 2026-12-31', 'Coverages changed']
+ */
+export function describePolicyTermsChanges(extracted: PolicyTerms, corrected: PolicyTerms): string[] {
+  return (Object.keys(POLICY_TERMS_FIELD_LABELS) as Array<keyof PolicyTerms>).flatMap((field) => {
+    const before = extracted[field];
+    const after = corrected[field];
+    if (JSON.stringify(before) === JSON.stringify(after)) return [];
+
+    const label = POLICY_TERMS_FIELD_LABELS[field];
+    return Array.isArray(before) || Array.isArray(after)
+      ? [`${label} changed`]
+      : [`${label}: ${before ?? 'not stated'} → ${after ?? 'not stated'}`];
+  });
+}
+
+function text(value: unknown, maxLength: number = POLICY_TERMS_LIMITS.TEXT_LENGTH): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const trimmed = String(value).trim();
+  return trimmed ? trimmed.slice(0, maxLength) : null;
+}
+
+function amount(value: unknown): number | null {
+  const parsed = typeof value === 'string' && /^[\d.,\s]+$/.test(value)
+    ? Number(value.replace(/[,\s]/g, ''))
+    : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+function year(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 1900 && parsed <= 2100
+    ? parsed
+    : null;
+}
+
+/**
+ * YYYY-MM-DD, null when empty, undefined when not a valid date
+ */
+function date(value: unknown): string | null | undefined {
+  const raw = text(value, 30);
+  if (!raw) return null;
+  const day = DATE_PATTERN.test(raw) ? raw : undefined;
+  if (!day || isNaN(Date.parse(day)) || new Date(day).toISOString().slice(0, 10) !== day) {
+    return undefined;
+  }
+  return day;
+}
+
+function list(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    : [];
+}
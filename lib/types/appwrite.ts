@@ -35,7 +35,7 @@ export interface InsuranceCompanyDocument extends Models.Document {
   contact_email?: string;
   contact_phone?: string;
   website?: string;
-  api_endpoint?: string;
+  api_endpoint?: string; // Unused - outbound integrations are configured as webhook endpoints
   is_active: boolean;
 }
 
@@ -107,12 +107,20 @@ export function isAppwriteError(error: unknown): error is AppwriteError {
   );
 }
 
+export type ClaimStatus =
+  | 'pending'
+  | 'analyzed'
+  | 'approved'
+  | 'denied'
+  | 'partial'
+  | 'needs_investigation';
+
 // Reports Collection (Core Data)
 export interface ReportDocument extends Models.Document {
   user_id: string;
   insurance_company_id?: string;
   claim_number: string;
-  claim_status: 'pending' | 'analyzed' | 'approved' | 'denied' | 'partial' | 'needs_investigation';
+  claim_status: ClaimStatus;
   damage_type: 'collision' | 'comprehensive' | 'weather' | 'vandalism' | 'unknown';
   damage_cause?: string;
   overall_severity: 'minor' | 'moderate' | 'severe' | 'total_loss';
@@ -138,6 +146,13 @@ export interface ReportDocument extends Models.Document {
   analysis_timestamp: string; // DateTime
   updated_by_user_id?: string;
   is_public: boolean;
+
+  // Adjuster override of estimated_total_repair_cost (see lib/claimAdjustments.ts)
+  adjusted_total_repair_cost?: number;
+
+  // Work queue assignment (insurance company team member)
+  assigned_to_user_id?: string;
+  assigned_at?: string;
 }
 
 // Report Damage Details Collection (One-to-Many)
@@ -153,6 +168,14 @@ export interface ReportDamageDetailDocument extends Models.Document {
   is_inferred?: boolean;
   inferred_likelihood?: string;
   inferred_based_on?: string;
+
+  // Adjuster overrides - AI values above are kept unchanged
+  adjusted_repair_cost?: number;
+  adjusted_repair_or_replace?: 'repair' | 'replace' | 'either' | 'undetermined';
+  is_removed?: boolean;
+  is_adjuster_added?: boolean; // No AI original
+  adjusted_by_user_id?: string;
+  adjusted_at?: string;
 }
 
 // Report Vehicle Verification Collection (One-to-One)
@@ -197,9 +220,30 @@ export interface ReportAssessmentDocument extends Models.Document {
   estimated_payout: number;
   reasoning?: string;
   policy_references?: string[];
+
+  // Adjuster overrides - AI financial breakdown above is kept unchanged
+  adjusted_total_repair_estimate?: number;
+  adjusted_covered_amount?: number; // Explicit override only
+  adjusted_deductible?: number; // Explicit override only
+  adjusted_estimated_payout?: number;
+  adjusted_by_user_id?: string;
+  adjusted_at?: string;
+  adjustment_note?: string;
+
+  // Breakdown computed from the policy without the model (lib/policy/coverageCalculator.ts)
+  computed_total_repair_estimate?: number;
+  computed_covered_amount?: number;
+  computed_deductible?: number;
+  computed_non_covered_items?: number;
+  computed_estimated_payout?: number;
+  coverage_calculation_json?: string; // CoverageCalculation: rule applied to each line
+
+  // Claimant's incident account (see lib/incident.ts), never public
+  incident_json?: string; // IncidentDetails
 }
 
 // Report Fraud Assessments Collection (One-to-One)
+// Readable by the insurance company team only (getReportInternalPermissions)
 export interface ReportFraudAssessmentDocument extends Models.Document {
   claim_id: string;
   damage_age_estimated?: string;
@@ -213,13 +257,22 @@ export interface ReportFraudAssessmentDocument extends Models.Document {
   pre_existing_detected: boolean;
   pre_existing_risk_level?: string;
   pre_existing_data_json?: string;
+
+  // Fraud evidence kept off the report document (see ReportFraudEvidence)
+  insurance_company_id?: string; // Sorting the work queue by fraud score
+  fraud_score?: number; // 0-100, composite score (see lib/fraud/fraudScore.ts)
+  fraud_score_factors_json?: string; // FraudScoreFactor[]
+  recycled_media_json?: string; // RecycledMediaMatch[]
+  metadata_forensics_json?: string; // MetadataForensicsResult
+  incident_assessment_json?: string; // IncidentAssessment
 }
 
 // Audit Logs Collection
+// Note: report actions keep the schema's original "claim" naming (like CLAIMS_COLLECTION_ID)
 export interface AuditLogDocument extends Models.Document {
   user_id?: string;
-  action: 'analyze_video' | 'analyze_image' | 'analyze_policy' | 'create_report' | 'update_report' | 'delete_report' | 'user_login' | 'user_logout';
-  resource_type: 'report' | 'analysis' | 'user' | 'insurance_company';
+  action: 'analyze_video' | 'analyze_image' | 'analyze_policy' | 'create_claim' | 'update_claim' | 'delete_claim' | 'user_login' | 'user_logout' | 'create_api_key' | 'rotate_api_key' | 'revoke_api_key';
+  resource_type: 'claim' | 'analysis' | 'user' | 'insurance_company' | 'api_key';
   resource_id?: string;
   result: 'success' | 'error' | 'flagged';
   file_hashes?: string[];
@@ -229,6 +282,11 @@ export interface AuditLogDocument extends Models.Document {
   user_agent?: string;
   error_message?: string;
   metadata?: string; // JSON object
+  // Hash chain (see lib/audit/hashChain.ts); unset on entries written before chaining
+  sequence?: number;
+  recorded_at?: string;
+  previous_hash?: string;
+  record_hash?: string;
 }
 
 // Notifications Collection
@@ -236,7 +294,7 @@ export interface NotificationDocument extends Models.Document {
   user_id: string;
   title: string;
   message: string;
-  type: 'report_completed' | 'report_updated' | 'system' | 'info';
+  type: 'report_completed' | 'report_updated' | 'system' | 'info' | 'mention';
   is_read: boolean;
   link?: string;
   report_id?: string;
@@ -253,6 +311,211 @@ export interface NewsPostDocument extends Models.Document {
   published_at?: string;
 }
 
+// Analysis Jobs Collection
+// queued → scanning → analyzing → uploading → persisted (or failed)
+export type AnalysisJobStatus =
+  | 'queued'
+  | 'scanning'
+  | 'analyzing'
+  | 'uploading'
+  | 'persisted'
+  | 'failed';
+
+export interface AnalysisJobDocument extends Models.Document {
+  user_id: string;
+  insurance_company_id?: string;
+  status: AnalysisJobStatus;
+  media_kind: 'images' | 'video';
+  media_file_ids: string[];
+  supplementary_file_ids?: string[];
+  video_frame_hashes?: string[]; // Perceptual hashes of browser-sampled video frames
+  policy_file_id?: string;
+  policy_is_new?: boolean;
+  options_json?: string; // JSON: SubmissionAnalysisOptions
+  incident_json?: string; // JSON: IncidentDetails
+  attempts?: number;
+  next_attempt_at?: string;
+  claim_token?: string;
+  report_id?: string;
+  report_number?: string;
+  analysis_json?: string; // JSON: EnhancedAutoDamageAnalysis (set once persisted)
+  warnings?: string[];
+  metadata_flags_json?: string; // JSON: MetadataForensicsFlag[]
+  error_message?: string;
+  reserved_report_id?: string; // Report ID handed out before analysis (v1 API submissions)
+  api_key_id?: string; // Set for submissions made through the v1 API
+}
+
+// Analysis Job Claims Collection (one document per processing attempt, ID {jobId}_{attempt})
+// Creating it is what makes a worker the job's owner; see claimJob in lib/analysis/analysisJobs.ts
+export interface AnalysisJobClaimDocument extends Models.Document {
+  job_id: string;
+  attempt: number;
+  claim_token: string;
+}
+
+// Report Status History Collection (append-only claim lifecycle timeline)
+export interface ReportStatusHistoryDocument extends Models.Document {
+  claim_id: string;
+  from_status?: ClaimStatus; // Unset for the entry written when the report is created
+  to_status: ClaimStatus;
+  actor_id?: string; // Unset for system transitions
+  actor_role: 'user' | 'insurance_adjuster' | 'admin' | 'system';
+  reason?: string;
+  changed_at: string;
+}
+
+// Report Comments Collection (adjuster notes and customer messages)
+export interface ReportCommentDocument extends Models.Document {
+  claim_id: string;
+  parent_comment_id?: string; // Set on replies (one level deep)
+  author_id: string;
+  author_name?: string;
+  author_role: 'user' | 'insurance_adjuster' | 'admin';
+  visibility: 'internal' | 'customer'; // internal: insurer's team only
+  body: string;
+  mentioned_user_ids?: string[];
+}
+
+// API Keys Collection (per-company keys for the public v1 API)
+export type ApiKeyScope = 'reports:read' | 'reports:write' | 'widget';
+
+export interface ApiKeyDocument extends Models.Document {
+  insurance_company_id: string;
+  name: string;
+  key_prefix: string; // First characters of the key, shown to identify it
+  key_hash: string; // SHA-256 of the full key; the key itself is never stored
+  scopes: ApiKeyScope[];
+  created_by_user_id: string;
+  last_used_at?: string;
+  revoked_at?: string;
+  rotated_to_key_id?: string; // Replacement key when revoked by rotation
+}
+
+// API Idempotency Keys Collection (one document per company + Idempotency-Key header)
+export interface ApiIdempotencyKeyDocument extends Models.Document {
+  insurance_company_id: string;
+  api_key_id: string;
+  idempotency_key: string;
+  request_hash: string; // SHA-256 fingerprint of the original request
+  report_id?: string; // Set once the submission was accepted
+  job_id?: string;
+  lease_expires_at?: string; // Until then a retry waits for this reservation (in_progress)
+  expires_at: string;
+}
+
+// Webhook Endpoints Collection (per-company outbound report event subscriptions)
+export type WebhookEvent =
+  | 'report.created'
+  | 'report.analyzed'
+  | 'report.flagged'
+  | 'report.status_changed';
+
+export interface WebhookEndpointDocument extends Models.Document {
+  insurance_company_id: string;
+  url: string;
+  secret: string; // HMAC-SHA256 signing secret
+  events: WebhookEvent[];
+  is_active: boolean;
+  description?: string;
+  created_by_user_id: string;
+}
+
+// Webhook Deliveries Collection (delivery log and retry queue)
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDeliveryDocument extends Models.Document {
+  endpoint_id: string;
+  insurance_company_id: string;
+  event: WebhookEvent | 'test';
+  report_id?: string;
+  payload: string; // JSON body, signed on every attempt
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at?: string; // Set while pending
+  last_attempt_at?: string;
+  response_status?: number;
+  response_body?: string;
+  error_message?: string;
+}
+
+// Webhook Delivery Claims Collection (one document per delivery attempt, ID {deliveryId}_{attempt})
+// Creating it is what lets a processor send the attempt; see attemptWebhookDelivery in lib/webhooks/deliveries.ts
+export interface WebhookDeliveryClaimDocument extends Models.Document {
+  delivery_id: string;
+  attempt: number;
+}
+
+// API Usage Daily Collection (one counter document per key, endpoint and UTC day)
+export interface ApiUsageDailyDocument extends Models.Document {
+  api_key_id: string;
+  insurance_company_id: string;
+  endpoint: string; // e.g. "GET /reports/{id}"
+  usage_date: string; // YYYY-MM-DD (UTC)
+  request_count: number; // Authenticated requests, including throttled ones
+  throttled_count: number; // Requests rejected by the rate limit
+}
+
+// Report Templates Collection (PDF branding, one per insurance company)
+export interface ReportTemplateDocument extends Models.Document {
+  insurance_company_id: string;
+  logo_file_id?: string; // Image in the storage bucket
+  primary_color?: string; // Hex, e.g. "#1d4ed8"
+  accent_color?: string;
+  header_text?: string; // Shown under the logo, defaults to the company name
+  footer_disclaimer?: string;
+  show_media_thumbnails: boolean;
+  show_fraud_assessment: boolean;
+  updated_by_user_id?: string;
+}
+
+// Fraud Scoring Configs Collection (one per insurance company)
+export interface FraudScoringConfigDocument extends Models.Document {
+  insurance_company_id: string;
+  weights_json?: string; // Record<FraudScoreRuleId, number>, rules not listed use their default weight
+  investigation_threshold?: number; // 0-100
+  auto_route_enabled: boolean;
+  updated_by_user_id?: string;
+}
+
+// Media Fingerprints Collection (exact and perceptual hashes of claim evidence)
+export interface MediaFingerprintDocument extends Models.Document {
+  claim_id: string;
+  claim_number: string;
+  user_id: string;
+  insurance_company_id?: string;
+  file_id: string;
+  kind: 'image' | 'video' | 'video_frame';
+  frame_index?: number;
+  sha256?: string;
+  phash?: string; // 64-bit dHash as hex
+  phash_bands?: string[]; // Lookup keys, see perceptualHashBands
+}
+
+// Policies Collection (terms extracted from uploaded policy PDFs, see lib/policy/policyTerms.ts)
+export interface PolicyDocument extends Models.Document {
+  user_id: string;
+  insurance_company_id?: string;
+  file_id: string; // Policy PDF in storage (reports.policy_file_id)
+  filename?: string;
+  file_size?: number;
+  extraction_status: 'pending' | 'extracted' | 'failed';
+  extraction_error?: string;
+  reviewed_at?: string; // Set when the policyholder confirms or corrects the terms
+  corrected_terms_json?: string; // PolicyTerms as corrected by the policyholder; never used by analyses
+  corrected_by?: string; // User who saved the corrections
+  corrected_at?: string;
+  policy_number?: string;
+  insurer_name?: string;
+  policyholder_name?: string;
+  effective_date?: string; // YYYY-MM-DD
+  expiration_date?: string; // YYYY-MM-DD
+  currency?: string;
+  vehicles_json?: string; // PolicyVehicle[]
+  coverages_json?: string; // PolicyCoverage[]
+  exclusions_json?: string; // string[]
+}
+
 // Feedback Collection
 export interface FeedbackDocument extends Models.Document {
   user_id: string;
@@ -268,6 +531,35 @@ export interface FeedbackDocument extends Models.Document {
  */
 
 import { Query } from 'node-appwrite';
+import type {
+  ContaminationAssessment,
+  DamageAgeAssessment,
+  PreExistingDamageAssessment,
+  RustCorrosionAssessment,
+} from '@/lib/gemini/types';
+import type { PolicyTerms } from '@/lib/policy/policyTerms';
+
+/**
+ * Fraud assessment with the *_data_json blobs parsed (see parseFraudAssessment)
+ * A check is null when the analysis did not run it or its stored details are unreadable.
+ * Internal - only show it to reviewers of the report's company.
+ */
+export interface ReportFraudAssessment {
+  damageAge: DamageAgeAssessment | null;
+  contamination: ContaminationAssessment | null;
+  rustCorrosion: RustCorrosionAssessment | null;
+  preExistingDamage: PreExistingDamageAssessment | null;
+}
+
+/**
+ * Fraud evidence stored with the fraud assessment, as JSON (parseFraudScoreFactors,
+ * parseRecycledMedia, parseMetadataForensics and parseIncidentAssessment read it)
+ * Internal - only show it to reviewers of the report's company.
+ */
+export type ReportFraudEvidence = Pick<
+  ReportFraudAssessmentDocument,
+  'fraud_score' | 'fraud_score_factors_json' | 'recycled_media_json' | 'metadata_forensics_json' | 'incident_assessment_json'
+>;
 
 /**
  * Full report data with all related collections
@@ -277,6 +569,8 @@ export interface FullReportData {
   damageDetails: ReportDamageDetailDocument[];
   vehicleVerification: ReportVehicleVerificationDocument | null;
   assessment: ReportAssessmentDocument | null;
+  fraudAssessment: ReportFraudAssessment | null;
+  fraudEvidence: ReportFraudEvidence | null;
 }
 
 /**
@@ -297,6 +591,7 @@ export async function fetchFullReportData(
     REPORT_DAMAGE_DETAILS: string;
     REPORT_VEHICLE_VERIFICATION: string;
     REPORT_ASSESSMENTS: string;
+    REPORT_FRAUD_ASSESSMENTS: string;
   },
   reportId: string
 ): Promise<FullReportData> {
@@ -328,14 +623,111 @@ export async function fetchFullReportData(
     [Query.equal('claim_id', reportId), Query.limit(1)]
   );
 
+  // Fetch fraud assessment (one-to-one)
+  const fraudAssessmentResult = await databases.listDocuments<ReportFraudAssessmentDocument>(
+    databaseId,
+    collectionIds.REPORT_FRAUD_ASSESSMENTS,
+    [Query.equal('claim_id', reportId), Query.limit(1)]
+  );
+
+  const fraudAssessmentDoc = fraudAssessmentResult.documents[0];
+
   return {
     report,
     damageDetails: damageDetailsResult.documents,
     vehicleVerification: verificationResult.documents[0] || null,
     assessment: assessmentResult.documents[0] || null,
+    fraudAssessment: fraudAssessmentDoc ? parseFraudAssessment(fraudAssessmentDoc) : null,
+    fraudEvidence: fraudAssessmentDoc
+      ? {
+          fraud_score: fraudAssessmentDoc.fraud_score,
+          fraud_score_factors_json: fraudAssessmentDoc.fraud_score_factors_json,
+          recycled_media_json: fraudAssessmentDoc.recycled_media_json,
+          metadata_forensics_json: fraudAssessmentDoc.metadata_forensics_json,
+          incident_assessment_json: fraudAssessmentDoc.incident_assessment_json,
+        }
+      : null,
   };
 }
 
+/**
+ * Parse a fraud assessment document into the analysis types
+ * Flags come from the attributes, details from the JSON blobs written by
+ * createReportFromAnalysis (blobs cut off at their size limit no longer parse).
+ *
+ * @example
+ * const fraud = parseFraudAssessment(fraudDoc);
+ * if (fraud.rustCorrosion?.fraudIndicator) { ... }
+ */
+export function parseFraudAssessment(doc: ReportFraudAssessmentDocument): ReportFraudAssessment {
+  const damageAge = parseJsonAttribute<Partial<DamageAgeAssessment>>(doc.damage_age_data_json);
+  const contamination = parseJsonAttribute<{
+    riskLevel?: ContaminationAssessment['fraudRiskLevel'];
+    notes?: string;
+    contaminants?: ContaminationAssessment['contaminants'];
+  }>(doc.contamination_data_json);
+  const rust = parseJsonAttribute<{
+    corrosionLevel?: RustCorrosionAssessment['overallCorrosionLevel'];
+    estimatedAge?: string;
+    notes?: string;
+    affectedAreas?: RustCorrosionAssessment['corrosionAreas'];
+  }>(doc.rust_data_json);
+  const preExisting = parseJsonAttribute<{
+    damageConsistency?: PreExistingDamageAssessment['damageConsistency'];
+    notes?: string;
+    preExistingItems?: PreExistingDamageAssessment['preExistingItems'];
+  }>(doc.pre_existing_data_json);
+
+  return {
+    damageAge: damageAge
+      ? {
+          // Normalized on save (normalizeDamageAge in appwrite/createReport.ts)
+          estimatedAge: (doc.damage_age_estimated as DamageAgeAssessment['estimatedAge']) || 'unknown',
+          confidenceScore: doc.damage_age_confidence ?? 0,
+          indicators: damageAge.indicators ?? [],
+          reasoning: damageAge.reasoning ?? '',
+        }
+      : null,
+    contamination: contamination
+      ? {
+          contaminationDetected: doc.contamination_detected,
+          contaminants: contamination.contaminants ?? [],
+          fraudRiskLevel: contamination.riskLevel ?? 'low',
+          notes: contamination.notes ?? '',
+        }
+      : null,
+    rustCorrosion: rust
+      ? {
+          rustDetected: doc.rust_detected,
+          corrosionAreas: rust.affectedAreas ?? [],
+          overallCorrosionLevel: rust.corrosionLevel ?? 'none',
+          estimatedCorrosionAge: rust.estimatedAge ?? '',
+          fraudIndicator: doc.rust_fraud_indicator,
+          notes: rust.notes ?? '',
+        }
+      : null,
+    preExistingDamage: preExisting
+      ? {
+          preExistingDamageDetected: doc.pre_existing_detected,
+          preExistingItems: preExisting.preExistingItems ?? [],
+          damageConsistency: preExisting.damageConsistency ?? 'unclear',
+          fraudRiskLevel: (doc.pre_existing_risk_level as PreExistingDamageAssessment['fraudRiskLevel']) || 'low',
+          notes: preExisting.notes ?? '',
+        }
+      : null,
+  };
+}
+
+function parseJsonAttribute<T>(value: string | undefined): T | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? (parsed as T) : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Parse audit log metadata JSON string
  */
@@ -351,6 +743,7 @@ export function parseAuditLogMetadata(log: AuditLogDocument): Record<string, any
 
 /**
  * Information about a previously uploaded policy
+ * Terms fields come from the policies collection; policies only used before it existed have none yet.
  */
 export interface PolicyInfo {
   fileId: string;
@@ -358,6 +751,13 @@ export interface PolicyInfo {
   size: number;
   uploadedAt: string;
   url: string;
+  policyId?: string; // policies document ID
+  terms?: PolicyTerms | null; // null until extracted
+  termsStatus?: PolicyDocument['extraction_status'];
+  termsError?: string;
+  reviewedAt?: string;
+  correctedTerms?: PolicyTerms | null; // Policyholder's corrections, pending the insurer's review
+  correctedAt?: string;
 }
 
 /**
@@ -0,0 +1,134 @@
+"use client";
+
+import { submitReportAction } from '@/appwrite/submitReportAction';
+import { isVideo } from '@/lib/utils/fileConversion';
+import { sampleVideoFrames } from '@/lib/utils/video-frames';
+import type { AnalysisJobView } from '@/lib/analysis/analysisJobs';
+import type { AnalysisJobStatus } from '@/lib/types/appwrite';
+import type { EnhancedAutoDamageAnalysis, MetadataForensicsFlag } from '@/lib/gemini/types';
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_WAIT_MS = 15 * 60 * 1000; // Rate-limited jobs may wait for model capacity
+
+/**
+ * ProgressIndicator step (1-6) shown for each job status
+ */
+const JOB_STATUS_STEPS: Record<AnalysisJobStatus, number> = {
+  queued: 2,
+  scanning: 3,
+  analyzing: 4,
+  uploading: 5,
+  persisted: 6,
+  failed: 4,
+};
+
+export interface AnalysisJobOutcome {
+  success: boolean;
+  reportId?: string;
+  reportNumber?: string;
+  analysis?: EnhancedAutoDamageAnalysis;
+  warnings?: string[];
+  metadataFlags?: MetadataForensicsFlag[];
+  message?: string;
+}
+
+/**
+ * Progress callback: ProgressIndicator step plus an optional status message
+ * (e.g. "AI models at capacity. Retrying automatically." while a job is deferred)
+ */
+export type AnalysisProgressHandler = (step: number, message?: string) => void;
+
+/**
+ * Poll an analysis job until it is persisted or failed
+ *
+ * @param jobId - Job ID returned by submitReportAction
+ * @param onProgress - Called whenever the job status is fetched
+ * @returns Final outcome with report info or error message
+ */
+export async function waitForAnalysisJob(
+  jobId: string,
+  onProgress?: AnalysisProgressHandler
+): Promise<AnalysisJobOutcome> {
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < MAX_WAIT_MS) {
+    let job: AnalysisJobView | undefined;
+
+    try {
+      const response = await fetch(`/api/analysis-jobs/${jobId}`, { cache: 'no-store' });
+      const body = await response.json();
+
+      if (!response.ok) {
+        return { success: false, message: body.message || 'Failed to check analysis status' };
+      }
+      job = body.data as AnalysisJobView;
+    } catch (error) {
+      // Transient network error - keep polling
+      console.warn('Failed to poll analysis job:', error);
+    }
+
+    if (job) {
+      onProgress?.(JOB_STATUS_STEPS[job.status], job.status === 'queued' ? job.message : undefined);
+
+      if (job.status === 'persisted') {
+        return {
+          success: true,
+          reportId: job.reportId,
+          reportNumber: job.reportNumber,
+          analysis: job.analysis,
+          warnings: job.warnings,
+          metadataFlags: job.metadataFlags,
+        };
+      }
+
+      if (job.status === 'failed') {
+        return { success: false, message: job.message || 'Analysis failed. Please try again.' };
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  return {
+    success: false,
+    message: 'Analysis is taking longer than expected. Your report will appear in your dashboard once it completes.',
+  };
+}
+
+/**
+ * Submit a report and wait for its analysis job to finish
+ * Drop-in replacement for awaiting submitReportAction directly. Frames of a
+ * submitted video are sampled here for the recycled media check.
+ *
+ * @param formData - Same FormData as submitReportAction
+ * @param onProgress - Called with the ProgressIndicator step as the job advances
+ * @returns Final outcome with report info or error message
+ *
+ * @example
+ * const result = await submitAndWaitForReport(formData, (step, message) => {
+ *   setCurrentStep(step);
+ *   setStatusMessage(message);
+ * });
+ * if (result.success) {
+ *   router.push(`/auth/reports/${result.reportId}`);
+ * }
+ */
+export async function submitAndWaitForReport(
+  formData: FormData,
+  onProgress?: AnalysisProgressHandler
+): Promise<AnalysisJobOutcome> {
+  onProgress?.(JOB_STATUS_STEPS.queued);
+
+  const [firstMedia] = formData.getAll('mediaFiles');
+  if (firstMedia instanceof File && isVideo(firstMedia) && !formData.has('videoFrames')) {
+    const frames = await sampleVideoFrames(firstMedia);
+    frames.forEach((frame) => formData.append('videoFrames', frame));
+  }
+
+  const submission = await submitReportAction(formData);
+  if (!submission.success || !('jobId' in submission) || !submission.jobId) {
+    return { success: false, message: submission.message };
+  }
+
+  return waitForAnalysisJob(submission.jobId, onProgress);
+}
@@ -0,0 +1,32 @@
+/**
+ * CSV helpers
+ * Shared by the claim line item export and the admin audit log export
+ */
+
+/**
+ * Format one CSV cell (RFC 4180 quoting)
+ * Arrays are joined with ";". Text starting with a formula character (=, +, -, @,
+ * tab or carriage return) is prefixed with ' so spreadsheets do not evaluate it;
+ * numbers and booleans are written as-is, so negative amounts stay numeric.
+ *
+ * @param value - Cell value
+ * @returns Escaped cell text ("" for null or undefined)
+ */
+export function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  let text = Array.isArray(value) ? value.join(';') : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format one CSV row
+ *
+ * @param values - Cell values, in column order
+ * @returns Comma-separated cells (without a line break)
+ */
+export function toCsvRow(values: unknown[]): string {
+  return values.map(toCsvCell).join(',');
+}
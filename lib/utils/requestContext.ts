@@ -0,0 +1,25 @@
+/**
+ * Request context helpers
+ * Shared by proxy.ts (traffic logging) and the audit log writer
+ */
+
+/**
+ * Client IP address from proxy headers
+ *
+ * @param headers - Incoming request headers
+ * @returns First x-forwarded-for hop, x-real-ip, or 'unknown'
+ */
+export function getClientIp(headers: Headers): string {
+  return (
+    headers.get('x-forwarded-for')?.split(',')[0].trim() ??
+    headers.get('x-real-ip') ??
+    'unknown'
+  );
+}
+
+/**
+ * Client user agent (empty string if absent)
+ */
+export function getUserAgent(headers: Headers): string {
+  return headers.get('user-agent') ?? '';
+}
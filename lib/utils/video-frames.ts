@@ -0,0 +1,83 @@
+const FRAME_WIDTH = 64; // Enough for the 9x8 perceptual hash, keeps uploads tiny
+const FRAME_TIMEOUT_MS = 5000;
+
+/**
+ * Sample still frames from a video as small PNGs
+ *
+ * The server can't decode video, so frames are taken in the browser and sent with
+ * the submission; each is hashed to find footage recycled from earlier claims
+ * (lib/media/recycledMedia.ts). Frames are taken evenly between the start and end.
+ *
+ * @param file - Recorded or uploaded video
+ * @param count - Number of frames to sample
+ * @returns PNG frames, or an empty list when the browser can't decode the video
+ *
+ * @example
+ * const frames = await sampleVideoFrames(videoFile);
+ * frames.forEach((frame) => formData.append("videoFrames", frame));
+ */
+export async function sampleVideoFrames(file: File, count: number = 4): Promise<File[]> {
+  const video = document.createElement("video");
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return [];
+
+  const blobUrl = URL.createObjectURL(file);
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  try {
+    video.src = blobUrl;
+    await waitForEvent(video, "loadeddata");
+
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    if (duration <= 0 || video.videoWidth === 0) return [];
+
+    canvas.width = FRAME_WIDTH;
+    canvas.height = Math.max(1, Math.round((video.videoHeight / video.videoWidth) * FRAME_WIDTH));
+
+    const frames: File[] = [];
+    for (let i = 1; i <= count; i++) {
+      video.currentTime = (duration * i) / (count + 1);
+      await waitForEvent(video, "seeked");
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+      if (blob) {
+        frames.push(new File([blob], `frame-${i}.png`, { type: "image/png" }));
+      }
+    }
+    return frames;
+  } catch (error) {
+    console.warn("Failed to sample video frames:", error);
+    return [];
+  } finally {
+    URL.revokeObjectURL(blobUrl);
+    video.src = "";
+    video.remove();
+    canvas.remove();
+  }
+}
+
+/**
+ * Resolve on the next event of a media element, reject on errors or after a timeout
+ */
+function waitForEvent(video: HTMLVideoElement, event: "loadeddata" | "seeked"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => finish(new Error(`Timed out waiting for ${event}`)), FRAME_TIMEOUT_MS);
+    const onEvent = () => finish();
+    const onError = () => finish(new Error("Video could not be decoded"));
+
+    function finish(error?: Error) {
+      clearTimeout(timeout);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener("error", onError);
+      if (error) reject(error);
+      else resolve();
+    }
+
+    video.addEventListener(event, onEvent);
+    video.addEventListener("error", onError);
+  });
+}
@@ -0,0 +1,406 @@
+import { createHmac, randomBytes } from 'crypto';
+import { request as httpRequest, type IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { AppwriteException, ID, Query } from 'node-appwrite';
+import { adminAction } from '@/appwrite/adminOrClient';
+import { DATABASE_ID, COLLECTION_IDS } from '@/lib/env';
+import { formatReportResponse } from '@/lib/api/reportResponse';
+import { resolveWebhookUrl } from '@/lib/webhooks/endpointUrl';
+import type { ApiWebhookPayload } from '@/lib/api/schemas';
+import {
+  fetchFullReportData,
+  type ClaimStatus,
+  type ReportDocument,
+  type WebhookDeliveryClaimDocument,
+  type WebhookDeliveryDocument,
+  type WebhookEndpointDocument,
+  type WebhookEvent,
+} from '@/lib/types/appwrite';
+
+/**
+ * Outbound Webhooks
+ * Report lifecycle events are queued as webhook_deliveries, sent with an
+ * HMAC-SHA256 signature, and retried with exponential backoff.
+ *
+ * Signature header (verify before trusting a payload):
+ *   X-VehicleClaim-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ *
+ * Redirects are not followed: a 3xx response counts as a failed attempt.
+ */
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'report.created',
+  'report.analyzed',
+  'report.flagged',
+  'report.status_changed',
+];
+
+// Attempts before a delivery is marked failed (~4 hours of retries)
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 2 * 60 * 60 * 1000;
+// Pending deliveries are pushed back by this much while an attempt is in flight
+const ATTEMPT_LEASE_MS = 2 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+// Documented as webhookPayloadSchema in the OpenAPI document
+export type WebhookPayload = ApiWebhookPayload;
+
+export interface ReportEventDetails {
+  previousStatus?: ClaimStatus;
+  reason?: string;
+}
+
+/**
+ * Generate a signing secret for a new endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Signature header value for a payload
+ *
+ * @param secret - Endpoint signing secret
+ * @param timestamp - Unix seconds, also sent in the header
+ * @param body - Raw JSON body
+ * @returns "t=<timestamp>,v1=<signature>"
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Queue and send a report event to the company's subscribed endpoints
+ * Call without awaiting from request paths; failures are logged, never thrown to the caller's flow.
+ *
+ * @param event - Lifecycle event
+ * @param reportId - Report the event is about
+ * @param details - Status transition details (status events)
+ * @returns Number of deliveries queued
+ *
+ * @example
+ * dispatchReportEvent('report.status_changed', reportId, { previousStatus: 'pending' })
+ *   .catch((err) => console.error('Failed to dispatch webhook:', err));
+ */
+export async function dispatchReportEvent(
+  event: WebhookEvent,
+  reportId: string,
+  details: ReportEventDetails = {}
+): Promise<number> {
+  const { databases } = await adminAction();
+  const report = await databases.getDocument<ReportDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.REPORTS,
+    reportId
+  );
+  if (!report.insurance_company_id) return 0;
+
+  const endpoints = await databases.listDocuments<WebhookEndpointDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.WEBHOOK_ENDPOINTS,
+    [
+      Query.equal('insurance_company_id', report.insurance_company_id),
+      Query.equal('is_active', true),
+      Query.contains('events', event),
+      Query.limit(25),
+    ]
+  );
+  if (endpoints.documents.length === 0) return 0;
+
+  const fullReport = await fetchFullReportData(databases, DATABASE_ID, COLLECTION_IDS, reportId);
+  const reportResponse = formatReportResponse(fullReport);
+
+  const deliveries = await Promise.all(
+    endpoints.documents.map((endpoint) =>
+      queueWebhookDelivery(endpoint, event, {
+        report: reportResponse,
+        previousStatus: details.previousStatus ?? null,
+        reason: details.reason ?? null,
+      }, reportId)
+    )
+  );
+
+  await Promise.allSettled(deliveries.map((delivery) => attemptWebhookDelivery(delivery.$id)));
+
+  return deliveries.length;
+}
+
+/**
+ * Queue a delivery for one endpoint
+ *
+ * @param endpoint - Target endpoint
+ * @param event - Event name (or "test")
+ * @param data - Payload data
+ * @param reportId - Report the event is about (optional)
+ * @returns The pending delivery
+ */
+export async function queueWebhookDelivery(
+  endpoint: WebhookEndpointDocument,
+  event: WebhookEvent | 'test',
+  data: WebhookPayload['data'],
+  reportId?: string
+): Promise<WebhookDeliveryDocument> {
+  const { databases } = await adminAction();
+  const deliveryId = ID.unique();
+  const now = new Date().toISOString();
+
+  const payload: WebhookPayload = { id: deliveryId, event, createdAt: now, data };
+
+  return databases.createDocument<WebhookDeliveryDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.WEBHOOK_DELIVERIES,
+    deliveryId,
+    {
+      endpoint_id: endpoint.$id,
+      insurance_company_id: endpoint.insurance_company_id,
+      event,
+      report_id: reportId,
+      payload: JSON.stringify(payload),
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now,
+    }
+  );
+}
+
+/**
+ * Send a pending delivery once and record the outcome
+ * Failed attempts are rescheduled with exponential backoff until MAX_ATTEMPTS.
+ *
+ * @param deliveryId - Webhook delivery document ID
+ * @returns Updated delivery, or null if it was not pending or not due
+ */
+export async function attemptWebhookDelivery(
+  deliveryId: string
+): Promise<WebhookDeliveryDocument | null> {
+  const { databases } = await adminAction();
+
+  const delivery = await databases.getDocument<WebhookDeliveryDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.WEBHOOK_DELIVERIES,
+    deliveryId
+  );
+  if (delivery.status !== 'pending') return null;
+  if (delivery.next_attempt_at && Date.parse(delivery.next_attempt_at) > Date.now()) return null;
+
+  const attempts = delivery.attempts + 1;
+  const attemptedAt = new Date();
+
+  // Claim the attempt: of the processors racing for it, exactly one creates the claim document
+  try {
+    await databases.createDocument<WebhookDeliveryClaimDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.WEBHOOK_DELIVERY_CLAIMS,
+      getClaimId(deliveryId, attempts),
+      { delivery_id: deliveryId, attempt: attempts }
+    );
+  } catch (error) {
+    if (!(error instanceof AppwriteException && error.code === 409)) {
+      throw error;
+    }
+    await skipAbandonedClaim(delivery, attempts);
+    return null;
+  }
+
+  // Lease the delivery so it is not picked up again while the attempt is in flight
+  await databases.updateDocument(DATABASE_ID, COLLECTION_IDS.WEBHOOK_DELIVERIES, deliveryId, {
+    attempts,
+    last_attempt_at: attemptedAt.toISOString(),
+    next_attempt_at: new Date(attemptedAt.getTime() + ATTEMPT_LEASE_MS).toISOString(),
+  });
+
+  let endpoint: WebhookEndpointDocument | null = null;
+  try {
+    endpoint = await databases.getDocument<WebhookEndpointDocument>(
+      DATABASE_ID,
+      COLLECTION_IDS.WEBHOOK_ENDPOINTS,
+      delivery.endpoint_id
+    );
+  } catch {
+    // Endpoint deleted - handled below
+  }
+
+  if (!endpoint || (!endpoint.is_active && delivery.event !== 'test')) {
+    const failed = await databases.updateDocument(
+      DATABASE_ID,
+      COLLECTION_IDS.WEBHOOK_DELIVERIES,
+      deliveryId,
+      {
+        status: 'failed',
+        next_attempt_at: null,
+        error_message: endpoint ? 'Endpoint is disabled' : 'Endpoint was deleted',
+      }
+    );
+    return failed as unknown as WebhookDeliveryDocument;
+  }
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    // The host may have been re-pointed at an internal address since registration
+    const target = await resolveWebhookUrl(endpoint.url);
+    if ('error' in target) {
+      throw new Error(target.error);
+    }
+
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+    const response = await postWebhook(target.url, target.address, delivery.payload, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'VehicleClaim-Webhooks/1.0',
+      'X-VehicleClaim-Event': delivery.event,
+      'X-VehicleClaim-Delivery': delivery.$id,
+      'X-VehicleClaim-Signature': signWebhookPayload(endpoint.secret, timestamp, delivery.payload),
+    });
+
+    responseStatus = response.status;
+    responseBody = response.body;
+    if (response.status < 200 || response.status >= 300) {
+      errorMessage = `Endpoint responded with HTTP ${response.status}`;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Request failed';
+  }
+
+  const succeeded = !errorMessage;
+  const exhausted = !succeeded && attempts >= MAX_ATTEMPTS;
+
+  if (!succeeded) {
+    console.warn(`⚠️ Webhook delivery ${deliveryId} attempt ${attempts} failed: ${errorMessage}`);
+  }
+
+  // Untyped update: null clears the previous attempt's fields
+  const updated = await databases.updateDocument(
+    DATABASE_ID,
+    COLLECTION_IDS.WEBHOOK_DELIVERIES,
+    deliveryId,
+    {
+      status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      next_attempt_at: succeeded || exhausted ? null : getNextAttemptAt(attempts),
+      response_status: responseStatus,
+      response_body: responseBody,
+      error_message: errorMessage,
+    }
+  );
+  return updated as unknown as WebhookDeliveryDocument;
+}
+
+/**
+ * Retry pending deliveries that are due (for a scheduler / cron)
+ *
+ * @param limit - Maximum number of deliveries to attempt
+ * @returns Number of deliveries attempted
+ */
+export async function processDueWebhookDeliveries(limit: number = 20): Promise<number> {
+  const { databases } = await adminAction();
+
+  const due = await databases.listDocuments<WebhookDeliveryDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.WEBHOOK_DELIVERIES,
+    [
+      Query.equal('status', 'pending'),
+      Query.lessThanEqual('next_attempt_at', new Date().toISOString()),
+      Query.orderAsc('next_attempt_at'),
+      Query.limit(limit),
+    ]
+  );
+
+  for (const delivery of due.documents) {
+    try {
+      await attemptWebhookDelivery(delivery.$id);
+    } catch (error) {
+      console.error(`Failed to attempt webhook delivery ${delivery.$id}:`, error);
+    }
+  }
+
+  return due.documents.length;
+}
+
+/**
+ * POST a payload to the address checked by resolveWebhookUrl
+ * The connection goes to that address (the URL's host is still used for TLS and the
+ * Host header), so a DNS answer that changed after the check is never used.
+ *
+ * @returns Response status and the start of the response body
+ */
+function postWebhook(
+  url: URL,
+  address: string,
+  body: string,
+  headers: Record<string, string>
+): Promise<{ status: number; body: string }> {
+  const family = isIP(address);
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  };
+
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: pinnedLookup,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      (response: IncomingMessage) => {
+        let text = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          if (text.length < MAX_RESPONSE_BODY_LENGTH) text += chunk;
+        });
+        response.on('end', () => {
+          resolve({ status: response.statusCode ?? 0, body: text.slice(0, MAX_RESPONSE_BODY_LENGTH) });
+        });
+        response.on('error', reject);
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Count an attempt whose processor stopped between claiming it and leasing the delivery
+ * Without this the delivery would ask for the same attempt forever and never be sent again.
+ */
+async function skipAbandonedClaim(
+  delivery: WebhookDeliveryDocument,
+  attempt: number
+): Promise<void> {
+  const { databases } = await adminAction();
+  const claim = await databases.getDocument<WebhookDeliveryClaimDocument>(
+    DATABASE_ID,
+    COLLECTION_IDS.WEBHOOK_DELIVERY_CLAIMS,
+    getClaimId(delivery.$id, attempt)
+  );
+
+  if (Date.now() - Date.parse(claim.$createdAt) > ATTEMPT_LEASE_MS) {
+    console.log(`⏳ Webhook delivery ${delivery.$id}: attempt ${attempt} was abandoned, skipping it`);
+    await databases.updateDocument(DATABASE_ID, COLLECTION_IDS.WEBHOOK_DELIVERIES, delivery.$id, {
+      attempts: attempt,
+    });
+  }
+}
+
+function getClaimId(deliveryId: string, attempt: number): string {
+  return `${deliveryId}_${attempt}`;
+}
+
+/**
+ * Backoff: 1m, 2m, 4m, ... capped at 2h
+ */
+function getNextAttemptAt(attempts: number): string {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  return new Date(Date.now() + delay).toISOString();
+}
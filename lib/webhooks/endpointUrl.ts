@@ -0,0 +1,108 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Webhook Endpoint Addresses
+ * Signed payloads are only POSTed to public addresses: hosts that are, or resolve to,
+ * private, loopback, link-local (cloud metadata) or otherwise reserved addresses are
+ * rejected when an endpoint is registered and again before every delivery, since DNS
+ * can change in between. Deliveries then connect to the address that was checked
+ * rather than resolving the host again (DNS rebinding).
+ */
+
+export type ResolvedWebhookUrl =
+  | { url: URL; address: string }
+  | { error: string };
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, cloud metadata
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved, broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified, loopback
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or reserved
+ */
+export function isBlockedAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check that a webhook URL points at a public address
+ * Plain HTTP to localhost is accepted outside production for local development.
+ *
+ * @param rawUrl - Endpoint URL
+ * @returns Error message, or null if the URL may receive deliveries
+ *
+ * @example
+ * await checkWebhookUrl('https://169.254.169.254/latest/meta-data')
+ * // 'Webhook URLs must point to a public address'
+ */
+export async function checkWebhookUrl(rawUrl: string): Promise<string | null> {
+  const resolved = await resolveWebhookUrl(rawUrl);
+  return 'error' in resolved ? resolved.error : null;
+}
+
+/**
+ * Resolve a webhook URL to the public address a delivery should connect to
+ * Same rules as checkWebhookUrl.
+ *
+ * @param rawUrl - Endpoint URL
+ * @returns Parsed URL and checked address, or the error message
+ */
+export async function resolveWebhookUrl(rawUrl: string): Promise<ResolvedWebhookUrl> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { error: 'Enter a valid URL' };
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const isLocal = hostname === 'localhost' || hostname === '127.0.0.1';
+  if (isLocal && url.protocol === 'http:' && process.env.NODE_ENV !== 'production') {
+    return { url, address: '127.0.0.1' };
+  }
+  if (url.protocol !== 'https:') {
+    return { error: 'Webhook URLs must use HTTPS' };
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch {
+    return { error: `Could not resolve ${hostname}` };
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return { error: 'Webhook URLs must point to a public address' };
+  }
+  return { url, address: addresses[0] };
+}
@@ -0,0 +1,172 @@
+import type { WidgetLocale } from '@/lib/api/schemas';
+import type {
+  ClaimStatus,
+  ReportDamageDetailDocument,
+  ReportDocument,
+} from '@/lib/types/appwrite';
+
+/**
+ * Widget Translations
+ * Strings shown in the embeddable report widget, per supported locale
+ */
+
+export interface WidgetMessages {
+  overview: string;
+  claimStatus: string;
+  damageType: string;
+  confidence: string;
+  totalEstimate: string;
+  financials: string;
+  coveredAmount: string;
+  deductible: string;
+  estimatedPayout: string;
+  damagedParts: string;
+  recommendation: string;
+  investigation: string;
+  investigationNeeded: string;
+  noInvestigationNeeded: string;
+  poweredBy: string;
+  status: Record<ClaimStatus, string>;
+  severity: Record<ReportDocument['overall_severity'], string>;
+  damageTypes: Record<ReportDocument['damage_type'], string>;
+  repairOrReplace: Record<NonNullable<ReportDamageDetailDocument['repair_or_replace']>, string>;
+}
+
+export const WIDGET_MESSAGES: Record<WidgetLocale, WidgetMessages> = {
+  en: {
+    overview: 'Overview',
+    claimStatus: 'Status',
+    damageType: 'Damage Type',
+    confidence: 'Confidence',
+    totalEstimate: 'Total Estimate',
+    financials: 'Coverage',
+    coveredAmount: 'Covered Amount',
+    deductible: 'Deductible',
+    estimatedPayout: 'Estimated Payout',
+    damagedParts: 'Damaged Parts',
+    recommendation: 'Recommendation',
+    investigation: 'Investigation',
+    investigationNeeded: 'Under review by an adjuster',
+    noInvestigationNeeded: 'No investigation needed',
+    poweredBy: 'Powered by VehicleClaim AI',
+    status: {
+      pending: 'Pending',
+      analyzed: 'Analyzed',
+      approved: 'Approved',
+      denied: 'Denied',
+      partial: 'Partially Approved',
+      needs_investigation: 'Under Investigation',
+    },
+    severity: { minor: 'Minor', moderate: 'Moderate', severe: 'Severe', total_loss: 'Total Loss' },
+    damageTypes: {
+      collision: 'Collision',
+      comprehensive: 'Comprehensive',
+      weather: 'Weather',
+      vandalism: 'Vandalism',
+      unknown: 'Unknown',
+    },
+    repairOrReplace: { repair: 'Repair', replace: 'Replace', either: 'Repair or replace', undetermined: 'Undetermined' },
+  },
+  es: {
+    overview: 'Resumen',
+    claimStatus: 'Estado',
+    damageType: 'Tipo de daño',
+    confidence: 'Confianza',
+    totalEstimate: 'Estimación total',
+    financials: 'Cobertura',
+    coveredAmount: 'Importe cubierto',
+    deductible: 'Deducible',
+    estimatedPayout: 'Pago estimado',
+    damagedParts: 'Piezas dañadas',
+    recommendation: 'Recomendación',
+    investigation: 'Investigación',
+    investigationNeeded: 'En revisión por un perito',
+    noInvestigationNeeded: 'No requiere investigación',
+    poweredBy: 'Con la tecnología de VehicleClaim AI',
+    status: {
+      pending: 'Pendiente',
+      analyzed: 'Analizado',
+      approved: 'Aprobado',
+      denied: 'Rechazado',
+      partial: 'Aprobado parcialmente',
+      needs_investigation: 'En investigación',
+    },
+    severity: { minor: 'Leve', moderate: 'Moderado', severe: 'Grave', total_loss: 'Pérdida total' },
+    damageTypes: {
+      collision: 'Colisión',
+      comprehensive: 'Todo riesgo',
+      weather: 'Fenómeno meteorológico',
+      vandalism: 'Vandalismo',
+      unknown: 'Desconocido',
+    },
+    repairOrReplace: { repair: 'Reparar', replace: 'Sustituir', either: 'Reparar o sustituir', undetermined: 'Sin determinar' },
+  },
+  fr: {
+    overview: 'Aperçu',
+    claimStatus: 'Statut',
+    damageType: 'Type de dommage',
+    confidence: 'Confiance',
+    totalEstimate: 'Estimation totale',
+    financials: 'Couverture',
+    coveredAmount: 'Montant couvert',
+    deductible: 'Franchise',
+    estimatedPayout: 'Indemnisation estimée',
+    damagedParts: 'Pièces endommagées',
+    recommendation: 'Recommandation',
+    investigation: 'Enquête',
+    investigationNeeded: "En cours d'examen par un expert",
+    noInvestigationNeeded: 'Aucune enquête nécessaire',
+    poweredBy: 'Propulsé par VehicleClaim AI',
+    status: {
+      pending: 'En attente',
+      analyzed: 'Analysé',
+      approved: 'Approuvé',
+      denied: 'Refusé',
+      partial: 'Partiellement approuvé',
+      needs_investigation: 'En enquête',
+    },
+    severity: { minor: 'Léger', moderate: 'Modéré', severe: 'Grave', total_loss: 'Perte totale' },
+    damageTypes: {
+      collision: 'Collision',
+      comprehensive: 'Tous risques',
+      weather: 'Intempéries',
+      vandalism: 'Vandalisme',
+      unknown: 'Inconnu',
+    },
+    repairOrReplace: { repair: 'Réparer', replace: 'Remplacer', either: 'Réparer ou remplacer', undetermined: 'Indéterminé' },
+  },
+  de: {
+    overview: 'Übersicht',
+    claimStatus: 'Status',
+    damageType: 'Schadensart',
+    confidence: 'Konfidenz',
+    totalEstimate: 'Geschätzte Gesamtkosten',
+    financials: 'Deckung',
+    coveredAmount: 'Gedeckter Betrag',
+    deductible: 'Selbstbeteiligung',
+    estimatedPayout: 'Geschätzte Auszahlung',
+    damagedParts: 'Beschädigte Teile',
+    recommendation: 'Empfehlung',
+    investigation: 'Prüfung',
+    investigationNeeded: 'Wird von einem Sachbearbeiter geprüft',
+    noInvestigationNeeded: 'Keine Prüfung erforderlich',
+    poweredBy: 'Bereitgestellt von VehicleClaim AI',
+    status: {
+      pending: 'Ausstehend',
+      analyzed: 'Analysiert',
+      approved: 'Genehmigt',
+      denied: 'Abgelehnt',
+      partial: 'Teilweise genehmigt',
+      needs_investigation: 'In Prüfung',
+    },
+    severity: { minor: 'Gering', moderate: 'Mittel', severe: 'Schwer', total_loss: 'Totalschaden' },
+    damageTypes: {
+      collision: 'Kollision',
+      comprehensive: 'Vollkasko',
+      weather: 'Unwetter',
+      vandalism: 'Vandalismus',
+      unknown: 'Unbekannt',
+    },
+    repairOrReplace: { repair: 'Reparieren', replace: 'Ersetzen', either: 'Reparieren oder ersetzen', undetermined: 'Unbestimmt' },
+  },
+};
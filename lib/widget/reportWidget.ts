@@ -0,0 +1,264 @@
+import type { WidgetTokenClaims } from '@/lib/api/widgetTokens';
+import type { ApiWidgetTheme, WidgetSection } from '@/lib/api/schemas';
+import type {
+  ReportAssessmentDocument,
+  ReportDamageDetailDocument,
+  ReportDocument,
+} from '@/lib/types/appwrite';
+import { WIDGET_MESSAGES, type WidgetMessages } from '@/lib/widget/locales';
+import { getReportFinancials } from '@/lib/claimAdjustments';
+
+/**
+ * Embeddable Report Widget
+ * Renders the HTML document served by GET /api/v1/widget/[id]. Everything shown
+ * comes from the report or the token's theme, so all values are escaped.
+ *
+ * The page reports its height to the embedding window with postMessage:
+ *   { type: 'vehicleclaim:widget:resize', reportId, height }
+ * Messages are only posted to the origin the token was issued for.
+ */
+
+export const WIDGET_RESIZE_MESSAGE = 'vehicleclaim:widget:resize';
+
+interface WidgetReportData {
+  report: ReportDocument;
+  damageDetails: ReportDamageDetailDocument[];
+  assessment: ReportAssessmentDocument | null;
+}
+
+interface ThemeColors {
+  primary: string;
+  background: string;
+  text: string;
+  muted: string;
+  border: string;
+  subtle: string;
+}
+
+const THEME_DEFAULTS: Record<ApiWidgetTheme['mode'], ThemeColors> = {
+  light: {
+    primary: '#2563eb',
+    background: '#ffffff',
+    text: '#1f2937',
+    muted: '#6b7280',
+    border: '#e5e7eb',
+    subtle: '#f9fafb',
+  },
+  dark: {
+    primary: '#60a5fa',
+    background: '#111827',
+    text: '#f3f4f6',
+    muted: '#9ca3af',
+    border: '#374151',
+    subtle: '#1f2937',
+  },
+};
+
+const SEVERITY_COLORS: Record<string, string> = {
+  minor: '#22c55e',
+  moderate: '#eab308',
+  severe: '#f97316',
+  total_loss: '#ef4444',
+};
+
+const DEFAULT_FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+
+/**
+ * Escape text for HTML element content and quoted attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the widget document for a report
+ *
+ * @param data - Report with damage details and assessment
+ * @param claims - Verified widget token claims (theme, locale, currency and origin)
+ * @returns Complete HTML document
+ *
+ * @example
+ * const html = renderReportWidget(await fetchFullReportData(...), widget.claims);
+ * return new NextResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+ */
+export function renderReportWidget(data: WidgetReportData, claims: WidgetTokenClaims): string {
+  const { report } = data;
+  const { theme } = claims;
+  const messages = WIDGET_MESSAGES[claims.locale];
+  const colors: ThemeColors = {
+    ...THEME_DEFAULTS[theme.mode],
+    ...(theme.primaryColor && { primary: theme.primaryColor }),
+    ...(theme.backgroundColor && { background: theme.backgroundColor }),
+    ...(theme.textColor && { text: theme.textColor }),
+  };
+  const currency = new Intl.NumberFormat(claims.locale, {
+    style: 'currency',
+    currency: claims.currency,
+  });
+
+  const context: SectionContext = { data, messages, formatMoney: (amount) => currency.format(amount) };
+  const sections = theme.sections.map((section) => SECTION_RENDERERS[section](context)).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${claims.locale}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <meta name="robots" content="noindex" />
+  <title>VehicleClaim Report ${escapeHtml(report.claim_number)}</title>
+  <style>${renderStyles(theme, colors)}</style>
+</head>
+<body>
+  <div class="header">
+    ${theme.logoUrl ? `<img class="logo" src="${escapeHtml(theme.logoUrl)}" alt="" />` : ''}
+    <span class="claim-number">${escapeHtml(report.claim_number)}</span>
+    ${severityBadge(report.overall_severity, messages.severity[report.overall_severity])}
+  </div>
+  ${sections}
+  ${theme.showPoweredBy ? `<div class="footer">${escapeHtml(messages.poweredBy)}</div>` : ''}
+  <script>${renderResizeScript(report.$id, claims.origin)}</script>
+</body>
+</html>`;
+}
+
+interface SectionContext {
+  data: WidgetReportData;
+  messages: WidgetMessages;
+  formatMoney: (amount: number) => string;
+}
+
+const SECTION_RENDERERS: Record<WidgetSection, (context: SectionContext) => string> = {
+  overview: ({ data: { report }, messages, formatMoney }) =>
+    section(messages.overview, [
+      row(messages.claimStatus, messages.status[report.claim_status]),
+      row(messages.damageType, messages.damageTypes[report.damage_type]),
+      row(messages.confidence, `${(report.confidence_score * 100).toFixed(0)}%`),
+      row(messages.totalEstimate, formatMoney(report.estimated_total_repair_cost)),
+    ]),
+
+  parts: ({ data: { damageDetails }, messages }) => {
+    const visibleDamages = damageDetails.filter((d) => !d.is_inferred);
+    if (visibleDamages.length === 0) return '';
+
+    return section(
+      `${messages.damagedParts} (${visibleDamages.length})`,
+      visibleDamages.map(
+        (d) => `
+      <div class="part">
+        <div class="part-header">
+          <span class="part-name">${escapeHtml(d.part_name)}</span>
+          ${severityBadge(d.severity, messages.severity[d.severity] ?? d.severity)}
+        </div>
+        ${d.estimated_repair_cost ? `<div class="part-desc">${escapeHtml(d.estimated_repair_cost)}</div>` : ''}
+        ${
+          d.repair_or_replace && d.repair_or_replace !== 'undetermined'
+            ? `<div class="part-action">${escapeHtml(messages.recommendation)}: ${escapeHtml(messages.repairOrReplace[d.repair_or_replace])}</div>`
+            : ''
+        }
+      </div>`
+      )
+    );
+  },
+
+  // Adjuster overrides replace the AI figures, as on the report page and PDF
+  financials: ({ data: { report, assessment, damageDetails }, messages, formatMoney }) => {
+    const financials = getReportFinancials(report, assessment, damageDetails);
+    if (!financials) return '';
+
+    return section(messages.financials, [
+      row(messages.coveredAmount, formatMoney(financials.coveredAmount)),
+      row(messages.deductible, formatMoney(financials.deductible)),
+      row(messages.estimatedPayout, formatMoney(financials.estimatedPayout), 'payout'),
+    ]);
+  },
+
+  // The investigation reason is internal, so only the flag is shown
+  investigation: ({ data: { report }, messages }) =>
+    section(messages.investigation, [
+      `<div class="row"><span class="label">${escapeHtml(
+        report.investigation_needed ? messages.investigationNeeded : messages.noInvestigationNeeded
+      )}</span></div>`,
+    ]),
+};
+
+function section(title: string, rows: string[]): string {
+  return `
+  <div class="section">
+    <div class="section-header">${escapeHtml(title)}</div>
+    ${rows.join('')}
+  </div>`;
+}
+
+function row(label: string, value: string, valueClass = ''): string {
+  return `
+    <div class="row">
+      <span class="label">${escapeHtml(label)}</span>
+      <span class="value ${valueClass}">${escapeHtml(value)}</span>
+    </div>`;
+}
+
+function severityBadge(severity: string, label: string): string {
+  const color = SEVERITY_COLORS[severity] || '#6b7280';
+  return `<span class="badge" style="background: ${color}20; color: ${color}">${escapeHtml(label)}</span>`;
+}
+
+function renderStyles(theme: ApiWidgetTheme, colors: ThemeColors): string {
+  const radius = theme.borderRadius ?? 8;
+
+  return `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    html, body { background: ${colors.background}; }
+    body { font-family: ${theme.fontFamily ?? DEFAULT_FONT_FAMILY}; color: ${colors.text}; padding: 16px; }
+    .header { display: flex; align-items: center; gap: 8px; margin-bottom: 16px; }
+    .logo { height: 24px; max-width: 120px; object-fit: contain; }
+    .claim-number { flex: 1; font-size: 14px; font-weight: 700; color: ${colors.primary}; }
+    .badge { display: inline-block; padding: 2px 8px; border-radius: 9999px; font-size: 11px; font-weight: 600; text-transform: uppercase; }
+    .section { border: 1px solid ${colors.border}; border-radius: ${radius}px; overflow: hidden; margin-bottom: 12px; }
+    .section-header { background: ${colors.subtle}; padding: 8px 12px; font-size: 11px; font-weight: 600; text-transform: uppercase; color: ${colors.primary}; border-bottom: 1px solid ${colors.border}; }
+    .row { display: flex; justify-content: space-between; align-items: center; gap: 12px; padding: 8px 12px; border-bottom: 1px solid ${colors.border}; }
+    .row:last-child { border-bottom: none; }
+    .label { font-size: 13px; color: ${colors.muted}; }
+    .value { font-size: 13px; font-weight: 600; text-align: right; }
+    .payout { color: #16a34a; font-size: 16px; }
+    .part { padding: 8px 12px; border-bottom: 1px solid ${colors.border}; }
+    .part:last-child { border-bottom: none; }
+    .part-header { display: flex; justify-content: space-between; align-items: center; }
+    .part-name { font-size: 13px; font-weight: 600; }
+    .part-desc { font-size: 12px; color: ${colors.muted}; margin-top: 2px; }
+    .part-action { font-size: 11px; color: ${colors.muted}; font-style: italic; margin-top: 2px; }
+    .footer { text-align: center; padding-top: 4px; font-size: 11px; color: ${colors.muted}; }
+  `;
+}
+
+/**
+ * Inline script that posts the document height to the embedding page
+ */
+function renderResizeScript(reportId: string, origin: string): string {
+  // JSON.stringify alone doesn't stop "</script>" from ending the script element
+  const message = JSON.stringify({ type: WIDGET_RESIZE_MESSAGE, reportId }).replace(/</g, '\\u003c');
+  const targetOrigin = JSON.stringify(origin).replace(/</g, '\\u003c');
+
+  return `
+    (function () {
+      var lastHeight = 0;
+      function postHeight() {
+        var height = Math.ceil(document.documentElement.getBoundingClientRect().height);
+        if (height === lastHeight || window.parent === window) return;
+        lastHeight = height;
+        var message = ${message};
+        message.height = height;
+        window.parent.postMessage(message, ${targetOrigin});
+      }
+      if (typeof ResizeObserver !== 'undefined') {
+        new ResizeObserver(postHeight).observe(document.documentElement);
+      }
+      window.addEventListener('load', postHeight);
+      postHeight();
+    })();
+  `;
+}
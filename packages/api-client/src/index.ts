@@ -0,0 +1,631 @@
+// Generated by scripts/generate-api-client.ts from lib/api/schemas.ts - do not edit.
+
+export const API_VERSION = '1.0.0';
+
+export type ClaimStatus = 'pending' | 'analyzed' | 'approved' | 'denied' | 'partial' | 'needs_investigation';
+
+export type Severity = 'minor' | 'moderate' | 'severe' | 'total_loss';
+
+export type DamageType = 'collision' | 'comprehensive' | 'weather' | 'vandalism' | 'unknown';
+
+export type RepairComplexity = 'simple' | 'moderate' | 'complex' | 'extensive';
+
+export type RepairOrReplace = 'repair' | 'replace' | 'either' | 'undetermined';
+
+export type VerificationStatus = 'matched' | 'mismatched' | 'insufficient_data';
+
+export type AssessmentStatus = 'approved' | 'denied' | 'partial' | 'needs_investigation';
+
+export type SubmissionStatus = 'queued' | 'scanning' | 'analyzing' | 'uploading' | 'persisted' | 'failed';
+
+export interface ReportFinancials {
+  totalRepairEstimate: number;
+  coveredAmount: number;
+  deductible: number;
+  nonCoveredItems: number;
+  estimatedPayout: number;
+  assessmentStatus: AssessmentStatus;
+  /** Whether adjuster overrides are applied to the figures */
+  adjusted: boolean;
+  /** The AI's original figures when an adjuster changed them; null otherwise */
+  aiEstimate: {
+    totalRepairEstimate: number;
+    coveredAmount: number;
+    deductible: number;
+    nonCoveredItems: number;
+    estimatedPayout: number;
+  } | null;
+}
+
+export interface FraudScoreFactor {
+  rule: 'vehicle_mismatch' | 'vehicle_unverified' | 'rust_fraud_indicator' | 'damage_age' | 'pre_existing_damage' | 'damage_consistency' | 'contamination' | 'security_scan' | 'recycled_media' | 'video_frames_missing' | 'media_metadata' | 'ai_flagged_investigation' | 'analysis_inconsistency' | 'high_repair_cost' | 'low_confidence';
+  label: string;
+  points: number;
+  detail: string;
+}
+
+export interface RecycledMediaMatch {
+  /** Media file of this report */
+  fileId: string;
+  kind: 'image' | 'video' | 'video_frame';
+  /** Sampled frame of the video (video_frame only) */
+  frameIndex?: number;
+  matchType: 'exact' | 'perceptual';
+  /** Differing perceptual hash bits, 0 for exact copies */
+  distance: number;
+  /** Earlier report with the same media; null when filed with another insurer */
+  matchedReportId: string | null;
+  matchedClaimNumber: string | null;
+  sameClaimant: boolean;
+}
+
+export interface ReportInvestigation {
+  needed: boolean;
+  reason: string | null;
+  /** Composite fraud score (0-100) from the company's scoring rules; null for reports created before scoring */
+  fraudScore: number | null;
+  /** Rules behind the fraud score, highest contribution first */
+  fraudFactors: FraudScoreFactor[];
+  /** Evidence found in earlier claims, closest matches first */
+  recycledMedia: RecycledMediaMatch[];
+}
+
+export interface ReportFraud {
+  damageAge: {
+    estimatedAge: 'fresh' | 'days_old' | 'weeks_old' | 'months_old' | 'unknown';
+    confidenceScore: number;
+    indicators: {
+      /** e.g. oxidation, rust, paint_weathering, edge_condition, debris_accumulation */
+      type: string;
+      observation: string;
+      ageImplication: string;
+    }[];
+    reasoning: string;
+  } | null;
+  /** Dirt or other contamination hiding or staging damage */
+  contamination: {
+    contaminationDetected: boolean;
+    contaminants: {
+      /** e.g. dirt, dust, snow, salt, water_stains, oil */
+      type: string;
+      location: string;
+      obscuresDamage: boolean;
+      description: string;
+    }[];
+    fraudRiskLevel: 'low' | 'medium' | 'high';
+    notes: string;
+  } | null;
+  rustCorrosion: {
+    rustDetected: boolean;
+    corrosionAreas: {
+      location: string;
+      /** surface_rust, pitting, deep_corrosion or structural */
+      severity: string;
+      color: string;
+      spreadPattern: string;
+      estimatedAge: string;
+    }[];
+    overallCorrosionLevel: 'none' | 'minimal' | 'moderate' | 'severe';
+    estimatedCorrosionAge: string;
+    /** Corrosion older than the claimed incident */
+    fraudIndicator: boolean;
+    notes: string;
+  } | null;
+  preExistingDamage: {
+    preExistingDamageDetected: boolean;
+    preExistingItems: {
+      location: string;
+      damageType: string;
+      ageEstimate: string;
+      reasoning: string;
+      relatedToClaimedIncident: boolean;
+    }[];
+    damageConsistency: 'consistent' | 'inconsistent' | 'mixed' | 'unclear';
+    fraudRiskLevel: 'low' | 'medium' | 'high';
+    notes: string;
+  } | null;
+}
+
+export interface ReportSummary {
+  id: string;
+  claimNumber?: string;
+  status?: ClaimStatus;
+  damageType?: DamageType;
+  overallSeverity?: Severity;
+  estimatedTotalCost?: number;
+  confidenceScore?: number;
+  createdAt?: string;
+  updatedAt?: string;
+  investigation?: ReportInvestigation;
+  financials?: ReportFinancials | null;
+}
+
+export interface Report {
+  id: string;
+  claimNumber: string;
+  status: ClaimStatus;
+  createdAt: string;
+  damage: {
+    type: DamageType;
+    cause?: string;
+    overallSeverity: Severity;
+    repairComplexity: RepairComplexity;
+    estimatedTotalCost: number;
+    confidenceScore: number;
+    parts: {
+      name: string;
+      severity: Severity;
+      description: string;
+      /** Cost range as text, e.g. "$500 - $800" */
+      estimatedCost?: string;
+      repairOrReplace: RepairOrReplace | null;
+      repairOrReplaceReason: string | null;
+    }[];
+    inferredInternalDamages: {
+      component: string;
+      likelihood?: string;
+      description: string;
+      basedOn?: string;
+    }[];
+  };
+  vehicleVerification: {
+    status: VerificationStatus;
+    confidenceScore: number;
+    videoVehicle: {
+      make?: string;
+      model?: string;
+      year?: number;
+      color?: string;
+    };
+    policyVehicle: {
+      make?: string;
+      model?: string;
+      year?: number;
+      color?: string;
+    };
+  } | null;
+  /** Policy assessment; null when the claim was analyzed without a policy */
+  financials: ReportFinancials | null;
+  investigation: ReportInvestigation;
+  /** Null for reports analyzed without fraud checks */
+  fraud: ReportFraud | null;
+  safetyConcerns: string[];
+  recommendedActions: string[];
+}
+
+export interface ReportListResponse {
+  data: ReportSummary[];
+  /** Reports matching the filters */
+  total: number;
+  limit: number;
+  offset: number;
+  /** Pass as cursor to fetch the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+export interface ReportResponse {
+  data: Report;
+}
+
+export interface SubmissionAcceptedResponse {
+  data: {
+    /** Reserved report ID */
+    id: string;
+    status: 'accepted';
+    statusUrl: string;
+  };
+}
+
+export interface SubmissionStatusResponse {
+  data: {
+    id: string;
+    status: SubmissionStatus;
+    /** When a deferred submission is retried */
+    nextAttemptAt: string | null;
+    claimNumber: string | null;
+    /** Set once the status is persisted */
+    reportUrl: string | null;
+    /** Failure reason when the status is failed */
+    message: string | null;
+  };
+}
+
+export interface ErrorResponse {
+  /** HTTP status text, e.g. "Not Found" */
+  error: string;
+  message: string;
+}
+
+export interface WidgetTokenResponse {
+  data: {
+    token: string;
+    expiresAt: string;
+    /** iframe src for the widget */
+    embedUrl: string;
+  };
+}
+
+export interface ExportLineItem {
+  lineNumber: number;
+  partName: string;
+  severity: Severity;
+  description: string;
+  /** Repair or replace, after adjuster overrides */
+  operation: RepairOrReplace | null;
+  /** AI cost range as text, e.g. "$500 - $800" */
+  aiCostRange: string | null;
+  /** Midpoint of the AI cost range; 0 for lines added by an adjuster */
+  aiAmount: number;
+  /** Adjuster re-price */
+  adjustedAmount: number | null;
+  /** Amount after adjuster overrides; 0 once removed */
+  amount: number;
+  removed: boolean;
+  adjusterAdded: boolean;
+}
+
+export interface ReportBundle {
+  format: 'vehicleclaim.report-bundle';
+  version: 1;
+  exportedAt: string;
+  report: Report;
+  lineItems: ExportLineItem[];
+  /** Amounts are null when the claim was analyzed without a policy */
+  totals: {
+    totalRepairEstimate: number;
+    coveredAmount: number | null;
+    deductible: number | null;
+    estimatedPayout: number | null;
+    /** Whether adjuster overrides are applied */
+    adjusted: boolean;
+  };
+  vehicleVerification: {
+    status: VerificationStatus;
+    confidenceScore: number;
+    videoVehicle: {
+      make?: string;
+      model?: string;
+      year?: number;
+      color?: string;
+      licensePlate?: string;
+      vin?: string;
+    };
+    policyVehicle: {
+      make?: string;
+      model?: string;
+      year?: number;
+      color?: string;
+      licensePlate?: string;
+      vin?: string;
+    };
+    mismatches: string[];
+    notes: string | null;
+  } | null;
+  /** Policy assessment; null when the claim was analyzed without a policy */
+  assessment: {
+    status: AssessmentStatus;
+    coverageTypes: string[];
+    deductibleTypes: string[];
+    deductibleAmounts: number[];
+    exclusions: string[];
+    coverageLimits: {
+      collision: number | null;
+      comprehensive: number | null;
+      liability: number | null;
+    };
+    relevantPolicySections: string[];
+    coveredDamages: string[];
+    excludedDamages: string[];
+    reasoning: string | null;
+    policyReferences: string[];
+    adjustmentNote: string | null;
+  } | null;
+  /** Media manifest; name and the other file details are null when a file is no longer stored */
+  media: {
+    fileId: string;
+    name: string | null;
+    mimeType: string | null;
+    sizeBytes: number | null;
+    /** MD5 of the stored file */
+    checksum: string | null;
+    uploadedAt: string | null;
+    url: string;
+  }[];
+}
+
+export interface ReportBundleResponse {
+  data: ReportBundle;
+}
+
+export type WebhookEvent = 'report.created' | 'report.analyzed' | 'report.flagged' | 'report.status_changed';
+
+export interface WebhookPayload {
+  /** Delivery ID; the same for every retry of a delivery */
+  id: string;
+  event: WebhookEvent | 'test';
+  createdAt: string;
+  data: {
+    report: Report | null;
+    previousStatus?: ClaimStatus | null;
+    reason?: string | null;
+    message?: string;
+  };
+}
+
+export interface ListReportsQuery {
+  /** Page size (1-100) */
+  limit?: number;
+  /** Number of reports to skip. Prefer cursor, which does not shift when new reports arrive */
+  offset?: number;
+  /** nextCursor of the previous page. Stable while new reports arrive; use the same sort as the previous page */
+  cursor?: string;
+  /** Sort field; prefix with - for descending */
+  sort?: 'createdAt' | '-createdAt' | 'estimatedTotalCost' | '-estimatedTotalCost' | 'confidenceScore' | '-confidenceScore';
+  /** Fields to return (id is always included). Comma-separated: id, claimNumber, status, damageType, overallSeverity, estimatedTotalCost, confidenceScore, createdAt, updatedAt, investigation, financials */
+  fields?: string;
+  /** Claim statuses. Comma-separated: pending, analyzed, approved, denied, partial, needs_investigation */
+  status?: string;
+  /** Damage types. Comma-separated: collision, comprehensive, weather, vandalism, unknown */
+  damageType?: string;
+  /** Overall severities. Comma-separated: minor, moderate, severe, total_loss */
+  severity?: string;
+  /** Only reports flagged (true) or not flagged (false) for investigation */
+  investigationNeeded?: 'true' | 'false';
+  /** Created at or after (ISO 8601) */
+  createdAfter?: string;
+  /** Created before (ISO 8601) */
+  createdBefore?: string;
+  /** Minimum estimatedTotalCost */
+  minCost?: number;
+  /** Maximum estimatedTotalCost */
+  maxCost?: number;
+}
+
+export interface ListReportsOptions {
+  /** ETag of a previously fetched page; responds 304 while the page is unchanged */
+  ifNoneMatch?: string;
+}
+
+export interface SubmitReportInput {
+  /** Image files or a single video */
+  media: Blob[];
+  /** Extra photos sent alongside a video */
+  supplementaryPhotos?: Blob[];
+  /** Policy PDF */
+  policy?: Blob;
+  /** File ID of a policy used on an earlier company report (instead of policy) */
+  policyId?: string;
+  country?: string;
+  currency?: string;
+  currencySymbol?: string;
+  /** Incident details as a JSON object: occurredAt (ISO 8601), location, narrative, policeReportNumber, otherParties [{ name, contact, vehicle, insurer }], witnesses [{ name, contact }]. Cross-checked against the damage and the policy period when a policy is sent. */
+  incident?: Blob;
+}
+
+export interface SubmitReportOptions {
+  /** Repeated requests with the same key and the same files and fields return the original report instead of submitting again. A request that fails, or is still unfinished after 10 minutes, can be retried with the same key. */
+  idempotencyKey?: string;
+}
+
+export interface ExportLineItemsCsvQuery {
+  /** First submission day (YYYY-MM-DD, UTC) */
+  from: string;
+  /** Last submission day (YYYY-MM-DD, UTC); at most 366 days after from */
+  to: string;
+}
+
+export interface CreateWidgetTokenInput {
+  reportId: string;
+  /** Origin of the page embedding the widget, e.g. https://portal.example.com */
+  origin: string;
+  /** Token lifetime in seconds (60-3600) */
+  expiresIn?: number;
+  locale?: 'en' | 'es' | 'fr' | 'de';
+  /** ISO 4217 currency code for amounts */
+  currency?: string;
+  theme?: {
+    mode?: 'light' | 'dark';
+    /** Accent color for headings, badges and links */
+    primaryColor?: string;
+    backgroundColor?: string;
+    textColor?: string;
+    /** CSS font-family list; the font must already be available to the browser */
+    fontFamily?: string;
+    /** Corner radius in pixels */
+    borderRadius?: number;
+    /** HTTPS URL of a logo shown in the header */
+    logoUrl?: string;
+    /** Sections to show, in order */
+    sections?: Array<'overview' | 'parts' | 'financials' | 'investigation'>;
+    showPoweredBy?: boolean;
+  };
+}
+
+export interface VehicleClaimClientOptions {
+  /** Base URL of the v1 API, e.g. "https://app.example.com/api/v1" */
+  baseUrl: string;
+  apiKey: string;
+  /** Custom fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Non-2xx response from the API
+ * A request sent with an ifNoneMatch option fails with status 304 while the data is unchanged.
+ */
+export class VehicleClaimApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: ErrorResponse | null
+  ) {
+    super(body?.message ?? `Request failed with HTTP ${status}`);
+    this.name = 'VehicleClaimApiError';
+  }
+}
+
+interface RequestOptions {
+  method: string;
+  query?: object;
+  headers?: Record<string, string | undefined>;
+  formData?: FormData;
+  json?: unknown;
+  binary?: boolean;
+}
+
+function toFormData(input: object): FormData {
+  const formData = new FormData();
+  for (const [field, value] of Object.entries(input)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === undefined || item === null) continue;
+      formData.append(field, item instanceof Blob ? item : String(item));
+    }
+  }
+  return formData;
+}
+
+/**
+ * Create a v1 API client
+ *
+ * @example
+ * const client = createVehicleClaimClient({ baseUrl: 'https://app.example.com/api/v1', apiKey });
+ * const { data } = await client.getReport(reportId);
+ */
+export function createVehicleClaimClient(options: VehicleClaimClientOptions) {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const fetchImpl = options.fetch ?? fetch;
+
+  async function request<T>(
+    urlPath: string,
+    { method, query, headers, formData, json, binary }: RequestOptions
+  ): Promise<T> {
+    const url = new URL(`${baseUrl}${urlPath}`);
+    for (const [name, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) url.searchParams.set(name, String(value));
+    }
+
+    const requestHeaders: Record<string, string> = { Authorization: `Bearer ${options.apiKey}` };
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      if (value !== undefined) requestHeaders[name] = value;
+    }
+    if (json !== undefined) requestHeaders['Content-Type'] = 'application/json';
+
+    const response = await fetchImpl(url, {
+      method,
+      headers: requestHeaders,
+      body: formData ?? (json !== undefined ? JSON.stringify(json) : undefined),
+    });
+
+    if (response.ok && binary) {
+      return (await response.blob()) as T;
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new VehicleClaimApiError(response.status, body);
+    }
+    return body as T;
+  }
+
+  return {
+    /**
+     * List reports
+     * Reports filed with the API key's insurance company. Filter, sort and select fields with the query parameters; page with nextCursor, which stays stable while new reports arrive. Scope: reports:read.
+     */
+    listReports(query: ListReportsQuery = {}, options: ListReportsOptions = {}): Promise<ReportListResponse> {
+      return request<ReportListResponse>(`/reports`, {
+        method: 'GET',
+        query,
+        headers: { 'If-None-Match': options.ifNoneMatch },
+      });
+    },
+
+    /**
+     * Submit a claim for analysis
+     * Stores the media and queues the analysis; poll statusUrl until the status is persisted. The report is owned by the user who created the API key and counts against their daily evaluation limit (an analysis that fails is not counted). Scope: reports:write.
+     */
+    submitReport(input: SubmitReportInput, options: SubmitReportOptions = {}): Promise<SubmissionAcceptedResponse> {
+      return request<SubmissionAcceptedResponse>(`/reports`, {
+        method: 'POST',
+        headers: { 'Idempotency-Key': options.idempotencyKey },
+        formData: toFormData(input),
+      });
+    },
+
+    /**
+     * Get a report
+     * Scope: reports:read.
+     */
+    getReport(id: string): Promise<ReportResponse> {
+      return request<ReportResponse>(`/reports/${encodeURIComponent(id)}`, {
+        method: 'GET',
+      });
+    },
+
+    /**
+     * Download a report as PDF
+     * Rendered with the company's report template (logo, colors and footer disclaimer). Scope: reports:read.
+     */
+    getReportPdf(id: string): Promise<Blob> {
+      return request<Blob>(`/reports/${encodeURIComponent(id)}/pdf`, {
+        method: 'GET',
+        binary: true,
+      });
+    },
+
+    /**
+     * Export a report as a JSON bundle
+     * Report, priced line items with adjuster overrides, vehicle verification, policy and fraud assessments and a manifest of the media files, for import into adjuster systems. Scope: reports:read.
+     */
+    getReportBundle(id: string): Promise<ReportBundleResponse> {
+      return request<ReportBundleResponse>(`/reports/${encodeURIComponent(id)}/bundle`, {
+        method: 'GET',
+      });
+    },
+
+    /**
+     * Export a report as an XML estimate
+     * Claim, vehicle, one LineItem per priced damage line (removed lines are kept with amount 0) and totals after adjuster overrides, in the urn:vehicleclaim:estimate:1 namespace. Scope: reports:read.
+     */
+    getReportEstimateXml(id: string): Promise<Blob> {
+      return request<Blob>(`/reports/${encodeURIComponent(id)}/estimate.xml`, {
+        method: 'GET',
+        binary: true,
+      });
+    },
+
+    /**
+     * Get the analysis status of a submission
+     * Scope: reports:read or reports:write.
+     */
+    getSubmissionStatus(id: string): Promise<SubmissionStatusResponse> {
+      return request<SubmissionStatusResponse>(`/reports/${encodeURIComponent(id)}/status`, {
+        method: 'GET',
+      });
+    },
+
+    /**
+     * Export line items as CSV
+     * One row per priced damage line of the API key's company reports submitted in the date range, oldest report first, with adjuster overrides applied. Scope: reports:read.
+     */
+    exportLineItemsCsv(query: ExportLineItemsCsvQuery): Promise<Blob> {
+      return request<Blob>(`/exports/line-items.csv`, {
+        method: 'GET',
+        query,
+        binary: true,
+      });
+    },
+
+    /**
+     * Issue a widget token
+     * Signs a short-lived token for embedding one report in a page on the given origin. Call this from your backend and use embedUrl as the iframe src; include /api/v1/widget/embed.js on the page to size the iframe to its content. Scope: widget.
+     */
+    createWidgetToken(body: CreateWidgetTokenInput): Promise<WidgetTokenResponse> {
+      return request<WidgetTokenResponse>(`/widget/tokens`, {
+        method: 'POST',
+        json: body,
+      });
+    },
+  };
+}
+
+export type VehicleClaimClient = ReturnType<typeof createVehicleClaimClient>;
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { jwtVerify } from 'jose';
+import { getClientIp, getUserAgent } from '@/lib/utils/requestContext';
 
 export async function proxy(request: NextRequest) {
   const start = Date.now();
@@ -8,11 +9,8 @@ export async function proxy(request: NextRequest) {
 
   const { pathname } = request.nextUrl;
   const method = request.method;
-  const ip =
-    request.headers.get('x-forwarded-for')?.split(',')[0].trim() ??
-    request.headers.get('x-real-ip') ??
-    'unknown';
-  const userAgent = request.headers.get('user-agent') ?? '';
+  const ip = getClientIp(request.headers);
+  const userAgent = getUserAgent(request.headers);
 
   let authenticated = false;
   let userId: string | null = null;
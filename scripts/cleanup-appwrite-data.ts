@@ -37,6 +37,21 @@ const COLLECTIONS: Record<string, string | undefined> = {
   FEEDBACK: process.env.FEEDBACK_COLLECTION_ID,
   NOTIFICATIONS: process.env.NOTIFICATIONS_COLLECTION_ID,
   NEWS_POSTS: process.env.NEWS_POSTS_COLLECTION_ID,
+  RATE_LIMIT_EVENTS: process.env.RATE_LIMIT_EVENTS_COLLECTION_ID,
+  ANALYSIS_JOBS: process.env.ANALYSIS_JOBS_COLLECTION_ID,
+  ANALYSIS_JOB_CLAIMS: process.env.ANALYSIS_JOB_CLAIMS_COLLECTION_ID,
+  REPORT_STATUS_HISTORY: process.env.REPORT_STATUS_HISTORY_COLLECTION_ID,
+  REPORT_COMMENTS: process.env.REPORT_COMMENTS_COLLECTION_ID,
+  API_KEYS: process.env.API_KEYS_COLLECTION_ID,
+  API_IDEMPOTENCY_KEYS: process.env.API_IDEMPOTENCY_KEYS_COLLECTION_ID,
+  WEBHOOK_ENDPOINTS: process.env.WEBHOOK_ENDPOINTS_COLLECTION_ID,
+  WEBHOOK_DELIVERIES: process.env.WEBHOOK_DELIVERIES_COLLECTION_ID,
+  WEBHOOK_DELIVERY_CLAIMS: process.env.WEBHOOK_DELIVERY_CLAIMS_COLLECTION_ID,
+  API_USAGE_DAILY: process.env.API_USAGE_DAILY_COLLECTION_ID,
+  REPORT_TEMPLATES: process.env.REPORT_TEMPLATES_COLLECTION_ID,
+  FRAUD_SCORING_CONFIGS: process.env.FRAUD_SCORING_CONFIGS_COLLECTION_ID,
+  MEDIA_FINGERPRINTS: process.env.MEDIA_FINGERPRINTS_COLLECTION_ID,
+  POLICIES: process.env.POLICIES_COLLECTION_ID,
 };
 
 // Storage bucket (typo preserved from Appwrite setup)
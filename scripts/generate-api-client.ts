@@ -0,0 +1,387 @@
+/**
+ * v1 API Client Generator
+ *
+ * Writes the OpenAPI document and a typed fetch client to packages/api-client,
+ * both generated from the zod schemas in lib/api/schemas.ts. Re-run after
+ * changing the API contract and commit the output; a diff in the generated
+ * types is a change integrators will see.
+ *
+ * Usage:
+ *   npm run api:client
+ *   npm run api:client -- --check   (exit 1 if the generated files are stale)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { buildOpenApiDocument } from '../lib/api/openapi';
+
+type JsonSchema = {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  description?: string;
+  contentMediaType?: string;
+};
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required?: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  parameters?: Parameter[];
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+const OUTPUT_DIR = path.join(process.cwd(), 'packages', 'api-client');
+const HEADER = '// Generated by scripts/generate-api-client.ts from lib/api/schemas.ts - do not edit.\n';
+
+/**
+ * JSON Schema → TypeScript type expression
+ */
+function toTsType(schema: JsonSchema, indent = ''): string {
+  if (schema.$ref) {
+    return schema.$ref.split('/').pop()!;
+  }
+  if (schema.const !== undefined) {
+    return toTsLiteral(schema.const);
+  }
+  if (schema.enum) {
+    return schema.enum.map(toTsLiteral).join(' | ');
+  }
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    return variants.map((variant) => toTsType(variant, indent)).join(' | ');
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type) => toTsType({ ...schema, type }, indent)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return schema.contentMediaType ? 'Blob' : 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = toTsType(schema.items ?? {}, indent);
+      return item.includes(' ') && !item.startsWith('{') ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'object':
+      return toTsObject(schema, indent);
+    default:
+      return 'unknown';
+  }
+}
+
+function toTsObject(schema: JsonSchema, indent: string): string {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) {
+    return 'Record<string, unknown>';
+  }
+
+  const inner = `${indent}  `;
+  const lines = properties.map(([name, property]) => {
+    const optional = schema.required?.includes(name) ? '' : '?';
+    const doc = property.description ? `${inner}/** ${property.description} */\n` : '';
+    return `${doc}${inner}${quoteKey(name)}${optional}: ${toTsType(property, inner)};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function toTsLiteral(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/['\\]/g, '\\$&')}'` : JSON.stringify(value);
+}
+
+function quoteKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : toTsLiteral(name);
+}
+
+function pascalCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function camelCase(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[-_]+([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Types for each component schema
+ */
+function generateTypes(schemas: Record<string, JsonSchema>): string {
+  return Object.entries(schemas)
+    .map(([name, schema]) => {
+      const doc = schema.description ? `/** ${schema.description} */\n` : '';
+      const body = toTsType(schema);
+      return schema.type === 'object' && !schema.anyOf
+        ? `${doc}export interface ${name} ${body}\n`
+        : `${doc}export type ${name} = ${body};\n`;
+    })
+    .join('\n');
+}
+
+/**
+ * One client method (and its input types) per operation
+ */
+function generateOperation(pathTemplate: string, method: string, operation: Operation) {
+  const name = operation.operationId;
+  const parameters = operation.parameters ?? [];
+  const pathParams = parameters.filter((p) => p.in === 'path');
+  const queryParams = parameters.filter((p) => p.in === 'query');
+  const headerParams = parameters.filter((p) => p.in === 'header');
+
+  const success = Object.entries(operation.responses).find(([status]) => status.startsWith('2'));
+  const responseSchema = success?.[1].content?.['application/json']?.schema;
+  // Files (e.g. application/pdf) are returned as a Blob
+  const binary = !responseSchema && Object.keys(success?.[1].content ?? {}).length > 0;
+  const responseType = responseSchema ? toTsType(responseSchema) : binary ? 'Blob' : 'void';
+
+  const types: string[] = [];
+  const args: string[] = pathParams.map((p) => `${p.name}: string`);
+
+  const multipart = operation.requestBody?.content['multipart/form-data']?.schema;
+  const jsonBody = operation.requestBody?.content['application/json']?.schema;
+  if (multipart) {
+    types.push(`export interface ${pascalCase(name)}Input ${toTsObject(multipart, '')}\n`);
+    args.push(`input: ${pascalCase(name)}Input`);
+  } else if (jsonBody?.type === 'object') {
+    types.push(`export interface ${pascalCase(name)}Input ${toTsObject(jsonBody, '')}\n`);
+    args.push(`body: ${pascalCase(name)}Input`);
+  } else if (jsonBody) {
+    args.push(`body: ${toTsType(jsonBody)}`);
+  }
+
+  if (queryParams.length > 0) {
+    types.push(
+      `export interface ${pascalCase(name)}Query ${toTsObject(
+        {
+          properties: Object.fromEntries(
+            queryParams.map((p) => [p.name, { ...p.schema, description: p.description }])
+          ),
+          required: queryParams.filter((p) => p.required).map((p) => p.name),
+        },
+        ''
+      )}\n`
+    );
+    const queryRequired = queryParams.some((p) => p.required);
+    args.push(`query: ${pascalCase(name)}Query${queryRequired ? '' : ' = {}'}`);
+  }
+
+  if (headerParams.length > 0) {
+    types.push(
+      `export interface ${pascalCase(name)}Options ${toTsObject(
+        {
+          properties: Object.fromEntries(
+            headerParams.map((p) => [camelCase(p.name), { ...p.schema, description: p.description }])
+          ),
+          required: headerParams.filter((p) => p.required).map((p) => camelCase(p.name)),
+        },
+        ''
+      )}\n`
+    );
+    args.push(`options: ${pascalCase(name)}Options = {}`);
+  }
+
+  const urlPath = pathTemplate.replace(/\{(\w+)\}/g, (_, param: string) => `\${encodeURIComponent(${param})}`);
+  const requestLines = [`        method: '${method.toUpperCase()}',`];
+  if (queryParams.length > 0) requestLines.push('        query,');
+  if (headerParams.length > 0) {
+    const headers = headerParams.map((p) => `'${p.name}': options.${camelCase(p.name)}`).join(', ');
+    requestLines.push(`        headers: { ${headers} },`);
+  }
+  if (multipart) requestLines.push('        formData: toFormData(input),');
+  if (jsonBody) requestLines.push('        json: body,');
+  if (binary) requestLines.push('        binary: true,');
+
+  const doc = [operation.summary, operation.description].filter(Boolean).join('\n     * ');
+  const methodSource = `    /**
+     * ${doc}
+     */
+    ${name}(${args.join(', ')}): Promise<${responseType}> {
+      return request<${responseType}>(\`${urlPath}\`, {
+${requestLines.join('\n')}
+      });
+    },`;
+
+  return { types, methodSource };
+}
+
+const RUNTIME = `export interface VehicleClaimClientOptions {
+  /** Base URL of the v1 API, e.g. "https://app.example.com/api/v1" */
+  baseUrl: string;
+  apiKey: string;
+  /** Custom fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Non-2xx response from the API
+ * A request sent with an ifNoneMatch option fails with status 304 while the data is unchanged.
+ */
+export class VehicleClaimApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: ErrorResponse | null
+  ) {
+    super(body?.message ?? \`Request failed with HTTP \${status}\`);
+    this.name = 'VehicleClaimApiError';
+  }
+}
+
+interface RequestOptions {
+  method: string;
+  query?: object;
+  headers?: Record<string, string | undefined>;
+  formData?: FormData;
+  json?: unknown;
+  binary?: boolean;
+}
+
+function toFormData(input: object): FormData {
+  const formData = new FormData();
+  for (const [field, value] of Object.entries(input)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === undefined || item === null) continue;
+      formData.append(field, item instanceof Blob ? item : String(item));
+    }
+  }
+  return formData;
+}
+`;
+
+/**
+ * Pages meant for browsers (e.g. the widget iframe) rather than API calls
+ */
+function isPageOperation(operation: Operation): boolean {
+  return Object.values(operation.responses).some((response) => response.content?.['text/html']);
+}
+
+/**
+ * Client module source
+ */
+function generateClient(document: ReturnType<typeof buildOpenApiDocument>): string {
+  const operations = Object.entries(document.paths as unknown as Record<string, Record<string, Operation>>).flatMap(
+    ([pathTemplate, methods]) =>
+      Object.entries(methods)
+        .filter(([, operation]) => !isPageOperation(operation))
+        .map(([method, operation]) => generateOperation(pathTemplate, method, operation))
+  );
+
+  return `${HEADER}
+export const API_VERSION = ${toTsLiteral(document.info.version)};
+
+${generateTypes(document.components.schemas as Record<string, JsonSchema>)}
+${operations.flatMap((operation) => operation.types).join('\n')}
+${RUNTIME}
+/**
+ * Create a v1 API client
+ *
+ * @example
+ * const client = createVehicleClaimClient({ baseUrl: 'https://app.example.com/api/v1', apiKey });
+ * const { data } = await client.getReport(reportId);
+ */
+export function createVehicleClaimClient(options: VehicleClaimClientOptions) {
+  const baseUrl = options.baseUrl.replace(/\\/+$/, '');
+  const fetchImpl = options.fetch ?? fetch;
+
+  async function request<T>(
+    urlPath: string,
+    { method, query, headers, formData, json, binary }: RequestOptions
+  ): Promise<T> {
+    const url = new URL(\`\${baseUrl}\${urlPath}\`);
+    for (const [name, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) url.searchParams.set(name, String(value));
+    }
+
+    const requestHeaders: Record<string, string> = { Authorization: \`Bearer \${options.apiKey}\` };
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      if (value !== undefined) requestHeaders[name] = value;
+    }
+    if (json !== undefined) requestHeaders['Content-Type'] = 'application/json';
+
+    const response = await fetchImpl(url, {
+      method,
+      headers: requestHeaders,
+      body: formData ?? (json !== undefined ? JSON.stringify(json) : undefined),
+    });
+
+    if (response.ok && binary) {
+      return (await response.blob()) as T;
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new VehicleClaimApiError(response.status, body);
+    }
+    return body as T;
+  }
+
+  return {
+${operations.map((operation) => operation.methodSource).join('\n\n')}
+  };
+}
+
+export type VehicleClaimClient = ReturnType<typeof createVehicleClaimClient>;
+`;
+}
+
+async function main() {
+  const check = process.argv.includes('--check');
+
+  // The server URL is filled in per request when served; integrators pass their own baseUrl
+  const document = buildOpenApiDocument('/api/v1');
+
+  const files: Record<string, string> = {
+    'openapi.json': `${JSON.stringify(document, null, 2)}\n`,
+    'src/index.ts': generateClient(document),
+  };
+
+  let stale = false;
+  for (const [file, content] of Object.entries(files)) {
+    const filePath = path.join(OUTPUT_DIR, file);
+    const existing = await fs.readFile(filePath, 'utf-8').catch(() => null);
+    if (existing === content) continue;
+
+    stale = true;
+    if (check) {
+      console.error(`❌ ${path.relative(process.cwd(), filePath)} is out of date`);
+    } else {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+      console.log(`✓ Wrote ${path.relative(process.cwd(), filePath)}`);
+    }
+  }
+
+  if (check && stale) {
+    console.error('\n💡 Run npm run api:client and commit the result');
+    process.exit(1);
+  }
+  if (!stale) {
+    console.log('✓ API client is up to date');
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to generate API client:', error);
+  process.exit(1);
+});